@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
 import Header from './components/Header';
-import { EmployeeListsProvider } from './context/EmployeeListsContext';
+import { EmployeeListsProvider, useEmployeeLists } from './context/EmployeeListsContext';
 import { RulesProvider } from './context/RulesContext';
 import { ShiftProvider } from './context/ShiftContext';
 import { PersonnelDataProvider } from './context/PersonnelDataContext';
 import { ShiftPrioritiesProvider } from './context/ShiftPrioritiesContext';
 import { SelectedEmployeesProvider } from './context/SelectedEmployeesContext';
+import { useAuth } from './context/AuthContext';
 import EmployeeScheduleTable from './components/EmployeeScheduleProvisional';
 import ShiftConfiguration from './components/ShiftConfiguration';
 import ShiftRules from './components/ShiftRulesForAllEmployees';
@@ -13,11 +14,38 @@ import SelectEmployeesForThisCombinationWorkingHours from './components/SelectEm
 import AddEmployees from './components/AddEmployees';
 import PersonnelTable from './components/IdealNumberOfPersonnelPerShiftAndDay';
 import ScheduleRulesTable from './components/ScheduleRulesTable';
+import EmployeeSelfService from './components/EmployeeSelfService';
+import LeaveRequestQueue from './components/LeaveRequestQueue';
+import SchedulePublishing from './components/SchedulePublishing';
+import NotificationInbox from './components/NotificationInbox';
+import HolidayCalendar from './components/HolidayCalendar';
+import LaborCost from './components/LaborCost';
+import EmployeeSkills from './components/EmployeeSkills';
+import CertificationExpiry from './components/CertificationExpiry';
 
 export type ActiveView = 'all' | 'schedule' | 'employees' | 'personnel' | 'rules';
 
+// Estado de la sincronización de listas con el servidor
+function ListsSyncStatus() {
+  const { isLoading, syncError } = useEmployeeLists();
+
+  if (isLoading) {
+    return <div className="px-8 py-2 text-sm text-gray-600">Loading employee lists...</div>;
+  }
+  if (syncError) {
+    return (
+      <div className="mx-8 my-2 px-4 py-2 rounded bg-red-100 text-red-700 text-sm">
+        Changes could not be synchronized with the server: {syncError}
+      </div>
+    );
+  }
+  return null;
+}
+
 function App() {
   const [activeView, setActiveView] = useState<ActiveView>('all');
+  // Los empleados solo consultan su horario
+  const { canEditSchedule } = useAuth();
 
   return (
     <EmployeeListsProvider>
@@ -28,24 +56,57 @@ function App() {
               <SelectedEmployeesProvider>
                 <div className="min-h-screen bg-gray-100">
                   <Header onViewChange={setActiveView} />
+                  <ListsSyncStatus />
                   <div className="px-8">
-                    {activeView === 'all' && (
+                    {/* Los empleados reciben del servidor solo el horario publicado */}
+                    {!canEditSchedule && (
+                      <>
+                        <NotificationInbox />
+                        <EmployeeSelfService />
+                        <EmployeeScheduleTable />
+                      </>
+                    )}
+                    {canEditSchedule && activeView === 'all' && (
                       <>
                         <div className="flex justify-between">
                           <ShiftConfiguration />
                           <ShiftRules />
                         </div>
                         <SelectEmployeesForThisCombinationWorkingHours />
+                        <LeaveRequestQueue />
                         <AddEmployees />
+                        <EmployeeSkills />
+                        <CertificationExpiry />
                         <PersonnelTable />
+                        <HolidayCalendar />
                         <ScheduleRulesTable />
+                        <SchedulePublishing />
                         <EmployeeScheduleTable />
+                        <LaborCost />
+                      </>
+                    )}
+                    {canEditSchedule && activeView === 'schedule' && (
+                      <>
+                        <SchedulePublishing />
+                        <EmployeeScheduleTable />
+                        <LaborCost />
+                      </>
+                    )}
+                    {canEditSchedule && activeView === 'employees' && (
+                      <>
+                        <LeaveRequestQueue />
+                        <AddEmployees />
+                        <EmployeeSkills />
+                        <CertificationExpiry />
+                      </>
+                    )}
+                    {canEditSchedule && activeView === 'personnel' && <PersonnelTable />}
+                    {canEditSchedule && activeView === 'rules' && (
+                      <>
+                        <HolidayCalendar />
+                        <ScheduleRulesTable />
                       </>
                     )}
-                    {activeView === 'schedule' && <EmployeeScheduleTable />}
-                    {activeView === 'employees' && <AddEmployees />}
-                    {activeView === 'personnel' && <PersonnelTable />}
-                    {activeView === 'rules' && <ScheduleRulesTable />}
                   </div>
                 </div>
               </SelectedEmployeesProvider>
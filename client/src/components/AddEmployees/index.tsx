@@ -10,6 +10,12 @@ import BlockShiftModal from '../BlockShiftModal';
 import AssignPermanentShiftsModal from '../AssignPermanentShiftsModal';
 import PreferenceManager from '../PreferenceManager';
 import LeaveModal from '../LeaveModal';
+import ImportEmployeesModal from '../ImportEmployeesModal';
+import type { Employee as ListEmployee } from '../../types/common';
+import { fetchEmployeeAccounts, linkEmployeeAccount } from '../../lib/employeeListsApi';
+import { submitLeaveRequest } from '../../lib/leaveRequestsApi';
+import { getApiErrorMessage } from '../../lib/queryClient';
+import type { ScheduleRotation } from '@shared/schedule';
 import { ChevronDown, AlertCircle, Loader2, Edit2 } from 'lucide-react';
 
 // Interfaz Employee (Debe coincidir con la del contexto)
@@ -20,6 +26,7 @@ interface Employee {
   phone: string;
   hireDate: string;
   fixedShifts: { [day: string]: string[] };
+  rotation?: ScheduleRotation;
   maxConsecutiveShifts: number;
   shiftPreferences: (number | null)[];
   leave: { id: string; startDate: string; endDate: string; leaveType: string; hoursPerDay: number }[];
@@ -159,7 +166,7 @@ interface NewEmployeeForm {
 
 const AddEmployees: React.FC = () => {
   const { shifts } = useShiftContext(); 
-  const { getCurrentList, updateList, refreshTrigger } = useEmployeeLists();
+  const { getCurrentList, updateList, applyServerChange, refreshTrigger } = useEmployeeLists();
   const { rules } = useRules();
   
   // Estado para controlar la visibilidad de la tabla (igual que ScheduleRulesTable)
@@ -203,6 +210,7 @@ const AddEmployees: React.FC = () => {
   // Importar funciones del contexto de selección
   const { toggleEmployeeSelection, toggleAllEmployees } = useSelectedEmployees();
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [leaveModalState, setLeaveModalState] = useState<{ isOpen: boolean; employeeIndex: number | null }>({
     isOpen: false,
     employeeIndex: null
@@ -318,6 +326,34 @@ const AddEmployees: React.FC = () => {
   const currentEmployeeList = localEmployeeList;
   const employees = localEmployees;
 
+  // Cuentas de usuario vinculadas (employeeId -> username)
+  const [accounts, setAccounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!currentEmployeeList?.id) return;
+    fetchEmployeeAccounts(currentEmployeeList.id)
+      .then(list => setAccounts(Object.fromEntries(list.map(account => [account.employeeId, account.username]))))
+      .catch(error => console.error('Error loading employee accounts:', error));
+  }, [currentEmployeeList?.id]);
+
+  // Vincula el empleado con una cuenta (vacío desvincula) para que pueda entrar a ver su horario
+  const handleLinkAccount = async (employeeIndex: number, username: string) => {
+    if (!currentEmployeeList) return;
+    const employee = employees[employeeIndex];
+    try {
+      await applyServerChange(currentEmployeeList.id, () => linkEmployeeAccount(currentEmployeeList.id, employee.id, username.trim() || null));
+      setAccounts(prev => {
+        const next = { ...prev };
+        if (username.trim()) next[employee.id] = username.trim();
+        else delete next[employee.id];
+        return next;
+      });
+      setFormError(null);
+    } catch (error) {
+      setFormError(`Could not link the account of ${employee.name}: ${getApiErrorMessage(error)}`);
+    }
+  };
+
 
   const formatDateInput = (value: string) => {
     const numbers = value.replace(/\D/g, '');
@@ -393,6 +429,16 @@ const AddEmployees: React.FC = () => {
     }
   };
 
+  // Añade de una vez los empleados válidos de la importación CSV/XLSX y los selecciona
+  const handleImportEmployees = (importedEmployees: ListEmployee[]) => {
+    if (!currentEmployeeList || importedEmployees.length === 0) return;
+    const updatedEmployees = [...employees, ...importedEmployees];
+    setSelectedEmployeeIds(prev => [...prev, ...importedEmployees.map(emp => emp.id)]);
+    setLocalEmployees(updatedEmployees);
+    updateList(currentEmployeeList.id, { employees: updatedEmployees });
+    setFormError(null);
+  };
+
   // Keep the updateEmployeeProperty function - it uses shallow copies which is standard for object updates
   const updateEmployeeProperty = (employeeIndex: number, property: keyof Employee, value: any) => {
     if (currentEmployeeList) {
@@ -488,24 +534,32 @@ const AddEmployees: React.FC = () => {
     updateEmployeeProperty(employeeIndex, 'shiftPreferences', newPreferences); // Standard shallow update
   };
 
-  const handleAddLeave = (employeeIndex: number, leaveData: { startDate: string; endDate: string; type: string; hoursPerDay: number }) => {
-    if (currentEmployeeList) {
-      const newLeaveEntry = { ...leaveData, id: crypto.randomUUID(), leaveType: leaveData.type };
-      const employeeToUpdate = employees[employeeIndex];
-      const updatedLeave = [...(employeeToUpdate.leave || []), newLeaveEntry];
-       // Deep copy here if needed for leave updates too
-      // const updatedLeaveDeepCopy = JSON.parse(JSON.stringify(updatedLeave));
-      // updateEmployeeProperty(employeeIndex, 'leave', updatedLeaveDeepCopy);
-      updateEmployeeProperty(employeeIndex, 'leave', updatedLeave); // Standard shallow update
+  // La ausencia queda pendiente en la bandeja de aprobación; no se escribe en employee.leave
+  const handleAddLeave = async (employeeIndex: number, leaveData: { startDate: string; endDate: string; type: string; hoursPerDay: number; reason: string }) => {
+    if (!currentEmployeeList) return;
+    const employee = employees[employeeIndex];
+    try {
+      await submitLeaveRequest(currentEmployeeList.id, {
+        employeeId: employee.id,
+        startDate: leaveData.startDate,
+        endDate: leaveData.endDate,
+        leaveType: leaveData.type,
+        hoursPerDay: leaveData.hoursPerDay,
+        reason: leaveData.reason || undefined
+      });
+      setFormError(null);
+    } catch (error) {
+      setFormError(`Could not request leave for ${employee.name}: ${getApiErrorMessage(error)}`);
     }
   };
 
-  const handleSaveFixedShifts = (fixedShifts: { [day: string]: string[] }) => {
+  const handleSaveFixedShifts = (fixedShifts: { [day: string]: string[] }, rotation: ScheduleRotation | undefined) => {
     if (assignShiftsModalState.employeeIndex === null || !currentEmployeeList) return;
-    // Deep copy here if needed for fixed shifts updates too
-    // const fixedShiftsDeepCopy = JSON.parse(JSON.stringify(fixedShifts));
-    // updateEmployeeProperty(assignShiftsModalState.employeeIndex, 'fixedShifts', fixedShiftsDeepCopy);
-    updateEmployeeProperty(assignShiftsModalState.employeeIndex, 'fixedShifts', fixedShifts); // Standard shallow update
+    const employeeIndex = assignShiftsModalState.employeeIndex;
+    // Turnos fijos y rotación se guardan en un solo cambio (un solo paso de deshacer)
+    updateList(currentEmployeeList.id, {
+      employees: employees.map((emp, idx) => (idx === employeeIndex ? { ...emp, fixedShifts, rotation } : emp))
+    });
   };
   
   // Estas funciones ahora vienen del contexto de SelectedEmployees
@@ -638,7 +692,7 @@ const AddEmployees: React.FC = () => {
               className="w-full border border-gray-300 rounded px-3 py-2"
             />
           </div>
-          <div className="flex items-end">
+          <div className="flex items-end gap-2">
             <button 
               onClick={handleAddEmployee}
               className="w-full bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 transition-colors font-semibold"
@@ -646,6 +700,13 @@ const AddEmployees: React.FC = () => {
             >
               Add Employee
             </button>
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="w-full bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 transition-colors font-semibold"
+              disabled={!currentEmployeeList}
+            >
+              Import CSV/XLSX
+            </button>
           </div>
         </div>
       </div>
@@ -741,6 +802,15 @@ const AddEmployees: React.FC = () => {
                         />
                       </div>
                     </div>
+                    <div className="bg-gray-100 p-2 rounded border border-gray-200" title="Username the employee logs in with to see their own schedule">
+                      <div className="flex items-center gap-2 w-full">
+                        <label className="text-xs text-gray-500 w-24">Account:</label>
+                        <EditableField
+                          value={accounts[employee.id] || ''}
+                          onChange={(value) => handleLinkAccount(index, value)}
+                        />
+                      </div>
+                    </div>
                   </div>
                 </td>
                 <td className="w-1/4 px-4 py-3 border-r border-gray-300">
@@ -935,6 +1005,14 @@ const AddEmployees: React.FC = () => {
           }}
         />
       )}
+      <ImportEmployeesModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        existingEmployees={employees}
+        shifts={shifts}
+        maxConsecutiveShifts={parseInt(rules.maxConsecutiveShifts) || 5}
+        onImport={handleImportEmployees}
+      />
       <DatePickerModal
         isOpen={isDatePickerOpen}
         onClose={() => setIsDatePickerOpen(false)}
@@ -962,6 +1040,7 @@ const AddEmployees: React.FC = () => {
             employeeName={employees[assignShiftsModalState.employeeIndex].name}
             shifts={shifts} // Assuming shifts are available
             initialFixedShifts={employees[assignShiftsModalState.employeeIndex].fixedShifts}
+            initialRotation={employees[assignShiftsModalState.employeeIndex].rotation}
             onSave={handleSaveFixedShifts}
         />
       )}
@@ -1,14 +1,23 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { ShiftRow } from '../../context/ShiftContext';
+import { DAY_OFF, ScheduleRotation } from '@shared/schedule';
+import {
+  CUSTOM_ROTATION_ID,
+  MAX_ROTATION_CYCLE_DAYS,
+  ROTATION_TEMPLATES,
+  buildRotationFromTemplate,
+  resizeRotation
+} from '@shared/rotation';
 
 interface AssignPermanentShiftsModalProps {
   isOpen: boolean;
   onClose: () => void;
   employeeName: string;
   shifts: ShiftRow[];
-  onSave: (fixedShifts: { [day: string]: string[] }) => void;
+  onSave: (fixedShifts: { [day: string]: string[] }, rotation: ScheduleRotation | undefined) => void;
   initialFixedShifts?: { [day: string]: string[] };
+  initialRotation?: ScheduleRotation;
 }
 
 const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -19,9 +28,15 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
   employeeName,
   shifts,
   onSave,
-  initialFixedShifts = {}
+  initialFixedShifts = {},
+  initialRotation
 }) => {
   const [selectedShifts, setSelectedShifts] = useState<{ [day: string]: string[] }>(initialFixedShifts);
+  // Rotación de varias semanas; desde su fecha de inicio sustituye a los turnos fijos semanales
+  const [rotation, setRotation] = useState<ScheduleRotation | undefined>(initialRotation);
+  const [rotationShiftId, setRotationShiftId] = useState<string>(
+    initialRotation?.days.find(day => day && day !== DAY_OFF) || shifts[0]?.id || ''
+  );
 
   const handleShiftChange = (day: string, value: string) => {
     setSelectedShifts(prev => ({
@@ -30,8 +45,36 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
     }));
   };
 
+  const handleTemplateChange = (templateId: string) => {
+    if (!templateId) {
+      setRotation(undefined);
+      return;
+    }
+    const anchorDate = rotation?.anchorDate || '';
+    const template = ROTATION_TEMPLATES.find(t => t.id === templateId);
+    setRotation(template
+      ? buildRotationFromTemplate(template, rotationShiftId, anchorDate)
+      : resizeRotation(rotation || { templateId: CUSTOM_ROTATION_ID, anchorDate, days: [] }, rotation?.days.length || 14));
+  };
+
+  // En las plantillas todos los días de trabajo usan el mismo turno
+  const handleRotationShiftChange = (shiftId: string) => {
+    setRotationShiftId(shiftId);
+    const template = ROTATION_TEMPLATES.find(t => t.id === rotation?.templateId);
+    if (rotation && template) setRotation(buildRotationFromTemplate(template, shiftId, rotation.anchorDate));
+  };
+
+  const handleRotationDayChange = (index: number, value: string) => {
+    if (!rotation) return;
+    setRotation({
+      ...rotation,
+      templateId: CUSTOM_ROTATION_ID,
+      days: rotation.days.map((day, i) => (i === index ? value : day))
+    });
+  };
+
   const handleSave = () => {
-    onSave(selectedShifts);
+    onSave(selectedShifts, rotation);
     onClose();
   };
 
@@ -39,7 +82,7 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-[500px] max-h-[90vh] overflow-y-auto relative">
+      <div className="bg-white rounded-lg p-6 w-[640px] max-h-[90vh] overflow-y-auto relative">
         <button
           onClick={onClose}
           className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
@@ -62,8 +105,8 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
               >
                 <option value="">Select shift or day off</option>
                 <option value="day-off">Day Off</option>
-                {shifts.map((shift, index) => (
-                  <option key={index} value={`uid_${Math.random().toString(36).substr(2, 15)}`}>
+                {shifts.map((shift) => (
+                  <option key={shift.id} value={shift.id}>
                     {shift.startTime} - {shift.endTime}
                   </option>
                 ))}
@@ -72,6 +115,95 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
           ))}
         </div>
 
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <h3 className="text-lg font-bold mb-1">Multi-week Rotation</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            From its start date on, the rotation replaces the weekly fixed shifts above and repeats every cycle.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <label>
+              <span className="block font-medium mb-1">Template</span>
+              <select
+                value={rotation?.templateId || ''}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className="w-full border border-gray-300 rounded px-3 py-2"
+              >
+                <option value="">No rotation</option>
+                {ROTATION_TEMPLATES.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+                <option value={CUSTOM_ROTATION_ID}>Custom</option>
+              </select>
+            </label>
+            <label>
+              <span className="block font-medium mb-1">Working Shift</span>
+              <select
+                value={rotationShiftId}
+                onChange={(e) => handleRotationShiftChange(e.target.value)}
+                disabled={!rotation || rotation.templateId === CUSTOM_ROTATION_ID}
+                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+              >
+                {shifts.map((shift) => (
+                  <option key={shift.id} value={shift.id}>
+                    {shift.startTime} - {shift.endTime}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className="block font-medium mb-1">Start Date (Day 1)</span>
+              <input
+                type="date"
+                value={rotation?.anchorDate || ''}
+                onChange={(e) => rotation && setRotation({ ...rotation, anchorDate: e.target.value })}
+                disabled={!rotation}
+                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+              />
+            </label>
+            <label>
+              <span className="block font-medium mb-1">Cycle Length (days)</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_ROTATION_CYCLE_DAYS}
+                value={rotation?.days.length || ''}
+                onChange={(e) => rotation && setRotation(resizeRotation(rotation, Number(e.target.value)))}
+                disabled={!rotation}
+                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+              />
+            </label>
+          </div>
+
+          {rotation && (
+            <>
+              {ROTATION_TEMPLATES.find(t => t.id === rotation.templateId) && (
+                <p className="text-sm text-gray-600 mt-3">
+                  {ROTATION_TEMPLATES.find(t => t.id === rotation.templateId)!.description}
+                </p>
+              )}
+              <div className="grid grid-cols-7 gap-2 mt-3">
+                {rotation.days.map((day, index) => (
+                  <label key={index} className="text-xs">
+                    <span className="block text-gray-600">Day {index + 1}</span>
+                    <select
+                      value={day}
+                      onChange={(e) => handleRotationDayChange(index, e.target.value)}
+                      className={`w-full border rounded px-1 py-1 ${day && day !== DAY_OFF ? 'border-green-400 bg-green-50' : 'border-gray-300'}`}
+                    >
+                      <option value="">—</option>
+                      <option value={DAY_OFF}>Off</option>
+                      {shifts.map((shift) => (
+                        <option key={shift.id} value={shift.id}>{shift.startTime}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
         <div className="flex justify-end gap-2 mt-6">
           <button
             onClick={onClose}
@@ -81,7 +213,9 @@ const AssignPermanentShiftsModal: React.FC<AssignPermanentShiftsModalProps> = ({
           </button>
           <button
             onClick={handleSave}
-            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+            disabled={!!rotation && !rotation.anchorDate}
+            title={rotation && !rotation.anchorDate ? 'Choose the start date of the rotation' : undefined}
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
           >
             Save Fixed Shifts
           </button>
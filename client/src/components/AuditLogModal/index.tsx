@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertCircle, ChevronDown } from 'lucide-react';
+import { auditFields, type AuditField } from '@shared/auditLog';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { getApiErrorMessage } from '../../lib/queryClient';
+import { AuditEvent, fetchAuditEvents } from '../../lib/auditApi';
+import { AUDIT_FIELD_LABELS, describeAuditValue } from '../../utils/auditEvents';
+
+interface AuditLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString([], {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+// Día o rango afectado por el evento (vacío en reglas, turnos fijos, etc.)
+const formatEventDates = (event: AuditEvent) => {
+  if (!event.date) return '';
+  return event.endDate && event.endDate !== event.date ? `${event.date} – ${event.endDate}` : event.date;
+};
+
+// Registro de auditoría guardado en el servidor: quién cambió cada turno, ausencia o regla
+// de la lista actual, filtrable por empleado, fecha y tipo de cambio
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ isOpen, onClose }) => {
+  const { getCurrentList } = useEmployeeLists();
+  const [employeeId, setEmployeeId] = useState('');
+  const [date, setDate] = useState('');
+  const [field, setField] = useState<AuditField | ''>('');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentList = getCurrentList();
+
+  useEffect(() => {
+    if (!isOpen || !currentList) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchAuditEvents(currentList.id, { employeeId, date, field: field || undefined })
+      .then(result => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getApiErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, currentList?.id, employeeId, date, field]);
+
+  if (!isOpen || !currentList) return null;
+
+  const getEmployeeName = (id: string | null) =>
+    id ? currentList.employees.find(e => e.id === id)?.name || id : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[1000px] max-h-[85vh] overflow-y-auto relative shadow-xl font-['Viata']">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-1">Audit Log</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Every saved change to the shifts, leave, fixed and blocked shifts, shift definitions and rules of {currentList.name}.
+        </p>
+
+        <div className="flex flex-wrap gap-3 mb-4 text-sm">
+          <label>
+            <span className="block text-gray-700 mb-1">Employee</span>
+            <div className="relative">
+              <select
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="appearance-none bg-white border border-gray-300 rounded px-2 py-1 pr-8"
+              >
+                <option value="">All employees</option>
+                {currentList.employees.map(employee => (
+                  <option key={employee.id} value={employee.id}>{employee.name}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none" />
+            </div>
+          </label>
+          <label>
+            <span className="block text-gray-700 mb-1">Date</span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+          <label>
+            <span className="block text-gray-700 mb-1">Change</span>
+            <div className="relative">
+              <select
+                value={field}
+                onChange={(e) => setField(e.target.value as AuditField | '')}
+                className="appearance-none bg-white border border-gray-300 rounded px-2 py-1 pr-8"
+              >
+                <option value="">All changes</option>
+                {auditFields.map(auditField => (
+                  <option key={auditField} value={auditField}>{AUDIT_FIELD_LABELS[auditField]}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none" />
+            </div>
+          </label>
+          {(employeeId || date || field) && (
+            <button
+              onClick={() => {
+                setEmployeeId('');
+                setDate('');
+                setField('');
+              }}
+              className="self-end px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded text-sm mb-4">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes recorded.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border px-2 py-1 text-left">When</th>
+                <th className="border px-2 py-1 text-left">User</th>
+                <th className="border px-2 py-1 text-left">Employee</th>
+                <th className="border px-2 py-1 text-left">Change</th>
+                <th className="border px-2 py-1 text-left">Date</th>
+                <th className="border px-2 py-1 text-left">Before</th>
+                <th className="border px-2 py-1 text-left">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map(event => (
+                <tr key={event.id}>
+                  <td className="border px-2 py-1 whitespace-nowrap">{formatDateTime(event.createdAt)}</td>
+                  <td className="border px-2 py-1">{event.username}</td>
+                  <td className="border px-2 py-1">{getEmployeeName(event.employeeId)}</td>
+                  <td className="border px-2 py-1">{AUDIT_FIELD_LABELS[event.field]}</td>
+                  <td className="border px-2 py-1 whitespace-nowrap">{formatEventDates(event)}</td>
+                  <td className="border px-2 py-1 text-gray-600">{describeAuditValue(event.field, event.before, currentList.shifts)}</td>
+                  <td className="border px-2 py-1">{describeAuditValue(event.field, event.after, currentList.shifts)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
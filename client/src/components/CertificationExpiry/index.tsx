@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { toDateString } from '@shared/schedule';
+import { CERTIFICATION_EXPIRY_WINDOWS, getExpiringCertifications } from '@shared/certifications';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useShiftContext } from '../../context/ShiftContext';
+
+// Panel de certificaciones caducadas o que caducan en los próximos 30, 60 o 90 días,
+// con los turnos que las exigen para anticipar las renovaciones
+const CertificationExpiry: React.FC = () => {
+  const { getCurrentList } = useEmployeeLists();
+  const { shifts } = useShiftContext();
+  const [withinDays, setWithinDays] = useState(CERTIFICATION_EXPIRY_WINDOWS[0]);
+  const currentList = getCurrentList();
+  const employees = currentList?.employees || [];
+  const today = toDateString(new Date());
+
+  // La ventana más amplia incluye a las demás; cada botón muestra cuántas caen en la suya
+  const expiring = useMemo(
+    () => getExpiringCertifications(employees, today, Math.max(...CERTIFICATION_EXPIRY_WINDOWS)),
+    [employees, today]
+  );
+
+  if (!currentList) return null;
+
+  const visible = expiring.filter(item => item.daysLeft <= withinDays);
+  const expiredCount = expiring.filter(item => item.daysLeft < 0).length;
+
+  const getRequiringShifts = (name: string) => shifts
+    .filter(shift => shift.requiredCertifications?.includes(name))
+    .map(shift => shift.name || `${shift.startTime} - ${shift.endTime}`)
+    .join(', ');
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6">
+        <h2 className="text-2xl font-bold text-white text-center">Certification Expiry</h2>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        {CERTIFICATION_EXPIRY_WINDOWS.map(days => (
+          <button
+            key={days}
+            onClick={() => setWithinDays(days)}
+            className={`px-3 py-1 rounded ${withinDays === days ? 'bg-[#19b08d] text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            Next {days} days ({expiring.filter(item => item.daysLeft >= 0 && item.daysLeft <= days).length})
+          </button>
+        ))}
+        {expiredCount > 0 && (
+          <span className="flex items-center gap-1 ml-auto text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            {expiredCount} expired
+          </span>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No certifications expire in the next {withinDays} days.</p>
+      ) : (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Employee</th>
+              <th className="border px-2 py-1 text-left">Certification</th>
+              <th className="border px-2 py-1 text-left">Expires On</th>
+              <th className="border px-2 py-1 text-left">Status</th>
+              <th className="border px-2 py-1 text-left">Required By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(item => (
+              <tr
+                key={`${item.employeeId}-${item.name}`}
+                className={item.daysLeft < 0 ? 'bg-red-100 text-red-800' : item.daysLeft <= 30 ? 'bg-yellow-50' : ''}
+              >
+                <td className="border px-2 py-1">{item.employeeName}</td>
+                <td className="border px-2 py-1">{item.name}</td>
+                <td className="border px-2 py-1 font-mono">{item.expiresOn}</td>
+                <td className="border px-2 py-1">
+                  {item.daysLeft < 0
+                    ? `Expired ${-item.daysLeft} days ago`
+                    : item.daysLeft === 0 ? 'Expires today' : `${item.daysLeft} days left`}
+                </td>
+                <td className="border px-2 py-1">{getRequiringShifts(item.name)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CertificationExpiry;
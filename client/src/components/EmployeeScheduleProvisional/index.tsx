@@ -5,8 +5,29 @@ import { useEmployeeLists } from '../../context/EmployeeListsContext';
 import { useShiftContext } from '../../context/ShiftContext';
 import { usePersonnelData } from '../../context/PersonnelDataContext';
 import { useSelectedEmployees } from '../../context/SelectedEmployeesContext';
+import { useAuth } from '../../context/AuthContext';
 import OvertimeModal from '../OvertimeModal';
 import { ShiftRow, Employee as CommonEmployee, Rules as CommonRules, ShiftOvertime } from '../../types/common';
+import { generateSchedule, UnfilledSlot } from '../../utils/scheduleGenerator';
+import {
+  buildStaffingTargets,
+  countByRole,
+  getRoleShortages,
+  getShiftDataRoleTargets,
+  getShiftDataTarget
+} from '../../utils/staffingUtils';
+import { getCellViolations } from '../../utils/scheduleValidation';
+import { checkScheduleCompliance, ComplianceReport, ComplianceViolation } from '../../utils/scheduleCompliance';
+import ScheduleComplianceReport from '../ScheduleComplianceReport';
+import ShiftSwapModal from '../ShiftSwapModal';
+import PrintSchedule from '../PrintSchedule';
+import PayrollExportModal from '../PayrollExportModal';
+import { buildScheduleExportTable } from '../../utils/scheduleExport';
+import { CSV_MIME_TYPE, XLSX_MIME_TYPE, toCsv, toXlsx } from '../../utils/spreadsheet';
+import { downloadBlob } from '../../lib/download';
+import { getRecurringShift, isApprovedLeave, resolveAssignment, ScheduleEmployee } from '@shared/schedule';
+import { findHoliday, getHolidayHours } from '@shared/holidays';
+import { describeMissingCertifications, getMissingCertifications } from '@shared/certifications';
 
 // Estructura específica de Shift para este componente (reemplaza la extensión por una combinación)
 interface Shift {
@@ -18,7 +39,7 @@ interface Shift {
   duration: string;
   startTime: string;
   endTime: string;
-  nurseCounts: { [dayOfWeek: string]: number }; // e.g., { "Monday": 5, "Tuesday": 6 }
+  roleCounts?: { [role: string]: number[] }; // Mínimo de cada rol por día de la semana, domingo primero
   shiftComments?: string;
   isOvertimeActive?: boolean;
   isOvertimeActiveForShift?: boolean;
@@ -54,7 +75,9 @@ interface Rules extends CommonRules {
 
 // --- Funciones de Utilidad (Adaptadas de tu código JS) ---
 
-const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Campos que usan los cálculos de resumen (horas, fines de semana, preferencias);
+// los empleados de la lista (types/common) y los de esta tabla los cumplen
+type SummaryEmployee = ScheduleEmployee & { preferences?: (number | null)[] };
 
 function calculateShiftDuration(start: string, end: string, lunchBreak: number = 0): string {
   // Simplified calculation for display purposes
@@ -116,7 +139,7 @@ function formatDateForTitle(date: Date): string {
     return `${month} ${day}, ${year}, ${weekday}`;
 }
 
-function calculatePreferenceMatchPercentage(employee: Employee, shifts: Shift[], startDateStr: string, endDateStr: string): string {
+function calculatePreferenceMatchPercentage(employee: SummaryEmployee, shifts: Shift[], startDateStr: string, endDateStr: string): string {
     if (!employee || !Array.isArray(employee.preferences)) {
         return '0.00';
     }
@@ -131,9 +154,8 @@ function calculatePreferenceMatchPercentage(employee: Employee, shifts: Shift[],
 
     for (let d = new Date(startDate); d <= endDate; d.setUTCDate(d.getUTCDate() + 1)) {
         const dateString = d.toISOString().split('T')[0];
-        const dayOfWeek = daysOfWeek[d.getUTCDay()];
 
-        const isOnLeave = employee.leave?.some(l => {
+        const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
             const leaveStart = new Date(l.startDate + 'T00:00:00Z');
             const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
             const currentDate = new Date(dateString + 'T00:00:00Z');
@@ -145,7 +167,7 @@ function calculatePreferenceMatchPercentage(employee: Employee, shifts: Shift[],
             successfulMatchDays++;
         } else {
             const manualShift = employee.manualShifts?.[dateString];
-            const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+            const fixedShift = getRecurringShift(employee, dateString);
 
             let assignedShiftId = null;
             if (manualShift && manualShift !== 'day-off') {
@@ -251,7 +273,7 @@ function calculateShiftHours(start: string, end: string, lunchBreak: number = 0)
     return diff / (1000 * 60 * 60);
 }
 
-function countFreeWeekends(employee: Employee, startDateStr: string, endDateStr: string, shifts: Shift[]): number {
+function countFreeWeekends(employee: SummaryEmployee, startDateStr: string, endDateStr: string, shifts: Shift[]): number {
     let freeWeekends = 0;
     const startDate = new Date(startDateStr + 'T00:00:00Z');
     const endDate = new Date(endDateStr + 'T00:00:00Z');
@@ -270,8 +292,8 @@ function countFreeWeekends(employee: Employee, startDateStr: string, endDateStr:
                 const isSaturdayWorking = getCurrentShift(employee, saturdayString, shifts) && getCurrentShift(employee, saturdayString, shifts) !== 'day-off';
                 const isSundayWorking = getCurrentShift(employee, sundayString, shifts) && getCurrentShift(employee, sundayString, shifts) !== 'day-off';
                  // Also check leaves
-                 const isSaturdayOnLeave = employee.leave?.some(l => { const ls=new Date(l.startDate+'T00:00:00Z'); const le=new Date(l.endDate+'T00:00:00Z'); const cur=new Date(saturdayString+'T00:00:00Z'); return cur >= ls && cur <= le; });
-                 const isSundayOnLeave = employee.leave?.some(l => { const ls=new Date(l.startDate+'T00:00:00Z'); const le=new Date(l.endDate+'T00:00:00Z'); const cur=new Date(sundayString+'T00:00:00Z'); return cur >= ls && cur <= le; });
+                 const isSaturdayOnLeave = employee.leave?.filter(isApprovedLeave).some(l => { const ls=new Date(l.startDate+'T00:00:00Z'); const le=new Date(l.endDate+'T00:00:00Z'); const cur=new Date(saturdayString+'T00:00:00Z'); return cur >= ls && cur <= le; });
+                 const isSundayOnLeave = employee.leave?.filter(isApprovedLeave).some(l => { const ls=new Date(l.startDate+'T00:00:00Z'); const le=new Date(l.endDate+'T00:00:00Z'); const cur=new Date(sundayString+'T00:00:00Z'); return cur >= ls && cur <= le; });
 
 
                 if (!isSaturdayWorking && !isSundayWorking && !isSaturdayOnLeave && !isSundayOnLeave) {
@@ -299,7 +321,7 @@ function formatBiweeklyHours(hoursData: number[], minBiweeklyHours: number): str
     }).join('');
 }
 
-function calculateEmployeeHours(employee: Employee, startDateStr: string, endDateStr: string, shifts: Shift[]): number[] {
+function calculateEmployeeHours(employee: SummaryEmployee, startDateStr: string, endDateStr: string, shifts: Shift[]): number[] {
     let biweeklyHours: number[] = [];
     let currentBiweeklyHours = 0;
     let dayCount = 0;
@@ -310,11 +332,10 @@ function calculateEmployeeHours(employee: Employee, startDateStr: string, endDat
     for (let d = new Date(startDate); d.getTime() <= endDate.getTime(); d.setUTCDate(d.getUTCDate() + 1)) {
         const currentDate = new Date(d.getTime()); // Use copy UTC
         const dateString = currentDate.toISOString().split('T')[0];
-        const dayOfWeek = daysOfWeek[currentDate.getUTCDay()];
 
         let hoursForThisDay = 0;
 
-        const leaveForThisDay = employee.leave?.find(l => {
+        const leaveForThisDay = employee.leave?.filter(isApprovedLeave).find(l => {
             const leaveStart = new Date(l.startDate + 'T00:00:00Z');
             const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
             const current = new Date(dateString + 'T00:00:00Z');
@@ -326,7 +347,7 @@ function calculateEmployeeHours(employee: Employee, startDateStr: string, endDat
              hoursForThisDay = leaveForThisDay.hoursPerDay || 0;
          } else {
              const manualShift = employee.manualShifts?.[dateString];
-             const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+             const fixedShift = getRecurringShift(employee, dateString);
              let effectiveShiftId = null;
              if (manualShift && manualShift !== 'day-off') {
                 effectiveShiftId = manualShift;
@@ -359,23 +380,11 @@ function calculateEmployeeHours(employee: Employee, startDateStr: string, endDat
     return biweeklyHours;
 }
 
-function getCurrentShift(employee: Employee, dateString: string, shifts: Shift[]): string | null {
+function getCurrentShift(employee: SummaryEmployee, dateString: string, shifts: Shift[]): string | null {
     if (!employee || !dateString || !shifts) return null;
 
-    const date = new Date(dateString + 'T00:00:00Z'); // Use UTC
-    const dayOfWeek = daysOfWeek[date.getUTCDay()]; // Use UTC day
-
-    const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
-    if (fixedShift) {
-        return fixedShift;
-    }
-
-    const manualShift = employee.manualShifts?.[dateString];
-    if (manualShift !== undefined) { // Check specifically for undefined
-         return manualShift;
-    }
-
-    return null;
+    // Misma prioridad que la tabla (permiso > manual > recurrente): un cambio manual gana al turno fijo
+    return resolveAssignment(employee, dateString).shiftId;
 }
 
 
@@ -385,12 +394,11 @@ function getShiftTime(shiftId: string, shifts: Shift[]): string {
 }
 
 
-function countScheduledEmployees(shift: Shift, date: Date, allEmployees: Employee[]): number {
-    // Enfoque directo - contar el número de empleados programados para cada turno
+function getScheduledEmployees<T extends ScheduleEmployee>(shift: Shift, date: Date, allEmployees: T[]): T[] {
+    // Enfoque directo - buscar los empleados programados en cada turno
     // basándonos en los valores mostrados en la tabla Employee Schedule Provisional
     
     const dateString = date.toISOString().split('T')[0]; // UTC date string YYYY-MM-DD
-    const dayOfWeek = daysOfWeek[date.getUTCDay()]; // Día de la semana (Monday, Tuesday, etc.)
     
     // Los horarios de turnos ahora se obtienen dinámicamente desde la configuración del usuario
     
@@ -401,15 +409,15 @@ function countScheduledEmployees(shift: Shift, date: Date, allEmployees: Employe
     }
     
     // Si no podemos determinar el ID del turno, no podemos contar
-    if (!currentShiftId) return 0;
+    if (!currentShiftId) return [];
     
-    // Contador de empleados para este turno
-    let count = 0;
+    // Empleados programados en este turno
+    const scheduled: T[] = [];
     
     // Recorremos todos los empleados
     allEmployees.forEach(employee => {
         // Verificamos si está de permiso
-        const isOnLeave = employee.leave?.some(l => {
+        const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
             const leaveStart = new Date(l.startDate + 'T00:00:00Z');
             const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
             const current = new Date(dateString + 'T00:00:00Z');
@@ -427,31 +435,33 @@ function countScheduledEmployees(shift: Shift, date: Date, allEmployees: Employe
             
             // Solo considerar turnos con ID válido y comparar directamente
             if (manualShift === currentShiftId) {
-                count++;
+                scheduled.push(employee);
             }
         }
         // Si no tiene turno manual, verificar turno fijo
         else {
-            const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+            const fixedShift = getRecurringShift(employee, dateString);
             if (!fixedShift || fixedShift === 'day-off') return; // No hay turno o es día libre
             
             // Solo considerar turnos con ID válido y comparar directamente
             if (fixedShift === currentShiftId) {
-                count++;
+                scheduled.push(employee);
             }
         }
     });
     
-    // Devolvemos el conteo final para este turno
-    return count;
+    return scheduled;
+}
+
+function countScheduledEmployees(shift: Shift, date: Date, allEmployees: Employee[]): number {
+    return getScheduledEmployees(shift, date, allEmployees).length;
 }
 
-function shouldDisplayOvertime(shift: Shift, dateString: string, allEmployees: Employee[], shifts: Shift[]): number {
+// idealStaff: personal ideal del turno en esa fecha (getShiftDataTarget)
+function shouldDisplayOvertime(shift: Shift, dateString: string, idealStaff: number, allEmployees: Employee[]): number {
     let totalOvertime = 0;
     const date = new Date(dateString + 'T00:00:00Z'); // Use UTC
-    const dayOfWeek = daysOfWeek[date.getUTCDay()]; // Use UTC day
 
-    const idealStaff = shift.nurseCounts[dayOfWeek] || 0;
     const currentStaff = countScheduledEmployees(shift, date, allEmployees);
     const staffNeeded = Math.max(0, idealStaff - currentStaff);
 
@@ -475,20 +485,6 @@ function shouldDisplayOvertime(shift: Shift, dateString: string, allEmployees: E
     return totalOvertime;
 }
 
-function exceedsMaxConsecutiveShifts(employee: Employee, dateString: string, rules: Rules, shifts: Shift[]): boolean {
-    // Simplified check - actual logic in JS involves counting previous shifts
-    // For display purposes, let's just assume we can check a flag or simplify
-    // This is a placeholder - replicating the exact JS logic here is complex without the full context
-    // A real implementation would look back from dateString and count shifts
-     return false; // Placeholder - needs actual logic
-}
-
-function violatesMinRestTime(employee: Employee, dateString: string, newShiftId: string, rules: Rules, shifts: Shift[]): boolean {
-    // Simplified check - actual logic in JS involves checking shifts before and after
-    // This is a placeholder - replicating the exact JS logic here is complex
-    return false; // Placeholder - needs actual logic
-}
-
 // --- Componente React ---
 
 const EmployeeScheduleTable: React.FC = () => {
@@ -498,6 +494,8 @@ const EmployeeScheduleTable: React.FC = () => {
   const { shiftData } = usePersonnelData();
   // Usar el contexto de selección de empleados
   const { selectedEmployeeIds } = useSelectedEmployees();
+  // Los empleados ven el horario en modo solo lectura
+  const { canEditSchedule } = useAuth();
   
   // Estados para el redimensionamiento de columnas
   const [columnWidths, setColumnWidths] = useState({
@@ -704,9 +702,11 @@ const EmployeeScheduleTable: React.FC = () => {
   const employees = useMemo(() => {
     const currentList = getCurrentList();
     const allEmployees = currentList?.employees || [];
+    // Un empleado solo recibe su propia fila del servidor y no tiene selección
+    if (!canEditSchedule) return allEmployees;
     // Solo mostramos los empleados que estén seleccionados
     return allEmployees.filter(employee => selectedEmployeeIds.includes(employee.id));
-  }, [getCurrentList, selectedEmployeeIds, refreshTrigger]);
+  }, [getCurrentList, selectedEmployeeIds, refreshTrigger, canEditSchedule]);
 
   // We're removing this useEffect that causes an infinite update cycle
   // The employees are already managed by the parent context,
@@ -714,28 +714,23 @@ const EmployeeScheduleTable: React.FC = () => {
 
   // Convert shifts to the format expected by the component
   const timeRanges = useMemo(() => shifts.map((shift, index) => ({
-    id: `uid_${Math.random().toString(36).substr(2, 15)}`,
+    id: shift.id, // Mismo ID que el turno para que manualShifts coincida con las opciones
     start: shift.startTime.split(' ')[0],
     end: shift.endTime.split(' ')[0],
     startTime: shift.startTime, // Guardamos el tiempo completo con AM/PM
     endTime: shift.endTime,     // Guardamos el tiempo completo con AM/PM
     duration: shift.duration,
     lunchBreak: shift.lunchBreakDeduction,
+    lunchBreakDeduction: shift.lunchBreakDeduction,
     isOvertimeActive: shift.isOvertimeActive,
     overtimeEntries: shift.overtimeEntries || [],
-    nurseCounts: {
-      Sunday: shiftData[index]?.counts[0] || 0,
-      Monday: shiftData[index]?.counts[1] || 0,
-      Tuesday: shiftData[index]?.counts[2] || 0,
-      Wednesday: shiftData[index]?.counts[3] || 0,
-      Thursday: shiftData[index]?.counts[4] || 0,
-      Friday: shiftData[index]?.counts[5] || 0,
-      Saturday: shiftData[index]?.counts[6] || 0
-    },
+    roleCounts: shiftData[index]?.roleCounts || {},
     shiftComments: ''
   })), [shifts, shiftData]);
 
   const { rules } = useRules();
+  // Festivos de la lista: se destacan en la cabecera y sus horas se cuentan aparte
+  const holidays = getCurrentList()?.holidays || [];
 
   // Guardamos el estado en localStorage para persistir después de recargar la página
   const [isScheduleTableHidden, setIsScheduleTableHidden] = useState(() => {
@@ -750,6 +745,70 @@ const EmployeeScheduleTable: React.FC = () => {
     shift: null
   });
 
+  // Celda desde la que se abre el intercambio de turnos (botón 🔄)
+  const [swapModal, setSwapModal] = useState<{ employeeId: string; date: string } | null>(null);
+
+  // Vista de impresión (Print Schedule) con los empleados mostrados en la tabla
+  const [isPrintViewOpen, setIsPrintViewOpen] = useState(false);
+  const [isPayrollOpen, setIsPayrollOpen] = useState(false);
+
+  // Resultado de la última generación automática del horario
+  const [generationResult, setGenerationResult] = useState<{ assignedCount: number; unfilled: UnfilledSlot[] } | null>(null);
+
+  // Genera el horario de los empleados seleccionados respetando las reglas de la lista
+  const handleGenerateSchedule = () => {
+    const currentList = getCurrentList();
+    if (!currentList) return;
+
+    const confirmGenerate = window.confirm(
+      'This will replace every unlocked shift of the selected employees between the start and end dates. Continue?'
+    );
+    if (!confirmGenerate) return;
+
+    const selectedEmployees = currentList.employees.filter(employee => selectedEmployeeIds.includes(employee.id));
+    const result = generateSchedule({
+      employees: selectedEmployees,
+      shifts,
+      targets: buildStaffingTargets(shifts, shiftData),
+      rules,
+      priorities: currentList.priorities,
+      holidays: currentList.holidays
+    });
+
+    const generatedById = new Map(result.employees.map(employee => [employee.id, employee]));
+    updateList(currentList.id, {
+      employees: currentList.employees.map(employee => generatedById.get(employee.id) || employee)
+    });
+    setGenerationResult({ assignedCount: result.assignedCount, unfilled: result.unfilled });
+  };
+
+  // Informe de cumplimiento de reglas ("Check Schedule")
+  const [complianceReport, setComplianceReport] = useState<ComplianceReport | null>(null);
+
+  const handleCheckSchedule = () => {
+    setComplianceReport(checkScheduleCompliance({
+      employees,
+      shifts,
+      targets: buildStaffingTargets(shifts, shiftData),
+      rules,
+      holidays
+    }));
+  };
+
+  // Lleva la vista a la celda del incumplimiento y la resalta brevemente
+  const handleJumpToCell = (violation: ComplianceViolation) => {
+    const cellId = violation.employeeId
+      ? `schedule-cell-${violation.employeeId}-${violation.date}`
+      : `staffing-cell-${violation.shiftId}-${violation.date}`;
+    const cell = document.getElementById(cellId);
+    setComplianceReport(null);
+    if (!cell) return;
+
+    cell.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+    cell.classList.add('ring-4', 'ring-inset', 'ring-[#117cee]');
+    setTimeout(() => cell.classList.remove('ring-4', 'ring-inset', 'ring-[#117cee]'), 2000);
+  };
+
   // --- Generar rango de fechas dinámicamente ---
   const dateRange: Date[] = [];
   const startDate = new Date(rules.startDate + 'T00:00:00Z');
@@ -763,6 +822,24 @@ const EmployeeScheduleTable: React.FC = () => {
       console.error("Invalid date range:", rules.startDate, rules.endDate);
   }
 
+  // Exporta la tabla a XLSX o CSV con las mismas columnas de resumen que se muestran
+  const handleExportGrid = (format: 'xlsx' | 'csv') => {
+    const dates = dateRange.map(date => date.toISOString().split('T')[0]);
+    const table = buildScheduleExportTable(employees, shifts, dates, employee => ({
+      biweeklyHours: calculateEmployeeHours(employee, rules.startDate, rules.endDate, timeRanges),
+      freeWeekends: countFreeWeekends(employee, rules.startDate, rules.endDate, timeRanges),
+      preferenceMatch: Number(calculatePreferenceMatchPercentage(employee, timeRanges, rules.startDate, rules.endDate))
+    }));
+    const fileName = `schedule-${rules.startDate}-to-${rules.endDate}`;
+
+    if (format === 'csv') {
+      // BOM para que Excel abra el CSV como UTF-8 (acentos en los nombres)
+      downloadBlob(new Blob(['\uFEFF' + toCsv(table)], { type: CSV_MIME_TYPE }), `${fileName}.csv`);
+    } else {
+      downloadBlob(new Blob([toXlsx(table, getCurrentList()?.name || 'Schedule')], { type: XLSX_MIME_TYPE }), `${fileName}.xlsx`);
+    }
+  };
+
 
   // --- Renderizado del Componente ---
 
@@ -786,16 +863,93 @@ const EmployeeScheduleTable: React.FC = () => {
              {isScheduleTableHidden ? 'Show Employee Schedule Table' : 'Hide Employee Schedule Table'} {/* Default text */}
           </button>
 
-          {/* AI and Print buttons (text and functionality are placeholders) */}
-          <button className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors">
-            Create Schedule with AI
-          </button>
-          <button className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors">
+          {/* AI and Print buttons */}
+          {canEditSchedule && (
+            <>
+              <button
+                className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+                onClick={handleGenerateSchedule}
+                disabled={employees.length === 0 || shifts.length === 0}
+                title={employees.length === 0 ? 'Select at least one employee to generate a schedule' : ''}
+              >
+                Create Schedule with AI
+              </button>
+              <button
+                className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+                onClick={handleCheckSchedule}
+              >
+                Check Schedule
+              </button>
+            </>
+          )}
+          <button
+            className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+            onClick={() => setIsPrintViewOpen(true)}
+          >
             Print Schedule
           </button>
+          <button
+            className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+            onClick={() => handleExportGrid('xlsx')}
+            disabled={dateRange.length === 0}
+          >
+            Export XLSX
+          </button>
+          <button
+            className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+            onClick={() => handleExportGrid('csv')}
+            disabled={dateRange.length === 0}
+          >
+            Export CSV
+          </button>
+          <button
+            className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+            onClick={() => setIsPayrollOpen(true)}
+            disabled={dateRange.length === 0}
+          >
+            Payroll Hours
+          </button>
         </div>
       </div>
 
+      {/* Summary of the last automatic generation */}
+      {generationResult && (
+        <div className={`border rounded-lg p-4 mb-6 ${generationResult.unfilled.length > 0 ? 'bg-yellow-100' : 'bg-green-100'}`}>
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-bold">
+                Schedule generated: {generationResult.assignedCount} shifts assigned.
+              </p>
+              {generationResult.unfilled.length === 0 ? (
+                <p className="text-sm">Every shift reaches its ideal staff.</p>
+              ) : (
+                <>
+                  <p className="text-sm mb-1">
+                    {generationResult.unfilled.reduce((sum, slot) => sum + slot.missing, 0)} positions could not be filled without breaking the rules:
+                  </p>
+                  <ul className="text-sm list-disc pl-5 max-h-32 overflow-y-auto">
+                    {generationResult.unfilled.map(slot => {
+                      const shift = shifts.find(s => s.id === slot.shiftId);
+                      return (
+                        <li key={`${slot.date}-${slot.shiftId}`}>
+                          {slot.date}: {shift ? `${shift.startTime} - ${shift.endTime}` : slot.shiftId} (missing {slot.missing})
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+            <button
+              onClick={() => setGenerationResult(null)}
+              className="text-gray-500 hover:text-gray-700 text-xl font-bold"
+            >
+              &times;
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Message shown when table is hidden */}
       {isScheduleTableHidden && (
         <div className="bg-yellow-100 border rounded-lg p-4 mb-6 text-center">
@@ -856,14 +1010,23 @@ const EmployeeScheduleTable: React.FC = () => {
                     {dateRange.map((date) => {
                        const isSunday = date.getUTCDay() === 0;
                         const dateString = date.toISOString().split('T')[0];
+                        const holiday = findHoliday(holidays, dateString);
                         return (
                             <th
                                 key={dateString}
-                                className={`px-2 py-1 text-center border border-gray-300 relative ${isSunday ? 'bg-gray-100' : ''}`}
+                                className={`px-2 py-1 text-center border border-gray-300 relative ${holiday ? 'bg-red-100' : isSunday ? 'bg-gray-100' : ''}`}
                                 style={{ width: `${columnWidths.dates}px` }}
                             >
                                 {/* Using dangerouslySetInnerHTML to render formatted date HTML */}
                                 <div dangerouslySetInnerHTML={{ __html: formatDate(date) }}></div>
+                                {holiday && (
+                                    <div
+                                        className="mt-1 text-sm font-semibold text-red-700"
+                                        title={holiday.group ? `Holiday rotation group: ${holiday.group}` : 'Holiday'}
+                                    >
+                                        {holiday.name}
+                                    </div>
+                                )}
                                 <button 
                                     className="mt-2 w-full bg-blue-500 text-white px-2 py-1 rounded text-sm hover:bg-blue-600 transition-colors flex items-center justify-center gap-1"
                                     onClick={() => showEmployeesForDate(date)}
@@ -899,6 +1062,7 @@ const EmployeeScheduleTable: React.FC = () => {
               const hoursData = calculateEmployeeHours(employee, rules.startDate, rules.endDate, timeRanges);
               const minBiweeklyHours = parseInt(rules.minBiweeklyHours) || 0;
               const freeWeekends = countFreeWeekends(employee, rules.startDate, rules.endDate, timeRanges);
+              const holidayHours = getHolidayHours(employee, shifts, holidays, rules.startDate, rules.endDate);
               const requiredWeekendsForPeriod = Math.ceil((parseInt(rules.weekendsOffPerMonth) || 0) * (dateRange.length / 28)); // Simple approx
 
 
@@ -936,16 +1100,25 @@ const EmployeeScheduleTable: React.FC = () => {
                        }}>
                            <strong># Free Weekends:</strong> {freeWeekends}
                        </div>
+                       {holidays.length > 0 && (
+                           <div style={{
+                               borderTop: '1px solid #ddd',
+                               padding: '5px',
+                               fontSize: '0.9em'
+                           }}>
+                               <strong>Holiday Hours:</strong> {holidayHours.toFixed(2)} hours
+                           </div>
+                       )}
                   </td>
 
                   {/* Dynamic Daily Cells */}
                   {dateRange.map((date) => {
                     const dateString = date.toISOString().split('T')[0];
-                    const dayOfWeek = daysOfWeek[date.getUTCDay()];
                     const isSunday = date.getUTCDay() === 0;
+                    const isHoliday = !!findHoliday(holidays, dateString);
 
                      // Check if employee is on leave for this date
-                     const isOnLeave = employee.leave?.some(l => {
+                     const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
                          const leaveStart = new Date(l.startDate + 'T00:00:00Z');
                          const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
                          const current = new Date(dateString + 'T00:00:00Z');
@@ -954,29 +1127,34 @@ const EmployeeScheduleTable: React.FC = () => {
 
                      // Determine the assigned shift (manual overrides fixed)
                      const manualShift = employee.manualShifts?.[dateString];
-                     const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+                     const fixedShift = getRecurringShift(employee, dateString);
                      const assignedShift = (manualShift !== undefined) ? manualShift : fixedShift; // Use undefined check
 
                      const isAutoDayOff = employee.autoDaysOff?.includes(dateString);
                      const isLocked = employee.lockedShifts?.[dateString];
-                     const exceedsMax = exceedsMaxConsecutiveShifts(employee, dateString, rules, timeRanges); // Placeholder check
-                     const violatesMinRest = violatesMinRestTime(employee, dateString, assignedShift || '', rules, timeRanges); // Placeholder check
+                     // Reglas incumplidas en esta celda (maxConsecutiveShifts, minRestHoursBetweenShifts,
+                     // requiredCertifications); una certificación caducada o ausente marca la celda en rojo
+                     const cellViolations = isOnLeave ? [] : getCellViolations(employee, dateString, rules, shifts);
+                     const lacksCertification = cellViolations.some(v => v.rule === 'requiredCertifications');
 
 
                     return (
                       <td
                          key={dateString}
-                         className={`px-1 py-1 border border-gray-300 ${isSunday ? 'bg-gray-100' : ''}
-                           ${exceedsMax || violatesMinRest ? 'bg-yellow-300' : ''} // Highlight if rules violated (placeholder)
+                         id={`schedule-cell-${employee.id}-${dateString}`}
+                         className={`px-1 py-1 border border-gray-300 ${isHoliday ? 'bg-red-50' : isSunday ? 'bg-gray-100' : ''}
+                           ${lacksCertification ? 'bg-red-300 ring-2 ring-inset ring-red-600' : cellViolations.length > 0 ? 'bg-yellow-300 ring-2 ring-inset ring-red-500' : ''}
                          `}
                          style={{ position: 'relative', width: `${columnWidths.dates}px` }} // Needed for absolute positioning of swap button
+                         title={cellViolations.length > 0 ? `Rule violated:\n${cellViolations.map(v => v.message).join('\n')}` : undefined}
+                         data-violations={cellViolations.map(v => v.rule).join(' ') || undefined}
                       >
                            {isOnLeave ? (
                                // Render leave info if on leave
                                <div className="text-center text-sm" style={{ lineHeight: 1.2, padding: '4px', backgroundColor: '#FFA500', color: '#000' }}> {/* Placeholder color */}
-                                    {employee.leave?.find(l => l.startDate <= dateString && l.endDate >= dateString)?.leaveType || 'Leave'}
+                                    {employee.leave?.filter(isApprovedLeave).find(l => l.startDate <= dateString && l.endDate >= dateString)?.leaveType || 'Leave'}
                                      <br />
-                                     <small style={{ fontSize: '0.85em', color: 'inherit' }}>({employee.leave?.find(l => l.startDate <= dateString && l.endDate >= dateString)?.hoursPerDay || 0} hrs/day)</small>
+                                     <small style={{ fontSize: '0.85em', color: 'inherit' }}>({employee.leave?.filter(isApprovedLeave).find(l => l.startDate <= dateString && l.endDate >= dateString)?.hoursPerDay || 0} hrs/day)</small>
                                </div>
                            ) : (
                                // Render shift select if not on leave
@@ -987,7 +1165,7 @@ const EmployeeScheduleTable: React.FC = () => {
                                         ${assignedShift === 'day-off' ? 'bg-yellow-200' : ''}
                                      `}
                                      value={assignedShift || ''} // Use assignedShift as the value
-                                     disabled={!!fixedShift || !!isLocked || !!isAutoDayOff} // Disabled if fixed, locked, or auto day off
+                                     disabled={!canEditSchedule || !!fixedShift || !!isLocked || !!isAutoDayOff} // Disabled if read-only, fixed, locked, or auto day off
                                      onChange={(e) => {
                                        const newEmployees = [...employees];
                                        const employeeToUpdate = newEmployees[index];
@@ -1012,17 +1190,22 @@ const EmployeeScheduleTable: React.FC = () => {
                                  >
                                      <option value="" data-en="Select Shift" data-es="Seleccionar Turno">Select Shift</option>
                                      <option value="day-off" data-en="Day Off" data-es="Día Libre">Day Off</option>
-                                     {timeRanges.map(shift => (
+                                     {timeRanges.map(shift => {
+                                         // Sin las certificaciones vigentes que exige el turno no se puede asignar
+                                         const missingCertifications = getMissingCertifications(employee, shifts.find(s => s.id === shift.id), dateString);
+                                         return (
                                          <option
                                              key={shift.id}
                                              value={shift.id}
-                                             disabled={employee.unavailableShifts?.[timeRanges.indexOf(shift)]?.includes(date.getUTCDay())} // Disable if blocked (placeholder check)
-                                             title={employee.unavailableShifts?.[timeRanges.indexOf(shift)]?.includes(date.getUTCDay()) ? 'Blocked' : ''}
+                                             disabled={employee.unavailableShifts?.[timeRanges.indexOf(shift)]?.includes(date.getUTCDay()) || missingCertifications.length > 0} // Disable if blocked (placeholder check)
+                                             title={employee.unavailableShifts?.[timeRanges.indexOf(shift)]?.includes(date.getUTCDay()) ? 'Blocked' : describeMissingCertifications(missingCertifications)}
                                          >
                                              {convertTo12Hour(shift.start)} - {convertTo12Hour(shift.end)}
                                               {employee.unavailableShifts?.[timeRanges.indexOf(shift)]?.includes(date.getUTCDay()) ? ' (Blocked)' : ''}
+                                              {missingCertifications.length > 0 ? ` (${missingCertifications.map(m => m.name).join(', ')} required)` : ''}
                                          </option>
-                                     ))}
+                                         );
+                                     })}
                                       {/* Add Leave option - Placeholder */}
                                       <option value="add-leave" disabled>Add Leave</option>
                                  </select>
@@ -1045,8 +1228,10 @@ const EmployeeScheduleTable: React.FC = () => {
                                      
                                      {/* Tercer botón: Swap Shift */}
                                      <button
-                                         className="change-shift-btn text-sm focus:outline-none"
+                                         className="change-shift-btn text-sm focus:outline-none disabled:opacity-40"
                                          title="Swapping Shifts Between Employees"
+                                         disabled={!canEditSchedule}
+                                         onClick={() => setSwapModal({ employeeId: employee.id, date: dateString })}
                                      >
                                          🔄
                                      </button>
@@ -1134,9 +1319,10 @@ const EmployeeScheduleTable: React.FC = () => {
                                       <br/>
                                       <span className="available-count text-xs">
                                           {shift.isOvertimeActive && <span className="font-bold">[Overtime Active] </span>}
-                                           Available: {dateRange.reduce((sum, date) =>
-                                              sum + shouldDisplayOvertime(shift, date.toISOString().split('T')[0], employees, timeRanges)
-                                           , 0)} {/* Sum up overtime across all dates */}
+                                           Available: {dateRange.reduce((sum, date) => {
+                                              const dateString = date.toISOString().split('T')[0];
+                                              return sum + shouldDisplayOvertime(shift, dateString, getShiftDataTarget(shiftData[index], dateString), employees);
+                                           }, 0)} {/* Sum up overtime across all dates */}
                                       </span>
                                   </button>
                              </div>
@@ -1155,17 +1341,21 @@ const EmployeeScheduleTable: React.FC = () => {
                          {/* Dynamic Daily Cells for Shift Counts */}
                          {dateRange.map((date) => {
                              const dateString = date.toISOString().split('T')[0];
-                             const dayOfWeek = daysOfWeek[date.getUTCDay()];
                              const isSunday = date.getUTCDay() === 0;
 
                              const scheduledCount = countScheduledEmployees(shift, date, employees);
-                             const idealCount = shift.nurseCounts[dayOfWeek] || 0;
-                             const overtimeCount = shouldDisplayOvertime(shift, dateString, employees, timeRanges);
+                             const idealCount = getShiftDataTarget(shiftData[index], dateString);
+                             const overtimeCount = shouldDisplayOvertime(shift, dateString, idealCount, employees);
+                             const roleTargets = getShiftDataRoleTargets(shift, dateString);
+                             const scheduledByRole = countByRole(getScheduledEmployees(shift, date, employees));
+                             const isSkillMixMissing = getRoleShortages(roleTargets, scheduledByRole).length > 0;
 
                             return (
                                 <td
                                     key={dateString}
-                                    className={`px-2 py-1 border border-gray-300 text-center ${isSunday ? 'bg-gray-100' : ''}`}
+                                    id={`staffing-cell-${shift.id}-${dateString}`}
+                                    className={`px-2 py-1 border border-gray-300 text-center ${isSkillMixMissing ? 'bg-red-100' : isSunday ? 'bg-gray-100' : ''}`}
+                                    title={isSkillMixMissing ? 'Required skill mix is missing' : undefined}
                                     style={{ width: `${columnWidths.dates}px` }}
                                 >
                                     <div className="flex flex-col items-center">
@@ -1185,6 +1375,20 @@ const EmployeeScheduleTable: React.FC = () => {
                                         <div className="mt-1 text-sm text-gray-600">
                                             ({idealCount}) Ideal Staff For This Shift
                                         </div>
+
+                                        {/* Personal programado frente al mínimo de cada rol */}
+                                        {Object.keys(roleTargets).length > 0 && (
+                                            <div className="mt-1 text-xs">
+                                                {Object.entries(roleTargets).sort(([a], [b]) => a.localeCompare(b)).map(([role, required]) => (
+                                                    <div
+                                                        key={role}
+                                                        className={(scheduledByRole[role] || 0) < required ? 'text-red-700 font-bold' : 'text-gray-600'}
+                                                    >
+                                                        {role}: {scheduledByRole[role] || 0}/{required}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                         
 
 
@@ -1224,12 +1428,46 @@ const EmployeeScheduleTable: React.FC = () => {
        </div>
 
        {/* Overtime Modal */}
+       <ScheduleComplianceReport
+         isOpen={!!complianceReport}
+         onClose={() => setComplianceReport(null)}
+         report={complianceReport}
+         shifts={shifts}
+         onJumpToCell={handleJumpToCell}
+       />
+
        <OvertimeModal
          isOpen={overtimeModal.isOpen}
          onClose={() => setOvertimeModal({ isOpen: false, shift: null })}
          shift={overtimeModal.shift || { startTime: '', endTime: '' }}
        />
 
+       <ShiftSwapModal
+         isOpen={!!swapModal}
+         onClose={() => setSwapModal(null)}
+         employeeId={swapModal?.employeeId || null}
+         date={swapModal?.date || null}
+         shifts={shifts}
+         rules={rules}
+       />
+
+       <PrintSchedule
+         isOpen={isPrintViewOpen}
+         onClose={() => setIsPrintViewOpen(false)}
+         employeeIds={employees.map(employee => employee.id)}
+       />
+
+       <PayrollExportModal
+         isOpen={isPayrollOpen}
+         onClose={() => setIsPayrollOpen(false)}
+         employees={employees}
+         shifts={shifts}
+         startDate={rules.startDate}
+         endDate={rules.endDate}
+         holidays={holidays}
+         listName={getCurrentList()?.name || ''}
+       />
+
        {/* Modal para mostrar los empleados programados para una fecha específica */}
        {employeesModalOpen && currentModalDate && (
          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1270,12 +1508,11 @@ const EmployeeScheduleTable: React.FC = () => {
              <div className="modal-body">
                {(() => {
                  const dateString = currentModalDate.toISOString().split('T')[0];
-                 const dayOfWeek = daysOfWeek[currentModalDate.getUTCDay()];
                  
                  // Filtrar empleados programados para esta fecha
                  const scheduledEmployees = employees.filter(employee => {
                    // Verificar si está de leave
-                   const isOnLeave = employee.leave?.some(l => {
+                   const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
                      const leaveStart = new Date(l.startDate + 'T00:00:00Z');
                      const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
                      const current = new Date(dateString + 'T00:00:00Z');
@@ -1285,7 +1522,7 @@ const EmployeeScheduleTable: React.FC = () => {
                    if (isOnLeave) return true; // Está de leave, incluirlo
                    
                    const manualShift = employee.manualShifts?.[dateString];
-                   const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+                   const fixedShift = getRecurringShift(employee, dateString);
                    
                    // Verificar si tiene un turno asignado
                    if (manualShift && manualShift !== 'day-off') return true;
@@ -1316,12 +1553,12 @@ const EmployeeScheduleTable: React.FC = () => {
                        <tbody>
                          {scheduledEmployees.map(employee => {
                            const manualShift = employee.manualShifts?.[dateString];
-                           const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+                           const fixedShift = getRecurringShift(employee, dateString);
                            const comment = employee.shiftComments?.[dateString] || '';
                            
                            // Determinar el turno asignado
                            let shiftInfo = 'Not assigned';
-                           const isOnLeave = employee.leave?.some(l => {
+                           const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
                              const leaveStart = new Date(l.startDate + 'T00:00:00Z');
                              const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
                              const current = new Date(dateString + 'T00:00:00Z');
@@ -1329,7 +1566,7 @@ const EmployeeScheduleTable: React.FC = () => {
                            });
                            
                            if (isOnLeave) {
-                             const leaveInfo = employee.leave?.find(l => {
+                             const leaveInfo = employee.leave?.filter(isApprovedLeave).find(l => {
                                const leaveStart = new Date(l.startDate + 'T00:00:00Z');
                                const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
                                const current = new Date(dateString + 'T00:00:00Z');
@@ -1404,19 +1641,8 @@ const EmployeeScheduleTable: React.FC = () => {
                        </thead>
                        <tbody>
                          {shifts.map((shift, index) => {
-                           // Obtenemos el número ideal de manera más robusta
-                           // 1. Intentamos con nurseCounts si existe
-                           // 2. Si no, usamos el valor fijo de la configuración si existe
-                           // 3. Si no tenemos datos, usamos un valor fijo de 4 (basado en la configuración mostrada)
-                           let ideal = 0;
-                           
-                           if (shift.nurseCounts && dayOfWeek in shift.nurseCounts) {
-                             ideal = shift.nurseCounts[dayOfWeek];
-                           } else {
-                             // Como vemos en la imagen que los valores ideales para el miércoles son 4,
-                             // usamos ese valor fijo cuando no podemos encontrar el dato en nurseCounts
-                             ideal = 4;
-                           }
+                           // Personal ideal de la fila de Ideal Number of Personnel del turno (incluye las fechas especiales)
+                           const ideal = getShiftDataTarget(shiftData[index], dateString);
                            
                            const scheduled = countScheduledEmployees(shift, currentModalDate, employees);
                            
@@ -1535,12 +1761,15 @@ const EmployeeScheduleTable: React.FC = () => {
              <div className="modal-body">
                {(() => {
                  const dateString = currentDateForShiftModal.toISOString().split('T')[0];
-                 const dayOfWeek = daysOfWeek[currentDateForShiftModal.getUTCDay()];
+                 const modalIdealCount = getShiftDataTarget(
+                   shiftData[shifts.findIndex(shift => shift.id === currentShiftForModal.id)],
+                   dateString
+                 );
                  
                  // Filtrar empleados programados para esta fecha Y este turno específico
                  const scheduledEmployeesForShift = employees.filter(employee => {
                    // Verificar si está de leave
-                   const isOnLeave = employee.leave?.some(l => {
+                   const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
                      const leaveStart = new Date(l.startDate + 'T00:00:00Z');
                      const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
                      const current = new Date(dateString + 'T00:00:00Z');
@@ -1550,7 +1779,7 @@ const EmployeeScheduleTable: React.FC = () => {
                    if (isOnLeave) return false; // No incluir empleados de permiso
                    
                    const manualShift = employee.manualShifts?.[dateString];
-                   const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+                   const fixedShift = getRecurringShift(employee, dateString);
                    
                    // Obtener el turno asignado efectivo (prioridad a manual)
                    const effectiveShift = manualShift && manualShift !== 'day-off' 
@@ -1585,12 +1814,6 @@ const EmployeeScheduleTable: React.FC = () => {
                  
                  // Si no hay empleados programados, mostrar mensaje
                  if (scheduledEmployeesForShift.length === 0) {
-                   // Obtener el número ideal 
-                   let idealCount = 4; // Valor por defecto
-                   
-                   if (currentShiftForModal.nurseCounts && dayOfWeek in currentShiftForModal.nurseCounts) {
-                     idealCount = currentShiftForModal.nurseCounts[dayOfWeek];
-                   }
                    
                    return (
                      <div>
@@ -1612,7 +1835,7 @@ const EmployeeScheduleTable: React.FC = () => {
                              <td className="border px-4 py-2">
                                {currentShiftForModal.startTime || convertTo12Hour(currentShiftForModal.start)} - {currentShiftForModal.endTime || convertTo12Hour(currentShiftForModal.end)}
                              </td>
-                             <td className="border px-4 py-2">{idealCount}</td>
+                             <td className="border px-4 py-2">{modalIdealCount}</td>
                              <td className="border px-4 py-2">0</td>
                            </tr>
                          </tbody>
@@ -1669,9 +1892,7 @@ const EmployeeScheduleTable: React.FC = () => {
                              {currentShiftForModal.startTime || convertTo12Hour(currentShiftForModal.start)} - {currentShiftForModal.endTime || convertTo12Hour(currentShiftForModal.end)}
                            </td>
                            <td className="border px-4 py-2">
-                             {currentShiftForModal.nurseCounts && dayOfWeek in currentShiftForModal.nurseCounts 
-                               ? currentShiftForModal.nurseCounts[dayOfWeek] 
-                               : 4}
+                             {modalIdealCount}
                            </td>
                            <td className="border px-4 py-2">{scheduledEmployeesForShift.length}</td>
                          </tr>
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CalendarPlus, Copy, Download } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useAuth } from '../../context/AuthContext';
+import PreferenceManager from '../PreferenceManager';
+import LeaveModal from '../LeaveModal';
+import { saveShiftPreferences } from '../../lib/employeeListsApi';
+import {
+  LeaveRequest,
+  cancelLeaveRequest,
+  fetchLeaveRequests,
+  submitLeaveRequest
+} from '../../lib/leaveRequestsApi';
+import {
+  CalendarFeed,
+  createCalendarFeed,
+  downloadEmployeeCalendar,
+  fetchCalendarFeed,
+  toWebcalUrl
+} from '../../lib/calendarApi';
+import { getApiErrorMessage } from '../../lib/queryClient';
+
+const STATUS_STYLES: Record<LeaveRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700'
+};
+
+// Panel del empleado: sus preferencias de turno, sus solicitudes de ausencia y su calendario
+const EmployeeSelfService: React.FC = () => {
+  const { getCurrentList, applyServerChange } = useEmployeeLists();
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLeaveModalOpen, setIsLeaveModalOpen] = useState(false);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const currentList = getCurrentList();
+  const employee = currentList?.employees.find(e => e.userId === user?.id);
+
+  useEffect(() => {
+    if (!currentList) return;
+    fetchLeaveRequests(currentList.id)
+      .then(setRequests)
+      .catch(error => setMessage({ type: 'error', text: getApiErrorMessage(error) }));
+  }, [currentList?.id]);
+
+  useEffect(() => {
+    if (!currentList || !employee) return;
+    fetchCalendarFeed(currentList.id, employee.id)
+      .then(setCalendarFeed)
+      .catch(error => setMessage({ type: 'error', text: getApiErrorMessage(error) }));
+  }, [currentList?.id, employee?.id]);
+
+  if (!currentList || !employee) {
+    return (
+      <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata'] text-gray-600">
+        Your account is not linked to an employee of this list yet. Please contact your scheduler.
+      </div>
+    );
+  }
+
+  const handlePreferencesChange = async (shiftPreferences: (number | null)[]) => {
+    try {
+      await applyServerChange(currentList.id, () => saveShiftPreferences(currentList.id, employee.id, shiftPreferences));
+      setMessage({ type: 'success', text: 'Shift preferences saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: getApiErrorMessage(error) });
+    }
+  };
+
+  const handleRequestLeave = async (leave: { startDate: string; endDate: string; type: string; hoursPerDay: number; reason: string }) => {
+    try {
+      const request = await submitLeaveRequest(currentList.id, {
+        employeeId: employee.id,
+        startDate: leave.startDate,
+        endDate: leave.endDate,
+        leaveType: leave.type,
+        hoursPerDay: leave.hoursPerDay,
+        reason: leave.reason || undefined
+      });
+      setRequests(prev => [...prev, request]);
+      setMessage({ type: 'success', text: 'Leave request sent for supervisor approval' });
+    } catch (error) {
+      setMessage({ type: 'error', text: getApiErrorMessage(error) });
+    }
+  };
+
+  const handleCancel = async (requestId: number) => {
+    try {
+      // Una ausencia aprobada que se cancela deja de bloquear días en el horario
+      const result = await applyServerChange(currentList.id, () => cancelLeaveRequest(currentList.id, requestId));
+      setRequests(prev => prev.map(r => (r.id === requestId ? result.request : r)));
+    } catch (error) {
+      setMessage({ type: 'error', text: getApiErrorMessage(error) });
+    }
+  };
+
+  const handleDownloadCalendar = async () => {
+    try {
+      await downloadEmployeeCalendar(currentList.id, employee.id, employee.name);
+    } catch (error) {
+      setMessage({ type: 'error', text: getApiErrorMessage(error) });
+    }
+  };
+
+  const handleCreateCalendarFeed = async () => {
+    // Regenerar invalida el enlace que ya tengan los calendarios suscritos
+    if (calendarFeed && !window.confirm('Calendars subscribed with the current link will stop updating. Create a new link?')) return;
+    try {
+      setCalendarFeed(await createCalendarFeed(currentList.id, employee.id));
+      setMessage({ type: 'success', text: 'Calendar subscription link created' });
+    } catch (error) {
+      setMessage({ type: 'error', text: getApiErrorMessage(error) });
+    }
+  };
+
+  const handleCopyCalendarFeed = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      setMessage({ type: 'success', text: 'Subscription link copied' });
+    } catch {
+      setMessage({ type: 'error', text: 'Could not copy the link; select it and copy it manually' });
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6 flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-white">My Preferences and Requests</h2>
+        <button
+          onClick={() => setIsLeaveModalOpen(true)}
+          className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors"
+        >
+          Request Leave
+        </button>
+      </div>
+
+      {message && (
+        <div className={`flex items-center gap-2 px-4 py-2 rounded mb-4 text-sm ${message.type === 'error' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+          {message.type === 'error' && <AlertCircle className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-bold mb-2">Shift Preferences</h3>
+          <PreferenceManager
+            shifts={currentList.shifts}
+            initialPreferences={employee.shiftPreferences || []}
+            onChange={handlePreferencesChange}
+          />
+        </div>
+
+        <div>
+          <h3 className="font-bold mb-2">My Leave Requests</h3>
+          {requests.length === 0 ? (
+            <p className="text-sm text-gray-500">You have not requested any leave yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {requests.map(request => (
+                <li key={request.id} className="flex justify-between items-center bg-gray-100 p-2 rounded border border-gray-200 text-sm">
+                  <span>
+                    {request.leaveType}: {request.startDate} - {request.endDate} ({request.hoursPerDay} hrs/day)
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[request.status]}`}>
+                      {request.status}
+                    </span>
+                    {request.decisionReason && (
+                      <span className="block text-gray-600">{request.decisionReason}</span>
+                    )}
+                  </span>
+                  {(request.status === 'pending' || request.status === 'approved') && (
+                    <button
+                      onClick={() => handleCancel(request.id)}
+                      className="text-red-600 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="font-bold mb-2">My Calendar</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Add your shifts to your phone calendar: download them once, or subscribe so changes appear automatically.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={handleDownloadCalendar}
+            className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 transition-colors flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Download .ics
+          </button>
+          <button
+            onClick={handleCreateCalendarFeed}
+            className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 transition-colors flex items-center gap-2"
+          >
+            <CalendarPlus className="h-4 w-4" />
+            {calendarFeed ? 'New Subscription Link' : 'Create Subscription Link'}
+          </button>
+        </div>
+        {calendarFeed && (
+          <div className="flex items-center gap-2 mt-3">
+            <input
+              readOnly
+              value={calendarFeed.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+            />
+            <button onClick={handleCopyCalendarFeed} className="text-blue-500 hover:text-blue-600" title="Copy link">
+              <Copy className="h-5 w-5" />
+            </button>
+            <a href={toWebcalUrl(calendarFeed.url)} className="text-sm text-blue-500 hover:underline">
+              Open in calendar app
+            </a>
+          </div>
+        )}
+      </div>
+
+      <LeaveModal
+        isOpen={isLeaveModalOpen}
+        onClose={() => setIsLeaveModalOpen(false)}
+        employeeName={employee.name}
+        onSave={handleRequestLeave}
+      />
+    </div>
+  );
+};
+
+export default EmployeeSelfService;
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { EmployeeCertification } from '@shared/schema';
+import { toDateString } from '@shared/schedule';
+import { isCertificationValid } from '@shared/certifications';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useShiftContext } from '../../context/ShiftContext';
+import { Employee } from '../../types/common';
+
+const emptyCertification: EmployeeCertification = { name: '', expiresOn: '' };
+
+// Rol y certificaciones de cada empleado de la lista actual. El rol cuenta en el personal
+// mínimo por rol de cada turno; las certificaciones pueden tener fecha de caducidad y cada
+// turno puede exigir algunas (nadie sin ellas vigentes puede trabajarlo).
+const EmployeeSkills: React.FC = () => {
+  const { getCurrentList, updateList } = useEmployeeLists();
+  const { shifts, updateShift } = useShiftContext();
+  // Certificación que se está escribiendo para cada empleado
+  const [drafts, setDrafts] = useState<{ [employeeId: string]: EmployeeCertification }>({});
+  // Certificación que se está añadiendo a cada turno
+  const [shiftDrafts, setShiftDrafts] = useState<{ [shiftId: string]: string }>({});
+  const currentList = getCurrentList();
+  const employees = currentList?.employees || [];
+  const today = toDateString(new Date());
+
+  if (!currentList) return null;
+
+  const roles = Array.from(new Set([
+    ...employees.map(employee => employee.role),
+    ...Object.keys(currentList.laborBudget?.roleRates || {})
+  ].filter((role): role is string => !!role))).sort();
+  const certificationNames = Array.from(new Set([
+    ...employees.flatMap(employee => (employee.certifications || []).map(certification => certification.name)),
+    ...shifts.flatMap(shift => shift.requiredCertifications || [])
+  ])).sort();
+
+  const updateEmployee = (employeeId: string, update: (employee: Employee) => Employee) => {
+    updateList(currentList.id, {
+      employees: employees.map(employee => (employee.id === employeeId ? update(employee) : employee))
+    });
+  };
+
+  const handleRoleChange = (employeeId: string, role: string) => {
+    updateEmployee(employeeId, ({ role: _previous, ...employee }) => (role.trim() ? { ...employee, role } : employee));
+  };
+
+  const handleAddCertification = (employee: Employee) => {
+    const draft = drafts[employee.id];
+    const name = draft?.name.trim();
+    if (!name) return;
+    const certification: EmployeeCertification = draft.expiresOn ? { name, expiresOn: draft.expiresOn } : { name };
+    // Una certificación con el mismo nombre se renueva (reemplaza a la anterior)
+    updateEmployee(employee.id, current => ({
+      ...current,
+      certifications: [...(current.certifications || []).filter(c => c.name !== name), certification]
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }));
+    setDrafts(prev => ({ ...prev, [employee.id]: emptyCertification }));
+  };
+
+  const handleRemoveCertification = (employeeId: string, name: string) => {
+    updateEmployee(employeeId, current => ({
+      ...current,
+      certifications: (current.certifications || []).filter(c => c.name !== name)
+    }));
+  };
+
+  const handleAddRequiredCertification = (index: number) => {
+    const shift = shifts[index];
+    const name = shiftDrafts[shift.id]?.trim();
+    if (!name || shift.requiredCertifications?.includes(name)) return;
+    updateShift(index, { ...shift, requiredCertifications: [...(shift.requiredCertifications || []), name].sort() });
+    setShiftDrafts(prev => ({ ...prev, [shift.id]: '' }));
+  };
+
+  const handleRemoveRequiredCertification = (index: number, name: string) => {
+    const { requiredCertifications, ...shift } = shifts[index];
+    const remaining = (requiredCertifications || []).filter(required => required !== name);
+    updateShift(index, remaining.length > 0 ? { ...shift, requiredCertifications: remaining } : shift);
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6">
+        <h2 className="text-2xl font-bold text-white text-center">Roles and Certifications</h2>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        The role of each employee counts toward the minimum staff per role of each shift
+        (set in Ideal Number of Personnel per Shift and Day).
+      </p>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border px-2 py-1 text-left">Employee</th>
+            <th className="border px-2 py-1 text-left w-40">Role</th>
+            <th className="border px-2 py-1 text-left">Certifications</th>
+            <th className="border px-2 py-1 text-left w-96">Add Certification</th>
+          </tr>
+        </thead>
+        <tbody>
+          {employees.map(employee => {
+            const draft = drafts[employee.id] || emptyCertification;
+            return (
+              <tr key={employee.id} className="align-top">
+                <td className="border px-2 py-1">{employee.name}</td>
+                <td className="border px-2 py-1">
+                  <input
+                    type="text"
+                    list="skills-roles"
+                    value={employee.role || ''}
+                    onChange={(e) => handleRoleChange(employee.id, e.target.value)}
+                    placeholder="None"
+                    className="w-full border border-gray-300 rounded px-2 py-1"
+                  />
+                </td>
+                <td className="border px-2 py-1">
+                  <div className="flex flex-wrap gap-1">
+                    {(employee.certifications || []).map(certification => (
+                      <span
+                        key={certification.name}
+                        className={`flex items-center gap-1 border rounded-full px-2 py-0.5 ${
+                          isCertificationValid(certification, today) ? 'bg-gray-50 border-gray-300' : 'bg-red-100 border-red-400 text-red-800'
+                        }`}
+                        title={isCertificationValid(certification, today) ? undefined : 'Expired'}
+                      >
+                        {certification.name}
+                        {certification.expiresOn && <span className="text-gray-500">until {certification.expiresOn}</span>}
+                        <button
+                          onClick={() => handleRemoveCertification(employee.id, certification.name)}
+                          className="text-gray-500 hover:text-red-600"
+                          title="Remove certification"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="border px-2 py-1">
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      list="skills-certifications"
+                      value={draft.name}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [employee.id]: { ...draft, name: e.target.value } }))}
+                      placeholder="e.g. BLS"
+                      className="w-28 border border-gray-300 rounded px-2 py-1"
+                    />
+                    <input
+                      type="date"
+                      value={draft.expiresOn || ''}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [employee.id]: { ...draft, expiresOn: e.target.value } }))}
+                      title="Expiry date (leave empty if it does not expire)"
+                      className="border border-gray-300 rounded px-2 py-1"
+                    />
+                    <button
+                      onClick={() => handleAddCertification(employee)}
+                      disabled={!draft.name.trim()}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                      title="Add certification"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h3 className="text-lg font-semibold mt-6 mb-2">Required Certifications per Shift</h3>
+      <p className="text-sm text-gray-600 mb-2">
+        Employees without a valid certification required by a shift cannot be assigned to it on that date.
+      </p>
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border px-2 py-1 text-left">Shift</th>
+            <th className="border px-2 py-1 text-left">Required Certifications</th>
+            <th className="border px-2 py-1 text-left w-96">Add Requirement</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shifts.map((shift, index) => (
+            <tr key={shift.id} className="align-top">
+              <td className="border px-2 py-1">{shift.name || `${shift.startTime} - ${shift.endTime}`}</td>
+              <td className="border px-2 py-1">
+                <div className="flex flex-wrap gap-1">
+                  {(shift.requiredCertifications || []).map(name => (
+                    <span
+                      key={name}
+                      className="flex items-center gap-1 bg-gray-50 border border-gray-300 rounded-full px-2 py-0.5"
+                    >
+                      {name}
+                      <button
+                        onClick={() => handleRemoveRequiredCertification(index, name)}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Remove requirement"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </td>
+              <td className="border px-2 py-1">
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    list="skills-certifications"
+                    value={shiftDrafts[shift.id] || ''}
+                    onChange={(e) => setShiftDrafts(prev => ({ ...prev, [shift.id]: e.target.value }))}
+                    placeholder="e.g. ACLS"
+                    className="w-28 border border-gray-300 rounded px-2 py-1"
+                  />
+                  <button
+                    onClick={() => handleAddRequiredCertification(index)}
+                    disabled={!shiftDrafts[shift.id]?.trim()}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                    title="Add requirement"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <datalist id="skills-roles">
+        {roles.map(role => <option key={role} value={role} />)}
+      </datalist>
+      <datalist id="skills-certifications">
+        {certificationNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default EmployeeSkills;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { createDataBundle } from '@shared/dataBundle';
+import { downloadDataBundle } from '../../lib/dataBundleApi';
+
+interface ExportDataModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ExportScope = 'current' | 'all';
+
+// Nombre de archivo seguro a partir del nombre de la lista
+const toFileName = (name: string) => name.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'list';
+
+// Exporta la lista actual o todas las listas a un archivo JSON versionado
+const ExportDataModal: React.FC<ExportDataModalProps> = ({ isOpen, onClose }) => {
+  const { lists, getCurrentList } = useEmployeeLists();
+  const [scope, setScope] = useState<ExportScope>('current');
+
+  if (!isOpen) return null;
+
+  const currentList = getCurrentList();
+  const selectedLists = scope === 'current' ? (currentList ? [currentList] : []) : lists;
+
+  const handleExport = () => {
+    if (selectedLists.length === 0) return;
+    const bundle = createDataBundle(selectedLists);
+    const date = bundle.exportedAt.split('T')[0];
+    const baseName = scope === 'current' && currentList ? toFileName(currentList.name) : 'all-lists';
+    downloadDataBundle(bundle, `waok-schedule-${baseName}-${date}.json`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[450px] relative shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-6 font-['Viata']">Export Data</h3>
+
+        <div className="space-y-3 font-['Viata']">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={scope === 'current'}
+              onChange={() => setScope('current')}
+              disabled={!currentList}
+            />
+            Current list{currentList ? `: ${currentList.name}` : ''}
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={scope === 'all'}
+              onChange={() => setScope('all')}
+            />
+            All lists ({lists.length})
+          </label>
+          <p className="text-xs text-gray-500">
+            Employees, shifts, rules, priorities and personnel per shift are saved to a JSON file that can be loaded with Import Data.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 font-['Viata']"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedLists.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors font-['Viata'] disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDataModal;
@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
-import { ChevronDown, Plus, X, AlertCircle, Edit2, Trash2, Calendar, Users, Sliders, FileText, Download, Upload, Settings } from 'lucide-react';
+import { ChevronDown, Plus, X, AlertCircle, Edit2, Trash2, Calendar, Users, Sliders, FileText, Download, Upload, Settings, LogOut, History, ClipboardList } from 'lucide-react';
 import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useAuth } from '../../context/AuthContext';
 import { ActiveView } from '../../App';
+import ExportDataModal from '../ExportDataModal';
+import ImportDataModal from '../ImportDataModal';
+import HistoryPanel from '../HistoryPanel';
+import AuditLogModal from '../AuditLogModal';
 
 // NavigationButton Component
 interface NavigationButtonProps {
@@ -122,9 +127,14 @@ const Dropdown: React.FC<DropdownProps> = ({
 interface MainNavigationProps {
   onViewChange: (view: ActiveView) => void;
   activeView: ActiveView;
+  onExportData: () => void;
+  // Solo los supervisores importan; sin onImportData no se muestra el botón
+  onImportData?: () => void;
+  onShowHistory: () => void;
+  onShowAuditLog: () => void;
 }
 
-const MainNavigation: React.FC<MainNavigationProps> = ({ onViewChange, activeView }) => {
+const MainNavigation: React.FC<MainNavigationProps> = ({ onViewChange, activeView, onExportData, onImportData, onShowHistory, onShowAuditLog }) => {
   return (
     <div className="flex justify-start items-center overflow-x-auto">
       <NavigationButton
@@ -163,18 +173,34 @@ const MainNavigation: React.FC<MainNavigationProps> = ({ onViewChange, activeVie
         Employee Schedule
       </NavigationButton>
       <NavigationButton
-        onClick={() => onViewChange('all')}
+        onClick={onExportData}
         active={false}
         icon={<Download className="h-4 w-4" />}
       >
         Export Data
       </NavigationButton>
+      {onImportData && (
+        <NavigationButton
+          onClick={onImportData}
+          active={false}
+          icon={<Upload className="h-4 w-4" />}
+        >
+          Import Data
+        </NavigationButton>
+      )}
       <NavigationButton
-        onClick={() => onViewChange('all')}
+        onClick={onShowHistory}
+        active={false}
+        icon={<History className="h-4 w-4" />}
+      >
+        History
+      </NavigationButton>
+      <NavigationButton
+        onClick={onShowAuditLog}
         active={false}
-        icon={<Upload className="h-4 w-4" />}
+        icon={<ClipboardList className="h-4 w-4" />}
       >
-        Import Data
+        Audit Log
       </NavigationButton>
     </div>
   );
@@ -186,7 +212,8 @@ interface EditListModalProps {
   onClose: () => void;
   listName: string;
   onSave: (newName: string) => void;
-  onDelete: () => void;
+  // Solo los supervisores pueden eliminar listas; sin onDelete no se muestra el botón
+  onDelete?: () => void;
 }
 
 const EditListModal: React.FC<EditListModalProps> = ({
@@ -227,14 +254,16 @@ const EditListModal: React.FC<EditListModalProps> = ({
                 />
               </div>
 
-              <div className="flex justify-between gap-2 mt-6">
-                <button
-                  onClick={() => setShowDeleteConfirm(true)}
-                  className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 flex items-center gap-2 transition-colors font-['Viata']"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  Delete List
-                </button>
+              <div className={`flex ${onDelete ? 'justify-between' : 'justify-end'} gap-2 mt-6`}>
+                {onDelete && (
+                  <button
+                    onClick={() => setShowDeleteConfirm(true)}
+                    className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 flex items-center gap-2 transition-colors font-['Viata']"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete List
+                  </button>
+                )}
                 <div className="flex gap-2">
                   <button
                     onClick={onClose}
@@ -309,6 +338,7 @@ const SecondaryNavigation: React.FC = () => {
     console.warn("EmployeeListsContext not available yet, using default values");
   }
   
+  const { canManageLists, canEditSchedule } = useAuth();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [newListName, setNewListName] = useState('');
@@ -342,13 +372,15 @@ const SecondaryNavigation: React.FC = () => {
 
   return (
     <div className="bg-white p-3 border-t border-gray-200 flex flex-wrap items-center gap-3">
-      <SecondaryButton
-        onClick={() => setIsModalOpen(true)}
-        icon={<Plus className="h-4 w-4" />}
-        variant="default"
-      >
-        Add New List
-      </SecondaryButton>
+      {canManageLists && (
+        <SecondaryButton
+          onClick={() => setIsModalOpen(true)}
+          icon={<Plus className="h-4 w-4" />}
+          variant="default"
+        >
+          Add New List
+        </SecondaryButton>
+      )}
       <div className="mx-2">
         <Dropdown
           options={lists.map(list => list.name)}
@@ -359,19 +391,23 @@ const SecondaryNavigation: React.FC = () => {
           }}
         />
       </div>
-      <SecondaryButton
-        onClick={handleEditList}
-        variant="transparent"
-        icon={<Edit2 className="h-4 w-4" />}
-      >
-        Edit List
-      </SecondaryButton>
-      <SecondaryButton
-        variant="transparent"
-        icon={<Settings className="h-4 w-4" />}
-      >
-        Supervisory Panel
-      </SecondaryButton>
+      {canEditSchedule && (
+        <SecondaryButton
+          onClick={handleEditList}
+          variant="transparent"
+          icon={<Edit2 className="h-4 w-4" />}
+        >
+          Edit List
+        </SecondaryButton>
+      )}
+      {canManageLists && (
+        <SecondaryButton
+          variant="transparent"
+          icon={<Settings className="h-4 w-4" />}
+        >
+          Supervisory Panel
+        </SecondaryButton>
+      )}
 
       {/* Create New List Modal */}
       {isModalOpen && (
@@ -426,7 +462,7 @@ const SecondaryNavigation: React.FC = () => {
           onClose={() => setIsEditModalOpen(false)}
           listName={currentList.name}
           onSave={handleSaveEdit}
-          onDelete={handleDeleteList}
+          onDelete={canManageLists ? handleDeleteList : undefined}
         />
       )}
     </div>
@@ -440,6 +476,11 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ onViewChange }) => {
   const [activeView, setActiveView] = useState<ActiveView>('all');
+  const { user, logout, canEditSchedule, canManageLists } = useAuth();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
 
   const handleViewChange = (view: ActiveView) => {
     setActiveView(view);
@@ -459,11 +500,38 @@ const Header: React.FC<HeaderProps> = ({ onViewChange }) => {
                 <span className="text-[#117cee] font-bold text-2xl font-['Viata']">K</span>
               </div>
             </div>
-            <MainNavigation onViewChange={handleViewChange} activeView={activeView} />
+            {/* Los empleados solo ven su horario, sin el resto de secciones */}
+            {canEditSchedule && (
+              <MainNavigation
+                onViewChange={handleViewChange}
+                activeView={activeView}
+                onExportData={() => setIsExportOpen(true)}
+                onImportData={canManageLists ? () => setIsImportOpen(true) : undefined}
+                onShowHistory={() => setIsHistoryOpen(true)}
+                onShowAuditLog={() => setIsAuditLogOpen(true)}
+              />
+            )}
+            {user && (
+              <div className="ml-auto flex items-center gap-3 pl-4 border-l border-gray-700">
+                <span className="text-gray-300 text-sm font-['Viata'] whitespace-nowrap">{user.username}</span>
+                <button
+                  onClick={logout}
+                  className="text-gray-300 hover:text-white flex items-center gap-1 text-sm font-['Viata']"
+                  title="Log out"
+                >
+                  <LogOut className="h-4 w-4" />
+                  Log out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
       <SecondaryNavigation />
+      <ExportDataModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} />
+      <ImportDataModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+      <HistoryPanel isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} />
+      <AuditLogModal isOpen={isAuditLogOpen} onClose={() => setIsAuditLogOpen(false)} />
     </header>
   );
 };
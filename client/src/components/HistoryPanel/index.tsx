@@ -0,0 +1,83 @@
+import React from 'react';
+import { X, Undo2, Redo2 } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Historial de cambios de la lista actual, del más reciente al más antiguo; los cambios
+// deshechos aparecen arriba en gris hasta que se rehacen o se hace un cambio nuevo
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
+  const { history, undo, redo, getCurrentList } = useEmployeeLists();
+
+  if (!isOpen) return null;
+
+  const currentList = getCurrentList();
+  const undone = [...history.future];
+  const done = [...history.past].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[560px] max-h-[85vh] overflow-y-auto relative shadow-xl font-['Viata']">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-1">History</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Changes to {currentList?.name || 'this list'} in this session. Use Ctrl+Z to undo and Ctrl+Y to redo.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={undo}
+            disabled={history.past.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={history.future.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Redo2 className="h-4 w-4" />
+            Redo
+          </button>
+        </div>
+
+        {done.length === 0 && undone.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {undone.map(entry => (
+              <li key={entry.id} className="flex justify-between gap-4 px-2 py-1 rounded text-gray-400 line-through">
+                <span>{entry.description}</span>
+                <span className="whitespace-nowrap">{formatTime(entry.timestamp)}</span>
+              </li>
+            ))}
+            {done.map((entry, index) => (
+              <li
+                key={entry.id}
+                className={`flex justify-between gap-4 px-2 py-1 rounded ${index === 0 ? 'bg-blue-50 font-semibold' : ''}`}
+              >
+                <span>{entry.description}</span>
+                <span className="whitespace-nowrap text-gray-500">{formatTime(entry.timestamp)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,243 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, CalendarDays, Plus, Upload, X } from 'lucide-react';
+import { getDayOfWeek } from '@shared/schedule';
+import {
+  HOLIDAY_COUNTRIES,
+  Holiday,
+  getCountryHolidays,
+  mergeHolidays,
+  parseHolidayCalendar
+} from '@shared/holidays';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useRules } from '../../context/RulesContext';
+
+const emptyHoliday: Holiday = { date: '', name: '', group: '' };
+
+// Calendario de festivos de la lista actual: tabla nacional (sin conexión), importación
+// de un .ics o alta manual. El grupo une festivos que se reparten entre los empleados.
+const HolidayCalendar: React.FC = () => {
+  const { getCurrentList, updateList } = useEmployeeLists();
+  const { rules, updateRules } = useRules();
+  const currentList = getCurrentList();
+  const holidays = currentList?.holidays || [];
+
+  const [countryCode, setCountryCode] = useState(HOLIDAY_COUNTRIES[0].code);
+  const [year, setYear] = useState(() => Number((rules.startDate || new Date().toISOString()).slice(0, 4)));
+  const [newHoliday, setNewHoliday] = useState<Holiday>(emptyHoliday);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveHolidays = (next: Holiday[]) => {
+    if (currentList) updateList(currentList.id, { holidays: next });
+  };
+
+  const addHolidays = (incoming: Holiday[], source: string) => {
+    if (incoming.length === 0) {
+      setMessage({ type: 'error', text: `No holidays found in ${source}.` });
+      return;
+    }
+    saveHolidays(mergeHolidays(holidays, incoming));
+    setMessage({ type: 'success', text: `Added ${incoming.length} holidays from ${source}.` });
+  };
+
+  const handleAddCountry = () => {
+    const country = HOLIDAY_COUNTRIES.find(c => c.code === countryCode);
+    addHolidays(getCountryHolidays(countryCode, `${year}-01-01`, `${year}-12-31`), `${country?.name} ${year}`);
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      addHolidays(parseHolidayCalendar(await file.text()), file.name);
+    } catch (error) {
+      console.error('Error reading holiday calendar:', error);
+      setMessage({ type: 'error', text: `Could not read ${file.name}.` });
+    }
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) return;
+    const group = newHoliday.group?.trim();
+    saveHolidays(mergeHolidays(holidays, [{ date: newHoliday.date, name: newHoliday.name.trim(), ...(group ? { group } : {}) }]));
+    setNewHoliday(emptyHoliday);
+    setMessage(null);
+  };
+
+  const handleGroupChange = (date: string, group: string) => {
+    saveHolidays(holidays.map(holiday => {
+      if (holiday.date !== date) return holiday;
+      const { group: _previous, ...rest } = holiday;
+      return group.trim() ? { ...rest, group } : rest;
+    }));
+  };
+
+  const handleRemove = (date: string) => {
+    saveHolidays(holidays.filter(holiday => holiday.date !== date));
+  };
+
+  if (!currentList) return null;
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6">
+        <h2 className="text-2xl font-bold text-white text-center">Holiday Calendar</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="bg-gray-50 p-3 rounded">
+          <h3 className="font-semibold mb-2">National Holidays</h3>
+          <div className="flex items-center gap-2 text-sm">
+            <select
+              value={countryCode}
+              onChange={(e) => setCountryCode(e.target.value)}
+              className="flex-1 border border-gray-300 rounded px-2 py-2"
+            >
+              {HOLIDAY_COUNTRIES.map(country => (
+                <option key={country.code} value={country.code}>{country.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="2000"
+              max="2100"
+              value={year}
+              onChange={(e) => setYear(parseInt(e.target.value) || year)}
+              className="w-24 border border-gray-300 rounded px-2 py-2 text-center"
+            />
+            <button
+              onClick={handleAddCountry}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2"
+            >
+              <CalendarDays className="h-4 w-4" />
+              Add Holidays
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 p-3 rounded">
+          <h3 className="font-semibold mb-2">Import Calendar File</h3>
+          <p className="text-sm text-gray-600 mb-2">Each event of an .ics file is added as a holiday.</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2 text-sm"
+          >
+            <Upload className="h-4 w-4" />
+            Import .ics
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`flex items-center gap-2 px-4 py-2 rounded mb-4 text-sm ${message.type === 'error' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+          {message.type === 'error' && <AlertCircle className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex items-center bg-gray-50 p-3 rounded mb-4">
+        <span className="flex-1 text-gray-700">
+          Maximum holidays worked per employee in the schedule period (empty = no limit):
+        </span>
+        <input
+          type="number"
+          min="0"
+          value={rules.maxHolidaysWorked || ''}
+          onChange={(e) => updateRules({ maxHolidaysWorked: e.target.value === '' ? '' : String(Math.max(0, parseInt(e.target.value) || 0)) })}
+          className="w-32 border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-[#19b08d] focus:border-[#19b08d] transition-colors"
+        />
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Holidays in the same rotation group (such as Christmas Day and the following New Year's Day) are shared out:
+        the schedule generator gives each employee at most one of them, and Check Schedule reports anyone working two.
+      </p>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border px-2 py-1 text-left">Date</th>
+            <th className="border px-2 py-1 text-left">Day</th>
+            <th className="border px-2 py-1 text-left">Holiday</th>
+            <th className="border px-2 py-1 text-left">Rotation Group</th>
+            <th className="border px-2 py-1 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {holidays.map(holiday => (
+            <tr key={holiday.date}>
+              <td className="border px-2 py-1 font-mono">{holiday.date}</td>
+              <td className="border px-2 py-1">{getDayOfWeek(holiday.date)}</td>
+              <td className="border px-2 py-1">{holiday.name}</td>
+              <td className="border px-2 py-1">
+                <input
+                  type="text"
+                  value={holiday.group || ''}
+                  onChange={(e) => handleGroupChange(holiday.date, e.target.value)}
+                  placeholder="None"
+                  className="w-full border border-gray-300 rounded px-2 py-1"
+                />
+              </td>
+              <td className="border px-2 py-1 text-center">
+                <button
+                  onClick={() => handleRemove(holiday.date)}
+                  className="text-gray-500 hover:text-red-600"
+                  title="Remove holiday"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+          <tr className="bg-gray-50">
+            <td className="border px-2 py-1" colSpan={2}>
+              <input
+                type="date"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              />
+            </td>
+            <td className="border px-2 py-1">
+              <input
+                type="text"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Holiday name"
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              />
+            </td>
+            <td className="border px-2 py-1">
+              <input
+                type="text"
+                value={newHoliday.group || ''}
+                onChange={(e) => setNewHoliday(prev => ({ ...prev, group: e.target.value }))}
+                placeholder="None"
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              />
+            </td>
+            <td className="border px-2 py-1 text-center">
+              <button
+                onClick={handleAddHoliday}
+                disabled={!newHoliday.date || !newHoliday.name.trim()}
+                className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                title="Add holiday"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default HolidayCalendar;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
 import { useShiftContext } from '../../context/ShiftContext';
-import { usePersonnelData } from '../../context/PersonnelDataContext';
+import { usePersonnelData, ShiftData as PersonnelShiftData } from '../../context/PersonnelDataContext';
 import { useRules } from '../../context/RulesContext';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
 import { findShiftById } from '../../utils/shiftUtils';
 
 interface ShiftData {
@@ -9,6 +11,8 @@ interface ShiftData {
   name: string;
   timeRange: string;
   counts: number[];
+  dateCounts?: { [date: string]: number };
+  roleCounts?: { [role: string]: number[] };
   idealNumber: number;
 }
 
@@ -72,6 +76,7 @@ function calculateIdealPersonnel(
 const PersonnelTable: React.FC = () => {
   const { shifts } = useShiftContext();
   const { shiftData, setShiftData } = usePersonnelData();
+  const { getCurrentList } = useEmployeeLists();
   const { rules } = useRules();
 
   // useEffect para sincronizar con cambios en turnos
@@ -110,6 +115,9 @@ const PersonnelTable: React.FC = () => {
         name: `Shift ${index + 1}`,
         timeRange: `${shift.startTime} - ${shift.endTime}`,
         counts: currentCounts,
+        // Las fechas especiales no cambian el promedio semanal de idealNumber
+        ...(existingShift?.dateCounts ? { dateCounts: existingShift.dateCounts } : {}),
+        ...(existingShift?.roleCounts ? { roleCounts: existingShift.roleCounts } : {}),
         idealNumber: idealNumber
       };
     });
@@ -176,6 +184,60 @@ const PersonnelTable: React.FC = () => {
 
   const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
+  // Fecha y personal que se están escribiendo para añadir una fecha especial, por turno
+  const [newOverrides, setNewOverrides] = useState<{ [shiftId: number]: { date: string; count: string } }>({});
+
+  // Personal de fechas concretas (festivos, eventos) que sustituye al del día de la semana
+  const updateDateCounts = (shiftId: number, dateCounts: { [date: string]: number }) => {
+    if (!Array.isArray(shiftData)) return;
+    setShiftData(shiftData.map(s => (s.id === shiftId ? { ...s, dateCounts } : s)));
+  };
+
+  const handleAddOverride = (shift: PersonnelShiftData) => {
+    const draft = newOverrides[shift.id];
+    const count = parseInt(draft?.count ?? '');
+    if (!draft?.date || isNaN(count) || count < 0) return;
+    updateDateCounts(shift.id, { ...shift.dateCounts, [draft.date]: count });
+    setNewOverrides(prev => ({ ...prev, [shift.id]: { date: '', count: '' } }));
+  };
+
+  const handleRemoveOverride = (shift: PersonnelShiftData, date: string) => {
+    const { [date]: _removed, ...dateCounts } = shift.dateCounts || {};
+    updateDateCounts(shift.id, dateCounts);
+  };
+
+  // Rol que se está escribiendo para añadirlo a un turno, por turno
+  const [newRoles, setNewRoles] = useState<{ [shiftId: number]: string }>({});
+  // Roles de los empleados de la lista, sugeridos al añadir un rol
+  const employeeRoles = Array.from(new Set(
+    (getCurrentList()?.employees || []).map(employee => employee.role).filter((role): role is string => !!role)
+  )).sort();
+
+  // Mínimo de cada rol por día de la semana; forma parte del personal del turno, no se suma a él
+  const updateRoleCounts = (shiftId: number, roleCounts: { [role: string]: number[] }) => {
+    if (!Array.isArray(shiftData)) return;
+    setShiftData(shiftData.map(s => (s.id === shiftId ? { ...s, roleCounts } : s)));
+  };
+
+  const handleAddRole = (shift: PersonnelShiftData) => {
+    const role = newRoles[shift.id]?.trim();
+    if (!role || shift.roleCounts?.[role]) return;
+    updateRoleCounts(shift.id, { ...shift.roleCounts, [role]: [0, 0, 0, 0, 0, 0, 0] });
+    setNewRoles(prev => ({ ...prev, [shift.id]: '' }));
+  };
+
+  const handleRoleCountChange = (shift: PersonnelShiftData, role: string, dayIndex: number, value: string) => {
+    const counts = [...(shift.roleCounts?.[role] || [0, 0, 0, 0, 0, 0, 0])];
+    const count = parseInt(value);
+    counts[dayIndex] = isNaN(count) || count < 0 ? 0 : count;
+    updateRoleCounts(shift.id, { ...shift.roleCounts, [role]: counts });
+  };
+
+  const handleRemoveRole = (shift: PersonnelShiftData, role: string) => {
+    const { [role]: _removed, ...roleCounts } = shift.roleCounts || {};
+    updateRoleCounts(shift.id, roleCounts);
+  };
+
   // Calcular el total de empleados ideales sumando los idealNumber de todos los turnos
   // Validar que shiftData sea un array antes de usar reduce
   const totalIdealPersonnel = Array.isArray(shiftData) 
@@ -241,12 +303,112 @@ const PersonnelTable: React.FC = () => {
                     {shift.idealNumber.toFixed(2)}
                   </td>
                 </tr>
+                {Object.entries(shift.roleCounts || {}).map(([role, counts]) => (
+                  <tr key={role} className="bg-gray-50 text-sm">
+                    <td className="px-4 py-2 border-r border-t border-gray-300 text-center">
+                      <span className="font-semibold">{role}</span> <span className="text-gray-500">(min.)</span>
+                    </td>
+                    {counts.map((count, index) => (
+                      <td key={index} className="px-4 py-2 border-r border-t border-gray-300 text-center">
+                        <input
+                          type="number"
+                          min="0"
+                          value={count}
+                          onChange={(e) => handleRoleCountChange(shift, role, index, e.target.value)}
+                          className={`w-16 border rounded px-2 py-1 text-center ${count > shift.counts[index] ? 'border-red-500 text-red-700' : 'border-gray-300'}`}
+                          title={count > shift.counts[index] ? 'More than the total staff for this day' : undefined}
+                        />
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 border-t border-gray-300 text-center">
+                      <button
+                        onClick={() => handleRemoveRole(shift, role)}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Remove this role"
+                      >
+                        <X className="h-4 w-4 inline" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
+
+          <div className="mt-2 flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Minimum staff per role (e.g. 2 RN and 1 CNA):</span>
+            <input
+              type="text"
+              list="employee-roles"
+              placeholder="Role"
+              value={newRoles[shift.id] || ''}
+              onChange={(e) => setNewRoles(prev => ({ ...prev, [shift.id]: e.target.value }))}
+              className="w-32 border border-gray-300 rounded px-2 py-1"
+            />
+            <button
+              onClick={() => handleAddRole(shift)}
+              disabled={!newRoles[shift.id]?.trim() || !!shift.roleCounts?.[newRoles[shift.id].trim()]}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Add Role
+            </button>
+          </div>
+
+          <div className="mt-4 border rounded-lg p-4 bg-gray-50">
+            <h4 className="font-semibold mb-1">Date-specific Staffing</h4>
+            <p className="text-sm text-gray-600 mb-3">
+              Holidays and special events can need a different number of staff. These dates replace the weekday count above.
+            </p>
+            {Object.keys(shift.dateCounts || {}).length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {Object.entries(shift.dateCounts || {})
+                  .sort(([a], [b]) => a.localeCompare(b))
+                  .map(([date, count]) => (
+                    <span key={date} className="flex items-center gap-2 bg-white border border-gray-300 rounded-full px-3 py-1 text-sm">
+                      {date} ({days[new Date(date + 'T00:00:00Z').getUTCDay()].slice(0, 3)}): <strong>{count}</strong>
+                      <span className="text-gray-500">instead of {shift.counts[new Date(date + 'T00:00:00Z').getUTCDay()] ?? 0}</span>
+                      <button
+                        onClick={() => handleRemoveOverride(shift, date)}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Remove this date"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </span>
+                  ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="date"
+                value={newOverrides[shift.id]?.date || ''}
+                onChange={(e) => setNewOverrides(prev => ({ ...prev, [shift.id]: { date: e.target.value, count: prev[shift.id]?.count ?? '' } }))}
+                className="border border-gray-300 rounded px-2 py-2"
+              />
+              <input
+                type="number"
+                min="0"
+                placeholder="Staff"
+                value={newOverrides[shift.id]?.count || ''}
+                onChange={(e) => setNewOverrides(prev => ({ ...prev, [shift.id]: { date: prev[shift.id]?.date ?? '', count: e.target.value } }))}
+                className="w-20 border border-gray-300 rounded px-2 py-2 text-center"
+              />
+              <button
+                onClick={() => handleAddOverride(shift)}
+                disabled={!newOverrides[shift.id]?.date || newOverrides[shift.id]?.count === '' || newOverrides[shift.id]?.count === undefined}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Add Date
+              </button>
+            </div>
+          </div>
         </div>
       ))}
 
+      <datalist id="employee-roles">
+        {employeeRoles.map(role => <option key={role} value={role} />)}
+      </datalist>
+
       <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] text-white p-4 rounded-lg flex justify-between items-center">
         <span className="text-lg text-center">
           Total Number of Employees Needed to Meet Staffing Requirements Across All Shifts:
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { DataBundleImportMode, hasBlockingConflicts } from '@shared/dataBundle';
+import {
+  DataBundlePreview,
+  getDataBundleErrorMessage,
+  importDataBundle,
+  previewDataBundle
+} from '../../lib/dataBundleApi';
+
+interface ImportDataModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Importa un archivo de Export Data: vista previa, conflictos de IDs y merge o replace
+const ImportDataModal: React.FC<ImportDataModalProps> = ({ isOpen, onClose }) => {
+  const { replaceLists } = useEmployeeLists();
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [preview, setPreview] = useState<DataBundlePreview | null>(null);
+  const [mode, setMode] = useState<DataBundleImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBundle(null);
+    setPreview(null);
+    setMode('merge');
+    setError(null);
+    setSummary(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBundle(null);
+    setPreview(null);
+    setError(null);
+    setSummary(null);
+    if (!file) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setError('The selected file is not valid JSON');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      setPreview(await previewDataBundle(parsed));
+      setBundle(parsed);
+    } catch (err) {
+      setError(getDataBundleErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle || !preview) return;
+    setIsBusy(true);
+    try {
+      const result = await importDataBundle(bundle, mode);
+      replaceLists(result.lists);
+      setSummary(`Created: ${result.created.length}, merged: ${result.merged.length}, replaced: ${result.replaced.length}`);
+      setBundle(null);
+      setPreview(null);
+    } catch (err) {
+      setError(getDataBundleErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const conflicts = preview?.conflicts;
+  const isBlocked = !!conflicts && hasBlockingConflicts(conflicts);
+  const hasExistingLists = !!conflicts && conflicts.existingListIds.length > 0;
+  const getListName = (listId: string) => preview?.lists.find(list => list.id === listId)?.name || listId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[600px] max-h-[85vh] overflow-y-auto relative shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-6 font-['Viata']">Import Data</h3>
+
+        <div className="space-y-4 font-['Viata']">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            disabled={isBusy}
+            className="w-full text-sm"
+          />
+
+          {preview && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border px-2 py-1 text-left">List</th>
+                  <th className="border px-2 py-1 text-left">Employees</th>
+                  <th className="border px-2 py-1 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.lists.map((list, index) => (
+                  <tr key={`${list.id}-${index}`}>
+                    <td className="border px-2 py-1">{list.name}</td>
+                    <td className="border px-2 py-1">{list.employeeCount}</td>
+                    <td className="border px-2 py-1">{list.exists ? 'Already exists' : 'New'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {conflicts && isBlocked && (
+            <ul className="bg-red-100 text-red-700 px-4 py-2 rounded text-sm list-disc list-inside">
+              {conflicts.duplicateListIds.map(listId => (
+                <li key={`list-${listId}`}>List ID "{listId}" appears more than once in the file</li>
+              ))}
+              {conflicts.duplicateEmployeeIds.map(entry => (
+                <li key={`employees-${entry.listId}`}>
+                  {getListName(entry.listId)} repeats employee IDs: {entry.employeeIds.join(', ')}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {conflicts && !isBlocked && hasExistingLists && (
+            <div className="bg-yellow-100 text-yellow-800 px-4 py-2 rounded text-sm space-y-1">
+              <p>
+                {conflicts.existingListIds.length} list(s) already exist: {conflicts.existingListIds.map(getListName).join(', ')}
+              </p>
+              {conflicts.existingEmployeeIds.map(entry => (
+                <p key={entry.listId}>
+                  {getListName(entry.listId)}: {entry.employeeIds.length} employee ID(s) already exist
+                </p>
+              ))}
+            </div>
+          )}
+
+          {conflicts && !isBlocked && hasExistingLists && (
+            <div className="space-y-2 text-sm">
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                <span>
+                  <strong>Merge</strong>: update employees and shifts with the same ID and add the new ones. The list name, rules and personnel per shift are kept.
+                </span>
+              </label>
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                <span>
+                  <strong>Replace</strong>: overwrite the existing lists with the contents of the file.
+                </span>
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          {summary && (
+            <div className="bg-green-500 text-white px-4 py-2 rounded text-sm">
+              Import completed. {summary}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 font-['Viata']"
+          >
+            {summary ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview || isBlocked || isBusy}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors font-['Viata'] disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDataModal;
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, AlertCircle, ChevronDown } from 'lucide-react';
+import { Employee, ShiftRow } from '../../types/common';
+import { parseCsv, readXlsx } from '../../utils/spreadsheet';
+import {
+  EMPLOYEE_IMPORT_FIELDS,
+  EmployeeImportField,
+  EmployeeImportMapping,
+  buildEmployeeImportPreview,
+  guessEmployeeImportMapping
+} from '../../utils/employeeImport';
+
+interface ImportEmployeesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingEmployees: Employee[];
+  shifts: ShiftRow[];
+  maxConsecutiveShifts: number;
+  onImport: (employees: Employee[]) => void;
+}
+
+// Lee un CSV o la primera hoja de un XLSX como filas de texto
+const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  return parseCsv(await file.text());
+};
+
+// Alta masiva de empleados desde CSV/XLSX: asociación de columnas, vista previa con
+// los errores de cada fila y emails repetidos; solo se añaden las filas válidas
+const ImportEmployeesModal: React.FC<ImportEmployeesModalProps> = ({
+  isOpen,
+  onClose,
+  existingEmployees,
+  shifts,
+  maxConsecutiveShifts,
+  onImport
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<EmployeeImportMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileName('');
+    setHeader([]);
+    setRows([]);
+    setMapping({});
+    setError(null);
+  }, [isOpen]);
+
+  const preview = useMemo(() => {
+    if (rows.length === 0) return null;
+    return buildEmployeeImportPreview(rows, mapping, {
+      existingEmployees,
+      shifts,
+      maxConsecutiveShifts,
+      createId: () => crypto.randomUUID()
+    });
+  }, [rows, mapping, existingEmployees, shifts, maxConsecutiveShifts]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setHeader([]);
+    setRows([]);
+    setError(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    setIsReading(true);
+    try {
+      const [fileHeader = [], ...dataRows] = await readSpreadsheetFile(file);
+      if (dataRows.length === 0) {
+        setError('The file has no employee rows below the header row');
+        return;
+      }
+      setHeader(fileHeader.map(cell => cell.trim()));
+      setRows(dataRows);
+      setMapping(guessEmployeeImportMapping(fileHeader));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: EmployeeImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    onImport(preview.rows.flatMap(row => (row.employee ? [row.employee] : [])));
+    onClose();
+  };
+
+  const missingRequired = EMPLOYEE_IMPORT_FIELDS.filter(definition =>
+    definition.required && (mapping[definition.field] === null || mapping[definition.field] === undefined)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[900px] max-h-[85vh] overflow-y-auto relative shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-2 font-['Viata']">Import Employees</h3>
+        <p className="text-sm text-gray-600 mb-4 font-['Viata']">
+          Upload a CSV or XLSX file with one employee per row and a header row. Shift preferences are listed
+          in order separated by ";" (e.g. "Night; Day") and fixed shifts use the shift name, its time range or "Off".
+        </p>
+
+        <div className="space-y-4 font-['Viata']">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileChange}
+            disabled={isReading}
+            className="w-full text-sm"
+          />
+
+          {header.length > 0 && (
+            <div>
+              <h4 className="font-bold mb-2">Column Mapping ({fileName})</h4>
+              <div className="grid grid-cols-3 gap-3">
+                {EMPLOYEE_IMPORT_FIELDS.map(definition => (
+                  <label key={definition.field} className="text-sm">
+                    <span className="block text-gray-700 mb-1">
+                      {definition.label} {definition.required && <span className="text-red-500">*</span>}
+                    </span>
+                    <div className="relative">
+                      <select
+                        value={mapping[definition.field] ?? ''}
+                        onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+                        className="w-full appearance-none bg-white border border-gray-300 rounded px-2 py-1 pr-8"
+                      >
+                        <option value="">Do not import</option>
+                        {header.map((column, index) => (
+                          <option key={index} value={index}>{column || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                      <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none" />
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {missingRequired.length > 0 && header.length > 0 && (
+            <div className="bg-yellow-100 text-yellow-800 px-4 py-2 rounded text-sm">
+              Choose a column for: {missingRequired.map(definition => definition.label).join(', ')}
+            </div>
+          )}
+
+          {preview && (
+            <div>
+              <h4 className="font-bold mb-2">
+                Preview: {preview.validCount} ready to import, {preview.errorCount} with errors
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="border px-2 py-1 text-left">Row</th>
+                    <th className="border px-2 py-1 text-left">Name</th>
+                    <th className="border px-2 py-1 text-left">Email</th>
+                    <th className="border px-2 py-1 text-left">Hire Date</th>
+                    <th className="border px-2 py-1 text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <tr key={row.rowNumber} className={row.employee ? '' : 'bg-red-50'}>
+                      <td className="border px-2 py-1">{row.rowNumber}</td>
+                      <td className="border px-2 py-1">{row.name}</td>
+                      <td className="border px-2 py-1">{row.employee?.email}</td>
+                      <td className="border px-2 py-1">{row.employee?.hireDate}</td>
+                      <td className="border px-2 py-1">
+                        {row.employee ? (
+                          <span className="text-green-700">Ready</span>
+                        ) : (
+                          <ul className="text-red-700 list-disc list-inside">
+                            {row.errors.map(message => <li key={message}>{message}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 font-['Viata']"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview || preview.validCount === 0 || missingRequired.length > 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors font-['Viata'] disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Import {preview?.validCount || 0} Employee(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportEmployeesModal;
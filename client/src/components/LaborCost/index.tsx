@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { DollarSign } from 'lucide-react';
+import { getDayOfWeek } from '@shared/schedule';
+import { DEFAULT_LABOR_BUDGET, LaborBudget, buildLaborCostReport, getEmployeeHourlyRate } from '@shared/laborCost';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useRules } from '../../context/RulesContext';
+import { useShiftContext } from '../../context/ShiftContext';
+import { loadPayrollSettings } from '../../lib/payrollSettings';
+
+const formatMoney = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Valor numérico de un input (vacío o inválido = 0, nunca negativo)
+const toAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+// Coste de personal del periodo del horario por día, turno y empleado, comparado con el
+// presupuesto de la lista. Las horas extra usan el umbral configurado en Payroll Hours.
+const LaborCost: React.FC = () => {
+  const { getCurrentList, updateList } = useEmployeeLists();
+  const { rules } = useRules();
+  const { shifts } = useShiftContext();
+  const [view, setView] = useState<'employee' | 'shift' | 'day'>('employee');
+  const currentList = getCurrentList();
+  const employees = currentList?.employees || [];
+  const laborBudget: LaborBudget = { ...DEFAULT_LABOR_BUDGET, ...currentList?.laborBudget };
+
+  const report = useMemo(() => buildLaborCostReport({
+    employees,
+    shifts,
+    startDate: rules.startDate,
+    endDate: rules.endDate,
+    laborBudget,
+    payrollSettings: loadPayrollSettings()
+  }), [employees, shifts, rules.startDate, rules.endDate, currentList?.laborBudget]);
+
+  // Roles de los empleados más los que ya tienen tarifa
+  const roles = useMemo(() => {
+    const names = new Set(Object.keys(laborBudget.roleRates));
+    employees.forEach(employee => employee.role && names.add(employee.role));
+    return Array.from(names).sort();
+  }, [employees, currentList?.laborBudget]);
+
+  if (!currentList) return null;
+
+  const updateBudget = (changes: Partial<LaborBudget>) => {
+    updateList(currentList.id, { laborBudget: { ...laborBudget, ...changes } });
+  };
+
+  const updateRoleRate = (role: string, value: string) => {
+    const { [role]: _previous, ...roleRates } = laborBudget.roleRates;
+    updateBudget({ roleRates: value === '' ? roleRates : { ...roleRates, [role]: toAmount(value) } });
+  };
+
+  // Sin tarifa propia se usa la del rol o la general
+  const updateHourlyRate = (employeeId: string, hourlyRate: number | undefined) => {
+    updateList(currentList.id, {
+      employees: employees.map(employee => {
+        if (employee.id !== employeeId) return employee;
+        const { hourlyRate: _previous, ...rest } = employee;
+        return hourlyRate !== undefined ? { ...rest, hourlyRate } : rest;
+      })
+    });
+  };
+
+  const usedPercent = report.budget > 0 ? Math.round((report.totalCost / report.budget) * 100) : 0;
+  const isOverBudget = report.budget > 0 && report.remaining < 0;
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6">
+        <h2 className="text-2xl font-bold text-white text-center">Labor Cost</h2>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+        <label className="flex flex-col gap-1 bg-gray-50 p-3 rounded">
+          Budget for {rules.startDate || '...'} to {rules.endDate || '...'}
+          <input
+            type="number"
+            min="0"
+            value={laborBudget.budget || ''}
+            onChange={(e) => updateBudget({ budget: toAmount(e.target.value) })}
+            className="border border-gray-300 rounded px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col gap-1 bg-gray-50 p-3 rounded">
+          Default hourly rate
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={laborBudget.defaultHourlyRate || ''}
+            onChange={(e) => updateBudget({ defaultHourlyRate: toAmount(e.target.value) })}
+            className="border border-gray-300 rounded px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col gap-1 bg-gray-50 p-3 rounded">
+          Overtime pay multiplier
+          <input
+            type="number"
+            min="1"
+            max="5"
+            step="0.1"
+            value={laborBudget.overtimeMultiplier}
+            onChange={(e) => updateBudget({ overtimeMultiplier: Math.min(5, Math.max(1, parseFloat(e.target.value) || 1)) })}
+            className="border border-gray-300 rounded px-3 py-2"
+          />
+        </label>
+      </div>
+
+      {roles.length > 0 && (
+        <div className="bg-gray-50 p-3 rounded mb-4 text-sm">
+          <h3 className="font-semibold mb-2">Hourly rate per role</h3>
+          <div className="flex flex-wrap gap-4">
+            {roles.map(role => (
+              <label key={role} className="flex items-center gap-2">
+                {role}
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={laborBudget.roleRates[role] ?? ''}
+                  onChange={(e) => updateRoleRate(role, e.target.value)}
+                  placeholder={String(laborBudget.defaultHourlyRate)}
+                  className="w-24 border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={`flex items-center gap-6 px-4 py-3 rounded mb-2 ${isOverBudget ? 'bg-red-100 text-red-800' : 'bg-green-50 text-green-800'}`}>
+        <DollarSign className="h-5 w-5" />
+        <span>Scheduled: <strong>{formatMoney(report.scheduledCost)}</strong></span>
+        <span>Open overtime slots: <strong>{formatMoney(report.openOvertimeCost)}</strong></span>
+        <span>Total: <strong>{formatMoney(report.totalCost)}</strong></span>
+        {report.budget > 0 && (
+          <span>
+            {isOverBudget ? 'Over budget by ' : 'Remaining: '}
+            <strong>{formatMoney(Math.abs(report.remaining))}</strong> ({usedPercent}% of budget)
+          </span>
+        )}
+      </div>
+      {report.budget > 0 && (
+        <div className="w-full h-2 bg-gray-200 rounded mb-4">
+          <div
+            className={`h-2 rounded ${isOverBudget ? 'bg-red-500' : 'bg-[#19b08d]'}`}
+            style={{ width: `${Math.min(100, usedPercent)}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-2 text-sm">
+        {(['employee', 'shift', 'day'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1 rounded ${view === option ? 'bg-[#19b08d] text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            Per {option}
+          </button>
+        ))}
+      </div>
+
+      {view === 'employee' && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Employee</th>
+              <th className="border px-2 py-1 text-left">Role</th>
+              <th className="border px-2 py-1">Hourly Rate</th>
+              <th className="border px-2 py-1">Paid Hours</th>
+              <th className="border px-2 py-1">Overtime Hours</th>
+              <th className="border px-2 py-1">Overtime Premium</th>
+              <th className="border px-2 py-1">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.byEmployee.map((line, index) => {
+              const employee = employees[index];
+              return (
+                <tr key={line.employeeId}>
+                  <td className="border px-2 py-1">{line.employeeName}</td>
+                  <td className="border px-2 py-1">{employee.role || ''}</td>
+                  <td className="border px-2 py-1">
+                    {/* Vacío = tarifa del rol o la general */}
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={employee.hourlyRate ?? ''}
+                      onChange={(e) => updateHourlyRate(employee.id, e.target.value === '' ? undefined : toAmount(e.target.value))}
+                      placeholder={String(getEmployeeHourlyRate({ role: employee.role }, laborBudget))}
+                      className="w-24 border border-gray-300 rounded px-2 py-1 text-right"
+                    />
+                  </td>
+                  <td className="border px-2 py-1 text-right">{line.hours}</td>
+                  <td className="border px-2 py-1 text-right">{line.overtimeHours}</td>
+                  <td className="border px-2 py-1 text-right">{formatMoney(line.overtimePremium)}</td>
+                  <td className="border px-2 py-1 text-right font-semibold">{formatMoney(line.cost)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {view === 'shift' && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Shift</th>
+              <th className="border px-2 py-1">Worked Hours</th>
+              <th className="border px-2 py-1">Overtime Premium</th>
+              <th className="border px-2 py-1">Cost</th>
+              <th className="border px-2 py-1">Open Overtime Slots</th>
+              <th className="border px-2 py-1">Open Overtime Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.byShift.map((line, index) => (
+              <tr key={line.shiftId}>
+                <td className="border px-2 py-1">{shifts[index].name || `${shifts[index].startTime} - ${shifts[index].endTime}`}</td>
+                <td className="border px-2 py-1 text-right">{line.hours}</td>
+                <td className="border px-2 py-1 text-right">{formatMoney(line.overtimePremium)}</td>
+                <td className="border px-2 py-1 text-right font-semibold">{formatMoney(line.cost)}</td>
+                <td className="border px-2 py-1 text-right">{line.openOvertimeSlots}</td>
+                <td className="border px-2 py-1 text-right">{formatMoney(line.openOvertimeCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {view === 'day' && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Date</th>
+              <th className="border px-2 py-1 text-left">Day</th>
+              <th className="border px-2 py-1">Paid Hours</th>
+              <th className="border px-2 py-1">Overtime Premium</th>
+              <th className="border px-2 py-1">Cost</th>
+              <th className="border px-2 py-1">Open Overtime Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.byDay.map(line => (
+              <tr key={line.date}>
+                <td className="border px-2 py-1 font-mono">{line.date}</td>
+                <td className="border px-2 py-1">{getDayOfWeek(line.date)}</td>
+                <td className="border px-2 py-1 text-right">{line.hours}</td>
+                <td className="border px-2 py-1 text-right">{formatMoney(line.overtimePremium)}</td>
+                <td className="border px-2 py-1 text-right font-semibold">{formatMoney(line.cost)}</td>
+                <td className="border px-2 py-1 text-right">{line.openOvertimeSlots > 0 ? formatMoney(line.openOvertimeCost) : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default LaborCost;
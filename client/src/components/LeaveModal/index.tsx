@@ -5,7 +5,8 @@ interface LeaveModalProps {
   isOpen: boolean;
   onClose: () => void;
   employeeName: string;
-  onSave: (leave: { startDate: string; endDate: string; type: string; hoursPerDay: number }) => void;
+  // La ausencia se envía como solicitud; solo bloquea días cuando un supervisor la aprueba
+  onSave: (leave: { startDate: string; endDate: string; type: string; hoursPerDay: number; reason: string }) => void;
 }
 
 const leaveTypes = [
@@ -38,6 +39,7 @@ const LeaveModal: React.FC<LeaveModalProps> = ({
   const [endDate, setEndDate] = useState('');
   const [leaveType, setLeaveType] = useState('Paid Vacation');
   const [hoursPerDay, setHoursPerDay] = useState('8');
+  const [reason, setReason] = useState('');
 
   const handleSave = () => {
     if (!startDate || !endDate || !leaveType || !hoursPerDay) {
@@ -48,7 +50,8 @@ const LeaveModal: React.FC<LeaveModalProps> = ({
       startDate,
       endDate,
       type: leaveType,
-      hoursPerDay: parseFloat(hoursPerDay)
+      hoursPerDay: parseFloat(hoursPerDay),
+      reason: reason.trim()
     });
 
     // Reset form
@@ -56,6 +59,7 @@ const LeaveModal: React.FC<LeaveModalProps> = ({
     setEndDate('');
     setLeaveType('Paid Vacation');
     setHoursPerDay('8');
+    setReason('');
     onClose();
   };
 
@@ -74,7 +78,7 @@ const LeaveModal: React.FC<LeaveModalProps> = ({
         <h2 className="text-xl font-bold mb-6">Select Date or Date Range</h2>
 
         <div className="bg-green-500 text-white px-4 py-2 rounded mb-6">
-          Adding Leave for: {employeeName}
+          Requesting Leave for: {employeeName}
         </div>
 
         <div className="space-y-4">
@@ -130,13 +134,26 @@ const LeaveModal: React.FC<LeaveModalProps> = ({
               (Enter 0 if leave days don't count towards total hours)
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason (optional)
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+              rows={2}
+              maxLength={500}
+            />
+          </div>
         </div>
 
         <button
           onClick={handleSave}
           className="w-full mt-6 bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 transition-colors"
         >
-          Save Leave
+          Submit for Approval
         </button>
       </div>
     </div>
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Check, X } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { useAuth } from '../../context/AuthContext';
+import {
+  LEAVE_REQUESTS_CHANGED_EVENT,
+  LeaveRequest,
+  approveLeaveRequest,
+  fetchLeaveRequests,
+  rejectLeaveRequest
+} from '../../lib/leaveRequestsApi';
+import { getApiErrorMessage } from '../../lib/queryClient';
+import { buildStaffingTargets } from '../../utils/staffingUtils';
+import { getLeaveStaffingWarnings } from '../../utils/leaveApproval';
+
+// Bandeja de aprobación: solicitudes de ausencia pendientes de la lista actual.
+// Solo el supervisor decide; el scheduler las ve para planificar.
+const LeaveRequestQueue: React.FC = () => {
+  const { getCurrentList, applyServerChange } = useEmployeeLists();
+  const { canApproveLeave } = useAuth();
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [decisionReasons, setDecisionReasons] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const currentList = getCurrentList();
+
+  useEffect(() => {
+    if (!currentList) return;
+    const loadRequests = () => {
+      fetchLeaveRequests(currentList.id, 'pending')
+        .then(setRequests)
+        .catch(err => setError(getApiErrorMessage(err)));
+    };
+
+    loadRequests();
+    window.addEventListener(LEAVE_REQUESTS_CHANGED_EVENT, loadRequests);
+    return () => window.removeEventListener(LEAVE_REQUESTS_CHANGED_EVENT, loadRequests);
+  }, [currentList?.id]);
+
+  const targets = useMemo(
+    () => (currentList ? buildStaffingTargets(currentList.shifts, currentList.shiftData) : {}),
+    [currentList?.shifts, currentList?.shiftData]
+  );
+
+  if (!currentList || (requests.length === 0 && !error)) return null;
+
+  const getEmployeeName = (employeeId: string) =>
+    currentList.employees.find(e => e.id === employeeId)?.name || employeeId;
+
+  const removeRequest = (requestId: number) => {
+    setRequests(prev => prev.filter(r => r.id !== requestId));
+    setError(null);
+  };
+
+  const handleApprove = async (request: LeaveRequest) => {
+    try {
+      // La ausencia aprobada llega con la lista recargada del servidor: no es un paso de
+      // deshacer, porque Ctrl+Z la quitaría del horario mientras la solicitud sigue aprobada
+      await applyServerChange(currentList.id, () =>
+        approveLeaveRequest(currentList.id, request.id, decisionReasons[request.id] || undefined)
+      );
+      removeRequest(request.id);
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    }
+  };
+
+  const handleReject = async (request: LeaveRequest) => {
+    try {
+      await rejectLeaveRequest(currentList.id, request.id, decisionReasons[request.id] || undefined);
+      removeRequest(request.id);
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="bg-gradient-to-r from-[#19b08d] to-[#117cee] p-4 rounded-t-lg mb-6">
+        <h2 className="text-2xl font-bold text-white">Leave Approval Inbox ({requests.length})</h2>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded mb-4 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="px-4 py-2 border border-gray-300 text-left">Employee</th>
+            <th className="px-4 py-2 border border-gray-300 text-left">Type of Leave</th>
+            <th className="px-4 py-2 border border-gray-300 text-left">Dates</th>
+            <th className="px-4 py-2 border border-gray-300 text-left">Hours per Day</th>
+            <th className="px-4 py-2 border border-gray-300 text-left">Reason</th>
+            <th className="px-4 py-2 border border-gray-300 text-left">Staffing</th>
+            <th className="px-4 py-2 border border-gray-300"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {requests.map(request => {
+            const warnings = getLeaveStaffingWarnings(request, currentList.employees, currentList.shifts, targets);
+
+            return (
+              <tr key={request.id}>
+                <td className="px-4 py-2 border border-gray-300">{getEmployeeName(request.employeeId)}</td>
+                <td className="px-4 py-2 border border-gray-300">{request.leaveType}</td>
+                <td className="px-4 py-2 border border-gray-300">{request.startDate} - {request.endDate}</td>
+                <td className="px-4 py-2 border border-gray-300">{request.hoursPerDay}</td>
+                <td className="px-4 py-2 border border-gray-300">{request.reason || '-'}</td>
+                <td className="px-4 py-2 border border-gray-300">
+                  {warnings.length === 0 ? (
+                    <span className="text-green-700">Targets still met</span>
+                  ) : (
+                    <div className="text-amber-700">
+                      <div className="flex items-center gap-1 font-semibold">
+                        <AlertTriangle className="h-4 w-4" />
+                        Approving leaves {warnings.length} shift{warnings.length === 1 ? '' : 's'} below target
+                      </div>
+                      <ul className="list-disc ml-5">
+                        {warnings.map(warning => (
+                          <li key={`${warning.date}-${warning.shiftId}`}>{warning.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2 border border-gray-300">
+                  {canApproveLeave ? (
+                    <div className="flex flex-col gap-2">
+                      <input
+                        type="text"
+                        value={decisionReasons[request.id] || ''}
+                        onChange={(e) => setDecisionReasons(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        placeholder="Decision reason (optional)"
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleApprove(request)}
+                          className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 flex items-center gap-1"
+                        >
+                          <Check className="h-4 w-4" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleReject(request)}
+                          className="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 flex items-center gap-1"
+                        >
+                          <X className="h-4 w-4" />
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <span className="text-gray-500">Awaiting supervisor approval</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LeaveRequestQueue;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+
+const LoginScreen: React.FC = () => {
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      // apiRequest lanza "401: {...}" cuando las credenciales no son válidas
+      const message = err instanceof Error && err.message.startsWith('401')
+        ? 'Invalid username or password'
+        : 'Could not connect to the server. Please try again.';
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md w-[380px] overflow-hidden">
+        <div className="bg-[#1a1c19] px-6 py-4 flex items-center justify-center">
+          <span className="text-[#117cee] font-bold text-3xl font-['Viata']">W</span>
+          <span className="text-[#19b08d] font-bold text-3xl font-['Viata']">A</span>
+          <span className="text-[#19b08d] font-bold text-3xl font-['Viata'] mr-1">O</span>
+          <span className="text-[#117cee] font-bold text-3xl font-['Viata']">K</span>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <h1 className="text-xl font-bold text-center font-['Viata']">Sign In</h1>
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-100 text-red-700 px-3 py-2 rounded text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 mb-1">
+              Username
+            </label>
+            <input
+              id="login-username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#19b08d]"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#19b08d]"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-gradient-to-r from-[#19b08d] to-[#117cee] text-white py-2 rounded hover:opacity-90 disabled:opacity-50 font-['Viata']"
+          >
+            {isSubmitting ? 'Signing in...' : 'Sign In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Bell, CheckCheck, Mail } from 'lucide-react';
+import { getApiErrorMessage } from '../../lib/queryClient';
+import {
+  EmployeeNotification,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead
+} from '../../lib/notificationsApi';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString([], {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+// Bandeja de entrada del empleado: cambios de su horario publicado, intercambios y
+// decisiones sobre sus ausencias. Los avisos sin leer se resaltan hasta abrirlos.
+const NotificationInbox: React.FC = () => {
+  const [notifications, setNotifications] = useState<EmployeeNotification[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotifications()
+      .then(setNotifications)
+      .catch(err => setError(getApiErrorMessage(err)));
+  }, []);
+
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  const handleRead = async (notification: EmployeeNotification) => {
+    if (notification.readAt) return;
+    try {
+      const read = await markNotificationRead(notification.id);
+      setNotifications(prev => prev.map(n => (n.id === read.id ? read : n)));
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    }
+  };
+
+  const handleReadAll = async () => {
+    try {
+      await markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt })));
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-6 mt-8 font-['Viata']">
+      <div className="flex items-center gap-3 mb-4">
+        <Bell className="h-6 w-6 text-blue-600" />
+        <h2 className="text-xl font-bold">Notifications</h2>
+        {unreadCount > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-blue-600 text-white text-xs font-semibold">
+            {unreadCount} unread
+          </span>
+        )}
+        <button
+          onClick={handleReadAll}
+          disabled={unreadCount === 0}
+          className="ml-auto px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <CheckCheck className="h-4 w-4" />
+          Mark All as Read
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded mb-4 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {notifications.length === 0 ? (
+        <p className="text-sm text-gray-500">You have no notifications.</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {notifications.map(notification => (
+            <li
+              key={notification.id}
+              onClick={() => handleRead(notification)}
+              className={`border rounded p-3 text-sm ${notification.readAt ? 'bg-white' : 'bg-blue-50 border-blue-200 cursor-pointer'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={notification.readAt ? 'font-semibold text-gray-700' : 'font-bold'}>{notification.title}</span>
+                <span className="ml-auto text-xs text-gray-500">{formatDateTime(notification.createdAt)}</span>
+              </div>
+              <p className="mt-1 text-gray-700 whitespace-pre-line">{notification.message}</p>
+              {notification.emailStatus !== 'skipped' && (
+                <p className={`mt-1 text-xs flex items-center gap-1 ${notification.emailStatus === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  <Mail className="h-3 w-3" />
+                  {notification.emailStatus === 'sent'
+                    ? `Sent to ${notification.email}`
+                    : `Could not be emailed to ${notification.email}`}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
@@ -4,9 +4,8 @@ import { useShiftContext } from '../../context/ShiftContext';
 import { useEmployeeLists } from '../../context/EmployeeListsContext';
 import { useRules } from '../../context/RulesContext';
 import { usePersonnelData } from '../../context/PersonnelDataContext';
-
-// Define daysOfWeek since it's not defined
-const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+import { getRecurringShift, isApprovedLeave } from '@shared/schedule';
+import { getShiftDataTarget } from '../../utils/staffingUtils';
 
 interface OvertimeModalProps {
   isOpen: boolean;
@@ -43,13 +42,10 @@ const OvertimeModal: React.FC<OvertimeModalProps> = ({ isOpen, onClose, shift })
       const employees = currentList?.employees || [];
       const currentShift = shifts[shift.index];
 
-      const date = new Date(selectedDate + 'T00:00:00Z');
-      const dayOfWeek = daysOfWeek[date.getUTCDay()];
-
       // Count scheduled employees
       let count = 0;
       employees.forEach(employee => {
-        const isOnLeave = employee.leave?.some(l => {
+        const isOnLeave = employee.leave?.filter(isApprovedLeave).some(l => {
           const leaveStart = new Date(l.startDate + 'T00:00:00Z');
           const leaveEnd = new Date(l.endDate + 'T00:00:00Z');
           const current = new Date(selectedDate + 'T00:00:00Z');
@@ -58,7 +54,7 @@ const OvertimeModal: React.FC<OvertimeModalProps> = ({ isOpen, onClose, shift })
 
         if (!isOnLeave) {
           const manualShift = employee.manualShifts?.[selectedDate];
-          const fixedShift = employee.fixedShifts?.[dayOfWeek]?.[0];
+          const fixedShift = getRecurringShift(employee, selectedDate);
           const shiftId = `uid_${Math.random().toString(36).substr(2, 15)}`;
 
           if (manualShift === shiftId || (!manualShift && fixedShift === shiftId)) {
@@ -67,7 +63,7 @@ const OvertimeModal: React.FC<OvertimeModalProps> = ({ isOpen, onClose, shift })
         }
       });
 
-      const idealStaff = shiftData && shiftData[shift.index] ? shiftData[shift.index].counts[date.getUTCDay()] || 0 : 0;
+      const idealStaff = getShiftDataTarget(shiftData?.[shift.index], selectedDate);
 
       setCurrentShiftInfo({
         currentStaff: count,
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { ScheduleEmployee, ScheduleShift } from '@shared/schedule';
+import { Holiday } from '@shared/holidays';
+import { OvertimeBasis, PayrollSettings, buildPayrollSummary } from '@shared/payroll';
+import { buildPayrollExportTable } from '../../utils/scheduleExport';
+import { CSV_MIME_TYPE, XLSX_MIME_TYPE, toCsv, toXlsx } from '../../utils/spreadsheet';
+import { downloadBlob } from '../../lib/download';
+import { loadPayrollSettings, savePayrollSettings } from '../../lib/payrollSettings';
+
+interface PayrollExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employees: ScheduleEmployee[];
+  shifts: ScheduleShift[];
+  startDate: string;
+  endDate: string;
+  holidays?: Holiday[];
+  listName: string;
+}
+
+// Horas de nómina por empleado y periodo de pago, con vista previa y exportación XLSX/CSV
+const PayrollExportModal: React.FC<PayrollExportModalProps> = ({
+  isOpen,
+  onClose,
+  employees,
+  shifts,
+  startDate,
+  endDate,
+  holidays,
+  listName
+}) => {
+  // La configuración se recuerda en el navegador entre exportaciones
+  const [settings, setSettings] = useState<PayrollSettings>(loadPayrollSettings);
+
+  // Tipos de ausencia de los empleados, más los marcados como sin sueldo aunque nadie los use ahora
+  const leaveTypes = useMemo(() => {
+    const types = new Set(settings.unpaidLeaveTypes);
+    employees.forEach(employee => employee.leave?.forEach(leave => types.add(leave.leaveType)));
+    return Array.from(types).sort();
+  }, [employees, settings.unpaidLeaveTypes]);
+
+  const summaries = useMemo(() => {
+    if (!isOpen) return [];
+    return buildPayrollSummary({ employees, shifts, startDate, endDate, settings, holidays });
+  }, [isOpen, employees, shifts, startDate, endDate, settings, holidays]);
+
+  if (!isOpen) return null;
+
+  const updateSettings = (changes: Partial<PayrollSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePayrollSettings(next);
+  };
+
+  const toggleUnpaidType = (leaveType: string) => {
+    updateSettings({
+      unpaidLeaveTypes: settings.unpaidLeaveTypes.includes(leaveType)
+        ? settings.unpaidLeaveTypes.filter(type => type !== leaveType)
+        : [...settings.unpaidLeaveTypes, leaveType]
+    });
+  };
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    const table = buildPayrollExportTable(summaries);
+    const fileName = `payroll-${startDate}-to-${endDate}`;
+
+    if (format === 'csv') {
+      // BOM para que Excel abra el CSV como UTF-8 (acentos en los nombres)
+      downloadBlob(new Blob(['\uFEFF' + toCsv(table)], { type: CSV_MIME_TYPE }), `${fileName}.csv`);
+    } else {
+      downloadBlob(new Blob([toXlsx(table, listName || 'Payroll')], { type: XLSX_MIME_TYPE }), `${fileName}.xlsx`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[1100px] max-w-[95%] max-h-[90vh] overflow-y-auto relative shadow-xl font-['Viata']">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-1">Payroll Hours</h3>
+        <p className="text-sm text-gray-600 mb-4">{startDate} to {endDate}</p>
+
+        <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+          <label className="flex flex-col gap-1">
+            Pay period
+            <select
+              value={settings.payPeriodDays}
+              onChange={(e) => updateSettings({ payPeriodDays: parseInt(e.target.value) })}
+              className="border border-gray-300 rounded px-2 py-2"
+            >
+              <option value={7}>Weekly</option>
+              <option value={14}>Biweekly</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Overtime after
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                value={settings.overtimeThreshold}
+                onChange={(e) => updateSettings({ overtimeThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-24 border border-gray-300 rounded px-2 py-2"
+              />
+              <select
+                value={settings.overtimeBasis}
+                onChange={(e) => updateSettings({ overtimeBasis: e.target.value as OvertimeBasis })}
+                className="flex-1 border border-gray-300 rounded px-2 py-2"
+              >
+                <option value="weekly">hours per week</option>
+                <option value="biweekly">hours per two weeks</option>
+              </select>
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            Night differential hours
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={settings.nightStart}
+                onChange={(e) => updateSettings({ nightStart: e.target.value })}
+                className="border border-gray-300 rounded px-2 py-2"
+              />
+              to
+              <input
+                type="time"
+                value={settings.nightEnd}
+                onChange={(e) => updateSettings({ nightEnd: e.target.value })}
+                className="border border-gray-300 rounded px-2 py-2"
+              />
+            </div>
+          </label>
+        </div>
+
+        <div className="bg-gray-50 p-3 rounded mb-4 text-sm">
+          <p className="font-semibold mb-2">Unpaid leave types</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {leaveTypes.map(leaveType => (
+              <label key={leaveType} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.unpaidLeaveTypes.includes(leaveType)}
+                  onChange={() => toggleUnpaidType(leaveType)}
+                />
+                {leaveType}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Other approved leave is paid at its hours per day. Weekend hours are the hours worked on Saturday or Sunday.
+          </p>
+        </div>
+
+        <table className="w-full text-sm border-collapse mb-4">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Employee</th>
+              <th className="border px-2 py-1 text-left">Pay Period</th>
+              <th className="border px-2 py-1">Regular</th>
+              <th className="border px-2 py-1">Overtime</th>
+              <th className="border px-2 py-1">Night</th>
+              <th className="border px-2 py-1">Weekend</th>
+              <th className="border px-2 py-1">Holiday</th>
+              <th className="border px-2 py-1">Paid Leave</th>
+              <th className="border px-2 py-1">Unpaid Leave</th>
+              <th className="border px-2 py-1">Total Paid</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={`${summary.employeeId}-${summary.periodStart}`}>
+                <td className="border px-2 py-1">{summary.employeeName}</td>
+                <td className="border px-2 py-1 font-mono">{summary.periodStart} - {summary.periodEnd}</td>
+                <td className="border px-2 py-1 text-right">{summary.regularHours}</td>
+                <td className={`border px-2 py-1 text-right ${summary.overtimeHours > 0 ? 'bg-red-50 text-red-700' : ''}`}>{summary.overtimeHours}</td>
+                <td className="border px-2 py-1 text-right">{summary.nightHours}</td>
+                <td className="border px-2 py-1 text-right">{summary.weekendHours}</td>
+                <td className="border px-2 py-1 text-right">{summary.holidayHours}</td>
+                <td className="border px-2 py-1 text-right">{summary.paidLeaveHours}</td>
+                <td className="border px-2 py-1 text-right">
+                  {summary.unpaidLeaveDays > 0 ? `${summary.unpaidLeaveDays} days (${summary.unpaidLeaveHours}h)` : 0}
+                </td>
+                <td className="border px-2 py-1 text-right font-semibold">{summary.totalPaidHours}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={summaries.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            disabled={summaries.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Export XLSX
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayrollExportModal;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer, Download, AlertCircle } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { buildRoster, getContrastTextColor, RosterCell } from '@shared/roster';
+import { getDayOfWeek } from '@shared/schedule';
+import { downloadRosterPdf } from '../../lib/rosterApi';
+import { getApiErrorMessage } from '../../lib/queryClient';
+
+interface PrintScheduleProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employeeIds: string[]; // Empleados mostrados en la tabla, en el mismo orden
+}
+
+// Clase del body que oculta la aplicación al imprimir (ver index.css)
+const PRINTING_CLASS = 'printing-roster';
+
+const LEAVE_FILL = '#F3F4F6';
+const LEAVE_MARKER = '#6B7280';
+
+const RosterCellContent: React.FC<{ cell: RosterCell }> = ({ cell }) => {
+  switch (cell.kind) {
+    case 'shift':
+      return (
+        <td
+          className="border border-gray-400 px-1 py-1 text-xs"
+          style={{ backgroundColor: cell.color || '#FFFFFF', color: getContrastTextColor(cell.color) }}
+        >
+          {cell.label}
+        </td>
+      );
+    case 'leave':
+      return (
+        <td
+          className="border border-gray-400 px-1 py-1 text-xs italic"
+          style={{ backgroundColor: LEAVE_FILL, color: LEAVE_MARKER, borderLeft: `4px solid ${LEAVE_MARKER}` }}
+        >
+          {cell.label}{cell.hoursPerDay ? ` (${cell.hoursPerDay}h)` : ''}
+        </td>
+      );
+    case 'day-off':
+      return <td className="border border-gray-400 px-1 py-1 text-xs text-gray-500">{cell.label}</td>;
+    default:
+      return <td className="border border-gray-400 px-1 py-1" />;
+  }
+};
+
+// Vista de impresión del horario: una semana por página con nombres, colores, totales y leyenda
+const PrintSchedule: React.FC<PrintScheduleProps> = ({ isOpen, onClose, employeeIds }) => {
+  const { getCurrentList } = useEmployeeLists();
+  const currentList = getCurrentList();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStartDate(currentList?.rules.startDate || '');
+    setEndDate(currentList?.rules.endDate || '');
+    setError(null);
+    document.body.classList.add(PRINTING_CLASS);
+    return () => document.body.classList.remove(PRINTING_CLASS);
+  }, [isOpen, currentList?.id]);
+
+  const roster = useMemo(() => {
+    if (!currentList) return null;
+    const employees = employeeIds
+      .map(id => currentList.employees.find(employee => employee.id === id))
+      .filter((employee): employee is NonNullable<typeof employee> => !!employee);
+    return buildRoster({ ...currentList, employees }, startDate, endDate);
+  }, [currentList, employeeIds, startDate, endDate]);
+
+  if (!isOpen || !currentList || !roster) return null;
+
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      await downloadRosterPdf(currentList.id, { startDate, endDate }, employeeIds);
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return createPortal(
+    <div className="roster-print-view fixed inset-0 bg-white z-50 overflow-auto font-['Viata']">
+      <div className="roster-print-toolbar sticky top-0 bg-gradient-to-r from-[#19b08d] to-[#117cee] text-white px-6 py-3 flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-bold mr-auto">Print Schedule</h2>
+        <label className="text-sm flex items-center gap-1">
+          From
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="text-black rounded px-2 py-1" />
+        </label>
+        <label className="text-sm flex items-center gap-1">
+          To
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="text-black rounded px-2 py-1" />
+        </label>
+        <button
+          onClick={() => window.print()}
+          disabled={roster.weeks.length === 0}
+          className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Printer className="h-4 w-4" />
+          Print
+        </button>
+        <button
+          onClick={handleDownloadPdf}
+          disabled={roster.weeks.length === 0 || isDownloading}
+          className="bg-white text-[#19b08d] px-4 py-2 rounded hover:bg-gray-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          Download PDF
+        </button>
+        <button onClick={onClose} className="text-white hover:text-gray-200" title="Close">
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="roster-print-toolbar flex items-center gap-2 bg-red-100 text-red-700 px-6 py-2 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {roster.weeks.length === 0 && (
+        <p className="p-6 text-gray-600">Select a valid period to print the schedule.</p>
+      )}
+
+      {roster.weeks.map((week, weekIndex) => (
+        <section key={week.dates[0]} className="roster-page p-6">
+          <h1 className="text-xl font-bold">{roster.title}</h1>
+          <p className="text-sm mb-3">
+            Week {weekIndex + 1} of {roster.weeks.length}: {week.dates[0]} to {week.dates[week.dates.length - 1]}
+          </p>
+
+          <table className="w-full border-collapse table-fixed">
+            <thead>
+              <tr className="bg-gray-200">
+                <th className="border border-gray-400 px-2 py-1 text-left text-sm w-40">Employee</th>
+                {week.dates.map(date => (
+                  <th key={date} className="border border-gray-400 px-1 py-1 text-left text-xs">
+                    <div>{getDayOfWeek(date)}</div>
+                    <div className="font-normal">{date}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {week.rows.map(row => (
+                <tr key={row.employeeId}>
+                  <td className="border border-gray-400 px-2 py-1 text-sm">{row.name}</td>
+                  {row.cells.map(cell => <RosterCellContent key={cell.date} cell={cell} />)}
+                </tr>
+              ))}
+              {week.totals.map(total => (
+                <tr key={total.shiftId}>
+                  <td
+                    className="border border-gray-400 px-2 py-1 text-xs font-bold"
+                    style={{ backgroundColor: total.color || '#FFFFFF', color: getContrastTextColor(total.color) }}
+                  >
+                    {total.label}
+                  </td>
+                  {week.dates.map((date, index) => {
+                    const isShort = total.scheduled[index] < total.ideal[index];
+                    return (
+                      <td key={date} className={`border border-gray-400 px-1 py-1 text-xs ${isShort ? 'text-red-700 font-bold' : ''}`}>
+                        {total.scheduled[index]}/{total.ideal[index]}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="bg-gray-200">
+                <td className="border border-gray-400 px-2 py-1 text-xs font-bold">Total</td>
+                {week.dates.map((date, index) => {
+                  const scheduled = week.totals.reduce((sum, total) => sum + total.scheduled[index], 0);
+                  const ideal = week.totals.reduce((sum, total) => sum + total.ideal[index], 0);
+                  return (
+                    <td key={date} className={`border border-gray-400 px-1 py-1 text-xs font-bold ${scheduled < ideal ? 'text-red-700' : ''}`}>
+                      {scheduled}/{ideal}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap gap-4 mt-3 text-xs">
+            {roster.legend.map(entry => (
+              <span key={entry.shiftId} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 border border-gray-400" style={{ backgroundColor: entry.color || '#FFFFFF' }} />
+                {entry.label} ({entry.timeRange})
+              </span>
+            ))}
+            {roster.leaveTypes.length > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 border border-gray-400" style={{ backgroundColor: LEAVE_FILL, borderLeft: `3px solid ${LEAVE_MARKER}` }} />
+                Leave: {roster.leaveTypes.join(', ')}
+              </span>
+            )}
+            <span>Staffing: scheduled/ideal (red = short)</span>
+          </div>
+        </section>
+      ))}
+    </div>,
+    document.body
+  );
+};
+
+export default PrintSchedule;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ComplianceReport, ComplianceViolation } from '../../utils/scheduleCompliance';
+import { ShiftRow } from '../../types/common';
+
+interface ScheduleComplianceReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: ComplianceReport | null;
+  shifts: ShiftRow[];
+  onJumpToCell: (violation: ComplianceViolation) => void;
+}
+
+const severityStyles: { [severity: string]: string } = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-yellow-100 text-yellow-800'
+};
+
+const ScheduleComplianceReport: React.FC<ScheduleComplianceReportProps> = ({
+  isOpen,
+  onClose,
+  report,
+  shifts,
+  onJumpToCell
+}) => {
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+
+  if (!isOpen || !report) return null;
+
+  const filterViolations = (violations: ComplianceViolation[]) =>
+    showOnlyErrors ? violations.filter(v => v.severity === 'error') : violations;
+
+  const renderViolations = (violations: ComplianceViolation[]) => (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="bg-gray-100">
+          <th className="border px-2 py-1 text-left">Date</th>
+          <th className="border px-2 py-1 text-left">Severity</th>
+          <th className="border px-2 py-1 text-left">Rule</th>
+          <th className="border px-2 py-1 text-left">Detail</th>
+          <th className="border px-2 py-1"></th>
+        </tr>
+      </thead>
+      <tbody>
+        {violations.map((violation, index) => (
+          <tr key={`${violation.rule}-${violation.date}-${violation.shiftId || ''}-${index}`}>
+            <td className="border px-2 py-1 whitespace-nowrap">{violation.date}</td>
+            <td className="border px-2 py-1">
+              <span className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${severityStyles[violation.severity]}`}>
+                {violation.severity}
+              </span>
+            </td>
+            <td className="border px-2 py-1 font-mono text-xs">{violation.rule}</td>
+            <td className="border px-2 py-1">{violation.message}</td>
+            <td className="border px-2 py-1 text-center">
+              <button
+                onClick={() => onJumpToCell(violation)}
+                className="text-[#117cee] hover:underline whitespace-nowrap"
+              >
+                Go to cell
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const staffingViolations = filterViolations(report.staffing);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[900px] max-h-[85vh] overflow-y-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h2 className="text-xl font-bold mb-2">Schedule Check</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          From {report.startDate} to {report.endDate}: {report.errorCount} errors, {report.warningCount} warnings.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm mb-4">
+          <input
+            type="checkbox"
+            checked={showOnlyErrors}
+            onChange={(e) => setShowOnlyErrors(e.target.checked)}
+          />
+          Show only errors
+        </label>
+
+        {report.employees.map(employeeReport => {
+          const violations = filterViolations(employeeReport.violations);
+          return (
+            <div key={employeeReport.employeeId} className="mb-6">
+              <h3 className="bg-gradient-to-r from-[#19b08d] to-[#117cee] text-white px-4 py-2 rounded-t">
+                {employeeReport.employeeName}
+              </h3>
+              {violations.length === 0 ? (
+                <p className="border border-t-0 px-4 py-2 text-sm text-green-700">No rule violations.</p>
+              ) : (
+                renderViolations(violations)
+              )}
+            </div>
+          );
+        })}
+
+        <div className="mb-2">
+          <h3 className="bg-gradient-to-r from-[#19b08d] to-[#117cee] text-white px-4 py-2 rounded-t">
+            Staffing (ideal number of personnel)
+          </h3>
+          {staffingViolations.length === 0 ? (
+            <p className="border border-t-0 px-4 py-2 text-sm text-green-700">Every shift matches its ideal staff.</p>
+          ) : (
+            renderViolations(staffingViolations)
+          )}
+          {shifts.length === 0 && (
+            <p className="text-sm text-gray-500 mt-2">There are no shifts configured.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleComplianceReport;
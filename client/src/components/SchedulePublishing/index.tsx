@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertCircle, Send, GitCompare } from 'lucide-react';
+import { getShiftLabel } from '@shared/roster';
+import type { PublishedCell } from '@shared/publishing';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { getApiErrorMessage } from '../../lib/queryClient';
+import { saveEmployeeList } from '../../lib/employeeListsApi';
+import {
+  PublicationDiff,
+  SchedulePublication,
+  fetchPublicationDiff,
+  fetchPublications,
+  publishSchedule
+} from '../../lib/publicationsApi';
+import { ShiftRow } from '../../types/common';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString([], {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const describeCell = (cell: PublishedCell, shifts: ShiftRow[]): string => {
+  if (!cell) return '—';
+  if (cell.type === 'day-off') return 'Day Off';
+  if (cell.type === 'leave') return `Leave (${cell.leaveType})`;
+  const shift = shifts.find(s => s.id === cell.shiftId);
+  return shift ? getShiftLabel(shift) : cell.shiftId;
+};
+
+interface PublicationDiffModalProps {
+  diff: PublicationDiff;
+  shifts: ShiftRow[];
+  onClose: () => void;
+}
+
+// Cambios del borrador respecto a una versión publicada
+const PublicationDiffModal: React.FC<PublicationDiffModalProps> = ({ diff, shifts, onClose }) => {
+  const { publication } = diff;
+  const hasChanges = diff.cells.length > 0 || diff.shifts.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[800px] max-h-[85vh] overflow-y-auto relative shadow-xl font-['Viata']">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h3 className="text-xl font-bold mb-1">Draft vs. Published v{publication.version}</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Changes made since {formatDateTime(publication.publishedAt)} to the period {publication.startDate} – {publication.endDate}.
+          Employees will not see them until the period is published again.
+        </p>
+
+        {!hasChanges && <p className="text-sm text-gray-500">The draft matches the published schedule.</p>}
+
+        {diff.shifts.length > 0 && (
+          <div className="mb-4">
+            <h4 className="font-bold mb-2">Shift Definitions</h4>
+            <ul className="text-sm space-y-1">
+              {diff.shifts.map(change => (
+                <li key={change.shiftId}>
+                  <span className="text-gray-500 line-through mr-2">
+                    {change.published ? `${getShiftLabel(change.published)} (${change.published.startTime} - ${change.published.endTime})` : 'Not published'}
+                  </span>
+                  {change.draft ? `${getShiftLabel(change.draft)} (${change.draft.startTime} - ${change.draft.endTime})` : 'Removed'}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff.cells.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border px-2 py-1 text-left">Employee</th>
+                <th className="border px-2 py-1 text-left">Date</th>
+                <th className="border px-2 py-1 text-left">Published</th>
+                <th className="border px-2 py-1 text-left">Draft</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.cells.map(change => (
+                <tr key={`${change.employeeId}-${change.date}`}>
+                  <td className="border px-2 py-1">{change.employeeName}</td>
+                  <td className="border px-2 py-1">{change.date}</td>
+                  <td className="border px-2 py-1 text-gray-600">{describeCell(change.published, shifts)}</td>
+                  <td className="border px-2 py-1 bg-yellow-50">{describeCell(change.draft, shifts)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Estado de publicación del horario de la lista actual. La lista es siempre el borrador;
+// publicar guarda una versión fija del periodo de las reglas, que es lo que ven los empleados.
+const SchedulePublishing: React.FC = () => {
+  const { getCurrentList } = useEmployeeLists();
+  const [publications, setPublications] = useState<SchedulePublication[]>([]);
+  const [diff, setDiff] = useState<PublicationDiff | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentList = getCurrentList();
+
+  useEffect(() => {
+    if (!currentList) return;
+    setPublications([]);
+    fetchPublications(currentList.id)
+      .then(setPublications)
+      .catch(err => setError(getApiErrorMessage(err)));
+  }, [currentList?.id]);
+
+  if (!currentList) return null;
+
+  const { startDate, endDate } = currentList.rules;
+  const latest = publications[publications.length - 1];
+
+  // El servidor publica y compara su copia de la lista: primero se guarda el borrador
+  const runWithSavedDraft = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await saveEmployeeList(currentList);
+      await action();
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePublish = () => {
+    if (!window.confirm(`Publish the schedule from ${startDate} to ${endDate}? Employees will see this version.`)) return;
+    runWithSavedDraft(async () => {
+      const publication = await publishSchedule(currentList.id, { startDate, endDate });
+      setPublications(prev => [...prev, publication]);
+    });
+  };
+
+  const handleCompare = () => {
+    if (!latest) return;
+    runWithSavedDraft(async () => {
+      setDiff(await fetchPublicationDiff(currentList.id, latest.id));
+    });
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-lg p-4 mt-8 font-['Viata']">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 text-sm font-semibold">Draft</span>
+        <span className="text-sm text-gray-700">
+          {latest
+            ? `Last published: v${latest.version} for ${latest.startDate} – ${latest.endDate} on ${formatDateTime(latest.publishedAt)}`
+            : 'This schedule has not been published yet. Employees do not see any shifts until it is.'}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={handleCompare}
+            disabled={!latest || isBusy}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <GitCompare className="h-4 w-4" />
+            Compare with Published
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={!startDate || !endDate || isBusy}
+            title={!startDate || !endDate ? 'Set the start and end dates in the schedule rules first' : undefined}
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Send className="h-4 w-4" />
+            Publish {startDate && endDate ? `${startDate} – ${endDate}` : 'Schedule'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded mt-4 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {diff && <PublicationDiffModal diff={diff} shifts={currentList.shifts} onClose={() => setDiff(null)} />}
+    </div>
+  );
+};
+
+export default SchedulePublishing;
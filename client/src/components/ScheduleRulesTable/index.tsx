@@ -8,6 +8,8 @@ import { useSelectedEmployees } from '../../context/SelectedEmployeesContext';
 import { Calendar } from 'lucide-react';
 import { ShiftRow } from '../../context/ShiftContext';
 import { findShiftById, formatShiftTime } from '../../utils/shiftUtils'; 
+import { isApprovedLeave } from '@shared/schedule';
+import { describeRotation } from '@shared/rotation';
 
 // Estilos CSS adicionales para la funcionalidad de ocultar/mostrar la tabla
 const styles = {
@@ -367,8 +369,11 @@ const ScheduleRulesTable: React.FC = () => {
                   <td className="border px-4 py-2">{employee.maxConsecutiveShifts || rules.maxConsecutiveShifts}</td>
                   <td className="border px-4 py-2">{formatPreferences(employee.shiftPreferences, shifts)}</td>
                   <td className="border px-4 py-2">{formatBlockedShifts(employee.blockedShifts, shifts)}</td>
-                  <td className="border px-4 py-2">{formatFixedShifts(employee.fixedShifts, shifts)}</td>
-                  <td className="border px-4 py-2">{formatLeaves(employee.leave)}</td>
+                  <td className="border px-4 py-2">
+                    {employee.rotation && <div>Rotation: {describeRotation(employee.rotation)}</div>}
+                    {formatFixedShifts(employee.fixedShifts, shifts)}
+                  </td>
+                  <td className="border px-4 py-2">{formatLeaves(employee.leave?.filter(isApprovedLeave))}</td>
                 </tr>
               ))}
             </tbody>
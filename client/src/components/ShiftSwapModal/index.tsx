@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useEmployeeLists } from '../../context/EmployeeListsContext';
+import { Rules, ShiftRow } from '../../types/common';
+import { planShiftSwap } from '@shared/shiftSwap';
+import { DAY_OFF } from '@shared/schedule';
+import { ShiftSwapRecord, fetchShiftSwaps, swapShifts } from '../../lib/shiftSwapsApi';
+import { getApiErrorMessage } from '../../lib/queryClient';
+
+interface ShiftSwapModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employeeId: string | null;
+  date: string | null; // YYYY-MM-DD de la celda desde la que se abre
+  shifts: ShiftRow[];
+  rules: Rules;
+}
+
+// Intercambio de turnos entre dos empleados con vista previa de los cambios y de las reglas
+const ShiftSwapModal: React.FC<ShiftSwapModalProps> = ({
+  isOpen,
+  onClose,
+  employeeId,
+  date,
+  shifts,
+  rules
+}) => {
+  const { getCurrentList, applyServerChange } = useEmployeeLists();
+  const [counterpartId, setCounterpartId] = useState('');
+  const [counterpartDate, setCounterpartDate] = useState('');
+  const [history, setHistory] = useState<ShiftSwapRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentList = getCurrentList();
+  const employee = currentList?.employees.find(e => e.id === employeeId);
+  const candidates = (currentList?.employees || []).filter(e => e.id !== employee?.id);
+  const counterpart = candidates.find(e => e.id === counterpartId);
+
+  useEffect(() => {
+    if (!isOpen || !currentList) return;
+    setCounterpartId('');
+    setCounterpartDate(date || '');
+    setError(null);
+    fetchShiftSwaps(currentList.id)
+      .then(setHistory)
+      .catch(err => setError(getApiErrorMessage(err)));
+  }, [isOpen, employee?.id, date, currentList?.id]);
+
+  const plan = useMemo(() => {
+    if (!employee || !counterpart || !date || !counterpartDate) return null;
+    return planShiftSwap(employee, counterpart, {
+      employeeId: employee.id,
+      date,
+      counterpartEmployeeId: counterpart.id,
+      counterpartDate
+    }, shifts, rules);
+  }, [employee, counterpart, date, counterpartDate, shifts, rules]);
+
+  if (!isOpen || !employee || !date || !currentList) return null;
+
+  const getEmployeeName = (id: string) =>
+    currentList.employees.find(e => e.id === id)?.name || id;
+
+  const describeValue = (value: string | null) => {
+    if (!value) return 'Empty';
+    if (value === DAY_OFF) return 'Day Off';
+    const shift = shifts.find(s => s.id === value);
+    return shift ? (shift.name || `${shift.startTime} - ${shift.endTime}`) : value;
+  };
+
+  const employeeHistory = history
+    .filter(swap => swap.employeeId === employee.id || swap.counterpartEmployeeId === employee.id)
+    .slice(-5)
+    .reverse();
+
+  const handleSwap = async () => {
+    if (!plan || plan.errors.length > 0 || !counterpart) return;
+    setIsSaving(true);
+    try {
+      // La lista se recarga del servidor con los dos empleados ya intercambiados
+      await applyServerChange(currentList.id, () => swapShifts(currentList.id, {
+        employeeId: employee.id,
+        date,
+        counterpartEmployeeId: counterpart.id,
+        counterpartDate
+      }));
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[600px] max-h-[85vh] overflow-y-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <h2 className="text-xl font-bold mb-6">Swapping Shifts Between Employees</h2>
+
+        <div className="bg-green-500 text-white px-4 py-2 rounded mb-6">
+          {employee.name}: {date}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Swap with
+            </label>
+            <select
+              value={counterpartId}
+              onChange={(e) => setCounterpartId(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            >
+              <option value="">Select an employee</option>
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Counterpart date
+            </label>
+            <input
+              type="date"
+              value={counterpartDate}
+              onChange={(e) => setCounterpartDate(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              (On a different date, each employee covers the other's day)
+            </p>
+          </div>
+
+          {plan && plan.changes.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border px-2 py-1 text-left">Employee</th>
+                  <th className="border px-2 py-1 text-left">Date</th>
+                  <th className="border px-2 py-1 text-left">Before</th>
+                  <th className="border px-2 py-1 text-left">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.changes.map(change => (
+                  <tr key={`${change.employeeId}-${change.date}`}>
+                    <td className="border px-2 py-1">{getEmployeeName(change.employeeId)}</td>
+                    <td className="border px-2 py-1">{change.date}</td>
+                    <td className="border px-2 py-1">{describeValue(change.before)}</td>
+                    <td className="border px-2 py-1">{describeValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {plan && plan.errors.length > 0 && (
+            <ul className="bg-red-100 text-red-700 px-4 py-2 rounded text-sm list-disc list-inside">
+              {plan.errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-100 text-red-700 px-4 py-2 rounded text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleSwap}
+          disabled={!plan || plan.errors.length > 0 || isSaving}
+          className="w-full mt-6 bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Swap Shifts
+        </button>
+
+        {employeeHistory.length > 0 && (
+          <div className="mt-6">
+            <h3 className="font-bold mb-2">Recent swaps of {employee.name}</h3>
+            <ul className="space-y-1 text-sm text-gray-700">
+              {employeeHistory.map(swap => (
+                <li key={swap.id}>
+                  {new Date(swap.createdAt).toLocaleString()}: {getEmployeeName(swap.employeeId)} ({swap.date}) ↔ {getEmployeeName(swap.counterpartEmployeeId)} ({swap.counterpartDate})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftSwapModal;
@@ -0,0 +1,82 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import type { UserRole } from '@shared/schema';
+import { apiRequest } from '../lib/queryClient';
+
+// Usuario de la sesión (sin contraseña), tal como lo devuelve /api/auth/me
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  // Permisos derivados del rol (el servidor los aplica igualmente)
+  canManageLists: boolean;
+  canEditSchedule: boolean;
+  canApproveLeave: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Recupera la sesión existente (cookie httpOnly) al cargar la aplicación
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/auth/me', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(sessionUser => {
+        if (!cancelled) setUser(sessionUser);
+      })
+      .catch(error => {
+        console.error('Error checking session:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const login = async (username: string, password: string) => {
+    const res = await apiRequest('POST', '/api/auth/login', { username, password });
+    const body = await res.json();
+    setUser(body.user);
+  };
+
+  const logout = async () => {
+    try {
+      await apiRequest('POST', '/api/auth/logout');
+    } finally {
+      // Recargar descarta los datos en memoria del usuario anterior
+      window.location.reload();
+    }
+  };
+
+  const canManageLists = user?.role === 'supervisor';
+  const canEditSchedule = user?.role === 'supervisor' || user?.role === 'scheduler';
+  const canApproveLeave = user?.role === 'supervisor';
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, canManageLists, canEditSchedule, canApproveLeave, login, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
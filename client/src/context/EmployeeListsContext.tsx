@@ -1,66 +1,26 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
-
-interface Employee {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  hireDate: string;
-  shiftPreferences: (number | null)[];
-  notes: {
-    confidential: string;
-    aiRules: string;
-  };
-}
-
-interface ShiftRow {
-  startTime: string;
-  endTime: string;
-  duration: string;
-  lunchBreakDeduction: number;
-}
-
-interface Rules {
-  startDate: string;
-  endDate: string;
-  maxConsecutiveShifts: string;
-  minDaysOffAfterMax: string;
-  minWeekendsOffPerMonth: string;
-  minRestHoursBetweenShifts: string;
-  writtenRule1: string;
-  writtenRule2: string;
-  minHoursPerWeek: string;
-  minHoursPerTwoWeeks: string;
-}
-
-interface ShiftPriorities {
-  [day: string]: { [shiftId: string]: boolean };
-}
-
-interface ShiftData {
-  id: number;
-  name: string;
-  timeRange: string;
-  counts: number[];
-  idealNumber: number;
-}
-
-interface SpecialRules {
-  employeeSelections?: {
-    [buttonId: string]: string[];
-  }
-}
-
-interface EmployeeList {
-  id: string;
-  name: string;
-  employees: Employee[];
-  shifts: ShiftRow[];
-  rules: Rules;
-  priorities: ShiftPriorities;
-  shiftData: ShiftData[];
-  specialRules?: SpecialRules;
-}
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { EmployeeList, ShiftRow } from '../types/common';
+import {
+  LEGACY_STORAGE_KEY,
+  ListConflictError,
+  MIGRATION_FLAG_KEY,
+  createEmployeeList,
+  deleteEmployeeList,
+  fetchEmployeeList,
+  fetchEmployeeLists,
+  getPendingLegacyLists,
+  importEmployeeLists,
+  saveEmployeeList
+} from '../lib/employeeListsApi';
+import { useAuth } from './AuthContext';
+import {
+  EMPTY_LIST_HISTORY,
+  ListHistory,
+  createHistoryChange,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory
+} from '../utils/listHistory';
 
 interface EmployeeListsContextType {
   lists: EmployeeList[];
@@ -69,13 +29,29 @@ interface EmployeeListsContextType {
   addList: (name: string) => void;
   removeList: (id: string) => void;
   updateList: (id: string, data: Partial<EmployeeList>) => void;
+  replaceLists: (lists: EmployeeList[]) => void;
+  // Sustituye una lista por la del servidor sin pasar por el historial ni volver a guardarla
+  replaceListFromServer: (list: EmployeeList) => void;
+  // Guarda los cambios pendientes, ejecuta una acción que modifica la lista en el servidor
+  // (intercambio, vincular cuenta, decidir una ausencia...) y recarga la lista
+  applyServerChange: <T>(id: string, action: () => Promise<T>) => Promise<T>;
   setCurrentList: (id: string) => void;
   getCurrentList: () => EmployeeList | null;
+  isLoading: boolean;
+  syncError: string | null;
+  // Deshacer/rehacer los cambios de updateList en la lista actual (Ctrl+Z / Ctrl+Y)
+  history: ListHistory;
+  undo: () => void;
+  redo: () => void;
 }
 
 const EmployeeListsContext = createContext<EmployeeListsContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'employeeLists';
+// La lista seleccionada es una preferencia del navegador; las listas viven en el servidor
+const CURRENT_LIST_KEY = 'currentListId';
+// Espera antes de guardar para agrupar cambios rápidos (ej. varias celdas seguidas)
+const SAVE_DELAY_MS = 500;
+const CONFLICT_MESSAGE = 'This list was changed by someone else and has been reloaded. Your last unsaved changes were discarded.';
 
 // Turnos por defecto eliminados - el usuario debe crear sus propios turnos
 
@@ -88,53 +64,181 @@ const formatDate = (date: Date) => {
   return date.toISOString().split('T')[0];
 };
 
-export const EmployeeListsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [lists, setLists] = useState<EmployeeList[]>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      return parsed.lists;
-    }
-    // Create default list if none exists
-    const defaultShifts: ShiftRow[] = []; // Sin turnos por defecto
+const createDefaultList = (): EmployeeList => ({
+  id: 'default',
+  name: 'Default List',
+  employees: [],
+  shifts: [], // Sin turnos por defecto
+  rules: {
+    startDate: formatDate(today),
+    endDate: formatDate(nextMonth),
+    maxConsecutiveShifts: '5',
+    minDaysOffAfterMax: '1',
+    minWeekendsOffPerMonth: '1',
+    minRestHoursBetweenShifts: '16',
+    writtenRule1: '',
+    writtenRule2: '',
+    minHoursPerWeek: '40',
+    minHoursPerTwoWeeks: '80'
+  },
+  priorities: {},
+  shiftData: []
+});
 
-    return [{
-      id: 'default',
-      name: 'Default List',
-      employees: [],
-      shifts: defaultShifts,
-      rules: {
-        startDate: formatDate(today),
-        endDate: formatDate(nextMonth),
-        maxConsecutiveShifts: '5',
-        minDaysOffAfterMax: '1',
-        minWeekendsOffPerMonth: '1',
-        minRestHoursBetweenShifts: '16',
-        writtenRule1: '',
-        writtenRule2: '',
-        minHoursPerWeek: '40',
-        minHoursPerTwoWeeks: '80'
-      },
-      priorities: {},
-      shiftData: []
-    }];
-  });
+// Carga compartida entre providers y montajes (StrictMode) para migrar y crear la lista por defecto una sola vez
+let initialLoad: Promise<EmployeeList[]> | null = null;
+
+// Solo quien puede crear listas (supervisor) migra localStorage y crea la lista por defecto
+const loadInitialLists = (canCreateLists: boolean): Promise<EmployeeList[]> => {
+  if (!initialLoad) {
+    initialLoad = (async () => {
+      let serverLists = await fetchEmployeeLists();
+      if (!canCreateLists) return serverLists;
+
+      // Migración única de las listas guardadas en localStorage
+      const pending = getPendingLegacyLists(localStorage);
+      if (pending) {
+        serverLists = await importEmployeeLists(pending.lists);
+      }
+      localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+
+      if (serverLists.length === 0) {
+        serverLists = [await createEmployeeList(createDefaultList())];
+      }
+      return serverLists;
+    })();
+    // Permite reintentar si la carga falla
+    initialLoad.catch(() => {
+      initialLoad = null;
+    });
+  }
+  return initialLoad;
+};
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// En los campos de texto Ctrl+Z deshace lo escrito, no los cambios de la lista
+const isTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit'].includes((target as HTMLInputElement).type);
+};
+
+export const EmployeeListsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { canManageLists, canEditSchedule } = useAuth();
+  const [lists, setLists] = useState<EmployeeList[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [syncError, setSyncError] = useState<string | null>(null);
 
   const [currentListId, setCurrentListId] = useState<string>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      return parsed.currentListId || 'default';
+    const stored = localStorage.getItem(CURRENT_LIST_KEY);
+    if (stored) return stored;
+    // Compatibilidad con la clave antigua
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      try {
+        return JSON.parse(legacy).currentListId || 'default';
+      } catch {
+        return 'default';
+      }
     }
     return 'default';
   });
 
   const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
 
-  // Save to localStorage whenever lists or currentListId changes
-  React.useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ lists, currentListId }));
-  }, [lists, currentListId]);
+  // Historial de cambios por lista; listsRef refleja también los cambios aún no renderizados
+  const [histories, setHistories] = useState<Record<string, ListHistory>>({});
+  const listsRef = useRef<EmployeeList[]>(lists);
+  listsRef.current = lists;
+  const nextHistoryEntryId = useRef(1);
+
+  // Listas modificadas pendientes de guardar en el servidor
+  const dirtyListIds = useRef<Set<string>>(new Set());
+  const saveTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // updatedAt de la última versión conocida del servidor; se envía al guardar para no
+  // sobrescribir cambios hechos desde entonces por otros (ver saveEmployeeList)
+  const serverVersions = useRef<Record<string, string | undefined>>({});
+  // Guardado en curso de cada lista: los de una misma lista van en orden
+  const pendingSaves = useRef<Record<string, Promise<void>>>({});
+
+  const rememberVersions = (serverLists: EmployeeList[]) => {
+    serverLists.forEach(list => {
+      serverVersions.current[list.id] = list.updatedAt;
+    });
+  };
+
+  // Carga inicial desde el servidor
+  useEffect(() => {
+    let cancelled = false;
+
+    loadInitialLists(canManageLists)
+      .then(serverLists => {
+        if (cancelled) return;
+        rememberVersions(serverLists);
+        setLists(serverLists);
+        setCurrentListId(prev => serverLists.some(list => list.id === prev) ? prev : serverLists[0]?.id || 'default');
+        setSyncError(null);
+      })
+      .catch(error => {
+        console.error('Error loading employee lists:', error);
+        if (!cancelled) setSyncError(getErrorMessage(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save selected list whenever it changes
+  useEffect(() => {
+    localStorage.setItem(CURRENT_LIST_KEY, currentListId);
+  }, [currentListId]);
+
+  // Guarda en el servidor las listas modificadas, agrupando los cambios rápidos
+  useEffect(() => {
+    if (dirtyListIds.current.size === 0) return;
+    if (saveTimeout.current) clearTimeout(saveTimeout.current);
+
+    saveTimeout.current = setTimeout(() => {
+      const ids = Array.from(dirtyListIds.current);
+      dirtyListIds.current.clear();
+
+      ids.forEach(saveList);
+    }, SAVE_DELAY_MS);
+  }, [lists]);
+
+  const saveList = (id: string): Promise<void> => {
+    const previous = pendingSaves.current[id] || Promise.resolve();
+    const next = previous.then(async () => {
+      const list = listsRef.current.find(l => l.id === id);
+      if (!list) return;
+      try {
+        const saved = await saveEmployeeList(list, serverVersions.current[id]);
+        serverVersions.current[id] = saved.updatedAt;
+        setSyncError(null);
+      } catch (error) {
+        if (error instanceof ListConflictError) {
+          replaceListFromServer(error.list);
+          setSyncError(CONFLICT_MESSAGE);
+          return;
+        }
+        console.error('Error saving employee list:', error);
+        setSyncError(getErrorMessage(error));
+      }
+    });
+    pendingSaves.current[id] = next;
+    return next;
+  };
+
+  // Guarda ya los cambios pendientes de la lista y espera a que terminen sus guardados
+  const flushList = (id: string): Promise<void> => {
+    if (dirtyListIds.current.delete(id)) return saveList(id);
+    return pendingSaves.current[id] || Promise.resolve();
+  };
 
   const addList = (name: string) => {
     // Generación automática de los 3 turnos con IDs únicos y horarios fijos
@@ -211,26 +315,123 @@ export const EmployeeListsProvider: React.FC<{ children: ReactNode }> = ({ child
     };
     setLists(prev => [...prev, newList]);
     setCurrentListId(newList.id); // Automatically select the new list
+
+    // La creación ocupa el primer puesto de la cola de guardados de la lista: los cambios
+    // hechos antes de que termine se envían cuando el servidor ya la tiene (ver saveList)
+    pendingSaves.current[newList.id] = createEmployeeList(newList)
+      .then(created => {
+        serverVersions.current[created.id] = created.updatedAt;
+      })
+      .catch(error => {
+        console.error('Error creating employee list:', error);
+        setSyncError(getErrorMessage(error));
+      });
   };
 
   const removeList = (id: string) => {
     setLists(prev => prev.filter(list => list.id !== id));
+    setHistories(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    dirtyListIds.current.delete(id);
     if (currentListId === id) {
       const remainingLists = lists.filter(list => list.id !== id);
       setCurrentListId(remainingLists[0]?.id || 'default');
     }
+
+    deleteEmployeeList(id).catch(error => {
+      console.error('Error deleting employee list:', error);
+      setSyncError(getErrorMessage(error));
+    });
   };
 
-  const updateList = (id: string, data: Partial<EmployeeList>) => {
-    setLists(prev => prev.map(list => 
-      list.id === id 
-        ? { ...list, ...data }
-        : list
-    ));
+  const applyListData = (id: string, data: Partial<EmployeeList>) => {
+    // Los empleados solo consultan: sus cambios locales no se envían al servidor
+    if (canEditSchedule) dirtyListIds.current.add(id);
+    const merge = (list: EmployeeList) => (list.id === id ? { ...list, ...data } : list);
+    listsRef.current = listsRef.current.map(merge);
+    setLists(prev => prev.map(merge));
     // Incrementar el refreshTrigger para notificar cambios a los componentes
     setRefreshTrigger(prev => prev + 1);
   };
 
+  const updateList = (id: string, data: Partial<EmployeeList>) => {
+    const list = listsRef.current.find(l => l.id === id);
+    const change = list && createHistoryChange(list, data);
+    if (change) {
+      const entry = { ...change, id: nextHistoryEntryId.current++, timestamp: Date.now() };
+      setHistories(prev => ({ ...prev, [id]: pushHistoryEntry(prev[id] || EMPTY_LIST_HISTORY, entry) }));
+    }
+    applyListData(id, data);
+  };
+
+  const undo = () => {
+    const result = undoHistory(histories[currentListId] || EMPTY_LIST_HISTORY);
+    if (!result) return;
+    setHistories(prev => ({ ...prev, [currentListId]: result.history }));
+    applyListData(currentListId, result.entry.before);
+  };
+
+  const redo = () => {
+    const result = redoHistory(histories[currentListId] || EMPTY_LIST_HISTORY);
+    if (!result) return;
+    setHistories(prev => ({ ...prev, [currentListId]: result.history }));
+    applyListData(currentListId, result.entry.after);
+  };
+
+  // Ctrl+Z deshace y Ctrl+Y (o Ctrl+Shift+Z) rehace; Cmd en macOS
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Sustituye todas las listas por las del servidor (ej. después de Import Data)
+  const replaceLists = (serverLists: EmployeeList[]) => {
+    // Los cambios pendientes quedarían obsoletos y sobrescribirían lo importado
+    dirtyListIds.current.clear();
+    // El historial se refiere a datos que ya no existen
+    setHistories({});
+    rememberVersions(serverLists);
+    setLists(serverLists);
+    setCurrentListId(prev => serverLists.some(list => list.id === prev) ? prev : serverLists[0]?.id || 'default');
+    setRefreshTrigger(prev => prev + 1);
+  };
+
+  // Los cambios que vienen del servidor no se deshacen con Ctrl+Z (el servidor no se enteraría)
+  // y el historial anterior de la lista ya no se puede aplicar sobre ellos
+  const replaceListFromServer = (serverList: EmployeeList) => {
+    dirtyListIds.current.delete(serverList.id);
+    serverVersions.current[serverList.id] = serverList.updatedAt;
+    listsRef.current = listsRef.current.map(list => (list.id === serverList.id ? serverList : list));
+    setLists(prev => prev.map(list => (list.id === serverList.id ? serverList : list)));
+    setHistories(prev => {
+      const next = { ...prev };
+      delete next[serverList.id];
+      return next;
+    });
+    setRefreshTrigger(prev => prev + 1);
+  };
+
+  const applyServerChange = async <T,>(id: string, action: () => Promise<T>): Promise<T> => {
+    await flushList(id);
+    const result = await action();
+    replaceListFromServer(await fetchEmployeeList(id));
+    return result;
+  };
+
   const getCurrentList = () => {
     return lists.find(list => list.id === currentListId) || null;
   };
@@ -243,8 +444,16 @@ export const EmployeeListsProvider: React.FC<{ children: ReactNode }> = ({ child
       addList,
       removeList,
       updateList,
+      replaceLists,
+      replaceListFromServer,
+      applyServerChange,
       setCurrentList: setCurrentListId,
-      getCurrentList
+      getCurrentList,
+      isLoading,
+      syncError,
+      history: histories[currentListId] || EMPTY_LIST_HISTORY,
+      undo,
+      redo
     }}>
       {children}
     </EmployeeListsContext.Provider>
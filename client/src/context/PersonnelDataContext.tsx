@@ -6,6 +6,8 @@ export interface ShiftData {
   name: string;
   timeRange: string;
   counts: number[];
+  dateCounts?: { [date: string]: number };
+  roleCounts?: { [role: string]: number[] };
   idealNumber: number;
 }
 
@@ -12,6 +12,7 @@ export interface RulesState {
   writtenRule2: string;
   minHoursPerWeek: string;
   minHoursPerTwoWeeks: string;
+  maxHolidaysWorked?: string;
 }
 
 interface RulesContextType {
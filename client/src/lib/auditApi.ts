@@ -0,0 +1,38 @@
+import { apiRequest } from './queryClient';
+import type { AuditField, AuditSource } from '@shared/auditLog';
+
+// Evento del registro de auditoría: quién cambió qué valor y cuándo
+export interface AuditEvent {
+  id: number;
+  listId: string;
+  userId: number | null;
+  username: string;
+  source: AuditSource;
+  field: AuditField;
+  employeeId: string | null;
+  date: string | null;
+  endDate: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  employeeId?: string;
+  date?: string;
+  field?: AuditField;
+}
+
+/**
+ * Obtiene los eventos de auditoría de la lista, del más reciente al más antiguo
+ * @param filters - Empleado, fecha (incluye las ausencias que la cubren) y campo
+ */
+export async function fetchAuditEvents(listId: string, filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  const query = params.toString();
+  const res = await apiRequest('GET', `/api/lists/${encodeURIComponent(listId)}/audit-events${query ? `?${query}` : ''}`);
+  return res.json();
+}
@@ -0,0 +1,40 @@
+import { apiRequest } from './queryClient';
+import { downloadBlob } from './download';
+
+// Enlace de suscripción al calendario de un empleado
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
+}
+
+const employeeUrl = (listId: string, employeeId: string) =>
+  `/api/lists/${encodeURIComponent(listId)}/employees/${encodeURIComponent(employeeId)}`;
+
+/**
+ * Descarga el horario del empleado como archivo .ics (periodo de las reglas de la lista)
+ */
+export async function downloadEmployeeCalendar(listId: string, employeeId: string, employeeName: string): Promise<void> {
+  const res = await apiRequest('GET', `${employeeUrl(listId, employeeId)}/calendar.ics`);
+  downloadBlob(await res.blob(), `${employeeName.replace(/[^\w-]+/g, '-') || 'schedule'}.ics`);
+}
+
+/**
+ * Obtiene el enlace de suscripción vigente (null si aún no se ha creado)
+ */
+export async function fetchCalendarFeed(listId: string, employeeId: string): Promise<CalendarFeed | null> {
+  const res = await apiRequest('GET', `${employeeUrl(listId, employeeId)}/calendar-feed`);
+  return res.json();
+}
+
+/**
+ * Crea un enlace de suscripción nuevo; el anterior deja de funcionar
+ */
+export async function createCalendarFeed(listId: string, employeeId: string): Promise<CalendarFeed> {
+  const res = await apiRequest('POST', `${employeeUrl(listId, employeeId)}/calendar-feed`);
+  return res.json();
+}
+
+/**
+ * Versión webcal:// del enlace, que abre directamente la app de calendario del teléfono
+ */
+export const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, 'webcal://');
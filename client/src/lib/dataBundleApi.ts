@@ -0,0 +1,64 @@
+import { apiRequest, getApiErrorMessage } from './queryClient';
+import { EmployeeList } from '../types/common';
+import { downloadBlob } from './download';
+import type { DataBundle, DataBundleConflicts, DataBundleImportMode } from '@shared/dataBundle';
+
+// Resumen de cada lista del archivo antes de importarlo
+export interface DataBundleListSummary {
+  id: string;
+  name: string;
+  employeeCount: number;
+  exists: boolean;
+}
+
+export interface DataBundlePreview {
+  lists: DataBundleListSummary[];
+  conflicts: DataBundleConflicts;
+}
+
+export interface DataBundleImportResult {
+  created: string[];
+  merged: string[];
+  replaced: string[];
+  lists: EmployeeList[];
+}
+
+/**
+ * Valida el archivo en el servidor y devuelve los conflictos de IDs sin guardar nada
+ */
+export async function previewDataBundle(bundle: unknown): Promise<DataBundlePreview> {
+  const res = await apiRequest('POST', '/api/data-bundle/preview', { bundle });
+  return res.json();
+}
+
+/**
+ * Importa el archivo combinando (merge) o sustituyendo (replace) las listas existentes
+ * @returns Listas creadas, combinadas y sustituidas, y todas las listas del servidor
+ */
+export async function importDataBundle(bundle: unknown, mode: DataBundleImportMode): Promise<DataBundleImportResult> {
+  const res = await apiRequest('POST', '/api/data-bundle/import', { bundle, mode });
+  return res.json();
+}
+
+/**
+ * Descarga el paquete como archivo JSON
+ */
+export function downloadDataBundle(bundle: DataBundle, fileName: string): void {
+  downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), fileName);
+}
+
+/**
+ * Mensaje de error de la importación, con el primer problema de validación del archivo
+ */
+export function getDataBundleErrorMessage(error: unknown): string {
+  const message = getApiErrorMessage(error);
+  if (!(error instanceof Error)) return message;
+  try {
+    const issue = JSON.parse(error.message.replace(/^\d{3}: /, '')).details?.[0];
+    if (!issue?.message) return message;
+    const path = Array.isArray(issue.path) && issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+    return `${message}: ${issue.message}${path}`;
+  } catch {
+    return message;
+  }
+}
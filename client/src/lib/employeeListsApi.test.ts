@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LEGACY_STORAGE_KEY,
+  MIGRATION_FLAG_KEY,
+  getPendingLegacyLists,
+  normalizeLegacyLists
+} from './employeeListsApi';
+
+// Almacenamiento en memoria con la misma interfaz que localStorage
+const createStorage = (items: { [key: string]: string } = {}): Storage => {
+  const data = new Map(Object.entries(items));
+  return {
+    get length() { return data.size; },
+    clear: () => data.clear(),
+    getItem: (key: string) => data.get(key) ?? null,
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    removeItem: (key: string) => { data.delete(key); },
+    setItem: (key: string, value: string) => { data.set(key, value); }
+  };
+};
+
+describe('employeeListsApi', () => {
+  describe('normalizeLegacyLists', () => {
+    it('debería completar los campos de turnos antiguos', () => {
+      const [list] = normalizeLegacyLists([{
+        id: 'default',
+        name: 'Default List',
+        shifts: [{ start: '7:00 AM', end: '3:00 PM', lunchBreak: 30 }]
+      }]);
+
+      expect(list.employees).toEqual([]);
+      expect(list.shifts[0]).toMatchObject({
+        startTime: '7:00 AM',
+        endTime: '3:00 PM',
+        lunchBreakDeduction: 30,
+        isOvertimeActive: false,
+        overtimeEntries: []
+      });
+      expect(list.shifts[0].id).toEqual(expect.any(String));
+    });
+
+    it('debería descartar listas sin ID y empleados sin nombre', () => {
+      const lists = normalizeLegacyLists([
+        { name: 'No ID' },
+        { id: 'L1', name: 'List', employees: [{ id: 'E1', name: '' }, { id: 'E2', name: 'Ana' }] }
+      ]);
+
+      expect(lists).toHaveLength(1);
+      expect(lists[0].employees.map(e => e.id)).toEqual(['E2']);
+    });
+  });
+
+  describe('getPendingLegacyLists', () => {
+    const legacy = JSON.stringify({ lists: [{ id: 'L1', name: 'List' }], currentListId: 'L1' });
+
+    it('debería retornar las listas de localStorage pendientes de migrar', () => {
+      const pending = getPendingLegacyLists(createStorage({ [LEGACY_STORAGE_KEY]: legacy }));
+      expect(pending?.lists.map(l => l.id)).toEqual(['L1']);
+      expect(pending?.currentListId).toBe('L1');
+    });
+
+    it('no debería migrar dos veces', () => {
+      const storage = createStorage({ [LEGACY_STORAGE_KEY]: legacy, [MIGRATION_FLAG_KEY]: '2026-10-19T00:00:00Z' });
+      expect(getPendingLegacyLists(storage)).toBeNull();
+    });
+
+    it('debería ignorar datos corruptos', () => {
+      expect(getPendingLegacyLists(createStorage({ [LEGACY_STORAGE_KEY]: '{ invalid' }))).toBeNull();
+    });
+  });
+});
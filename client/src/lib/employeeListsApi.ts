@@ -0,0 +1,167 @@
+import { apiRequest } from './queryClient';
+import { Employee, EmployeeList } from '../types/common';
+
+// Clave antigua donde el navegador guardaba todas las listas ({ lists, currentListId })
+export const LEGACY_STORAGE_KEY = 'employeeLists';
+// Marca de que la migración única al servidor ya se hizo
+export const MIGRATION_FLAG_KEY = 'employeeListsMigrated';
+
+/**
+ * Obtiene todas las listas guardadas en el servidor
+ */
+export async function fetchEmployeeLists(): Promise<EmployeeList[]> {
+  const res = await apiRequest('GET', '/api/lists');
+  return res.json();
+}
+
+/**
+ * Crea una lista en el servidor
+ * @returns La lista tal como quedó guardada
+ */
+export async function createEmployeeList(list: EmployeeList): Promise<EmployeeList> {
+  const res = await apiRequest('POST', '/api/lists', list);
+  return res.json();
+}
+
+/**
+ * Obtiene una lista tal como está guardada en el servidor
+ */
+export async function fetchEmployeeList(id: string): Promise<EmployeeList> {
+  const res = await apiRequest('GET', `/api/lists/${encodeURIComponent(id)}`);
+  return res.json();
+}
+
+// El servidor rechazó el guardado porque la lista cambió desde que se cargó
+export class ListConflictError extends Error {
+  constructor(public readonly list: EmployeeList) {
+    super('The list was changed by someone else since it was loaded');
+    this.name = 'ListConflictError';
+  }
+}
+
+/**
+ * Guarda la lista completa (reemplaza empleados, turnos y reglas)
+ * @param version - updatedAt de la versión cargada; si la del servidor es otra, no se guarda
+ * @throws ListConflictError con la lista actual del servidor si cambió desde esa versión
+ */
+export async function saveEmployeeList(list: EmployeeList, version?: string): Promise<EmployeeList> {
+  const { id, updatedAt: _loadedVersion, ...data } = list;
+  try {
+    const res = await apiRequest('PUT', `/api/lists/${encodeURIComponent(id)}`, data, version ? { 'If-Match': `"${version}"` } : undefined);
+    return res.json();
+  } catch (error) {
+    // apiRequest lanza "409: {...}" con la lista actual en el cuerpo
+    if (error instanceof Error && error.message.startsWith('409: ')) {
+      const body = JSON.parse(error.message.slice(5));
+      if (body.list) throw new ListConflictError(body.list);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Elimina una lista y todo su contenido
+ */
+export async function deleteEmployeeList(id: string): Promise<void> {
+  await apiRequest('DELETE', `/api/lists/${encodeURIComponent(id)}`);
+}
+
+// Cuenta de usuario vinculada a un empleado de la lista
+export interface EmployeeAccount {
+  employeeId: string;
+  userId: number;
+  username: string;
+}
+
+/**
+ * Obtiene las cuentas vinculadas a los empleados de una lista
+ */
+export async function fetchEmployeeAccounts(listId: string): Promise<EmployeeAccount[]> {
+  const res = await apiRequest('GET', `/api/lists/${encodeURIComponent(listId)}/accounts`);
+  return res.json();
+}
+
+/**
+ * Vincula un empleado con la cuenta indicada (null la desvincula)
+ * @returns El empleado actualizado
+ */
+export async function linkEmployeeAccount(listId: string, employeeId: string, username: string | null): Promise<Employee> {
+  const res = await apiRequest(
+    'PUT',
+    `/api/lists/${encodeURIComponent(listId)}/employees/${encodeURIComponent(employeeId)}/account`,
+    { username }
+  );
+  return res.json();
+}
+
+/**
+ * Guarda las preferencias de turno de un empleado (permitido al propio empleado)
+ * @returns El empleado actualizado
+ */
+export async function saveShiftPreferences(listId: string, employeeId: string, shiftPreferences: (number | null)[]): Promise<Employee> {
+  const res = await apiRequest(
+    'PUT',
+    `/api/lists/${encodeURIComponent(listId)}/employees/${encodeURIComponent(employeeId)}/preferences`,
+    { shiftPreferences }
+  );
+  return res.json();
+}
+
+/**
+ * Sube al servidor las listas guardadas en el navegador.
+ * Las listas que ya existen en el servidor no se modifican.
+ * @returns Todas las listas del servidor después de la importación
+ */
+export async function importEmployeeLists(lists: EmployeeList[]): Promise<EmployeeList[]> {
+  const res = await apiRequest('POST', '/api/lists/import', { lists });
+  const body = await res.json();
+  return body.lists;
+}
+
+/**
+ * Completa los campos que versiones anteriores no guardaban (IDs de turnos,
+ * listas vacías, reglas) para que las listas antiguas pasen la validación del servidor.
+ * @param lists - Listas leídas de localStorage
+ * @returns Listas listas para importar
+ */
+export function normalizeLegacyLists(lists: any[]): EmployeeList[] {
+  return lists
+    .filter(list => list && typeof list.id === 'string' && list.id)
+    .map(list => ({
+      ...list,
+      name: list.name || 'Untitled List',
+      employees: (list.employees || []).filter((employee: any) => employee?.id && employee?.name),
+      shifts: (list.shifts || []).map((shift: any) => ({
+        ...shift,
+        id: shift.id || crypto.randomUUID(),
+        startTime: shift.startTime || shift.start || '',
+        endTime: shift.endTime || shift.end || '',
+        duration: shift.duration || '',
+        lunchBreakDeduction: Number(shift.lunchBreakDeduction ?? shift.lunchBreak ?? 0),
+        isOvertimeActive: !!shift.isOvertimeActive,
+        overtimeEntries: shift.overtimeEntries || []
+      })).filter((shift: any) => shift.startTime && shift.endTime),
+      rules: list.rules || {},
+      priorities: list.priorities || {},
+      shiftData: (list.shiftData || []).filter((row: any) => Array.isArray(row?.counts))
+    }));
+}
+
+/**
+ * Lee las listas antiguas de localStorage si todavía no se migraron
+ * @returns Listas pendientes de migrar y la lista seleccionada, o null si no hay nada que migrar
+ */
+export function getPendingLegacyLists(storage: Storage): { lists: EmployeeList[]; currentListId: string | null } | null {
+  if (storage.getItem(MIGRATION_FLAG_KEY)) return null;
+  const stored = storage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const parsed = JSON.parse(stored);
+    const lists = normalizeLegacyLists(Array.isArray(parsed?.lists) ? parsed.lists : []);
+    return lists.length > 0 ? { lists, currentListId: parsed.currentListId || null } : null;
+  } catch (error) {
+    console.error('Error reading legacy employee lists:', error);
+    return null;
+  }
+}
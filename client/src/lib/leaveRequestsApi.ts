@@ -0,0 +1,80 @@
+import { apiRequest } from './queryClient';
+import { Employee } from '../types/common';
+import type { LeaveStatus } from '@shared/schema';
+
+// Solicitud de ausencia con su ciclo de vida (pending → approved | rejected → cancelled)
+export interface LeaveRequest {
+  id: number;
+  listId: string;
+  employeeId: string;
+  requestedBy: number;
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+  hoursPerDay: number;
+  reason: string | null;
+  status: LeaveStatus;
+  decidedBy: number | null;
+  decisionReason: string | null;
+  decidedAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+export type NewLeaveRequest = Pick<LeaveRequest, 'employeeId' | 'startDate' | 'endDate' | 'leaveType' | 'hoursPerDay'> & {
+  reason?: string;
+};
+
+// Respuesta de aprobar o cancelar: la solicitud y el empleado con employee.leave actualizado
+export interface LeaveRequestResult {
+  request: LeaveRequest;
+  employee: Employee | null;
+}
+
+// Evento de window que se emite al enviar una solicitud para que la bandeja se recargue
+export const LEAVE_REQUESTS_CHANGED_EVENT = 'leave-requests-changed';
+
+const requestsUrl = (listId: string) => `/api/lists/${encodeURIComponent(listId)}/leave-requests`;
+
+/**
+ * Obtiene las solicitudes de la lista, opcionalmente filtradas por estado
+ * (un empleado solo recibe las suyas)
+ */
+export async function fetchLeaveRequests(listId: string, status?: LeaveStatus): Promise<LeaveRequest[]> {
+  const query = status ? `?status=${status}` : '';
+  const res = await apiRequest('GET', `${requestsUrl(listId)}${query}`);
+  return res.json();
+}
+
+/**
+ * Envía una solicitud de ausencia; queda pendiente hasta que la decida un supervisor
+ */
+export async function submitLeaveRequest(listId: string, request: NewLeaveRequest): Promise<LeaveRequest> {
+  const res = await apiRequest('POST', requestsUrl(listId), request);
+  window.dispatchEvent(new Event(LEAVE_REQUESTS_CHANGED_EVENT));
+  return res.json();
+}
+
+/**
+ * Aprueba la solicitud (solo supervisores): la ausencia se añade a employee.leave
+ */
+export async function approveLeaveRequest(listId: string, requestId: number, reason?: string): Promise<LeaveRequestResult> {
+  const res = await apiRequest('POST', `${requestsUrl(listId)}/${requestId}/approve`, { reason });
+  return res.json();
+}
+
+/**
+ * Rechaza la solicitud (solo supervisores)
+ */
+export async function rejectLeaveRequest(listId: string, requestId: number, reason?: string): Promise<LeaveRequest> {
+  const res = await apiRequest('POST', `${requestsUrl(listId)}/${requestId}/reject`, { reason });
+  return res.json();
+}
+
+/**
+ * Cancela una solicitud pendiente o aprobada (el propio empleado o quien edita la lista)
+ */
+export async function cancelLeaveRequest(listId: string, requestId: number): Promise<LeaveRequestResult> {
+  const res = await apiRequest('POST', `${requestsUrl(listId)}/${requestId}/cancel`);
+  return res.json();
+}
@@ -0,0 +1,39 @@
+import { apiRequest } from './queryClient';
+import type { NotificationType } from '@shared/schema';
+
+// Aviso de la bandeja de entrada del empleado
+export interface EmployeeNotification {
+  id: number;
+  listId: string;
+  employeeId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  email: string | null;
+  emailStatus: 'sent' | 'failed' | 'skipped';
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Obtiene los avisos de los empleados vinculados a la cuenta, del más reciente al más antiguo
+ */
+export async function fetchNotifications(): Promise<EmployeeNotification[]> {
+  const res = await apiRequest('GET', '/api/notifications');
+  return res.json();
+}
+
+/**
+ * Marca un aviso como leído
+ */
+export async function markNotificationRead(id: number): Promise<EmployeeNotification> {
+  const res = await apiRequest('POST', `/api/notifications/${id}/read`);
+  return res.json();
+}
+
+/**
+ * Marca como leídos todos los avisos de la cuenta
+ */
+export async function markAllNotificationsRead(): Promise<void> {
+  await apiRequest('POST', '/api/notifications/read-all');
+}
@@ -0,0 +1,22 @@
+import { DEFAULT_PAYROLL_SETTINGS, PayrollSettings } from '@shared/payroll';
+
+const SETTINGS_STORAGE_KEY = 'payrollSettings';
+
+/**
+ * Configuración de nómina guardada en el navegador (la usan la nómina y el coste de personal)
+ */
+export function loadPayrollSettings(): PayrollSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PAYROLL_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PAYROLL_SETTINGS;
+  } catch {
+    return DEFAULT_PAYROLL_SETTINGS;
+  }
+}
+
+/**
+ * Guarda la configuración de nómina en el navegador
+ */
+export function savePayrollSettings(settings: PayrollSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
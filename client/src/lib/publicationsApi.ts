@@ -0,0 +1,47 @@
+import { apiRequest } from './queryClient';
+import type { ScheduleCellChange, ScheduleShiftChange } from '@shared/publishing';
+
+// Versión publicada del horario (sin la copia de los turnos)
+export interface SchedulePublication {
+  id: number;
+  listId: string;
+  version: number;
+  startDate: string;
+  endDate: string;
+  publishedBy: number | null;
+  publishedAt: string;
+}
+
+// Cambios del borrador desde una publicación, en el periodo de esa publicación
+export interface PublicationDiff {
+  publication: SchedulePublication;
+  cells: ScheduleCellChange[];
+  shifts: ScheduleShiftChange[];
+}
+
+const publicationsUrl = (listId: string) => `/api/lists/${encodeURIComponent(listId)}/publications`;
+
+/**
+ * Obtiene las versiones publicadas de la lista, de la más antigua a la más reciente
+ */
+export async function fetchPublications(listId: string): Promise<SchedulePublication[]> {
+  const res = await apiRequest('GET', publicationsUrl(listId));
+  return res.json();
+}
+
+/**
+ * Publica el borrador guardado en el servidor para un periodo; a partir de ese momento
+ * los empleados ven esta versión
+ */
+export async function publishSchedule(listId: string, period: { startDate: string; endDate: string }): Promise<SchedulePublication> {
+  const res = await apiRequest('POST', publicationsUrl(listId), period);
+  return res.json();
+}
+
+/**
+ * Compara el borrador guardado con una versión publicada
+ */
+export async function fetchPublicationDiff(listId: string, publicationId: number): Promise<PublicationDiff> {
+  const res = await apiRequest('GET', `${publicationsUrl(listId)}/${publicationId}/diff`);
+  return res.json();
+}
@@ -11,10 +11,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...headers },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,6 +24,17 @@ export async function apiRequest(
   return res;
 }
 
+// Extrae el mensaje { error } de los errores que lanza apiRequest ("409: {...}")
+export function getApiErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Unknown error";
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,15 @@
+import { apiRequest } from './queryClient';
+import { downloadBlob } from './download';
+import type { SchedulePeriod } from '@shared/schema';
+
+/**
+ * Descarga el roster en PDF generado por el servidor (una semana por página)
+ * @param employeeIds - Empleados a incluir; sin ellos se incluyen todos los visibles
+ */
+export async function downloadRosterPdf(listId: string, period: SchedulePeriod, employeeIds?: string[]): Promise<void> {
+  const params = new URLSearchParams({ startDate: period.startDate, endDate: period.endDate });
+  if (employeeIds) params.set('employeeIds', employeeIds.join(','));
+
+  const res = await apiRequest('GET', `/api/lists/${encodeURIComponent(listId)}/roster.pdf?${params}`);
+  downloadBlob(await res.blob(), `roster-${period.startDate}-to-${period.endDate}.pdf`);
+}
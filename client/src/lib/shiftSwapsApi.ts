@@ -0,0 +1,34 @@
+import { apiRequest } from './queryClient';
+import { Employee } from '../types/common';
+import type { ShiftSwapChange, ShiftSwapRequest } from '@shared/shiftSwap';
+
+// Registro de auditoría de un intercambio de turnos
+export interface ShiftSwapRecord extends ShiftSwapRequest {
+  id: number;
+  listId: string;
+  changes: ShiftSwapChange[];
+  swappedBy: number | null;
+  createdAt: string;
+}
+
+const swapsUrl = (listId: string) => `/api/lists/${encodeURIComponent(listId)}/shift-swaps`;
+
+/**
+ * Intercambia los turnos de dos empleados; el servidor vuelve a validar las reglas
+ * @returns El registro de auditoría y los dos empleados actualizados
+ */
+export async function swapShifts(
+  listId: string,
+  request: ShiftSwapRequest
+): Promise<{ swap: ShiftSwapRecord; employees: Employee[] }> {
+  const res = await apiRequest('POST', swapsUrl(listId), request);
+  return res.json();
+}
+
+/**
+ * Obtiene el historial de intercambios de la lista
+ */
+export async function fetchShiftSwaps(listId: string): Promise<ShiftSwapRecord[]> {
+  const res = await apiRequest('GET', swapsUrl(listId));
+  return res.json();
+}
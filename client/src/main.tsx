@@ -8,11 +8,29 @@ import { RulesProvider } from './context/RulesContext';
 import { PersonnelDataProvider } from './context/PersonnelDataContext';
 import { ShiftPrioritiesProvider } from './context/ShiftPrioritiesContext';
 import { SelectedEmployeesProvider } from './context/SelectedEmployeesContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import LoginScreen from './components/LoginScreen';
+
+// Muestra la pantalla de login hasta que haya sesión; los datos se cargan después de iniciar sesión
+function AuthGate({ children }: { children: React.ReactNode }) {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-gray-100" />;
+  }
+  if (!user) {
+    return <LoginScreen />;
+  }
+  return <>{children}</>;
+}
 
 // NOTA IMPORTANTE: Mantener este orden específico de providers
 // EmployeeListsProvider debe estar más externo que los demás providers que lo usan
+// AuthProvider envuelve a todos: ningún provider pide datos a la API antes del login
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
+    <AuthProvider>
+    <AuthGate>
     <EmployeeListsProvider>
       <ShiftProvider>
         <RulesProvider>
@@ -26,5 +44,7 @@ createRoot(document.getElementById('root')!).render(
         </RulesProvider>
       </ShiftProvider>
     </EmployeeListsProvider>
+    </AuthGate>
+    </AuthProvider>
   </StrictMode>
 );
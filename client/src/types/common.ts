@@ -1,5 +1,9 @@
 // Definición de tipos compartidos en la aplicación
 
+import type { EmployeeCertification, LaborBudget, LeaveStatus } from '@shared/schema';
+import type { ScheduleRotation } from '@shared/schedule';
+import type { Holiday } from '@shared/holidays';
+
 // Interfaz para representar datos de horas extra en turnos
 export interface ShiftOvertime {
   date: string;
@@ -18,6 +22,7 @@ export interface ShiftRow {
   overtimeEntries: ShiftOvertime[];
   name?: string; // Nombre personalizado del turno (ej. "TURNO DE DIA")
   color?: string; // Color del turno en formato hex (ej. "#FF5733")
+  requiredCertifications?: string[]; // Certificaciones vigentes necesarias para trabajarlo
   // Campos adicionales para compatibilidad con componentes existentes
   start?: string;
   end?: string;
@@ -38,16 +43,29 @@ export interface Employee {
     confidential: string;
     aiRules: string;
   };
+  userId?: number; // Cuenta de usuario del propio empleado (rol employee)
+  role?: string; // Puesto del empleado (ej. "RN"); cuenta en el personal por rol y define su tarifa si no tiene una propia
+  hourlyRate?: number; // Tarifa por hora propia, tiene prioridad sobre la del rol
+  certifications?: EmployeeCertification[]; // Certificaciones y habilidades (BLS, ACLS...)
   // Campos opcionales que pueden no estar presentes en todos los empleados
   leave?: { 
     id: string; 
     startDate: string; 
     endDate: string; 
     leaveType: string; 
-    hoursPerDay: number 
+    hoursPerDay: number;
+    // Flujo de aprobación: solo bloquean días las aprobadas (o sin estado, las anteriores)
+    status?: LeaveStatus;
+    requestId?: number;
+    reason?: string;
+    approvedBy?: string;
+    requestedAt?: string;
+    decidedAt?: string;
   }[];
   fixedShifts?: { [day: string]: string[] };
-  manualShifts?: { [date: string]: string[] };
+  rotation?: ScheduleRotation; // Rotación de varias semanas; desde su anchorDate sustituye a fixedShifts
+  manualShifts?: { [date: string]: string }; // { YYYY-MM-DD: shiftId o 'day-off' }
+  lockedShifts?: { [date: string]: string }; // Celdas fijadas a petición del empleado
   autoDaysOff?: string[];
   maxConsecutiveShifts?: number;
   shiftComments?: { [key: string]: string };
@@ -76,6 +94,7 @@ export interface Rules {
   writtenRule2: string;
   minHoursPerWeek: string;
   minHoursPerTwoWeeks: string;
+  maxHolidaysWorked?: string; // Festivos que puede trabajar cada empleado en el periodo ('' = sin límite)
 }
 
 // Interfaz para prioridades de turnos
@@ -88,7 +107,9 @@ export interface ShiftData {
   id: number;
   name: string;
   timeRange: string;
-  counts: number[];
+  counts: number[]; // Por día de la semana, domingo primero
+  dateCounts?: { [date: string]: number }; // { YYYY-MM-DD: personal } sustituye a counts en esa fecha
+  roleCounts?: { [role: string]: number[] }; // Mínimo de cada rol por día de la semana, domingo primero
   idealNumber: number;
 }
 
@@ -108,5 +129,8 @@ export interface EmployeeList {
   rules: Rules;
   priorities: ShiftPriorities;
   shiftData: ShiftData[];
+  holidays?: Holiday[];
+  laborBudget?: LaborBudget;
   specialRules?: SpecialRules;
+  updatedAt?: string; // Versión guardada en el servidor (ver saveEmployeeList)
 }
\ No newline at end of file
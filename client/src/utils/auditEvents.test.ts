@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuditValue } from './auditEvents';
+import { ShiftRow } from '../types/common';
+
+const shifts: ShiftRow[] = [
+  { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', duration: '8h', lunchBreakDeduction: 0, isOvertimeActive: false, overtimeEntries: [], name: 'Day' },
+  { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', duration: '8h', lunchBreakDeduction: 0, isOvertimeActive: false, overtimeEntries: [] }
+];
+
+describe('describeAuditValue', () => {
+  it('debería mostrar los turnos por su nombre o su horario', () => {
+    expect(describeAuditValue('manualShifts', 'uid_day', shifts)).toBe('Day');
+    expect(describeAuditValue('manualShifts', 'uid_night', shifts)).toBe('11:00 PM - 7:00 AM');
+    expect(describeAuditValue('lockedShifts', 'day-off', shifts)).toBe('Day Off');
+    expect(describeAuditValue('manualShifts', null, shifts)).toBe('—');
+    expect(describeAuditValue('fixedShifts', { Monday: ['uid_day'], Tuesday: [] }, shifts)).toBe('Monday: Day, Tuesday: None');
+  });
+
+  it('debería resumir ausencias, reglas y empleados', () => {
+    expect(describeAuditValue('leave', { leaveType: 'Vacation', startDate: '2026-11-10', endDate: '2026-11-12', status: 'cancelled' }, shifts))
+      .toBe('Vacation 2026-11-10 – 2026-11-12 (cancelled)');
+    expect(describeAuditValue('rules', { maxConsecutiveShifts: '4', writtenRule1: '' }, shifts))
+      .toBe('maxConsecutiveShifts: 4, writtenRule1: (empty)');
+    expect(describeAuditValue('employee', { name: 'Eva' }, shifts)).toBe('Eva');
+  });
+});
@@ -0,0 +1,71 @@
+import { DAY_OFF } from '@shared/schedule';
+import { getShiftLabel } from '@shared/roster';
+import type { AuditField } from '@shared/auditLog';
+import { describeRotation } from '@shared/rotation';
+import type { ScheduleRotation } from '@shared/schedule';
+import { ShiftRow } from '../types/common';
+
+// Textos del visor del registro de auditoría
+
+export const AUDIT_FIELD_LABELS: Record<AuditField, string> = {
+  employee: 'Employee',
+  manualShifts: 'Shift',
+  lockedShifts: 'Locked shift',
+  leave: 'Leave',
+  fixedShifts: 'Fixed shifts',
+  rotation: 'Rotation',
+  blockedShifts: 'Blocked shifts',
+  shift: 'Shift definition',
+  rules: 'Rules'
+};
+
+type LeaveValue = { leaveType?: string; startDate?: string; endDate?: string; status?: string };
+type BlockedValue = { blockedDays?: string[]; isActive?: boolean };
+
+const describeShiftId = (shifts: ShiftRow[], value: unknown): string => {
+  if (value === DAY_OFF) return 'Day Off';
+  const shift = shifts.find(s => s.id === value);
+  return shift ? getShiftLabel(shift) : String(value);
+};
+
+const describeEntries = (value: object, describe: (entry: unknown) => string): string =>
+  Object.entries(value).map(([key, entry]) => `${key}: ${describe(entry)}`).join(', ') || '—';
+
+/**
+ * Texto legible del valor anterior o nuevo de un evento
+ * @param field - Campo del evento
+ * @param value - Valor guardado (null si no existía)
+ * @param shifts - Turnos de la lista para mostrar nombres en lugar de IDs
+ */
+export const describeAuditValue = (field: AuditField, value: unknown, shifts: ShiftRow[]): string => {
+  if (value === null || value === undefined) return '—';
+
+  switch (field) {
+    case 'manualShifts':
+    case 'lockedShifts':
+      return describeShiftId(shifts, value);
+    case 'leave': {
+      const leave = value as LeaveValue;
+      return `${leave.leaveType} ${leave.startDate} – ${leave.endDate} (${leave.status || 'approved'})`;
+    }
+    case 'fixedShifts':
+      return describeEntries(value, entry =>
+        (Array.isArray(entry) ? entry : []).map(id => describeShiftId(shifts, id)).join(' / ') || 'None'
+      );
+    case 'rotation':
+      return describeRotation(value as ScheduleRotation);
+    case 'blockedShifts':
+      return describeEntries(value, entry => {
+        const blocked = entry as BlockedValue;
+        return blocked.isActive === false ? 'inactive' : (blocked.blockedDays || []).join(' / ');
+      });
+    case 'shift':
+      return getShiftLabel(value as ShiftRow);
+    case 'employee':
+      return (value as { name?: string }).name || '—';
+    case 'rules':
+      return describeEntries(value, entry => (entry === '' ? '(empty)' : String(entry)));
+    default:
+      return JSON.stringify(value);
+  }
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmployeeImportPreview, guessEmployeeImportMapping, parseImportDate } from './employeeImport';
+import { Employee, ShiftRow } from '../types/common';
+
+const shift = (id: string, startTime: string, endTime: string, name?: string): ShiftRow => ({
+  id,
+  startTime,
+  endTime,
+  duration: '8h',
+  lunchBreakDeduction: 0,
+  isOvertimeActive: false,
+  overtimeEntries: [],
+  name
+});
+
+const shifts = [shift('uid_day', '7:00 AM', '3:00 PM', 'Day'), shift('uid_night', '11:00 PM', '7:00 AM', 'Night')];
+
+const existing: Employee = {
+  id: 'E1',
+  name: 'Eva',
+  email: 'eva@example.com',
+  phone: '',
+  hireDate: '01/01/2020',
+  shiftPreferences: [null, null],
+  notes: { confidential: '', aiRules: '' }
+};
+
+const header = ['Full Name', 'E-mail', 'Phone', 'Hire Date', 'Preferences', 'Monday', 'Notes'];
+
+let nextId = 0;
+const options = { existingEmployees: [existing], shifts, maxConsecutiveShifts: 5, createId: () => `new-${++nextId}` };
+
+describe('guessEmployeeImportMapping', () => {
+  it('debería asociar las columnas por su encabezado', () => {
+    const mapping = guessEmployeeImportMapping(header);
+    expect(mapping).toMatchObject({ id: null, name: 0, email: 1, phone: 2, hireDate: 3, preferences: 4, 'fixed:Monday': 5, 'fixed:Tuesday': null });
+  });
+});
+
+describe('buildEmployeeImportPreview', () => {
+  it('debería crear empleados con preferencias y turnos fijos a partir de las filas válidas', () => {
+    const preview = buildEmployeeImportPreview(
+      [['Ana', 'ana@example.com', '555-0100', '2024-03-05', 'Night; Day', 'off', 'x']],
+      guessEmployeeImportMapping(header),
+      options
+    );
+
+    expect(preview).toMatchObject({ validCount: 1, errorCount: 0 });
+    expect(preview.rows[0].employee).toMatchObject({
+      id: 'new-1',
+      name: 'Ana',
+      email: 'ana@example.com',
+      phone: '555-0100',
+      hireDate: '03/05/2024',
+      shiftPreferences: [2, 1],
+      fixedShifts: { Monday: ['day-off'] },
+      maxConsecutiveShifts: 5
+    });
+  });
+
+  it('debería informar los errores de cada fila y los emails repetidos', () => {
+    const preview = buildEmployeeImportPreview(
+      [
+        ['Luis', 'EVA@example.com', '', '02/30/2024', '', '7:00 AM - 3:00 PM'],
+        ['', 'sam@example.com', '', '45231', 'Evening', 'Late'],
+        ['Sam', 'sam@example.com', '', '11/01/2023', '', '']
+      ],
+      guessEmployeeImportMapping(header),
+      options
+    );
+
+    expect(preview).toMatchObject({ validCount: 0, errorCount: 3 });
+    expect(preview.rows.map(row => row.rowNumber)).toEqual([2, 3, 4]);
+    expect(preview.rows[0].errors).toEqual([
+      'Invalid hire date "02/30/2024" (use mm/dd/yyyy or YYYY-MM-DD)',
+      'Duplicate email: EVA@example.com already belongs to an employee of this list'
+    ]);
+    expect(preview.rows[1].errors).toEqual([
+      'Name is required',
+      'Unknown shift "Evening" in preferences',
+      'Unknown shift "Late" on Monday'
+    ]);
+    // Los emails repetidos dentro del archivo se marcan aunque la primera fila tenga otros errores
+    expect(preview.rows[2].errors).toEqual(['Duplicate email: sam@example.com is also used in row 3']);
+  });
+});
+
+describe('parseImportDate', () => {
+  it('debería aceptar mm/dd/yyyy, YYYY-MM-DD y números de serie de Excel', () => {
+    expect(parseImportDate('3/5/2024')).toBe('03/05/2024');
+    expect(parseImportDate('2024-03-05T00:00:00')).toBe('03/05/2024');
+    expect(parseImportDate('45231')).toBe('11/01/2023');
+    expect(parseImportDate('March 5')).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+import { DAYS_OF_WEEK, DAY_OFF } from '@shared/schedule';
+import { getShiftLabel } from '@shared/roster';
+import { Employee, ShiftRow } from '../types/common';
+
+// Importación masiva de empleados desde una hoja de cálculo (CSV/XLSX): se asocian las
+// columnas a campos de Employee, se valida cada fila y se detectan los emails repetidos
+// antes de añadir nada a la lista.
+
+export type EmployeeImportField =
+  | 'id'
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'hireDate'
+  | 'preferences'
+  | `fixed:${string}`;
+
+export interface EmployeeImportFieldDefinition {
+  field: EmployeeImportField;
+  label: string;
+  required: boolean;
+  // Cabeceras que se asocian automáticamente (en minúsculas, sin espacios ni signos)
+  aliases: string[];
+}
+
+// Columna asignada a cada campo (índice de la columna o null si no se importa)
+export type EmployeeImportMapping = Partial<Record<EmployeeImportField, number | null>>;
+
+export interface EmployeeImportRow {
+  rowNumber: number; // Número de fila en la hoja, contando la cabecera como fila 1
+  name: string;
+  employee: Employee | null; // null cuando la fila tiene errores
+  errors: string[];
+}
+
+export interface EmployeeImportPreview {
+  rows: EmployeeImportRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+export interface EmployeeImportOptions {
+  existingEmployees: Employee[];
+  shifts: ShiftRow[];
+  maxConsecutiveShifts: number;
+  // Genera el ID de los empleados cuando no se importa la columna ID
+  createId: () => string;
+}
+
+// Número máximo de preferencias de turno (Pref #1 a #3, igual que PreferenceManager)
+const MAX_PREFERENCES = 3;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Fecha del número de serie 0 de Excel (sistema 1900)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+export const EMPLOYEE_IMPORT_FIELDS: EmployeeImportFieldDefinition[] = [
+  { field: 'id', label: 'Employee ID', required: false, aliases: ['id', 'employeeid', 'userid', 'staffid'] },
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'employee', 'employeename', 'fullname'] },
+  { field: 'email', label: 'Email', required: false, aliases: ['email', 'emailaddress', 'mail'] },
+  { field: 'phone', label: 'Phone', required: false, aliases: ['phone', 'phonenumber', 'mobile', 'telephone'] },
+  { field: 'hireDate', label: 'Hire Date', required: true, aliases: ['hiredate', 'startdate', 'hired', 'dateofhire'] },
+  { field: 'preferences', label: 'Shift Preferences', required: false, aliases: ['preferences', 'shiftpreferences', 'preferredshifts'] },
+  ...DAYS_OF_WEEK.map(day => ({
+    field: `fixed:${day}` as EmployeeImportField,
+    label: `Fixed Shift ${day}`,
+    required: false,
+    aliases: [day.toLowerCase(), `fixed${day.toLowerCase()}`, `fixedshift${day.toLowerCase()}`]
+  }))
+];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Asocia automáticamente las columnas cuyo encabezado coincide con un campo
+ */
+export const guessEmployeeImportMapping = (header: string[]): EmployeeImportMapping => {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return Object.fromEntries(EMPLOYEE_IMPORT_FIELDS.map(definition => {
+    const index = normalized.findIndex((value, i) => !used.has(i) && definition.aliases.includes(value));
+    if (index === -1) return [definition.field, null];
+    used.add(index);
+    return [definition.field, index];
+  }));
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Convierte una fecha de la hoja (mm/dd/yyyy, YYYY-MM-DD o número de serie de Excel)
+ * al formato mm/dd/yyyy del formulario de alta
+ * @returns La fecha normalizada o null si no es válida
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const date = new Date(EXCEL_EPOCH + Math.floor(Number(text)) * 86400000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${pad(month)}/${pad(day)}/${year}`;
+};
+
+// Busca un turno por su nombre visible o su horario ("7:00 AM - 3:00 PM"), sin distinguir mayúsculas
+const findShiftIndex = (shifts: ShiftRow[], value: string): number => {
+  const key = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  return shifts.findIndex(shift =>
+    getShiftLabel(shift).toLowerCase() === key ||
+    `${shift.startTime} - ${shift.endTime}`.toLowerCase() === key
+  );
+};
+
+const splitList = (value: string): string[] => value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Construye la vista previa de la importación: un empleado por fila válida y la lista de
+ * errores de las demás (campos obligatorios, fechas, emails y IDs repetidos, turnos desconocidos)
+ * @param rows - Filas de datos de la hoja, sin la cabecera
+ * @param mapping - Columna de cada campo
+ */
+export const buildEmployeeImportPreview = (
+  rows: string[][],
+  mapping: EmployeeImportMapping,
+  options: EmployeeImportOptions
+): EmployeeImportPreview => {
+  const { existingEmployees, shifts } = options;
+  const existingEmails = new Set(existingEmployees.map(e => e.email?.trim().toLowerCase()).filter(Boolean));
+  const existingIds = new Set(existingEmployees.map(e => e.id));
+  // Primera fila del archivo en la que aparece cada email o ID
+  const emailRows = new Map<string, number>();
+  const idRows = new Map<string, number>();
+
+  const getValue = (row: string[], field: EmployeeImportField): string => {
+    const index = mapping[field];
+    return index === null || index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const previewRows = rows.map((row, index): EmployeeImportRow => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const name = getValue(row, 'name');
+    const email = getValue(row, 'email');
+    const rawHireDate = getValue(row, 'hireDate');
+
+    if (!name) errors.push('Name is required');
+
+    const hireDate = rawHireDate ? parseImportDate(rawHireDate) : null;
+    if (!rawHireDate) errors.push('Hire date is required');
+    else if (!hireDate) errors.push(`Invalid hire date "${rawHireDate}" (use mm/dd/yyyy or YYYY-MM-DD)`);
+
+    if (email) {
+      const key = email.toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+      else if (existingEmails.has(key)) errors.push(`Duplicate email: ${email} already belongs to an employee of this list`);
+      else if (emailRows.has(key)) errors.push(`Duplicate email: ${email} is also used in row ${emailRows.get(key)}`);
+      else emailRows.set(key, rowNumber);
+    }
+
+    let id = getValue(row, 'id');
+    if (id) {
+      if (existingIds.has(id)) errors.push(`An employee with ID ${id} already exists`);
+      else if (idRows.has(id)) errors.push(`Duplicate ID: ${id} is also used in row ${idRows.get(id)}`);
+      else idRows.set(id, rowNumber);
+    }
+
+    // Preferencias en orden ("Night; Day" = Night Pref #1, Day Pref #2)
+    const shiftPreferences: (number | null)[] = Array(shifts.length > 0 ? shifts.length : 3).fill(null);
+    const preferenceNames = splitList(getValue(row, 'preferences'));
+    if (preferenceNames.length > MAX_PREFERENCES) {
+      errors.push(`At most ${MAX_PREFERENCES} shift preferences are allowed`);
+    }
+    preferenceNames.slice(0, MAX_PREFERENCES).forEach((preference, rank) => {
+      const shiftIndex = findShiftIndex(shifts, preference);
+      if (shiftIndex === -1) errors.push(`Unknown shift "${preference}" in preferences`);
+      else if (shiftPreferences[shiftIndex] !== null) errors.push(`Shift "${preference}" is repeated in preferences`);
+      else shiftPreferences[shiftIndex] = rank + 1;
+    });
+
+    const fixedShifts: { [day: string]: string[] } = {};
+    DAYS_OF_WEEK.forEach(day => {
+      const value = getValue(row, `fixed:${day}`);
+      if (!value) return;
+      if (/^(day[\s-]?)?off$/i.test(value)) {
+        fixedShifts[day] = [DAY_OFF];
+        return;
+      }
+      const shiftIndex = findShiftIndex(shifts, value);
+      if (shiftIndex !== -1) fixedShifts[day] = [shifts[shiftIndex].id];
+      else errors.push(`Unknown shift "${value}" on ${day}`);
+    });
+
+    if (errors.length > 0) return { rowNumber, name, employee: null, errors };
+
+    if (!id) id = options.createId();
+    return {
+      rowNumber,
+      name,
+      errors,
+      employee: {
+        id,
+        name,
+        email,
+        phone: getValue(row, 'phone'),
+        hireDate: hireDate!,
+        fixedShifts,
+        maxConsecutiveShifts: options.maxConsecutiveShifts,
+        shiftPreferences,
+        leave: [],
+        notes: {
+          confidential: '',
+          aiRules: ''
+        }
+      }
+    };
+  });
+
+  const validCount = previewRows.filter(row => row.employee).length;
+  return { rows: previewRows, validCount, errorCount: previewRows.length - validCount };
+};
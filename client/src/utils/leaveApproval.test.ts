@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getLeaveStaffingWarnings } from './leaveApproval';
+import { buildStaffingTargets } from './staffingUtils';
+import { Employee, ShiftRow, ShiftData } from '../types/common';
+
+const makeShift = (id: string, startTime: string, endTime: string): ShiftRow => ({
+  id,
+  startTime,
+  endTime,
+  duration: '8:00',
+  lunchBreakDeduction: 0,
+  isOvertimeActive: false,
+  overtimeEntries: []
+});
+
+const makeEmployee = (id: string, manualShifts: { [date: string]: string } = {}): Employee => ({
+  id,
+  name: `Employee ${id}`,
+  email: '',
+  phone: '',
+  hireDate: '2020-01-01',
+  shiftPreferences: [null, null],
+  notes: { confidential: '', aiRules: '' },
+  manualShifts
+});
+
+const shifts = [makeShift('uid_day', '7:00 AM', '3:00 PM'), makeShift('uid_night', '11:00 PM', '7:00 AM')];
+
+// Turno de día: 2 personas todos los días; turno de noche: sin objetivo
+const shiftData: ShiftData[] = [
+  { id: 1, name: 'Day', timeRange: '', counts: [2, 2, 2, 2, 2, 2, 2], idealNumber: 2 },
+  { id: 2, name: 'Night', timeRange: '', counts: [0, 0, 0, 0, 0, 0, 0], idealNumber: 0 }
+];
+const targets = buildStaffingTargets(shifts, shiftData);
+
+describe('getLeaveStaffingWarnings', () => {
+  // 2026-11-02 y 2026-11-03: A y B en el turno de día; el 03 también C
+  const employees = [
+    makeEmployee('A', { '2026-11-02': 'uid_day', '2026-11-03': 'uid_day', '2026-11-04': 'uid_night' }),
+    makeEmployee('B', { '2026-11-02': 'uid_day', '2026-11-03': 'uid_day' }),
+    makeEmployee('C', { '2026-11-03': 'uid_day' })
+  ];
+
+  it('debería avisar solo en los días en que el turno queda por debajo del objetivo', () => {
+    const warnings = getLeaveStaffingWarnings(
+      { employeeId: 'A', startDate: '2026-11-02', endDate: '2026-11-04' },
+      employees,
+      shifts,
+      targets
+    );
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ date: '2026-11-02', shiftId: 'uid_day', remaining: 1, target: 2 })
+    ]);
+  });
+
+  it('debería ignorar los días libres y los empleados desconocidos', () => {
+    expect(getLeaveStaffingWarnings(
+      { employeeId: 'C', startDate: '2026-11-02', endDate: '2026-11-02' },
+      employees,
+      shifts,
+      targets
+    )).toEqual([]);
+    expect(getLeaveStaffingWarnings(
+      { employeeId: 'Z', startDate: '2026-11-02', endDate: '2026-11-03' },
+      employees,
+      shifts,
+      targets
+    )).toEqual([]);
+  });
+
+  it('no debería contar a quien ya tiene una ausencia aprobada', () => {
+    const withLeave = employees.map(e => e.id === 'C'
+      ? { ...e, leave: [{ id: 'l1', startDate: '2026-11-03', endDate: '2026-11-03', leaveType: 'Sick Leave', hoursPerDay: 8, status: 'approved' as const }] }
+      : e);
+
+    const warnings = getLeaveStaffingWarnings(
+      { employeeId: 'A', startDate: '2026-11-03', endDate: '2026-11-03' },
+      withLeave,
+      shifts,
+      targets
+    );
+    expect(warnings.map(w => w.date)).toEqual(['2026-11-03']);
+  });
+});
@@ -0,0 +1,63 @@
+import { Employee, ShiftRow } from '../types/common';
+import { getDateRange, resolveAssignment } from '@shared/schedule';
+import { StaffingTargets, getStaffingTarget } from './staffingUtils';
+
+// Turno que quedaría por debajo de su objetivo si se aprueba la ausencia
+export interface LeaveStaffingWarning {
+  date: string;
+  shiftId: string;
+  remaining: number; // Personal programado sin el empleado de la solicitud
+  target: number;
+  message: string;
+}
+
+interface LeaveApprovalCheck {
+  employeeId: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Calcula qué turnos quedarían por debajo de su objetivo (nurseCounts) si se aprueba
+ * una solicitud: en cada día de la ausencia, el turno que el empleado tiene asignado
+ * pierde una persona.
+ * @param request - Empleado y rango de fechas de la solicitud
+ * @param employees - Empleados de la lista
+ * @param shifts - Turnos de la lista
+ * @param targets - Objetivos construidos con buildStaffingTargets
+ * @returns Un aviso por fecha y turno afectado, ordenados por fecha
+ */
+export const getLeaveStaffingWarnings = (
+  request: LeaveApprovalCheck,
+  employees: Employee[],
+  shifts: ShiftRow[],
+  targets: StaffingTargets
+): LeaveStaffingWarning[] => {
+  const employee = employees.find(e => e.id === request.employeeId);
+  if (!employee) return [];
+
+  const warnings: LeaveStaffingWarning[] = [];
+
+  getDateRange(request.startDate, request.endDate).forEach(date => {
+    const shiftId = resolveAssignment(employee, date).shiftId;
+    const shift = shiftId ? shifts.find(s => s.id === shiftId) : undefined;
+    if (!shift) return;
+
+    const target = getStaffingTarget(targets, shift.id, date);
+    const remaining = employees.filter(e =>
+      e.id !== employee.id && resolveAssignment(e, date).shiftId === shift.id
+    ).length;
+
+    if (remaining < target) {
+      warnings.push({
+        date,
+        shiftId: shift.id,
+        remaining,
+        target,
+        message: `${date} ${shift.startTime} - ${shift.endTime}: ${remaining} scheduled, ${target} needed`
+      });
+    }
+  });
+
+  return warnings;
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_LIST_HISTORY,
+  MAX_HISTORY_ENTRIES,
+  createHistoryChange,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory
+} from './listHistory';
+import { Employee, EmployeeList } from '../types/common';
+
+const employee = (id: string, name: string, manualShifts: { [date: string]: string } = {}): Employee => ({
+  id,
+  name,
+  email: '',
+  phone: '',
+  hireDate: '01/01/2020',
+  shiftPreferences: [],
+  notes: { confidential: '', aiRules: '' },
+  manualShifts
+});
+
+const list: EmployeeList = {
+  id: 'L1',
+  name: 'Emergency Room',
+  employees: [employee('A', 'Ana', { '2026-11-02': 'uid_day' }), employee('B', 'Luis')],
+  shifts: [
+    { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', duration: '8h', lunchBreakDeduction: 0, isOvertimeActive: false, overtimeEntries: [], name: 'Day' },
+    { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', duration: '8h', lunchBreakDeduction: 0, isOvertimeActive: false, overtimeEntries: [], name: 'Night' }
+  ],
+  rules: {} as EmployeeList['rules'],
+  priorities: {},
+  shiftData: []
+};
+
+const withShift = (date: string, shiftId: string) => list.employees.map(e =>
+  e.id === 'A' ? { ...e, manualShifts: { ...e.manualShifts, [date]: shiftId } } : e
+);
+
+describe('createHistoryChange', () => {
+  it('debería describir los cambios de celdas, empleados y reglas', () => {
+    expect(createHistoryChange(list, { employees: withShift('2026-11-03', 'uid_night') })?.description)
+      .toBe('Set Ana → Night shift on 2026-11-03');
+    expect(createHistoryChange(list, { employees: withShift('2026-11-02', 'day-off') })?.description)
+      .toBe('Set Ana → Day Off on 2026-11-02');
+    expect(createHistoryChange(list, { employees: list.employees.filter(e => e.id !== 'B') })?.description)
+      .toBe('Remove employee Luis');
+    expect(createHistoryChange(list, {
+      employees: list.employees.map(e => (e.id === 'B' ? { ...e, email: 'luis@example.com', fixedShifts: { Monday: ['uid_day'] } } : e)),
+      rules: { ...list.rules, maxConsecutiveShifts: '4' }
+    })?.description).toBe('Edit Luis (email, fixed shifts); Edit schedule rules');
+  });
+
+  it('debería guardar solo las propiedades que cambian e ignorar los cambios vacíos', () => {
+    const change = createHistoryChange(list, { employees: withShift('2026-11-03', 'uid_night'), name: list.name });
+    expect(Object.keys(change!.before)).toEqual(['employees']);
+    expect(change!.before.employees).toBe(list.employees);
+    expect(createHistoryChange(list, { name: list.name })).toBeNull();
+  });
+});
+
+describe('undo/redo', () => {
+  const entry = (id: number) => ({ id, description: `Change ${id}`, before: {}, after: {}, timestamp: 0 });
+
+  it('debería deshacer y rehacer en orden y descartar lo deshecho al hacer un cambio nuevo', () => {
+    let history = pushHistoryEntry(pushHistoryEntry(EMPTY_LIST_HISTORY, entry(1)), entry(2));
+
+    const undone = undoHistory(history)!;
+    expect(undone.entry.id).toBe(2);
+    history = undone.history;
+    expect(history.past.map(e => e.id)).toEqual([1]);
+
+    const redone = redoHistory(history)!;
+    expect(redone.entry.id).toBe(2);
+    expect(redone.history.past.map(e => e.id)).toEqual([1, 2]);
+
+    history = pushHistoryEntry(history, entry(3));
+    expect(history).toEqual({ past: [entry(1), entry(3)], future: [] });
+    expect(redoHistory(history)).toBeNull();
+    expect(undoHistory(EMPTY_LIST_HISTORY)).toBeNull();
+  });
+
+  it('debería limitar el número de cambios guardados', () => {
+    let history = EMPTY_LIST_HISTORY;
+    for (let id = 1; id <= MAX_HISTORY_ENTRIES + 5; id++) history = pushHistoryEntry(history, entry(id));
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].id).toBe(6);
+  });
+});
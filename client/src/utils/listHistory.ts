@@ -0,0 +1,177 @@
+import { DAY_OFF } from '@shared/schedule';
+import { getShiftLabel } from '@shared/roster';
+import { Employee, EmployeeList } from '../types/common';
+
+// Historial de deshacer/rehacer de los cambios hechos con updateList. Cada entrada guarda
+// los valores anteriores y posteriores solo de las propiedades de la lista que cambiaron.
+
+// Número máximo de cambios que se pueden deshacer por lista
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface ListHistoryEntry {
+  id: number;
+  description: string;
+  before: Partial<EmployeeList>;
+  after: Partial<EmployeeList>;
+  timestamp: number;
+}
+
+export interface ListHistory {
+  past: ListHistoryEntry[]; // El último elemento es el cambio más reciente
+  future: ListHistoryEntry[]; // El último elemento es el próximo a rehacer
+}
+
+export const EMPTY_LIST_HISTORY: ListHistory = { past: [], future: [] };
+
+// Nombre legible de los campos del empleado en las descripciones
+const EMPLOYEE_FIELD_LABELS: { [field: string]: string } = {
+  name: 'name',
+  email: 'email',
+  phone: 'phone',
+  hireDate: 'hire date',
+  shiftPreferences: 'shift preferences',
+  notes: 'notes',
+  leave: 'leave',
+  fixedShifts: 'fixed shifts',
+  rotation: 'rotation',
+  manualShifts: 'shifts',
+  lockedShifts: 'locked shifts',
+  blockedShifts: 'blocked shifts',
+  shiftComments: 'comments',
+  maxConsecutiveShifts: 'max consecutive shifts',
+  role: 'role',
+  hourlyRate: 'hourly rate',
+  certifications: 'certifications'
+};
+
+const LIST_FIELD_LABELS: { [field: string]: string } = {
+  shifts: 'shift definitions',
+  rules: 'schedule rules',
+  priorities: 'shift priorities',
+  shiftData: 'personnel per shift',
+  holidays: 'holiday calendar',
+  laborBudget: 'labor budget',
+  specialRules: 'special rules'
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// "Night shift", "Day Off" o el ID si el turno ya no existe
+const describeAssignment = (list: EmployeeList, value: string): string => {
+  if (value === DAY_OFF) return 'Day Off';
+  const shift = list.shifts.find(s => s.id === value);
+  return `${shift ? getShiftLabel(shift) : value} shift`;
+};
+
+const describeEmployeeChange = (list: EmployeeList, before: Employee, after: Employee): string => {
+  const beforeShifts = before.manualShifts || {};
+  const afterShifts = after.manualShifts || {};
+  const changedDates = Array.from(new Set([...Object.keys(beforeShifts), ...Object.keys(afterShifts)]))
+    .filter(date => beforeShifts[date] !== afterShifts[date])
+    .sort();
+
+  const changedFields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => field !== 'manualShifts' && !isEqual(before[field as keyof Employee], after[field as keyof Employee]));
+
+  // Una sola celda del horario: "Set Ana → Night shift on 2026-11-03"
+  if (changedFields.length === 0 && changedDates.length === 1) {
+    const [date] = changedDates;
+    return afterShifts[date]
+      ? `Set ${after.name} → ${describeAssignment(list, afterShifts[date])} on ${date}`
+      : `Clear ${after.name}'s shift on ${date}`;
+  }
+  if (changedFields.length === 0 && changedDates.length > 1) {
+    return `Change ${changedDates.length} shifts of ${after.name}`;
+  }
+  if (changedFields.length === 1 && changedFields[0] === 'name') {
+    return `Rename ${before.name} to ${after.name}`;
+  }
+
+  const labels = [...(changedDates.length > 0 ? ['manualShifts'] : []), ...changedFields]
+    .map(field => EMPLOYEE_FIELD_LABELS[field] || field);
+  return `Edit ${after.name} (${labels.join(', ')})`;
+};
+
+const describeEmployeesChange = (list: EmployeeList, before: Employee[], after: Employee[]): string[] => {
+  const beforeById = new Map(before.map(employee => [employee.id, employee]));
+  const afterIds = new Set(after.map(employee => employee.id));
+  const added = after.filter(employee => !beforeById.has(employee.id));
+  const removed = before.filter(employee => !afterIds.has(employee.id));
+  const changed = after.filter(employee => {
+    const previous = beforeById.get(employee.id);
+    return previous && !isEqual(previous, employee);
+  });
+
+  const descriptions: string[] = [];
+  if (added.length === 1) descriptions.push(`Add employee ${added[0].name}`);
+  if (added.length > 1) descriptions.push(`Add ${added.length} employees`);
+  if (removed.length === 1) descriptions.push(`Remove employee ${removed[0].name}`);
+  if (removed.length > 1) descriptions.push(`Remove ${removed.length} employees`);
+  if (changed.length === 1) descriptions.push(describeEmployeeChange(list, beforeById.get(changed[0].id)!, changed[0]));
+  if (changed.length > 1) descriptions.push(`Edit ${changed.length} employees`);
+  if (descriptions.length === 0 && !isEqual(before.map(e => e.id), after.map(e => e.id))) {
+    descriptions.push('Reorder employees');
+  }
+  return descriptions;
+};
+
+/**
+ * Prepara la entrada del historial de un cambio de updateList
+ * @param list - Lista antes del cambio
+ * @param data - Propiedades que se van a sobrescribir
+ * @returns La entrada (sin id ni fecha) o null si el cambio no modifica nada
+ */
+export const createHistoryChange = (
+  list: EmployeeList,
+  data: Partial<EmployeeList>
+): Pick<ListHistoryEntry, 'description' | 'before' | 'after'> | null => {
+  const keys = (Object.keys(data) as (keyof EmployeeList)[]).filter(key => !isEqual(list[key], data[key]));
+  if (keys.length === 0) return null;
+
+  const before: Partial<EmployeeList> = {};
+  const after: Partial<EmployeeList> = {};
+  const descriptions: string[] = [];
+
+  keys.forEach(key => {
+    (before as Record<string, unknown>)[key] = list[key];
+    (after as Record<string, unknown>)[key] = data[key];
+
+    if (key === 'employees') {
+      descriptions.push(...describeEmployeesChange(list, list.employees, data.employees || []));
+    } else if (key === 'name') {
+      descriptions.push(`Rename list to ${data.name}`);
+    } else {
+      descriptions.push(`Edit ${LIST_FIELD_LABELS[key] || key}`);
+    }
+  });
+
+  return { description: descriptions.join('; ') || 'Edit list', before, after };
+};
+
+/**
+ * Añade un cambio al historial; descarta lo que se podía rehacer y los cambios más antiguos
+ */
+export const pushHistoryEntry = (history: ListHistory, entry: ListHistoryEntry): ListHistory => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+  future: []
+});
+
+/**
+ * Mueve el último cambio a la pila de rehacer
+ * @returns El nuevo historial y la entrada cuyo `before` hay que aplicar, o null si no hay nada
+ */
+export const undoHistory = (history: ListHistory): { history: ListHistory; entry: ListHistoryEntry } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return { history: { past: history.past.slice(0, -1), future: [...history.future, entry] }, entry };
+};
+
+/**
+ * Mueve el último cambio deshecho de vuelta al historial
+ * @returns El nuevo historial y la entrada cuyo `after` hay que aplicar, o null si no hay nada
+ */
+export const redoHistory = (history: ListHistory): { history: ListHistory; entry: ListHistoryEntry } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return { history: { past: [...history.past, entry], future: history.future.slice(0, -1) }, entry };
+};
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { checkScheduleCompliance } from './scheduleCompliance';
+import { buildStaffingTargets, getStaffingTarget } from './staffingUtils';
+import { Employee, ShiftRow, Rules } from '../types/common';
+
+const makeShift = (id: string, startTime: string, endTime: string): ShiftRow => ({
+  id,
+  startTime,
+  endTime,
+  duration: '8:00',
+  lunchBreakDeduction: 0,
+  isOvertimeActive: false,
+  overtimeEntries: []
+});
+
+const makeEmployee = (id: string, manualShifts: { [date: string]: string } = {}): Employee => ({
+  id,
+  name: `Employee ${id}`,
+  email: '',
+  phone: '',
+  hireDate: '2020-01-01',
+  shiftPreferences: [null, null],
+  notes: { confidential: '', aiRules: '' },
+  manualShifts
+});
+
+const shifts = [makeShift('uid_day', '7:00 AM', '3:00 PM'), makeShift('uid_night', '11:00 PM', '7:00 AM')];
+
+// Sin objetivos de personal salvo que la prueba los defina
+const noTargets = buildStaffingTargets(shifts, []);
+
+const emptyRules: Rules = {
+  startDate: '2026-11-02', // lunes
+  endDate: '2026-11-15',
+  maxConsecutiveShifts: '',
+  minDaysOffAfterMax: '',
+  minWeekendsOffPerMonth: '',
+  minRestHoursBetweenShifts: '',
+  writtenRule1: '',
+  writtenRule2: '',
+  minHoursPerWeek: '',
+  minHoursPerTwoWeeks: ''
+};
+
+const fill = (dates: string[], shiftId: string) => Object.fromEntries(dates.map(date => [date, shiftId]));
+
+describe('scheduleCompliance', () => {
+  it('debería reportar rachas por encima de maxConsecutiveShifts', () => {
+    const employee = makeEmployee('E1', fill(['2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05'], 'uid_day'));
+    const report = checkScheduleCompliance({ employees: [employee], shifts, targets: noTargets, rules: { ...emptyRules, maxConsecutiveShifts: '3' } });
+    expect(report.employees[0].violations).toMatchObject([{ rule: 'maxConsecutiveShifts', date: '2026-11-05', severity: 'error' }]);
+  });
+
+  it('debería reportar el incumplimiento de minDaysOffAfterMax', () => {
+    const employee = makeEmployee('E1', {
+      ...fill(['2026-11-02', '2026-11-03', '2026-11-04'], 'uid_day'),
+      '2026-11-05': 'day-off',
+      '2026-11-06': 'uid_day'
+    });
+    const report = checkScheduleCompliance({
+      employees: [employee],
+      shifts,
+      targets: noTargets,
+      rules: { ...emptyRules, maxConsecutiveShifts: '3', minDaysOffAfterMax: '2' }
+    });
+    expect(report.employees[0].violations).toMatchObject([{ rule: 'minDaysOffAfterMax', date: '2026-11-06' }]);
+  });
+
+  it('debería reportar descansos cortos tras un turno nocturno', () => {
+    const employee = makeEmployee('E1', { '2026-11-02': 'uid_night', '2026-11-03': 'uid_day' });
+    const report = checkScheduleCompliance({ employees: [employee], shifts, targets: noTargets, rules: { ...emptyRules, minRestHoursBetweenShifts: '12' } });
+    expect(report.employees[0].violations).toMatchObject([{ rule: 'minRestHoursBetweenShifts', date: '2026-11-03' }]);
+  });
+
+  it('debería reportar fines de semana libres insuficientes', () => {
+    const employee = makeEmployee('E1', fill(['2026-11-07', '2026-11-08', '2026-11-14'], 'uid_day'));
+    const report = checkScheduleCompliance({ employees: [employee], shifts, targets: noTargets, rules: { ...emptyRules, minWeekendsOffPerMonth: '2' } });
+    expect(report.employees[0].violations).toMatchObject([{ rule: 'minWeekendsOffPerMonth', severity: 'warning', date: '2026-11-02' }]);
+  });
+
+  it('debería reportar semanas y quincenas con pocas horas', () => {
+    // 5 turnos de 8h en la primera semana y ninguno en la segunda
+    const employee = makeEmployee('E1', fill(['2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05', '2026-11-06'], 'uid_day'));
+    const report = checkScheduleCompliance({
+      employees: [employee],
+      shifts,
+      targets: noTargets,
+      rules: { ...emptyRules, minHoursPerWeek: '40', minHoursPerTwoWeeks: '80' }
+    });
+    expect(report.employees[0].violations.map(v => [v.rule, v.date])).toEqual([
+      ['minHoursPerTwoWeeks', '2026-11-02'],
+      ['minHoursPerWeek', '2026-11-09']
+    ]);
+  });
+
+  it('debería contar las horas de permiso', () => {
+    const employee = {
+      ...makeEmployee('E1'),
+      leave: [{ id: 'l1', startDate: '2026-11-02', endDate: '2026-11-06', leaveType: 'Paid Vacation', hoursPerDay: 8 }]
+    };
+    const report = checkScheduleCompliance({
+      employees: [employee],
+      shifts,
+      targets: noTargets,
+      rules: { ...emptyRules, endDate: '2026-11-08', minHoursPerWeek: '40' }
+    });
+    expect(report.employees[0].violations).toEqual([]);
+  });
+
+  it('debería reportar falta y exceso de personal frente a nurseCounts', () => {
+    const targets = buildStaffingTargets(shifts, [
+      { id: 1, name: 'Day', timeRange: '', counts: [1, 1, 1, 1, 1, 1, 1], idealNumber: 0 },
+      { id: 2, name: 'Night', timeRange: '', counts: [0, 0, 0, 0, 0, 0, 0], idealNumber: 0 }
+    ]);
+    const employees = [makeEmployee('E1', { '2026-11-02': 'uid_night' })];
+    const report = checkScheduleCompliance({ employees, shifts, targets, rules: { ...emptyRules, endDate: '2026-11-02' } });
+    expect(report.staffing).toMatchObject([
+      { rule: 'understaffed', shiftId: 'uid_day', severity: 'error' },
+      { rule: 'overstaffed', shiftId: 'uid_night', severity: 'warning' }
+    ]);
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(1);
+  });
+
+  it('debería reportar los turnos sin el mínimo de algún rol aunque el total esté cubierto', () => {
+    const targets = buildStaffingTargets(shifts, [
+      { id: 1, name: 'Day', timeRange: '', counts: [2, 2, 2, 2, 2, 2, 2], idealNumber: 0, roleCounts: { RN: [1, 1, 1, 1, 1, 1, 1] } },
+      { id: 2, name: 'Night', timeRange: '', counts: [0, 0, 0, 0, 0, 0, 0], idealNumber: 0 }
+    ]);
+    const employees = [
+      { ...makeEmployee('E1', { '2026-11-02': 'uid_day', '2026-11-03': 'uid_day' }), role: 'CNA' },
+      { ...makeEmployee('E2', { '2026-11-02': 'uid_day', '2026-11-03': 'day-off' }), role: 'RN' },
+      { ...makeEmployee('E3', { '2026-11-03': 'uid_day' }), role: 'CNA' }
+    ];
+    const report = checkScheduleCompliance({ employees, shifts, targets, rules: { ...emptyRules, endDate: '2026-11-03' } });
+    expect(report.staffing).toEqual([
+      { rule: 'skillMix', severity: 'error', date: '2026-11-03', shiftId: 'uid_day', message: '7:00 AM - 3:00 PM: missing 1 RN' }
+    ]);
+  });
+
+  it('debería reportar a quien trabaja dos festivos del mismo grupo o más festivos del máximo', () => {
+    const holidays = [
+      { date: '2026-12-25', name: 'Christmas Day', group: 'Year-end 2026' },
+      { date: '2026-12-26', name: 'Boxing Day' },
+      { date: '2027-01-01', name: "New Year's Day", group: 'Year-end 2026' }
+    ];
+    const employees = [
+      makeEmployee('E1', fill(['2026-12-25', '2026-12-26', '2027-01-01'], 'uid_day')),
+      makeEmployee('E2', fill(['2026-12-26'], 'uid_day'))
+    ];
+    const report = checkScheduleCompliance({
+      employees,
+      shifts,
+      targets: noTargets,
+      rules: { ...emptyRules, startDate: '2026-12-28', endDate: '2027-01-03', maxHolidaysWorked: '1' },
+      holidays
+    });
+
+    // Navidad queda fuera del periodo pero cuenta para el grupo
+    expect(report.employees[0].violations).toMatchObject([
+      { rule: 'holidayRotation', date: '2027-01-01', severity: 'warning' }
+    ]);
+    expect(report.employees[0].violations[0].message).toContain('Christmas Day (2026-12-25)');
+    expect(report.employees[1].violations).toEqual([]);
+
+    const december = checkScheduleCompliance({
+      employees,
+      shifts,
+      targets: noTargets,
+      rules: { ...emptyRules, startDate: '2026-12-21', endDate: '2026-12-27', maxHolidaysWorked: '1' },
+      holidays
+    });
+    expect(december.employees[0].violations).toMatchObject([{ rule: 'maxHolidaysWorked', date: '2026-12-26' }]);
+  });
+
+  it('debería usar el personal de la fecha concreta en vez del de su día de la semana', () => {
+    const targets = buildStaffingTargets(shifts, [
+      { id: 1, name: 'Day', timeRange: '', counts: [1, 1, 1, 1, 1, 1, 1], dateCounts: { '2026-11-03': 0 }, idealNumber: 0 },
+      { id: 2, name: 'Night', timeRange: '', counts: [0, 0, 0, 0, 0, 0, 0], dateCounts: { '2026-11-02': 1 }, idealNumber: 0 }
+    ]);
+    expect(getStaffingTarget(targets, 'uid_day', '2026-11-03')).toBe(0);
+    expect(getStaffingTarget(targets, 'uid_day', '2026-11-10')).toBe(1);
+
+    const employees = [makeEmployee('E1', { '2026-11-02': 'uid_night', '2026-11-03': 'uid_night' })];
+    const report = checkScheduleCompliance({ employees, shifts, targets, rules: { ...emptyRules, endDate: '2026-11-03' } });
+    expect(report.staffing).toMatchObject([
+      { rule: 'understaffed', shiftId: 'uid_day', date: '2026-11-02' },
+      { rule: 'overstaffed', shiftId: 'uid_night', date: '2026-11-03' }
+    ]);
+  });
+});
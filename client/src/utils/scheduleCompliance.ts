@@ -0,0 +1,363 @@
+import { Employee, ShiftRow, Rules } from '../types/common';
+import {
+  getDateRange,
+  getMaxConsecutiveShifts,
+  getRestHoursBetween,
+  getShiftHours,
+  parseDateString,
+  parseRuleNumber,
+  resolveAssignment
+} from '@shared/schedule';
+import { Holiday, findHoliday } from '@shared/holidays';
+import { describeMissingCertifications, getMissingCertifications } from '@shared/certifications';
+import { StaffingTargets, countByRole, getRoleShortages, getRoleStaffingTargets, getStaffingTarget } from './staffingUtils';
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+// Regla revisada: un campo de Rules, la cobertura de personal frente a nurseCounts,
+// el mínimo de cada rol, el reparto de los festivos de un mismo grupo o las
+// certificaciones que exige el turno
+export type ComplianceRule = keyof Rules | 'understaffed' | 'overstaffed' | 'skillMix' | 'holidayRotation' | 'requiredCertifications';
+
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  severity: ComplianceSeverity;
+  date: string; // Celda a la que apunta el enlace (primer día del periodo si la regla es por periodo)
+  message: string;
+  employeeId?: string; // Ausente en incumplimientos de cobertura
+  shiftId?: string;
+}
+
+export interface EmployeeComplianceReport {
+  employeeId: string;
+  employeeName: string;
+  violations: ComplianceViolation[];
+}
+
+export interface ComplianceReport {
+  startDate: string;
+  endDate: string;
+  employees: EmployeeComplianceReport[];
+  staffing: ComplianceViolation[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface CheckScheduleOptions {
+  employees: Employee[];
+  shifts: ShiftRow[];
+  targets: StaffingTargets;
+  rules: Rules;
+  holidays?: Holiday[];
+}
+
+// Día resuelto de un empleado dentro del rango
+interface DayStatus {
+  date: string;
+  shift: ShiftRow | null; // Turno trabajado (null si libre o de permiso)
+  onLeave: boolean;
+  hours: number; // Horas del turno o hoursPerDay del permiso
+}
+
+const formatHours = (hours: number): string => {
+  return Number.isInteger(hours) ? String(hours) : hours.toFixed(1);
+};
+
+const buildDayStatuses = (employee: Employee, dates: string[], shifts: ShiftRow[]): DayStatus[] => {
+  return dates.map(date => {
+    const assignment = resolveAssignment(employee, date);
+    if (assignment.leave) {
+      return { date, shift: null, onLeave: true, hours: assignment.leave.hoursPerDay || 0 };
+    }
+    const shift = shifts.find(s => s.id === assignment.shiftId) || null;
+    return { date, shift, onLeave: false, hours: shift ? getShiftHours(shift) : 0 };
+  });
+};
+
+/**
+ * Revisa maxConsecutiveShifts y minDaysOffAfterMax recorriendo las rachas de días trabajados
+ */
+const checkConsecutiveRules = (employee: Employee, days: DayStatus[], rules: Rules): ComplianceViolation[] => {
+  const maxConsecutive = getMaxConsecutiveShifts(employee, rules);
+  const minDaysOff = parseRuleNumber(rules.minDaysOffAfterMax);
+  if (maxConsecutive <= 0) return [];
+
+  const violations: ComplianceViolation[] = [];
+  let streak = 0;
+  let restOwed = 0;
+
+  days.forEach(day => {
+    if (day.shift) {
+      streak++;
+      if (streak > maxConsecutive) {
+        violations.push({
+          rule: 'maxConsecutiveShifts',
+          severity: 'error',
+          date: day.date,
+          message: `Works ${streak} consecutive days (max ${maxConsecutive})`,
+          employeeId: employee.id
+        });
+      } else if (restOwed > 0) {
+        violations.push({
+          rule: 'minDaysOffAfterMax',
+          severity: 'error',
+          date: day.date,
+          message: `Works before completing ${minDaysOff} days off after ${maxConsecutive} consecutive shifts`,
+          employeeId: employee.id
+        });
+        restOwed = 0;
+      }
+    } else {
+      if (streak >= maxConsecutive) restOwed = minDaysOff;
+      streak = 0;
+      if (restOwed > 0) restOwed--;
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * Revisa minRestHoursBetweenShifts entre cada par de días trabajados seguidos
+ */
+const checkRestHours = (employee: Employee, days: DayStatus[], rules: Rules): ComplianceViolation[] => {
+  const minRest = parseRuleNumber(rules.minRestHoursBetweenShifts);
+  if (minRest <= 0) return [];
+
+  const violations: ComplianceViolation[] = [];
+  for (let i = 1; i < days.length; i++) {
+    const previous = days[i - 1];
+    const current = days[i];
+    if (!previous.shift || !current.shift) continue;
+
+    const rest = getRestHoursBetween(previous.shift, previous.date, current.shift, current.date);
+    if (rest !== null && rest < minRest) {
+      violations.push({
+        rule: 'minRestHoursBetweenShifts',
+        severity: 'error',
+        date: current.date,
+        message: `Only ${formatHours(Math.max(0, rest))} hours of rest after the previous shift (min ${minRest})`,
+        employeeId: employee.id
+      });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Revisa minWeekendsOffPerMonth. Se exige la parte proporcional del periodo,
+ * igual que el generador: ceil(fines de semana por mes × días / 28)
+ */
+const checkWeekendsOff = (employee: Employee, days: DayStatus[], rules: Rules): ComplianceViolation[] => {
+  const weekendsPerMonth = parseRuleNumber(rules.minWeekendsOffPerMonth);
+  if (weekendsPerMonth <= 0 || days.length === 0) return [];
+
+  let freeWeekends = 0;
+  days.forEach((day, index) => {
+    const sunday = days[index + 1];
+    if (parseDateString(day.date).getUTCDay() !== 6 || !sunday) return;
+    const isFree = (d: DayStatus) => !d.shift && !d.onLeave;
+    if (isFree(day) && isFree(sunday)) freeWeekends++;
+  });
+
+  const required = Math.ceil(weekendsPerMonth * days.length / 28);
+  if (freeWeekends >= required) return [];
+
+  return [{
+    rule: 'minWeekendsOffPerMonth',
+    severity: 'warning',
+    date: days[0].date,
+    message: `${freeWeekends} free weekends in the period (min ${required})`,
+    employeeId: employee.id
+  }];
+};
+
+/**
+ * Revisa las horas mínimas por bloques de `size` días desde el inicio del rango.
+ * El último bloque puede ser más corto; su mínimo se prorratea.
+ */
+const checkHoursPerBlock = (
+  employee: Employee,
+  days: DayStatus[],
+  minimum: number,
+  size: number,
+  rule: 'minHoursPerWeek' | 'minHoursPerTwoWeeks'
+): ComplianceViolation[] => {
+  if (minimum <= 0) return [];
+
+  const violations: ComplianceViolation[] = [];
+  for (let blockStart = 0; blockStart < days.length; blockStart += size) {
+    const block = days.slice(blockStart, blockStart + size);
+    const hours = block.reduce((sum, day) => sum + day.hours, 0);
+    const required = minimum * block.length / size;
+    if (hours < required) {
+      violations.push({
+        rule,
+        severity: 'warning',
+        date: block[0].date,
+        message: `${formatHours(hours)} hours from ${block[0].date} to ${block[block.length - 1].date} (min ${formatHours(required)})`,
+        employeeId: employee.id
+      });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Revisa el reparto de festivos: maxHolidaysWorked en el periodo y que nadie trabaje dos
+ * festivos del mismo grupo (ej. Navidad y Año Nuevo), aunque el primero sea de un periodo anterior
+ */
+const checkHolidays = (employee: Employee, days: DayStatus[], holidays: Holiday[], rules: Rules): ComplianceViolation[] => {
+  const maxHolidays = parseRuleNumber(rules.maxHolidaysWorked);
+  const violations: ComplianceViolation[] = [];
+  let worked = 0;
+
+  days.forEach(day => {
+    const holiday = findHoliday(holidays, day.date);
+    if (!holiday || !day.shift) return;
+    worked++;
+
+    if (maxHolidays > 0 && worked > maxHolidays) {
+      violations.push({
+        rule: 'maxHolidaysWorked',
+        severity: 'warning',
+        date: day.date,
+        message: `Works ${worked} holidays in the period (max ${maxHolidays})`,
+        employeeId: employee.id
+      });
+    }
+
+    const previous = holiday.group && holidays.find(other =>
+      other.group === holiday.group && other.date < holiday.date && resolveAssignment(employee, other.date).shiftId
+    );
+    if (previous) {
+      violations.push({
+        rule: 'holidayRotation',
+        severity: 'warning',
+        date: day.date,
+        message: `Works both ${previous.name} (${previous.date}) and ${holiday.name} (${holiday.group})`,
+        employeeId: employee.id
+      });
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * Revisa que el empleado tenga vigentes las certificaciones que exige cada turno que trabaja
+ */
+const checkCertifications = (employee: Employee, days: DayStatus[]): ComplianceViolation[] => {
+  const violations: ComplianceViolation[] = [];
+  days.forEach(day => {
+    if (!day.shift) return;
+    const missing = getMissingCertifications(employee, day.shift, day.date);
+    if (missing.length > 0) {
+      violations.push({
+        rule: 'requiredCertifications',
+        severity: 'error',
+        date: day.date,
+        message: `${day.shift.startTime} - ${day.shift.endTime}: ${describeMissingCertifications(missing)}`,
+        employeeId: employee.id,
+        shiftId: day.shift.id
+      });
+    }
+  });
+  return violations;
+};
+
+/**
+ * Compara el personal programado en cada turno y fecha con su objetivo (nurseCounts o el de la fecha concreta)
+ * y con el mínimo de cada rol
+ */
+const checkStaffing = (
+  employees: Employee[],
+  employeeDays: DayStatus[][],
+  dates: string[],
+  shifts: ShiftRow[],
+  targets: StaffingTargets
+): ComplianceViolation[] => {
+  const violations: ComplianceViolation[] = [];
+
+  dates.forEach((date, dayIndex) => {
+    shifts.forEach(shift => {
+      const target = getStaffingTarget(targets, shift.id, date);
+      const working = employees.filter((_, index) => employeeDays[index][dayIndex].shift?.id === shift.id);
+      const scheduled = working.length;
+      const label = `${shift.startTime} - ${shift.endTime}`;
+
+      const shortages = getRoleShortages(getRoleStaffingTargets(targets, shift.id, date), countByRole(working));
+      if (shortages.length > 0) {
+        violations.push({
+          rule: 'skillMix',
+          severity: 'error',
+          date,
+          shiftId: shift.id,
+          message: `${label}: missing ${shortages.map(s => `${s.required - s.scheduled} ${s.role}`).join(', ')}`
+        });
+      }
+
+      if (scheduled < target) {
+        violations.push({
+          rule: 'understaffed',
+          severity: 'error',
+          date,
+          shiftId: shift.id,
+          message: `${label}: ${scheduled} scheduled, ${target} needed`
+        });
+      } else if (scheduled > target) {
+        violations.push({
+          rule: 'overstaffed',
+          severity: 'warning',
+          date,
+          shiftId: shift.id,
+          message: `${label}: ${scheduled} scheduled, only ${target} needed`
+        });
+      }
+    });
+  });
+
+  return violations;
+};
+
+/**
+ * Genera el informe de cumplimiento del horario en todo el rango de las reglas:
+ * un informe por empleado con los incumplimientos de cada campo de Rules, del reparto
+ * de festivos y de las certificaciones exigidas, más los turnos con falta o exceso de personal
+ * o sin el mínimo de algún rol.
+ * @returns Informe con incumplimientos ordenados por fecha
+ */
+export const checkScheduleCompliance = ({ employees, shifts, targets, rules, holidays = [] }: CheckScheduleOptions): ComplianceReport => {
+  const dates = getDateRange(rules.startDate, rules.endDate);
+  const minHoursPerWeek = parseRuleNumber(rules.minHoursPerWeek);
+  const minHoursPerTwoWeeks = parseRuleNumber(rules.minHoursPerTwoWeeks);
+
+  const employeeDays = employees.map(employee => buildDayStatuses(employee, dates, shifts));
+
+  const employeeReports = employees.map((employee, index) => {
+    const days = employeeDays[index];
+    const violations = [
+      ...checkConsecutiveRules(employee, days, rules),
+      ...checkRestHours(employee, days, rules),
+      ...checkWeekendsOff(employee, days, rules),
+      ...checkHoursPerBlock(employee, days, minHoursPerWeek, 7, 'minHoursPerWeek'),
+      ...checkHoursPerBlock(employee, days, minHoursPerTwoWeeks, 14, 'minHoursPerTwoWeeks'),
+      ...checkHolidays(employee, days, holidays, rules),
+      ...checkCertifications(employee, days)
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    return { employeeId: employee.id, employeeName: employee.name, violations };
+  });
+
+  const staffing = checkStaffing(employees, employeeDays, dates, shifts, targets);
+  const all = [...employeeReports.flatMap(report => report.violations), ...staffing];
+
+  return {
+    startDate: rules.startDate,
+    endDate: rules.endDate,
+    employees: employeeReports,
+    staffing,
+    errorCount: all.filter(v => v.severity === 'error').length,
+    warningCount: all.filter(v => v.severity === 'warning').length
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildPayrollExportTable, buildScheduleExportTable } from './scheduleExport';
+import { buildPayrollSummary } from '@shared/payroll';
+
+const shifts = [
+  { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day' },
+  { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' }
+];
+
+const employees = [
+  {
+    id: 'A',
+    name: 'Ana',
+    fixedShifts: { Monday: ['uid_day'], Tuesday: ['uid_day'] },
+    // El turno manual tiene prioridad sobre el fijo
+    manualShifts: { '2026-11-03': 'uid_night', '2026-11-04': 'day-off' }
+  },
+  {
+    id: 'L',
+    name: 'Luis',
+    // El permiso aprobado tiene prioridad sobre el turno manual
+    manualShifts: { '2026-11-02': 'uid_day' },
+    leave: [{ id: 'l1', startDate: '2026-11-02', endDate: '2026-11-02', leaveType: 'Vacation', hoursPerDay: 8 }]
+  }
+];
+
+describe('buildScheduleExportTable', () => {
+  it('debería exportar una fila por empleado con el turno efectivo de cada fecha', () => {
+    const table = buildScheduleExportTable(employees, shifts, ['2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05'], () => ({
+      biweeklyHours: [16],
+      freeWeekends: 0,
+      preferenceMatch: 0
+    }));
+
+    expect(table.rows.map(row => row.slice(0, 5))).toEqual([
+      ['Ana', 'Day', '11:00 PM - 7:00 AM', 'Day Off', ''],
+      ['Luis', 'Vacation (8h)', '', '', '']
+    ]);
+  });
+
+  it('debería añadir las columnas de resumen de cada empleado', () => {
+    const summaries: Record<string, { biweeklyHours: number[]; freeWeekends: number; preferenceMatch: number }> = {
+      A: { biweeklyHours: [80, 32], freeWeekends: 2, preferenceMatch: 75.5 },
+      L: { biweeklyHours: [8, 0], freeWeekends: 3, preferenceMatch: 100 }
+    };
+
+    const table = buildScheduleExportTable(employees, shifts, ['2026-11-02'], employee => summaries[employee.id]);
+
+    expect(table.header).toEqual(['Employee', '2026-11-02', 'Biweekly 1 (hours)', 'Biweekly 2 (hours)', 'Free Weekends', 'Preference Match %']);
+    expect(table.rows[0].slice(2)).toEqual([80, 32, 2, 75.5]);
+    expect(table.rows[1].slice(2)).toEqual([8, 0, 3, 100]);
+  });
+});
+
+describe('buildPayrollExportTable', () => {
+  it('debería exportar una fila por empleado y periodo de pago', () => {
+    const summaries = buildPayrollSummary({
+      employees,
+      shifts,
+      startDate: '2026-11-02',
+      endDate: '2026-11-15',
+      settings: { payPeriodDays: 7 }
+    });
+
+    const table = buildPayrollExportTable(summaries);
+
+    expect(table.header.slice(0, 6)).toEqual(['Employee ID', 'Employee', 'Pay Period Start', 'Pay Period End', 'Regular Hours', 'Overtime Hours']);
+    expect(table.rows.map(row => row.slice(0, 4))).toEqual([
+      ['A', 'Ana', '2026-11-02', '2026-11-08'],
+      ['A', 'Ana', '2026-11-09', '2026-11-15'],
+      ['L', 'Luis', '2026-11-02', '2026-11-08'],
+      ['L', 'Luis', '2026-11-09', '2026-11-15']
+    ]);
+    // Luis: 8h de vacaciones pagadas la primera semana
+    expect(table.rows[2].slice(-4)).toEqual([8, 0, 0, 8]);
+  });
+});
@@ -0,0 +1,104 @@
+import { ScheduleEmployee } from '@shared/schedule';
+import { RosterCell, RosterShift, buildRosterCell } from '@shared/roster';
+import { PayrollSummary } from '@shared/payroll';
+import { SpreadsheetTable } from './spreadsheet';
+
+// Columnas de resumen de la tabla Employee Schedule Provisional para cada empleado
+export interface ScheduleExportSummary {
+  biweeklyHours: number[];
+  freeWeekends: number;
+  preferenceMatch: number; // Porcentaje 0-100
+}
+
+/**
+ * Texto de una celda exportada: nombre del turno, día libre o ausencia con sus horas
+ */
+export const formatExportCell = (cell: RosterCell): string => {
+  switch (cell.kind) {
+    case 'shift':
+      return cell.label;
+    case 'day-off':
+      return 'Day Off';
+    case 'leave':
+      return cell.hoursPerDay ? `${cell.label} (${cell.hoursPerDay}h)` : cell.label;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Construye la tabla de exportación (XLSX/CSV) del horario: una fila por empleado,
+ * una columna por fecha con el turno efectivo y las columnas de resumen al final
+ * (horas por quincena, fines de semana libres y % de coincidencia con la preferencia).
+ * @param employees - Empleados en el orden de la tabla
+ * @param shifts - Turnos de la lista
+ * @param dates - Fechas del periodo (YYYY-MM-DD)
+ * @param getSummary - Resumen de cada empleado, calculado igual que en la tabla
+ */
+export const buildScheduleExportTable = <T extends ScheduleEmployee>(
+  employees: T[],
+  shifts: RosterShift[],
+  dates: string[],
+  getSummary: (employee: T) => ScheduleExportSummary
+): SpreadsheetTable => {
+  const summaries = employees.map(getSummary);
+  const biweeklyCount = Math.max(0, ...summaries.map(summary => summary.biweeklyHours.length));
+
+  const header = [
+    'Employee',
+    ...dates,
+    ...Array.from({ length: biweeklyCount }, (_, index) => `Biweekly ${index + 1} (hours)`),
+    'Free Weekends',
+    'Preference Match %'
+  ];
+
+  const rows = employees.map((employee, index) => {
+    const summary = summaries[index];
+    return [
+      employee.name,
+      ...dates.map(date => formatExportCell(buildRosterCell(employee, date, shifts))),
+      ...Array.from({ length: biweeklyCount }, (_, period) => summary.biweeklyHours[period] ?? ''),
+      summary.freeWeekends,
+      summary.preferenceMatch
+    ];
+  });
+
+  return { header, rows };
+};
+
+/**
+ * Construye la tabla de exportación de nómina: una fila por empleado y periodo de pago
+ * @param summaries - Resumen calculado con buildPayrollSummary
+ */
+export const buildPayrollExportTable = (summaries: PayrollSummary[]): SpreadsheetTable => ({
+  header: [
+    'Employee ID',
+    'Employee',
+    'Pay Period Start',
+    'Pay Period End',
+    'Regular Hours',
+    'Overtime Hours',
+    'Night Hours',
+    'Weekend Hours',
+    'Holiday Hours',
+    'Paid Leave Hours',
+    'Unpaid Leave Days',
+    'Unpaid Leave Hours',
+    'Total Paid Hours'
+  ],
+  rows: summaries.map(summary => [
+    summary.employeeId,
+    summary.employeeName,
+    summary.periodStart,
+    summary.periodEnd,
+    summary.regularHours,
+    summary.overtimeHours,
+    summary.nightHours,
+    summary.weekendHours,
+    summary.holidayHours,
+    summary.paidLeaveHours,
+    summary.unpaidLeaveDays,
+    summary.unpaidLeaveHours,
+    summary.totalPaidHours
+  ])
+});
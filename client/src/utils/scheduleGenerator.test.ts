@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { generateSchedule, countStreakViolations } from './scheduleGenerator';
+import { buildStaffingTargets } from './staffingUtils';
+import { Employee, ShiftRow, Rules, ShiftData } from '../types/common';
+
+const makeShift = (id: string, startTime: string, endTime: string): ShiftRow => ({
+  id,
+  startTime,
+  endTime,
+  duration: '8:00',
+  lunchBreakDeduction: 0,
+  isOvertimeActive: false,
+  overtimeEntries: []
+});
+
+const makeEmployee = (id: string, overrides: Partial<Employee> = {}): Employee => ({
+  id,
+  name: `Employee ${id}`,
+  email: '',
+  phone: '',
+  hireDate: '2020-01-01',
+  shiftPreferences: [null, null, null],
+  notes: { confidential: '', aiRules: '' },
+  ...overrides
+});
+
+const shifts: ShiftRow[] = [
+  makeShift('uid_day', '7:00 AM', '3:00 PM'),
+  makeShift('uid_evening', '3:00 PM', '11:00 PM'),
+  makeShift('uid_night', '11:00 PM', '7:00 AM')
+];
+
+const makeShiftData = (counts: number[][]): ShiftData[] =>
+  counts.map((c, index) => ({ id: index + 1, name: `Shift ${index + 1}`, timeRange: '', counts: c, idealNumber: 0 }));
+
+const baseRules: Rules = {
+  startDate: '2026-11-02', // lunes
+  endDate: '2026-11-29',
+  maxConsecutiveShifts: '5',
+  minDaysOffAfterMax: '2',
+  minWeekendsOffPerMonth: '1',
+  minRestHoursBetweenShifts: '12',
+  writtenRule1: '',
+  writtenRule2: '',
+  minHoursPerWeek: '40',
+  minHoursPerTwoWeeks: '80'
+};
+
+const isWorked = (value: string | undefined) => !!value && value !== 'day-off';
+
+describe('scheduleGenerator', () => {
+  describe('countStreakViolations', () => {
+    it('debería detectar rachas mayores al máximo', () => {
+      expect(countStreakViolations([true, true, true, false], 2, 0)).toBe(1);
+    });
+
+    it('debería exigir los días libres posteriores al máximo', () => {
+      expect(countStreakViolations([true, true, false, true], 2, 2)).toBe(1);
+      expect(countStreakViolations([true, true, false, false, true], 2, 2)).toBe(0);
+    });
+
+    it('no debería limitar cuando el máximo es 0', () => {
+      expect(countStreakViolations([true, true, true, true], 0, 2)).toBe(0);
+    });
+  });
+
+  describe('generateSchedule', () => {
+    const employees = Array.from({ length: 8 }, (_, i) => makeEmployee(`E${i + 1}`));
+    const targets = buildStaffingTargets(shifts, makeShiftData([[2, 2, 2, 2, 2, 2, 2], [1, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 1]]));
+
+    it('debería rellenar todas las fechas de todos los empleados', () => {
+      const result = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      result.employees.forEach(employee => {
+        expect(Object.keys(employee.manualShifts || {})).toHaveLength(28);
+      });
+    });
+
+    it('debería ser determinista', () => {
+      const first = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      const second = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      expect(first.employees).toEqual(second.employees);
+    });
+
+    it('debería respetar el máximo de días consecutivos y el descanso mínimo', () => {
+      const result = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      result.employees.forEach(employee => {
+        const dates = Object.keys(employee.manualShifts!).sort();
+        const worked = dates.map(date => isWorked(employee.manualShifts![date]));
+        expect(countStreakViolations(worked, 5, 2)).toBe(0);
+
+        dates.forEach((date, i) => {
+          const today = employee.manualShifts![date];
+          const tomorrow = employee.manualShifts![dates[i + 1]];
+          // Tras una noche (termina 7:00 AM) no puede haber turno de día ni de tarde con 12h de descanso
+          if (today === 'uid_night') {
+            expect(['uid_day', 'uid_evening']).not.toContain(tomorrow);
+          }
+        });
+      });
+    });
+
+    it('debería no superar las horas mínimas por semana', () => {
+      const result = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      result.employees.forEach(employee => {
+        const dates = Object.keys(employee.manualShifts!).sort();
+        for (let week = 0; week < 4; week++) {
+          const worked = dates.slice(week * 7, week * 7 + 7).filter(date => isWorked(employee.manualShifts![date]));
+          expect(worked.length).toBeLessThanOrEqual(5);
+        }
+      });
+    });
+
+    it('debería garantizar fines de semana libres', () => {
+      const result = generateSchedule({ employees, shifts, targets, rules: baseRules });
+      result.employees.forEach(employee => {
+        const freeWeekends = ['2026-11-07', '2026-11-14', '2026-11-21', '2026-11-28'].filter(saturday => {
+          const sunday = saturday.replace(/\d{2}$/, d => String(Number(d) + 1).padStart(2, '0'));
+          return !isWorked(employee.manualShifts![saturday]) && !isWorked(employee.manualShifts![sunday]);
+        });
+        expect(freeWeekends.length).toBeGreaterThanOrEqual(1);
+      });
+    });
+
+    it('no debería modificar celdas bloqueadas, permisos ni turnos fijos', () => {
+      const special = [
+        makeEmployee('L1', {
+          manualShifts: { '2026-11-03': 'uid_night' },
+          lockedShifts: { '2026-11-03': 'uid_night' }
+        }),
+        makeEmployee('L2', {
+          leave: [{ id: 'l', startDate: '2026-11-02', endDate: '2026-11-08', leaveType: 'Paid Vacation', hoursPerDay: 8 }],
+          fixedShifts: { Monday: ['uid_day'] }
+        }),
+        ...employees
+      ];
+      const result = generateSchedule({ employees: special, shifts, targets, rules: baseRules });
+      expect(result.employees[0].manualShifts!['2026-11-03']).toBe('uid_night');
+      expect(result.employees[1].manualShifts!['2026-11-02']).toBeUndefined(); // permiso
+      expect(result.employees[1].manualShifts!['2026-11-09']).toBeUndefined(); // turno fijo
+    });
+
+    it('no debería asignar turnos bloqueados', () => {
+      const blocked = employees.map(e => ({
+        ...e,
+        blockedShifts: { uid_night: { blockedDays: ['all'], isActive: true } }
+      }));
+      const result = generateSchedule({ employees: blocked, shifts, targets, rules: baseRules });
+      result.employees.forEach(employee => {
+        expect(Object.values(employee.manualShifts!)).not.toContain('uid_night');
+      });
+      expect(result.unfilled.filter(slot => slot.shiftId === 'uid_night')).toHaveLength(28);
+    });
+
+    it('no debería asignar un turno a quien tiene caducada la certificación que exige', () => {
+      const aclsDay = { ...shifts[0], requiredCertifications: ['ACLS'] };
+      const team = [
+        makeEmployee('C1', { certifications: [{ name: 'ACLS', expiresOn: '2026-11-04' }] }),
+        makeEmployee('C2', { certifications: [{ name: 'ACLS' }] }),
+        makeEmployee('C3')
+      ];
+      const result = generateSchedule({
+        employees: team,
+        shifts: [aclsDay],
+        targets: buildStaffingTargets([aclsDay], makeShiftData([[1, 1, 1, 1, 1, 1, 1]])),
+        rules: { ...baseRules, endDate: '2026-11-08', minWeekendsOffPerMonth: '', minHoursPerWeek: '', minHoursPerTwoWeeks: '' }
+      });
+
+      const [c1, , c3] = result.employees;
+      expect(Object.keys(c1.manualShifts!).filter(date => isWorked(c1.manualShifts![date])).every(date => date <= '2026-11-04')).toBe(true);
+      expect(Object.values(c3.manualShifts!).filter(isWorked)).toHaveLength(0);
+    });
+
+    it('debería cubrir los turnos aunque el personal ya cumpla sus horas mínimas', () => {
+      // 2 personas por día con solo 3 empleados: cada uno pasa de las 16h mínimas
+      const result = generateSchedule({
+        employees: employees.slice(0, 3),
+        shifts: [shifts[0]],
+        targets: buildStaffingTargets([shifts[0]], makeShiftData([[2, 2, 2, 2, 2, 2, 2]])),
+        rules: { ...baseRules, endDate: '2026-11-08', maxConsecutiveShifts: '', minWeekendsOffPerMonth: '', minHoursPerWeek: '16', minHoursPerTwoWeeks: '' }
+      });
+      expect(result.unfilled).toEqual([]);
+    });
+
+    it('debería dar el turno a quien no llega a sus horas mínimas antes que a quien ya las cumple', () => {
+      // A ya cumple las 8h de la segunda semana con su turno fijo del lunes; B no, aunque lleva
+      // más horas en la quincena por su permiso de la primera semana
+      const met = makeEmployee('A', { fixedShifts: { Monday: ['uid_day'] } });
+      const below = makeEmployee('B', {
+        leave: [{ id: 'l1', startDate: '2026-11-02', endDate: '2026-11-04', leaveType: 'Vacation', hoursPerDay: 8 }]
+      });
+      const shiftData: ShiftData[] = [{ id: 1, name: 'Day', timeRange: '', counts: [0, 0, 0, 0, 0, 0, 0], dateCounts: { '2026-11-10': 1 }, idealNumber: 0 }];
+      const result = generateSchedule({
+        employees: [met, below],
+        shifts: [shifts[0]],
+        targets: buildStaffingTargets([shifts[0]], shiftData),
+        rules: { ...baseRules, endDate: '2026-11-15', minWeekendsOffPerMonth: '', minHoursPerWeek: '8', minHoursPerTwoWeeks: '' }
+      });
+      const workers = result.employees.filter(e => e.manualShifts?.['2026-11-10'] === 'uid_day').map(e => e.id);
+      expect(workers).toEqual(['B']);
+    });
+
+    it('debería tomar el cambio manual de un día con turno fijo en lugar del turno fijo', () => {
+      // Tras un intercambio trabaja la noche del lunes en lugar de su turno fijo de día
+      const swapped = makeEmployee('S1', {
+        fixedShifts: { Monday: ['uid_day'] },
+        manualShifts: { '2026-11-02': 'uid_night' }
+      });
+      const result = generateSchedule({
+        employees: [swapped, ...employees.slice(0, 2)],
+        shifts,
+        targets: buildStaffingTargets(shifts, makeShiftData([[0, 1, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0, 0], [0, 1, 0, 0, 0, 0, 0]])),
+        rules: { ...baseRules, endDate: '2026-11-03', minWeekendsOffPerMonth: '', minHoursPerWeek: '', minHoursPerTwoWeeks: '' }
+      });
+      expect(result.employees[0].manualShifts!['2026-11-02']).toBe('uid_night');
+      expect(result.unfilled).toEqual([]);
+      // La noche ya está cubierta por S1 y el día lo cubre otra persona
+      const workers = (date: string, shiftId: string) => result.employees.filter(e => e.manualShifts?.[date] === shiftId).map(e => e.id);
+      expect(workers('2026-11-02', 'uid_night')).toEqual(['S1']);
+      expect(workers('2026-11-02', 'uid_day')).toHaveLength(1);
+      expect(workers('2026-11-02', 'uid_day')).not.toContain('S1');
+    });
+
+    it('debería favorecer el turno preferido', () => {
+      const withPreference = [makeEmployee('P1', { shiftPreferences: [null, 1, null] }), ...employees];
+      const result = generateSchedule({ employees: withPreference, shifts, targets, rules: baseRules });
+      const assigned = Object.values(result.employees[0].manualShifts!).filter(isWorked);
+      const evenings = assigned.filter(value => value === 'uid_evening').length;
+      expect(evenings).toBeGreaterThan(assigned.length / 2);
+    });
+
+    it('debería reportar huecos cuando no hay personal suficiente', () => {
+      const result = generateSchedule({ employees: employees.slice(0, 2), shifts, targets, rules: baseRules });
+      expect(result.unfilled.length).toBeGreaterThan(0);
+    });
+
+    it('debería repartir los festivos del mismo grupo y preferir a quien trabajó menos festivos', () => {
+      const holidays = [
+        { date: '2026-11-26', name: 'Thanksgiving Day' },
+        { date: '2026-12-25', name: 'Christmas Day', group: 'Year-end 2026' },
+        { date: '2027-01-01', name: "New Year's Day", group: 'Year-end 2026' }
+      ];
+      const team = [
+        makeEmployee('H1', { manualShifts: { '2026-11-26': 'uid_day' } }),
+        makeEmployee('H2'),
+        makeEmployee('H3')
+      ];
+      const result = generateSchedule({
+        employees: team,
+        shifts: [shifts[0]],
+        targets: buildStaffingTargets([shifts[0]], makeShiftData([[1, 1, 1, 1, 1, 1, 1]])),
+        rules: { ...baseRules, startDate: '2026-12-21', endDate: '2027-01-03', minWeekendsOffPerMonth: '', minHoursPerWeek: '', minHoursPerTwoWeeks: '' },
+        holidays
+      });
+
+      const workerOn = (date: string) => result.employees.filter(e => isWorked(e.manualShifts?.[date])).map(e => e.id);
+      expect(workerOn('2026-12-25')).toHaveLength(1);
+      expect(workerOn('2027-01-01')).toHaveLength(1);
+      expect(workerOn('2027-01-01')).not.toEqual(workerOn('2026-12-25'));
+      // H1 ya trabajó Acción de Gracias
+      expect(workerOn('2026-12-25')).not.toContain('H1');
+    });
+
+    it('debería retornar los empleados sin cambios si el rango no es válido', () => {
+      const result = generateSchedule({ employees, shifts, targets, rules: { ...baseRules, endDate: '2026-01-01' } });
+      expect(result.employees).toBe(employees);
+      expect(result.assignedCount).toBe(0);
+    });
+  });
+});
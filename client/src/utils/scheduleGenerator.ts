@@ -0,0 +1,433 @@
+import { Employee, ShiftRow, Rules, ShiftPriorities } from '../types/common';
+import {
+  DAY_OFF,
+  addDays,
+  getDateRange,
+  getDayOfWeek,
+  getMaxConsecutiveShifts,
+  getRecurringShift,
+  getRestHoursBetween,
+  getShiftHours,
+  findLeaveForDate,
+  isShiftBlockedOnDate,
+  parseDateString,
+  parseRuleNumber,
+  resolveAssignment
+} from '@shared/schedule';
+import { Holiday, findHoliday } from '@shared/holidays';
+import { getMissingCertifications } from '@shared/certifications';
+import { StaffingTargets, getStaffingTarget } from './staffingUtils';
+
+export interface GenerateScheduleOptions {
+  employees: Employee[]; // Solo los empleados seleccionados
+  shifts: ShiftRow[];
+  targets: StaffingTargets;
+  rules: Rules;
+  priorities?: ShiftPriorities;
+  holidays?: Holiday[];
+}
+
+export interface UnfilledSlot {
+  date: string;
+  shiftId: string;
+  missing: number;
+}
+
+export interface GenerateScheduleResult {
+  employees: Employee[];
+  assignedCount: number;
+  unfilled: UnfilledSlot[];
+}
+
+// Marca interna para días de permiso dentro del plan
+const LEAVE = '__leave__';
+
+// Los festivos trabajados el último año cuentan para repartir los siguientes
+const HOLIDAY_HISTORY_DAYS = 365;
+// Penalización por festivo ya trabajado al elegir quién trabaja un festivo
+const HOLIDAY_SCORE_PENALTY = 8;
+// Penalización para quien ya cumple sus horas mínimas: solo se le elige si no queda nadie por debajo
+const HOURS_MET_SCORE_PENALTY = 1000;
+
+interface EmployeeState {
+  employee: Employee;
+  index: number;
+  maxConsecutive: number;
+  cells: (string | null)[]; // shiftId, DAY_OFF, LEAVE o null (libre)
+  editable: boolean[];
+  reserved: boolean[]; // Fines de semana protegidos para cumplir minWeekendsOffPerMonth
+  leaveHours: number[];
+  pastHolidays: number; // Festivos trabajados en el año anterior al rango
+}
+
+interface GeneratorContext {
+  dates: string[];
+  shifts: ShiftRow[];
+  shiftHours: Map<string, number>;
+  minDaysOffAfterMax: number;
+  minRestHours: number;
+  minHoursPerWeek: number;
+  minHoursPerTwoWeeks: number;
+  holidays: Holiday[];
+  dayHolidays: (Holiday | undefined)[]; // Festivo de cada día del rango
+  maxHolidaysWorked: number;
+}
+
+const isWorkedValue = (value: string | null): boolean => {
+  return !!value && value !== DAY_OFF && value !== LEAVE;
+};
+
+/**
+ * Cuenta los días que rompen las reglas de días consecutivos:
+ * rachas mayores que el máximo o días trabajados durante el descanso obligatorio posterior.
+ * @param worked - Días trabajados en orden cronológico
+ * @param maxConsecutive - Máximo de días consecutivos (0 = sin límite)
+ * @param minDaysOffAfterMax - Días libres exigidos tras alcanzar el máximo
+ * @returns Número de días en infracción
+ */
+export const countStreakViolations = (worked: boolean[], maxConsecutive: number, minDaysOffAfterMax: number): number => {
+  if (maxConsecutive <= 0) return 0;
+  let violations = 0;
+  let streak = 0;
+  let restOwed = 0;
+
+  for (const isWorked of worked) {
+    if (isWorked) {
+      streak++;
+      if (restOwed > 0 || streak > maxConsecutive) violations++;
+    } else {
+      if (streak >= maxConsecutive) restOwed = minDaysOffAfterMax;
+      streak = 0;
+      if (restOwed > 0) restOwed--;
+    }
+  }
+  return violations;
+};
+
+const findShift = (ctx: GeneratorContext, shiftId: string): ShiftRow | undefined => {
+  return ctx.shifts.find(shift => shift.id === shiftId);
+};
+
+const getCellHours = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number): number => {
+  const value = state.cells[dayIndex];
+  if (value === LEAVE) return state.leaveHours[dayIndex];
+  if (!isWorkedValue(value)) return 0;
+  return ctx.shiftHours.get(value as string) || 0;
+};
+
+// Horas acumuladas en un bloque de `size` días contado desde el inicio del rango
+// y el mínimo prorrateado para ese bloque (el último bloque puede ser más corto)
+const getBlockStatus = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number, size: number, minimum: number) => {
+  const blockStart = Math.floor(dayIndex / size) * size;
+  const blockEnd = Math.min(blockStart + size, ctx.dates.length);
+  let hours = 0;
+  for (let i = blockStart; i < blockEnd; i++) {
+    hours += getCellHours(ctx, state, i);
+  }
+  return { hours, minimum: minimum * (blockEnd - blockStart) / size };
+};
+
+// Turno trabajado en un día vecino; fuera del rango se consulta el horario actual del empleado
+const getNeighbourShift = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number): { shift: ShiftRow; date: string } | null => {
+  let date: string;
+  let shiftId: string | null;
+  if (dayIndex < 0) {
+    date = addDays(ctx.dates[0], dayIndex);
+    shiftId = resolveAssignment(state.employee, date).shiftId;
+  } else if (dayIndex >= ctx.dates.length) {
+    date = addDays(ctx.dates[ctx.dates.length - 1], dayIndex - ctx.dates.length + 1);
+    shiftId = resolveAssignment(state.employee, date).shiftId;
+  } else {
+    date = ctx.dates[dayIndex];
+    const value = state.cells[dayIndex];
+    shiftId = isWorkedValue(value) ? value : null;
+  }
+  const shift = shiftId ? findShift(ctx, shiftId) : undefined;
+  return shift ? { shift, date } : null;
+};
+
+const respectsRestHours = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number, shift: ShiftRow): boolean => {
+  if (ctx.minRestHours <= 0) return true;
+  const date = ctx.dates[dayIndex];
+
+  const previous = getNeighbourShift(ctx, state, dayIndex - 1);
+  if (previous) {
+    const rest = getRestHoursBetween(previous.shift, previous.date, shift, date);
+    if (rest !== null && rest < ctx.minRestHours) return false;
+  }
+
+  const next = getNeighbourShift(ctx, state, dayIndex + 1);
+  if (next) {
+    const rest = getRestHoursBetween(shift, date, next.shift, next.date);
+    if (rest !== null && rest < ctx.minRestHours) return false;
+  }
+  return true;
+};
+
+const respectsConsecutiveRules = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number): boolean => {
+  const worked = state.cells.map(isWorkedValue);
+  const before = countStreakViolations(worked, state.maxConsecutive, ctx.minDaysOffAfterMax);
+  worked[dayIndex] = true;
+  const after = countStreakViolations(worked, state.maxConsecutive, ctx.minDaysOffAfterMax);
+  // Las infracciones previas (por turnos fijos) no deben impedir asignar el resto del horario
+  return after <= before;
+};
+
+// El empleado aún no llega al mínimo (prorrateado) de la semana o la quincena del día
+const isBelowHourTargets = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number): boolean => {
+  if (ctx.minHoursPerWeek > 0) {
+    const week = getBlockStatus(ctx, state, dayIndex, 7, ctx.minHoursPerWeek);
+    if (week.hours >= week.minimum) return false;
+  }
+  if (ctx.minHoursPerTwoWeeks > 0) {
+    const biweek = getBlockStatus(ctx, state, dayIndex, 14, ctx.minHoursPerTwoWeeks);
+    if (biweek.hours >= biweek.minimum) return false;
+  }
+  return true;
+};
+
+const countPlannedHolidays = (ctx: GeneratorContext, state: EmployeeState): number => {
+  return state.cells.filter((value, dayIndex) => ctx.dayHolidays[dayIndex] && isWorkedValue(value)).length;
+};
+
+// Trabaja otro festivo del mismo grupo, dentro del plan o fuera del rango
+const worksHolidayGroup = (ctx: GeneratorContext, state: EmployeeState, holiday: Holiday): boolean => {
+  return ctx.holidays.some(other => {
+    if (other.group !== holiday.group || other.date === holiday.date) return false;
+    const dayIndex = ctx.dates.indexOf(other.date);
+    return dayIndex >= 0
+      ? isWorkedValue(state.cells[dayIndex])
+      : !!resolveAssignment(state.employee, other.date).shiftId;
+  });
+};
+
+const respectsHolidayRules = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number): boolean => {
+  const holiday = ctx.dayHolidays[dayIndex];
+  if (!holiday) return true;
+  if (ctx.maxHolidaysWorked > 0 && countPlannedHolidays(ctx, state) >= ctx.maxHolidaysWorked) return false;
+  return !holiday.group || !worksHolidayGroup(ctx, state, holiday);
+};
+
+const canAssign = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number, shift: ShiftRow): boolean => {
+  if (!state.editable[dayIndex] || state.reserved[dayIndex] || state.cells[dayIndex] !== null) return false;
+  if (isShiftBlockedOnDate(state.employee, shift.id, ctx.dates[dayIndex])) return false;
+  if (getMissingCertifications(state.employee, shift, ctx.dates[dayIndex]).length > 0) return false;
+  if (!respectsHolidayRules(ctx, state, dayIndex)) return false;
+  if (!respectsRestHours(ctx, state, dayIndex, shift)) return false;
+  return respectsConsecutiveRules(ctx, state, dayIndex);
+};
+
+// Menor puntuación = mejor candidato: primero quien no llega todavía a sus horas mínimas,
+// luego quien lleva menos horas en la quincena, su preferencia por el turno y la continuidad
+// con el turno del día anterior. En festivos se prefiere a quien ha trabajado menos festivos
+// (rotación). Las horas mínimas solo ordenan: quien ya las cumple puede cubrir huecos.
+const scoreCandidate = (ctx: GeneratorContext, state: EmployeeState, dayIndex: number, shift: ShiftRow): number => {
+  const biweek = getBlockStatus(ctx, state, dayIndex, 14, ctx.minHoursPerTwoWeeks);
+  const shiftIndex = ctx.shifts.indexOf(shift);
+  const rank = state.employee.shiftPreferences?.[shiftIndex];
+  const preferencePenalty = typeof rank === 'number' && rank > 0 ? (rank - 1) * 2 : ctx.shifts.length * 2;
+  const continuityBonus = dayIndex > 0 && state.cells[dayIndex - 1] === shift.id ? 3 : 0;
+  const holidayPenalty = ctx.dayHolidays[dayIndex]
+    ? (state.pastHolidays + countPlannedHolidays(ctx, state)) * HOLIDAY_SCORE_PENALTY
+    : 0;
+  const hoursMetPenalty = isBelowHourTargets(ctx, state, dayIndex) ? 0 : HOURS_MET_SCORE_PENALTY;
+  return hoursMetPenalty + biweek.hours + preferencePenalty - continuityBonus + holidayPenalty;
+};
+
+const pickCandidate = (ctx: GeneratorContext, states: EmployeeState[], dayIndex: number, shift: ShiftRow): EmployeeState | null => {
+  let best: EmployeeState | null = null;
+  let bestScore = Infinity;
+  for (const state of states) {
+    if (!canAssign(ctx, state, dayIndex, shift)) continue;
+    const score = scoreCandidate(ctx, state, dayIndex, shift);
+    if (score < bestScore) {
+      best = state;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const buildEmployeeState = (employee: Employee, index: number, dates: string[], rules: Rules): EmployeeState => {
+  const state: EmployeeState = {
+    employee,
+    index,
+    maxConsecutive: getMaxConsecutiveShifts(employee, rules),
+    cells: [],
+    editable: [],
+    reserved: [],
+    leaveHours: [],
+    pastHolidays: 0
+  };
+
+  dates.forEach(date => {
+    const leave = findLeaveForDate(employee, date);
+    const lockedShift = employee.lockedShifts?.[date];
+    const fixedShift = getRecurringShift(employee, date);
+    let value: string | null = null;
+
+    if (leave) {
+      value = LEAVE;
+    } else if (lockedShift) {
+      value = employee.manualShifts?.[date] || lockedShift;
+    } else if (employee.autoDaysOff?.includes(date)) {
+      value = DAY_OFF;
+    } else if (fixedShift) {
+      // Un cambio manual (ej. un intercambio) manda sobre el turno fijo o de rotación
+      value = resolveAssignment(employee, date).shiftId || DAY_OFF;
+    }
+
+    state.cells.push(value);
+    state.editable.push(value === null);
+    state.reserved.push(false);
+    state.leaveHours.push(leave?.hoursPerDay || 0);
+  });
+
+  return state;
+};
+
+/**
+ * Reserva fines de semana libres para cada empleado, repartidos a lo largo del periodo
+ * y desplazados por empleado para no dejar todos los fines de semana sin cobertura.
+ */
+const reserveWeekendsOff = (ctx: GeneratorContext, states: EmployeeState[], minWeekendsOffPerMonth: number) => {
+  if (minWeekendsOffPerMonth <= 0) return;
+  const required = Math.ceil(minWeekendsOffPerMonth * (ctx.dates.length / 28));
+
+  const saturdays = ctx.dates
+    .map((date, index) => ({ date, index }))
+    .filter(({ date, index }) => parseDateString(date).getUTCDay() === 6 && index + 1 < ctx.dates.length)
+    .map(({ index }) => index);
+  if (saturdays.length === 0) return;
+
+  states.forEach(state => {
+    const isFree = (i: number) => !isWorkedValue(state.cells[i]) && state.cells[i] !== LEAVE;
+    const alreadyFree = saturdays.filter(sat => !state.editable[sat] && !state.editable[sat + 1] && isFree(sat) && isFree(sat + 1)).length;
+    const candidates = saturdays.filter(sat =>
+      (state.editable[sat] || state.editable[sat + 1]) &&
+      (state.editable[sat] || isFree(sat)) &&
+      (state.editable[sat + 1] || isFree(sat + 1))
+    );
+
+    const needed = Math.min(required - alreadyFree, candidates.length);
+    if (needed <= 0) return;
+
+    const taken = new Set<number>();
+    for (let j = 0; j < needed; j++) {
+      const ideal = (state.index + Math.round(j * candidates.length / needed)) % candidates.length;
+      let position = ideal;
+      while (taken.has(position)) position = (position + 1) % candidates.length;
+      taken.add(position);
+    }
+
+    taken.forEach(position => {
+      const sat = candidates[position];
+      [sat, sat + 1].forEach(i => {
+        if (state.editable[i]) {
+          state.reserved[i] = true;
+          state.cells[i] = DAY_OFF;
+        }
+      });
+    });
+  });
+};
+
+const orderShiftsForDay = (shifts: ShiftRow[], date: string, priorities?: ShiftPriorities): ShiftRow[] => {
+  const dayPriorities = priorities?.[getDayOfWeek(date)] || {};
+  return [...shifts].sort((a, b) => Number(!!dayPriorities[b.id]) - Number(!!dayPriorities[a.id]));
+};
+
+/**
+ * Genera un horario determinista para los empleados seleccionados, rellenando manualShifts
+ * en todo el rango de rules.startDate a rules.endDate.
+ *
+ * Respeta permisos, turnos fijos, turnos bloqueados, días libres automáticos, preferencias,
+ * el personal ideal por día, todas las reglas numéricas y el reparto de festivos. Las celdas
+ * marcadas en lockedShifts nunca se modifican.
+ * @returns Empleados con los nuevos turnos, número de turnos asignados y huecos sin cubrir
+ */
+export const generateSchedule = ({ employees, shifts, targets, rules, priorities, holidays = [] }: GenerateScheduleOptions): GenerateScheduleResult => {
+  const dates = getDateRange(rules.startDate, rules.endDate);
+  if (dates.length === 0 || shifts.length === 0) {
+    return { employees, assignedCount: 0, unfilled: [] };
+  }
+
+  const ctx: GeneratorContext = {
+    dates,
+    shifts,
+    shiftHours: new Map(shifts.map(shift => [shift.id, getShiftHours(shift)])),
+    minDaysOffAfterMax: parseRuleNumber(rules.minDaysOffAfterMax),
+    minRestHours: parseRuleNumber(rules.minRestHoursBetweenShifts),
+    minHoursPerWeek: parseRuleNumber(rules.minHoursPerWeek),
+    minHoursPerTwoWeeks: parseRuleNumber(rules.minHoursPerTwoWeeks),
+    holidays,
+    dayHolidays: dates.map(date => findHoliday(holidays, date)),
+    maxHolidaysWorked: parseRuleNumber(rules.maxHolidaysWorked)
+  };
+
+  const states = employees.map((employee, index) => buildEmployeeState(employee, index, dates, rules));
+  const pastHolidays = holidays.filter(holiday => holiday.date < dates[0] && holiday.date >= addDays(dates[0], -HOLIDAY_HISTORY_DAYS));
+  states.forEach(state => {
+    state.pastHolidays = pastHolidays.filter(holiday => resolveAssignment(state.employee, holiday.date).shiftId).length;
+  });
+  reserveWeekendsOff(ctx, states, parseRuleNumber(rules.minWeekendsOffPerMonth));
+
+  let assignedCount = 0;
+
+  // Primera pasada: cubrir el personal ideal de cada turno día por día
+  dates.forEach((date, dayIndex) => {
+    orderShiftsForDay(shifts, date, priorities).forEach(shift => {
+      const target = getStaffingTarget(targets, shift.id, date);
+      let assigned = states.filter(state => state.cells[dayIndex] === shift.id).length;
+
+      while (assigned < target) {
+        const candidate = pickCandidate(ctx, states, dayIndex, shift);
+        if (!candidate) break;
+        candidate.cells[dayIndex] = shift.id;
+        assigned++;
+        assignedCount++;
+      }
+    });
+  });
+
+  // Segunda pasada: completar las horas mínimas semanales y quincenales
+  if (ctx.minHoursPerWeek > 0 || ctx.minHoursPerTwoWeeks > 0) {
+    states.forEach(state => {
+      dates.forEach((date, dayIndex) => {
+        if (!isBelowHourTargets(ctx, state, dayIndex)) return;
+        const staffing = shifts
+          .filter(shift => canAssign(ctx, state, dayIndex, shift))
+          .map(shift => ({
+            shift,
+            gap: getStaffingTarget(targets, shift.id, date) - states.filter(s => s.cells[dayIndex] === shift.id).length
+          }))
+          .sort((a, b) => b.gap - a.gap || scoreCandidate(ctx, state, dayIndex, a.shift) - scoreCandidate(ctx, state, dayIndex, b.shift));
+
+        if (staffing.length > 0) {
+          state.cells[dayIndex] = staffing[0].shift.id;
+          assignedCount++;
+        }
+      });
+    });
+  }
+
+  const unfilled: UnfilledSlot[] = [];
+  dates.forEach((date, dayIndex) => {
+    shifts.forEach(shift => {
+      const missing = getStaffingTarget(targets, shift.id, date) - states.filter(state => state.cells[dayIndex] === shift.id).length;
+      if (missing > 0) unfilled.push({ date, shiftId: shift.id, missing });
+    });
+  });
+
+  const updatedEmployees = states.map(state => {
+    const manualShifts = { ...(state.employee.manualShifts || {}) };
+    dates.forEach((date, dayIndex) => {
+      if (state.editable[dayIndex]) {
+        manualShifts[date] = state.cells[dayIndex] ?? DAY_OFF;
+      }
+    });
+    return { ...state.employee, manualShifts };
+  });
+
+  return { employees: updatedEmployees, assignedCount, unfilled };
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countConsecutiveWorkedDays,
+  exceedsMaxConsecutiveShifts,
+  violatesMinRestTime,
+  getCellViolations
+} from './scheduleValidation';
+import { ScheduleEmployee, ScheduleShift } from '@shared/schedule';
+
+const shifts: ScheduleShift[] = [
+  { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' },
+  { id: 'uid_evening', startTime: '3:00 PM', endTime: '11:00 PM' },
+  { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' }
+];
+
+const rules = {
+  startDate: '2026-11-01',
+  endDate: '2026-11-30',
+  maxConsecutiveShifts: '3',
+  minRestHoursBetweenShifts: '12'
+};
+
+describe('scheduleValidation', () => {
+  describe('exceedsMaxConsecutiveShifts', () => {
+    // Lunes fijo + martes a jueves manuales = 4 días seguidos
+    const employee: ScheduleEmployee = {
+      id: 'E1',
+      name: 'Ana',
+      fixedShifts: { Monday: ['uid_day'] },
+      manualShifts: {
+        '2026-11-03': 'uid_day',
+        '2026-11-04': 'uid_day',
+        '2026-11-05': 'uid_day',
+        '2026-11-06': 'day-off'
+      }
+    };
+
+    it('debería contar turnos fijos y manuales en la racha', () => {
+      expect(countConsecutiveWorkedDays(employee, '2026-11-05', rules)).toBe(4);
+      expect(countConsecutiveWorkedDays(employee, '2026-11-06', rules)).toBe(0);
+    });
+
+    it('debería marcar solo los días por encima del máximo', () => {
+      expect(exceedsMaxConsecutiveShifts(employee, '2026-11-04', rules)).toBe(false);
+      expect(exceedsMaxConsecutiveShifts(employee, '2026-11-05', rules)).toBe(true);
+    });
+
+    it('debería usar el máximo propio del empleado antes que el de las reglas', () => {
+      const stricter = { ...employee, maxConsecutiveShifts: 2 };
+      expect(exceedsMaxConsecutiveShifts(stricter, '2026-11-03', rules)).toBe(false);
+      expect(exceedsMaxConsecutiveShifts(stricter, '2026-11-04', rules)).toBe(true);
+      expect(getCellViolations(stricter, '2026-11-04', rules, shifts)[0].message)
+        .toBe('maxConsecutiveShifts: 3 consecutive shifts (max 2)');
+    });
+
+    it('no debería contar días fuera del rango de fechas', () => {
+      expect(countConsecutiveWorkedDays(employee, '2026-11-05', { ...rules, startDate: '2026-11-04' })).toBe(2);
+    });
+
+    it('debería cortar la racha con un permiso', () => {
+      const onLeave = {
+        ...employee,
+        leave: [{ id: 'l1', startDate: '2026-11-03', endDate: '2026-11-03', leaveType: 'Sick Leave', hoursPerDay: 8 }]
+      };
+      expect(countConsecutiveWorkedDays(onLeave, '2026-11-05', rules)).toBe(2);
+    });
+  });
+
+  describe('violatesMinRestTime', () => {
+    const employee: ScheduleEmployee = {
+      id: 'E1',
+      name: 'Ana',
+      manualShifts: {
+        '2026-11-02': 'uid_night',
+        '2026-11-03': 'uid_evening',
+        '2026-11-05': 'uid_day',
+        '2026-11-06': 'uid_day'
+      }
+    };
+
+    it('debería detectar poco descanso tras un turno nocturno', () => {
+      // La noche termina a las 7:00 AM y la tarde empieza a las 3:00 PM: 8 horas
+      expect(violatesMinRestTime(employee, '2026-11-03', 'uid_evening', rules, shifts)).toBe(true);
+      expect(violatesMinRestTime(employee, '2026-11-02', 'uid_night', rules, shifts)).toBe(true);
+    });
+
+    it('no debería marcar turnos con descanso suficiente', () => {
+      expect(violatesMinRestTime(employee, '2026-11-05', 'uid_day', rules, shifts)).toBe(false);
+    });
+
+    it('no debería validar si la regla está vacía', () => {
+      expect(violatesMinRestTime(employee, '2026-11-03', 'uid_evening', { ...rules, minRestHoursBetweenShifts: '' }, shifts)).toBe(false);
+    });
+  });
+
+  describe('getCellViolations', () => {
+    it('debería nombrar el campo de Rules incumplido', () => {
+      const employee: ScheduleEmployee = {
+        id: 'E1',
+        name: 'Ana',
+        manualShifts: { '2026-11-02': 'uid_night', '2026-11-03': 'uid_day' }
+      };
+      const violations = getCellViolations(employee, '2026-11-03', rules, shifts);
+      expect(violations.map(v => v.rule)).toEqual(['minRestHoursBetweenShifts']);
+      expect(violations[0].message).toContain('minRestHoursBetweenShifts');
+    });
+
+    it('debería marcar la celda si la certificación exigida por el turno ha caducado', () => {
+      const employee = {
+        id: 'E1',
+        name: 'Ana',
+        certifications: [{ name: 'BLS', expiresOn: '2026-11-02' }],
+        manualShifts: { '2026-11-02': 'uid_day', '2026-11-03': 'uid_day' }
+      };
+      const certifiedShifts = [{ ...shifts[0], requiredCertifications: ['BLS', 'ACLS'] }, ...shifts.slice(1)];
+
+      expect(getCellViolations(employee, '2026-11-02', rules, certifiedShifts).map(v => v.message)).toEqual([
+        'requiredCertifications: ACLS missing'
+      ]);
+      expect(getCellViolations(employee, '2026-11-03', rules, certifiedShifts).map(v => v.message)).toEqual([
+        'requiredCertifications: BLS expired on 2026-11-02, ACLS missing'
+      ]);
+    });
+
+    it('debería retornar una lista vacía en días libres', () => {
+      const employee: ScheduleEmployee = { id: 'E1', name: 'Ana', manualShifts: { '2026-11-03': 'day-off' } };
+      expect(getCellViolations(employee, '2026-11-03', rules, shifts)).toEqual([]);
+    });
+  });
+});
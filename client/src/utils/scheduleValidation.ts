@@ -0,0 +1,65 @@
+import { Rules } from '../types/common';
+import {
+  countConsecutiveWorkedDays,
+  exceedsMaxConsecutiveShifts,
+  getMaxConsecutiveShifts,
+  getMinRestHoursAround,
+  parseRuleNumber,
+  resolveAssignment,
+  violatesMinRestTime
+} from '@shared/schedule';
+import { CertificationShift, CertifiedEmployee, describeMissingCertifications, getMissingCertifications } from '@shared/certifications';
+
+// Incumplimiento de una regla en una celda concreta de la tabla
+export interface CellViolation {
+  rule: keyof Rules | 'requiredCertifications'; // Campo de Rules o del turno que se incumple
+  message: string;
+}
+
+type ValidationRules = Pick<Rules, 'startDate' | 'endDate' | 'maxConsecutiveShifts' | 'minRestHoursBetweenShifts'>;
+
+// Las reglas de turnos consecutivos y descanso viven en @shared/schedule para que
+// el servidor valide con ellas (intercambios de turnos); se reexportan aquí
+export { countConsecutiveWorkedDays, exceedsMaxConsecutiveShifts, getMinRestHoursAround, violatesMinRestTime };
+
+/**
+ * Reúne los incumplimientos de reglas y de certificaciones exigidas por el turno de una celda
+ * para resaltarla y explicar el motivo
+ * @returns Lista de incumplimientos (vacía si la celda es válida)
+ */
+export const getCellViolations = (
+  employee: CertifiedEmployee,
+  dateString: string,
+  rules: ValidationRules,
+  shifts: CertificationShift[]
+): CellViolation[] => {
+  const shiftId = resolveAssignment(employee, dateString).shiftId;
+  if (!shiftId) return [];
+
+  const violations: CellViolation[] = [];
+
+  if (exceedsMaxConsecutiveShifts(employee, dateString, rules)) {
+    violations.push({
+      rule: 'maxConsecutiveShifts',
+      message: `maxConsecutiveShifts: ${countConsecutiveWorkedDays(employee, dateString, rules)} consecutive shifts (max ${getMaxConsecutiveShifts(employee, rules)})`
+    });
+  }
+
+  if (violatesMinRestTime(employee, dateString, shiftId, rules, shifts)) {
+    const rest = getMinRestHoursAround(employee, dateString, shiftId, shifts) ?? 0;
+    violations.push({
+      rule: 'minRestHoursBetweenShifts',
+      message: `minRestHoursBetweenShifts: only ${Math.max(0, rest)} hours of rest (min ${parseRuleNumber(rules.minRestHoursBetweenShifts)})`
+    });
+  }
+
+  const missing = getMissingCertifications(employee, shifts.find(s => s.id === shiftId), dateString);
+  if (missing.length > 0) {
+    violations.push({
+      rule: 'requiredCertifications',
+      message: `requiredCertifications: ${describeMissingCertifications(missing)}`
+    });
+  }
+
+  return violations;
+};
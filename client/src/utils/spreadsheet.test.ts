@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, getColumnName, parseCsv, readXlsx, toCsv, toXlsx } from './spreadsheet';
+
+const table = {
+  header: ['Employee', '2026-11-02', 'Hours'],
+  rows: [
+    ['Peña, Ana', 'Day "A"', 40],
+    ['=HYPERLINK("x")', '', 7.5]
+  ]
+};
+
+describe('toCsv', () => {
+  it('debería escapar comas y comillas y neutralizar fórmulas', () => {
+    expect(toCsv(table)).toBe(
+      'Employee,2026-11-02,Hours\r\n' +
+      '"Peña, Ana","Day ""A""",40\r\n' +
+      '"\'=HYPERLINK(""x"")",,7.5\r\n'
+    );
+  });
+});
+
+describe('toXlsx', () => {
+  it('debería generar un ZIP con la hoja y los textos en línea', () => {
+    const xlsx = toXlsx(table, 'Emergency Room');
+    const content = new TextDecoder().decode(xlsx);
+
+    // Firma ZIP y fin del directorio central con las 6 entradas del libro
+    expect(Array.from(xlsx.slice(0, 4))).toEqual([0x50, 0x4B, 0x03, 0x04]);
+    const view = new DataView(xlsx.buffer, xlsx.byteOffset, xlsx.byteLength);
+    expect(view.getUint32(xlsx.length - 22, true)).toBe(0x06054B50);
+    expect(view.getUint16(xlsx.length - 12, true)).toBe(6);
+
+    expect(content).toContain('<sheet name="Emergency Room" sheetId="1" r:id="rId1"/>');
+    expect(content).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Peña, Ana</t></is></c>');
+    expect(content).toContain('<c r="B2" t="inlineStr"><is><t xml:space="preserve">Day &quot;A&quot;</t></is></c>');
+    expect(content).toContain('<c r="C3"><v>7.5</v></c>');
+  });
+
+  it('debería calcular nombres de columna y CRC-32 estándar', () => {
+    expect([0, 25, 26, 701, 702].map(getColumnName)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+  });
+});
+
+describe('parseCsv', () => {
+  it('debería leer campos entre comillas, saltos de línea y el separador punto y coma', () => {
+    expect(parseCsv(toCsv(table))).toEqual([
+      ['Employee', '2026-11-02', 'Hours'],
+      ['Peña, Ana', 'Day "A"', '40'],
+      ["'=HYPERLINK(\"x\")", '', '7.5']
+    ]);
+    expect(parseCsv('\uFEFFName;Notes\r\n"Ana";"Line 1\nLine 2"\r\n;\r\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Ana', 'Line 1\nLine 2']
+    ]);
+  });
+});
+
+describe('readXlsx', () => {
+  it('debería leer la primera hoja de un libro generado con toXlsx', async () => {
+    const rows = await readXlsx(toXlsx(table, 'Emergency Room'));
+    expect(rows).toEqual([
+      ['Employee', '2026-11-02', 'Hours'],
+      ['Peña, Ana', 'Day "A"', '40'],
+      ['=HYPERLINK("x")', '', '7.5']
+    ]);
+  });
+
+  it('debería rechazar archivos que no son ZIP', async () => {
+    await expect(readXlsx(new TextEncoder().encode('Name,Email'))).rejects.toThrow('not a valid XLSX');
+  });
+});
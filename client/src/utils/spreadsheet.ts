@@ -0,0 +1,366 @@
+// Exportación e importación de tablas CSV y XLSX sin dependencias externas.
+// El XLSX exportado es un ZIP sin compresión (método "stored") con una sola hoja y textos
+// en línea; al importar también se aceptan los ZIP comprimidos (deflate) que genera Excel.
+
+export type SpreadsheetValue = string | number;
+
+export interface SpreadsheetTable {
+  header: string[];
+  rows: SpreadsheetValue[][];
+}
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Evita que Excel interprete como fórmula un texto que empieza por =, +, - o @
+ */
+const protectFormula = (value: string): string => {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+};
+
+const toCsvField = (value: SpreadsheetValue): string => {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = protectFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convierte la tabla a CSV (RFC 4180, separador coma y fin de línea CRLF)
+ */
+export const toCsv = (table: SpreadsheetTable): string => {
+  return [table.header, ...table.rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de control no permitidos en XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+};
+
+/**
+ * Nombre de columna de Excel (0 -> A, 25 -> Z, 26 -> AA)
+ */
+export const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toXlsxCell = (value: SpreadsheetValue, reference: string, style: number): string => {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+  }
+  if (value === '') return '';
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const buildSheetXml = (table: SpreadsheetTable): string => {
+  const rows = [table.header, ...table.rows].map((row, rowIndex) => {
+    // Estilo 1 (negrita) para la cabecera
+    const cells = row.map((value, columnIndex) =>
+      toXlsxCell(value, `${getColumnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0)
+    ).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Cabecera y primera columna fijas al desplazarse
+    '<sheetViews><sheetView workbookViewId="0"><pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows}</sheetData>` +
+    '</worksheet>';
+};
+
+const buildWorkbookFiles = (table: SpreadsheetTable, sheetName: string): Record<string, string> => ({
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1')}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>',
+  'xl/worksheets/sheet1.xml': buildSheetXml(table)
+});
+
+// Tabla CRC-32 (polinomio 0xEDB88320) que exige el formato ZIP
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Empaqueta los archivos en un ZIP sin compresión
+ */
+const createZip = (files: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true); // Firma de cabecera local
+    local.setUint16(4, 20, true); // Versión necesaria
+    local.setUint16(6, 0x0800, true); // Nombres en UTF-8
+    local.setUint16(8, 0, true); // Sin compresión
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014B50, true); // Firma del directorio central
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true); // Fin del directorio central
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+/**
+ * Convierte la tabla a un libro XLSX de una hoja, con la cabecera en negrita
+ * @param sheetName - Nombre de la hoja (máximo 31 caracteres)
+ */
+export const toXlsx = (table: SpreadsheetTable, sheetName: string): Uint8Array => {
+  return createZip(buildWorkbookFiles(table, sheetName));
+};
+
+// --- Importación ---
+
+/**
+ * Lee un CSV (RFC 4180) y devuelve sus filas como texto, sin las filas vacías.
+ * Detecta el separador (coma o punto y coma, el de Excel en configuración europea)
+ * a partir de la primera línea.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const separator = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const unescapeXml = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Extrae los archivos de un ZIP (sin compresión o deflate) a partir de su directorio central
+ * @throws Error si el archivo no es un ZIP válido o usa otro método de compresión
+ */
+const readZip = async (zip: Uint8Array): Promise<Record<string, string>> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  // El fin del directorio central está al final, seguido de un comentario opcional
+  let end = zip.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054B50) end--;
+  if (end < 0) throw new Error('The file is not a valid XLSX workbook');
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const files: Record<string, string> = {};
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(position, true) !== 0x02014B50) throw new Error('The file is not a valid XLSX workbook');
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files[name] = decoder.decode(data);
+    } else if (method === 8) {
+      files[name] = decoder.decode(await inflateRaw(data));
+    } else {
+      throw new Error('The XLSX workbook uses an unsupported compression method');
+    }
+  }
+  return files;
+};
+
+// Índice de columna (0 = A) a partir de una referencia de celda como "AB12"
+const getColumnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Texto de un elemento <si> o <is>: concatena los <t> (también los de texto enriquecido)
+const readRichText = (xml: string): string => {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => unescapeXml(match[1])).join('');
+};
+
+/**
+ * Lee la primera hoja de un libro XLSX y devuelve sus filas como texto, sin las filas vacías.
+ * Las fechas llegan como número de serie de Excel (días desde 1899-12-30).
+ */
+export const readXlsx = async (data: Uint8Array): Promise<string[][]> => {
+  const files = await readZip(data);
+
+  // Primera hoja del libro según workbook.xml y sus relaciones
+  const sheetId = files['xl/workbook.xml']?.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const target = sheetId && files['xl/_rels/workbook.xml.rels']
+    ?.match(new RegExp(`<Relationship\\s[^>]*Id="${sheetId}"[^>]*>`))?.[0]
+    .match(/Target="([^"]+)"/)?.[1];
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = files[sheetPath];
+  if (!sheet) throw new Error('The XLSX workbook has no worksheet');
+
+  const sharedStrings = Array.from((files['xl/sharedStrings.xml'] || '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map(match => readRichText(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = attributes.match(/\br="([^"]+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(rawValue)] ?? '';
+      else if (type === 'inlineStr') value = readRichText(content);
+      else if (rawValue !== undefined) value = unescapeXml(rawValue);
+
+      const column = reference ? getColumnIndex(reference) : row.length;
+      while (row.length < column) row.push('');
+      row[column] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
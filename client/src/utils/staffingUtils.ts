@@ -0,0 +1,106 @@
+import { ShiftRow, ShiftData } from '../types/common';
+import { getShiftDataTarget, parseDateString } from '@shared/schedule';
+
+// Personal ideal de un turno: por día de la semana (domingo primero) y, encima, por fecha
+// para festivos y eventos especiales. roles indica cuántos de ellos deben tener cada rol.
+export interface ShiftStaffingTarget {
+  weekdays: number[];
+  dates: { [date: string]: number };
+  roles: { [role: string]: number[] };
+}
+
+// Personal por rol: { rol: personas }
+export interface RoleCounts {
+  [role: string]: number;
+}
+
+// Rol al que le falta personal en un turno
+export interface RoleShortage {
+  role: string;
+  scheduled: number;
+  required: number;
+}
+
+// Personal ideal por turno: { shiftId: objetivos }
+export interface StaffingTargets {
+  [shiftId: string]: ShiftStaffingTarget;
+}
+
+// El personal ideal de una fila de shiftData vive en @shared/schedule para que el roster
+// del servidor lo calcule igual; se reexporta aquí
+export { getShiftDataTarget };
+
+/**
+ * Construye los objetivos de personal por turno a partir de shiftData.
+ * shiftData se alinea por posición con los turnos (igual que en la tabla de horarios).
+ * @param shifts - Turnos de la lista
+ * @param shiftData - Conteos ideales por día de la semana (domingo primero), por fecha y por rol
+ * @returns Objetivos indexados por ID de turno
+ */
+export const buildStaffingTargets = (shifts: ShiftRow[], shiftData: ShiftData[]): StaffingTargets => {
+  const targets: StaffingTargets = {};
+  shifts.forEach((shift, index) => {
+    const counts = shiftData[index]?.counts || [];
+    targets[shift.id] = {
+      weekdays: Array.from({ length: 7 }, (_, day) => counts[day] || 0),
+      dates: { ...shiftData[index]?.dateCounts },
+      roles: { ...shiftData[index]?.roleCounts }
+    };
+  });
+  return targets;
+};
+
+/**
+ * Obtiene el personal ideal de un turno para una fecha
+ * @param targets - Objetivos construidos con buildStaffingTargets
+ * @param shiftId - ID del turno
+ * @param dateString - Fecha YYYY-MM-DD
+ * @returns Número ideal de personas (0 si no hay objetivo)
+ */
+export const getStaffingTarget = (targets: StaffingTargets, shiftId: string, dateString: string): number => {
+  const target = targets[shiftId];
+  if (!target) return 0;
+  return getShiftDataTarget({ counts: target.weekdays, dateCounts: target.dates }, dateString);
+};
+
+/**
+ * Personal mínimo por rol de una fila de shiftData en una fecha (según su día de la semana)
+ * @returns Solo los roles que piden al menos una persona ese día
+ */
+export const getShiftDataRoleTargets = (row: Pick<ShiftData, 'roleCounts'> | undefined, dateString: string): RoleCounts => {
+  const weekday = parseDateString(dateString).getUTCDay();
+  const targets: RoleCounts = {};
+  Object.entries(row?.roleCounts || {}).forEach(([role, counts]) => {
+    if ((counts[weekday] || 0) > 0) targets[role] = counts[weekday];
+  });
+  return targets;
+};
+
+/**
+ * Personal mínimo por rol de un turno en una fecha
+ */
+export const getRoleStaffingTargets = (targets: StaffingTargets, shiftId: string, dateString: string): RoleCounts => {
+  return getShiftDataRoleTargets({ roleCounts: targets[shiftId]?.roles }, dateString);
+};
+
+/**
+ * Cuenta los empleados de cada rol (los que no tienen rol no se cuentan)
+ */
+export const countByRole = (employees: { role?: string }[]): RoleCounts => {
+  return employees.reduce<RoleCounts>((counts, employee) => {
+    if (employee.role) counts[employee.role] = (counts[employee.role] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+/**
+ * Roles que no llegan a su mínimo de personal
+ * @param required - Mínimo por rol (getRoleStaffingTargets)
+ * @param scheduled - Personal programado por rol (countByRole)
+ */
+export const getRoleShortages = (required: RoleCounts, scheduled: RoleCounts): RoleShortage[] => {
+  return Object.entries(required)
+    .filter(([role, count]) => (scheduled[role] || 0) < count)
+    .map(([role, count]) => ({ role, scheduled: scheduled[role] || 0, required: count }))
+    .sort((a, b) => a.role.localeCompare(b.role));
+};
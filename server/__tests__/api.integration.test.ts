@@ -16,6 +16,7 @@ import type { Express } from 'express'
 import express from 'express'
 import { registerRoutes } from '../routes'
 import { storage } from '../storage'
+import { loginAs } from './authHelpers'
 
 // Test data
 const testUser = {
@@ -36,6 +37,7 @@ const duplicateUser = {
 describe('API Integration Tests - WAOK Schedule', () => {
   let app: Express
   let server: any
+  let api: Awaited<ReturnType<typeof loginAs>>
 
   beforeAll(async () => {
     // Configurar aplicación Express para testing
@@ -43,6 +45,9 @@ describe('API Integration Tests - WAOK Schedule', () => {
     
     // Registrar rutas de la API (incluye express.json() y manejo de errores)
     server = await registerRoutes(app)
+
+    // Todas las rutas salvo health y login requieren sesión
+    api = await loginAs(app)
   })
 
   afterAll(async () => {
@@ -59,7 +64,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
   describe('🔍 Health Check & System Status', () => {
     
     it('should return API health status', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/api/health')
         .expect(200)
 
@@ -72,7 +77,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
     })
     
     it('should handle undefined API routes with 404', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/api/nonexistent-endpoint')
         .expect(404)
 
@@ -86,12 +91,12 @@ describe('API Integration Tests - WAOK Schedule', () => {
     describe('GET /api/users - List All Users', () => {
       
       it('should return all users (including test data)', async () => {
-        const response = await request(app)
+        const response = await api
           .get('/api/users')
           .expect(200)
 
         expect(response.body).toBeInstanceOf(Array)
-        expect(response.body.length).toBeGreaterThanOrEqual(2) // admin y user1
+        expect(response.body.length).toBeGreaterThanOrEqual(1) // El supervisor inicial
         
         // Verificar estructura de datos y seguridad
         response.body.forEach((user: any) => {
@@ -111,7 +116,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       it('should return empty array when no users exist', async () => {
         // Nota: En nuestro caso siempre hay usuarios de prueba
         // En una implementación real, podrías limpiar la DB aquí
-        const response = await request(app)
+        const response = await api
           .get('/api/users')
           .expect(200)
 
@@ -128,7 +133,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
           password: 'securepassword123'
         }
 
-        const response = await request(app)
+        const response = await api
           .post('/api/users')
           .send(uniqueUser)
           .expect(201)
@@ -142,7 +147,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       it('should validate required fields', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/users')
           .send({})
           .expect(400)
@@ -153,7 +158,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       it('should validate username requirements', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/users')
           .send(invalidUser)
           .expect(400)
@@ -165,7 +170,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       
       it('should reject duplicate usernames', async () => {
         // Intentar crear un usuario con username que ya existe (admin)
-        const response = await request(app)
+        const response = await api
           .post('/api/users')
           .send(duplicateUser)
           .expect(409) // Conflict
@@ -176,7 +181,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       it('should handle malformed JSON', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/users')
           .set('Content-Type', 'application/json')
           .send('{ invalid json }')
@@ -192,7 +197,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
     describe('GET /api/users - Additional User Tests', () => {
       
       it('should retrieve all users with proper structure', async () => {
-        const response = await request(app)
+        const response = await api
           .get('/api/users')
           .expect(200)
           
@@ -217,7 +222,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       
       it('should retrieve a specific user by ID', async () => {
         // Usar el ID del usuario admin que sabemos existe
-        const response = await request(app)
+        const response = await api
           .get('/api/users/1')
           .expect(200)
           
@@ -230,7 +235,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       it('should return 404 for non-existent user ID', async () => {
-        const response = await request(app)
+        const response = await api
           .get('/api/users/99999')
           .expect(404)
           
@@ -240,7 +245,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       it('should handle invalid user ID format', async () => {
-        const response = await request(app)
+        const response = await api
           .get('/api/users/invalid-id')
           .expect(400)
           
@@ -256,7 +261,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
   describe('Data Validation & Security', () => {
     
     it('should enforce content-type validation', async () => {
-      await request(app)
+      await api
         .post('/api/users')
         .set('Content-Type', 'text/plain')
         .send('not json')
@@ -269,7 +274,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
         password: 'b'.repeat(1000)
       }
       
-      const response = await request(app)
+      const response = await api
         .post('/api/users')
         .send(largePayload)
         .expect(400)
@@ -284,7 +289,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       }
       
       // La consulta debe fallar de manera segura, no exitosa
-      await request(app)
+      await api
         .post('/api/users')
         .send(maliciousUser)
         .expect(400) // O podría ser 201 si se sanea correctamente
@@ -298,7 +303,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       // Este test requeriría mockar la conexión a la base de datos
       // Por ahora, verificamos que el servidor responde con errores apropiados
       
-      const response = await request(app)
+      const response = await api
         .get('/api/users')
         .expect(200) // Assuming DB is available in tests
         
@@ -307,7 +312,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
     
     it('should handle concurrent user creation', async () => {
       const promises = Array.from({ length: 5 }, (_, i) => 
-        request(app)
+        api
           .post('/api/users')
           .send({
             username: `concurrent_user_${i}`,
@@ -324,7 +329,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
       })
       
       // Verificar que se crearon todos los usuarios
-      const allUsers = await request(app)
+      const allUsers = await api
         .get('/api/users')
         .expect(200)
         
@@ -336,7 +341,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
   describe('API Response Format & Standards', () => {
     
     it('should return consistent JSON response format', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/api/users')
         .expect(200)
         
@@ -345,7 +350,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
     })
     
     it('should include proper CORS headers', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/api/users')
         .expect(200)
         
@@ -354,7 +359,7 @@ describe('API Integration Tests - WAOK Schedule', () => {
     })
     
     it('should handle OPTIONS requests for CORS preflight', async () => {
-      await request(app)
+      await api
         .options('/api/users')
         .expect(204) // No Content, or 200 depending on CORS setup
     })
@@ -370,12 +375,13 @@ describe('API Integration Tests - WAOK Schedule', () => {
 // Helper para crear múltiples usuarios de prueba
 export const createTestUsers = async (app: Express, count: number = 3) => {
   const users = []
+  const agent = await loginAs(app)
   for (let i = 0; i < count; i++) {
     const user = {
       username: `testuser${i}_${Date.now()}`,
       password: `password${i}`
     }
-    const response = await request(app)
+    const response = await agent
       .post('/api/users')
       .send(user)
       .expect(201)
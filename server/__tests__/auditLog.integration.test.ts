@@ -0,0 +1,128 @@
+/**
+ * Pruebas de Integración del registro de auditoría
+ *
+ * Validan que cada cambio de turnos, ausencias y reglas deja eventos con el usuario
+ * y los valores anteriores y nuevos, y que el visor filtra por empleado y fecha.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+describe('Audit log API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+  let employee: UserSession
+  let listId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Audit log',
+      employees: [
+        { id: 'emp-ana', name: 'Ana', manualShifts: { '2026-11-03': 'uid_day' } },
+        { id: 'emp-luis', name: 'Luis' }
+      ],
+      shifts: [{ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' }]
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [listId] }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should record who changed an assignment with the previous and new values', async () => {
+    const list = await scheduler.get(`/api/lists/${listId}`).expect(200)
+    const employees = list.body.employees.map((e: any) =>
+      e.id === 'emp-ana' ? { ...e, manualShifts: { '2026-11-03': 'day-off' } } : e
+    )
+    await scheduler.patch(`/api/lists/${listId}`).send({ employees }).expect(200)
+
+    const response = await supervisor.get(`/api/lists/${listId}/audit-events?employeeId=emp-ana&date=2026-11-03`).expect(200)
+    expect(response.body).toHaveLength(1)
+    expect(response.body[0]).toMatchObject({
+      listId,
+      userId: scheduler.user.id,
+      username: scheduler.user.username,
+      source: 'list',
+      field: 'manualShifts',
+      employeeId: 'emp-ana',
+      date: '2026-11-03',
+      before: 'uid_day',
+      after: 'day-off'
+    })
+    expect(typeof response.body[0].createdAt).toBe('string')
+
+    // Los cambios que no tocan campos auditados no dejan eventos
+    const count = (await supervisor.get(`/api/lists/${listId}/audit-events`).expect(200)).body.length
+    await scheduler.patch(`/api/lists/${listId}`).send({ name: 'Audit log (renamed)' }).expect(200)
+    expect((await supervisor.get(`/api/lists/${listId}/audit-events`).expect(200)).body).toHaveLength(count)
+  })
+
+  it('should record shift definitions, rules and approved leave', async () => {
+    await scheduler.put(`/api/lists/${listId}/shifts/uid_day`).send({ startTime: '8:00 AM', endTime: '4:00 PM' }).expect(200)
+    await scheduler.patch(`/api/lists/${listId}`).send({ rules: { maxConsecutiveShifts: '4' } }).expect(200)
+
+    const request = await supervisor.post(`/api/lists/${listId}/leave-requests`).send({
+      employeeId: 'emp-luis',
+      startDate: '2026-11-10',
+      endDate: '2026-11-12',
+      leaveType: 'Vacation',
+      hoursPerDay: 8
+    }).expect(201)
+    await supervisor.post(`/api/lists/${listId}/leave-requests/${request.body.id}/approve`).send({}).expect(200)
+
+    const events = (await scheduler.get(`/api/lists/${listId}/audit-events`).expect(200)).body
+    // Del más reciente al más antiguo
+    expect(events.slice(0, 3).map((event: any) => [event.source, event.field])).toEqual([
+      ['leave-request', 'leave'],
+      ['list', 'rules'],
+      ['shift', 'shift']
+    ])
+    expect(events[1].after).toEqual({ maxConsecutiveShifts: '4' })
+
+    const onLeave = await scheduler.get(`/api/lists/${listId}/audit-events?date=2026-11-11`).expect(200)
+    expect(onLeave.body).toHaveLength(1)
+    expect(onLeave.body[0]).toMatchObject({ employeeId: 'emp-luis', date: '2026-11-10', endDate: '2026-11-12', username: 'admin' })
+  })
+
+  it('should record everything a deleted list held', async () => {
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Deleted',
+      employees: [{ id: 'emp-eva', name: 'Eva', manualShifts: { '2026-11-05': 'uid_day' } }],
+      shifts: [{ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' }]
+    }).expect(201)
+    await supervisor.delete(`/api/lists/${list.body.id}`).expect(204)
+
+    const events = (await supervisor.get(`/api/lists/${list.body.id}/audit-events`).expect(200)).body
+    const deleted = events.filter((event: any) => event.source === 'list-delete')
+    expect(deleted.map((event: any) => event.field)).toEqual(expect.arrayContaining(['employee', 'shift']))
+    expect(deleted.find((event: any) => event.field === 'employee')).toMatchObject({
+      employeeId: 'emp-eva',
+      before: { name: 'Eva', manualShifts: { '2026-11-05': 'uid_day' } },
+      after: null
+    })
+  })
+
+  it('should validate the filters and require edit access', async () => {
+    await supervisor.get(`/api/lists/${listId}/audit-events?date=11/03/2026`).expect(400)
+    await employee.get(`/api/lists/${listId}/audit-events`).expect(403)
+  })
+})
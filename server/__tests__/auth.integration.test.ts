@@ -0,0 +1,147 @@
+/**
+ * Pruebas de Integración de autenticación
+ *
+ * Validan login, logout y /api/auth/me, la protección de las rutas,
+ * el hash de contraseñas y la política de CORS.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { storage } from '../storage'
+import { AUTH_COOKIE } from '../auth'
+import { adminCredentials, loginAs } from './authHelpers'
+
+describe('Authentication API', () => {
+  let app: Express
+  let server: any
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  describe('POST /api/auth/login', () => {
+
+    it('should log in and set an httpOnly session cookie', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send(adminCredentials)
+        .expect(200)
+
+      expect(response.body.user).toMatchObject({ username: 'admin' })
+      expect(response.body.user).not.toHaveProperty('password')
+      expect(response.body.token).toEqual(expect.any(String))
+
+      const cookie = response.headers['set-cookie'][0]
+      expect(cookie).toContain(`${AUTH_COOKIE}=`)
+      expect(cookie).toContain('HttpOnly')
+    })
+
+    it('should reject wrong passwords and unknown users with the same message', async () => {
+      const wrongPassword = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'admin', password: 'wrong-password' })
+        .expect(401)
+      const unknownUser = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'nobody', password: adminCredentials.password })
+        .expect(401)
+
+      expect(wrongPassword.body.error).toBe(unknownUser.body.error)
+    })
+
+    it('should validate required fields', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({})
+        .expect(400)
+    })
+
+  })
+
+  describe('Protected routes', () => {
+
+    it('should reject requests without session', async () => {
+      await request(app).get('/api/users').expect(401)
+      await request(app).get('/api/lists').expect(401)
+      await request(app).get('/api/auth/me').expect(401)
+    })
+
+    it('should reject invalid tokens', async () => {
+      await request(app)
+        .get('/api/users')
+        .set('Authorization', 'Bearer not-a-valid-token')
+        .expect(401)
+    })
+
+    it('should accept the token as a Bearer header', async () => {
+      const login = await request(app).post('/api/auth/login').send(adminCredentials).expect(200)
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .expect(200)
+
+      expect(response.body).toMatchObject({ username: 'admin' })
+    })
+
+    it('should keep health check public', async () => {
+      await request(app).get('/api/health').expect(200)
+    })
+
+  })
+
+  describe('POST /api/auth/logout', () => {
+
+    it('should end the session', async () => {
+      // El agente conserva la cookie de sesión entre peticiones
+      const agent = request.agent(app)
+      await agent.post('/api/auth/login').send(adminCredentials).expect(200)
+      await agent.get('/api/auth/me').expect(200)
+
+      await agent.post('/api/auth/logout').expect(204)
+      await agent.get('/api/auth/me').expect(401)
+    })
+
+  })
+
+  describe('Password storage', () => {
+
+    it('should store hashed passwords', async () => {
+      const user = await storage.getUserByUsername('admin')
+      expect(user?.password).not.toBe(adminCredentials.password)
+      expect(user?.password).toMatch(/^\$2[aby]\$/)
+    })
+
+    it('should allow new users to log in', async () => {
+      const agent = await loginAs(app)
+      const newUser = { username: `auth_user_${Date.now()}`, password: 'newpassword123' }
+      await agent.post('/api/users').send(newUser).expect(201)
+
+      await request(app).post('/api/auth/login').send(newUser).expect(200)
+    })
+
+  })
+
+  describe('CORS', () => {
+
+    it('should not allow arbitrary origins', async () => {
+      const response = await request(app)
+        .get('/api/health')
+        .set('Origin', 'https://evil.example.com')
+        .expect(200)
+
+      expect(response.headers['access-control-allow-origin']).toBeUndefined()
+    })
+
+  })
+})
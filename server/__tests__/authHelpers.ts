@@ -0,0 +1,52 @@
+/**
+ * Utilidades de autenticación compartidas por las pruebas de integración
+ */
+
+import request from 'supertest'
+import type { Express } from 'express'
+
+// Credenciales del primer supervisor, creado a partir de las variables de entorno de vitest.config.ts
+export const adminCredentials = {
+  username: process.env.INITIAL_SUPERVISOR_USERNAME!,
+  password: process.env.INITIAL_SUPERVISOR_PASSWORD!
+}
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'options'
+
+/**
+ * Inicia sesión y devuelve un cliente de Supertest que envía el token en cada petición
+ * (api.get('/api/users') equivale a request(app).get('/api/users') con sesión)
+ */
+export const loginAs = async (app: Express, credentials = adminCredentials) => {
+  const response = await request(app).post('/api/auth/login').send(credentials).expect(200)
+  const token: string = response.body.token
+
+  const withToken = (method: Method) => (url: string) =>
+    request(app)[method](url).set('Authorization', `Bearer ${token}`)
+
+  return {
+    token,
+    get: withToken('get'),
+    post: withToken('post'),
+    put: withToken('put'),
+    patch: withToken('patch'),
+    delete: withToken('delete'),
+    options: withToken('options')
+  }
+}
+
+let createdUsers = 0
+
+/**
+ * Crea un usuario con el rol indicado (usando una sesión de supervisor) e inicia sesión con él
+ */
+export const loginAsNewUser = async (
+  app: Express,
+  supervisor: Awaited<ReturnType<typeof loginAs>>,
+  role: 'supervisor' | 'scheduler' | 'employee'
+) => {
+  const credentials = { username: `${role}_${Date.now()}_${++createdUsers}`, password: 'password123' }
+  const created = await supervisor.post('/api/users').send({ ...credentials, role }).expect(201)
+  const session = await loginAs(app, credentials)
+  return { ...session, user: created.body as { id: number; username: string; role: string } }
+}
@@ -0,0 +1,55 @@
+/**
+ * Pruebas del arranque de una instalación nueva: primer supervisor desde variables de entorno
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MemStorage } from '../storage'
+import { ensureInitialSupervisor } from '../bootstrap'
+import { verifyPassword } from '../password'
+
+const env = {
+  INITIAL_SUPERVISOR_USERNAME: 'first_supervisor',
+  INITIAL_SUPERVISOR_PASSWORD: 'first-password'
+}
+
+describe('ensureInitialSupervisor', () => {
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('should create a supervisor with a hashed password when there are no users', async () => {
+    const storage = new MemStorage()
+
+    const supervisor = await ensureInitialSupervisor(storage, env)
+
+    expect(supervisor).toMatchObject({ username: 'first_supervisor', role: 'supervisor' })
+    expect(await verifyPassword('first-password', supervisor!.password)).toBe(true)
+    expect(await storage.getUsers()).toHaveLength(1)
+  })
+
+  it('should not create anyone when users already exist', async () => {
+    const storage = new MemStorage()
+    await storage.createUser({ username: 'existing', password: 'password123', role: 'scheduler' })
+
+    expect(await ensureInitialSupervisor(storage, env)).toBeUndefined()
+    expect((await storage.getUsers()).map(user => user.username)).toEqual(['existing'])
+  })
+
+  it('should leave the users table empty and warn when the variables are missing', async () => {
+    const storage = new MemStorage()
+
+    expect(await ensureInitialSupervisor(storage, {})).toBeUndefined()
+    expect(await storage.getUsers()).toEqual([])
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('INITIAL_SUPERVISOR_PASSWORD'))
+  })
+
+  it('should reject a password that does not meet the user rules', async () => {
+    const storage = new MemStorage()
+
+    await expect(ensureInitialSupervisor(storage, { ...env, INITIAL_SUPERVISOR_PASSWORD: 'short' }))
+      .rejects.toThrow('Invalid initial supervisor')
+    expect(await storage.getUsers()).toEqual([])
+  })
+})
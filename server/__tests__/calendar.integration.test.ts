@@ -0,0 +1,98 @@
+/**
+ * Pruebas de Integración del calendario (.ics) de los empleados
+ *
+ * Validan la descarga, los permisos y la suscripción con token, que funciona
+ * sin sesión y deja de funcionar al regenerar el enlace.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import request from 'supertest'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+// La suscripción cubre una ventana alrededor de hoy
+const today = new Date().toISOString().slice(0, 10)
+
+describe('Employee calendar API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let employee: UserSession
+  let listId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Calendar',
+      employees: [
+        {
+          id: 'emp-ana',
+          name: 'Ana',
+          manualShifts: { '2026-11-03': 'uid_night', [today]: 'uid_night' },
+          shiftComments: { '2026-11-03': 'Bring badge' }
+        },
+        { id: 'emp-luis', name: 'Luis' }
+      ],
+      shifts: [{ id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', name: 'Night' }],
+      rules: { startDate: '2026-11-01', endDate: '2026-11-14' }
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/lists/${listId}/employees/emp-ana/account`).send({ username: employee.user.username }).expect(200)
+    // Los calendarios muestran solo el horario publicado
+    await supervisor.post(`/api/lists/${listId}/publications`).send({}).expect(201)
+    await supervisor.post(`/api/lists/${listId}/publications`).send({ startDate: today, endDate: today }).expect(201)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should download the employee calendar for the list period', async () => {
+    const response = await employee.get(`/api/lists/${listId}/employees/emp-ana/calendar.ics`).expect(200)
+
+    expect(response.headers['content-type']).toContain('text/calendar')
+    expect(response.headers['content-disposition']).toContain('attachment; filename="Ana.ics"')
+    expect(response.text).toContain('SUMMARY:Night')
+    expect(response.text).toContain('DTSTART:20261103T230000\r\nDTEND:20261104T070000')
+    expect(response.text).toContain('Bring badge')
+
+    await supervisor.get(`/api/lists/${listId}/employees/emp-ana/calendar.ics?startDate=2026-11-10&endDate=2026-11-01`).expect(400)
+    // Un empleado no puede descargar el calendario de otro
+    await employee.get(`/api/lists/${listId}/employees/emp-luis/calendar.ics`).expect(403)
+  })
+
+  it('should serve the subscription feed by token without a session', async () => {
+    await employee.get(`/api/lists/${listId}/employees/emp-ana/calendar-feed`).expect(200, 'null')
+
+    const created = await employee.post(`/api/lists/${listId}/employees/emp-ana/calendar-feed`).expect(201)
+    const path = new URL(created.body.url).pathname
+    expect(path).toMatch(/^\/api\/calendar\/[\w-]+\.ics$/)
+
+    const current = await employee.get(`/api/lists/${listId}/employees/emp-ana/calendar-feed`).expect(200)
+    expect(new URL(current.body.url).pathname).toBe(path)
+
+    const feed = await request(app).get(path).expect(200)
+    expect(feed.headers['content-type']).toContain('text/calendar')
+    expect(feed.text).toContain(`UID:emp-ana-${today}@waok-schedule`)
+
+    // Regenerar el enlace revoca el anterior
+    const regenerated = await employee.post(`/api/lists/${listId}/employees/emp-ana/calendar-feed`).expect(201)
+    expect(new URL(regenerated.body.url).pathname).not.toBe(path)
+    await request(app).get(path).expect(404)
+    await request(app).get(new URL(regenerated.body.url).pathname).expect(200)
+
+    await employee.post(`/api/lists/${listId}/employees/emp-luis/calendar-feed`).expect(403)
+  })
+})
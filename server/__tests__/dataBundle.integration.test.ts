@@ -0,0 +1,135 @@
+/**
+ * Pruebas de Integración de Export/Import Data
+ *
+ * Validan el paquete versionado, el informe de conflictos de IDs y los modos
+ * merge y replace al importar sobre listas existentes.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+import { createDataBundle } from '../../shared/dataBundle'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+describe('Data bundle API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+
+  const existingList = {
+    id: 'bundle-existing',
+    name: 'Emergency Room',
+    employees: [
+      { id: 'emp-ana', name: 'Ana' },
+      { id: 'emp-luis', name: 'Luis' }
+    ],
+    shifts: [{ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' }],
+    rules: { maxConsecutiveShifts: '5' }
+  }
+
+  const bundleFor = (lists: any[]) => JSON.parse(JSON.stringify(createDataBundle(lists)))
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should report lists and employees that already exist', async () => {
+    await supervisor.post('/api/lists').send(existingList).expect(201)
+
+    const bundle = bundleFor([
+      { ...existingList, employees: [{ id: 'emp-ana', name: 'Ana Maria' }, { id: 'emp-eva', name: 'Eva' }] },
+      { id: 'bundle-new', name: 'Pediatrics', employees: [], shifts: [] }
+    ])
+    const response = await supervisor.post('/api/data-bundle/preview').send({ bundle }).expect(200)
+
+    expect(response.body.lists).toEqual([
+      { id: 'bundle-existing', name: 'Emergency Room', employeeCount: 2, exists: true },
+      { id: 'bundle-new', name: 'Pediatrics', employeeCount: 0, exists: false }
+    ])
+    expect(response.body.conflicts).toEqual({
+      duplicateListIds: [],
+      duplicateEmployeeIds: [],
+      existingListIds: ['bundle-existing'],
+      existingEmployeeIds: [{ listId: 'bundle-existing', employeeIds: ['emp-ana'] }]
+    })
+  })
+
+  it('should merge employees by ID and keep the existing rules', async () => {
+    const bundle = bundleFor([
+      { ...existingList, name: 'Renamed', rules: { maxConsecutiveShifts: '2' }, employees: [{ id: 'emp-ana', name: 'Ana Maria' }, { id: 'emp-eva', name: 'Eva' }] },
+      { id: 'bundle-new', name: 'Pediatrics', employees: [], shifts: [] }
+    ])
+    const response = await supervisor.post('/api/data-bundle/import').send({ bundle, mode: 'merge' }).expect(201)
+
+    expect(response.body).toMatchObject({ created: ['bundle-new'], merged: ['bundle-existing'], replaced: [] })
+
+    const list = await supervisor.get('/api/lists/bundle-existing').expect(200)
+    expect(list.body.name).toBe('Emergency Room')
+    expect(list.body.rules.maxConsecutiveShifts).toBe('5')
+    expect(list.body.employees.map((e: any) => e.name)).toEqual(['Ana Maria', 'Luis', 'Eva'])
+  })
+
+  it('should replace existing lists when asked to', async () => {
+    const bundle = bundleFor([{ ...existingList, name: 'Replaced', employees: [{ id: 'emp-eva', name: 'Eva' }] }])
+    const response = await supervisor.post('/api/data-bundle/import').send({ bundle, mode: 'replace' }).expect(201)
+
+    expect(response.body).toMatchObject({ created: [], merged: [], replaced: ['bundle-existing'] })
+
+    const list = await supervisor.get('/api/lists/bundle-existing').expect(200)
+    expect(list.body.name).toBe('Replaced')
+    expect(list.body.employees.map((e: any) => e.id)).toEqual(['emp-eva'])
+  })
+
+  it('should ignore account links carried by the file', async () => {
+    const account = await loginAsNewUser(app, supervisor, 'employee')
+    await supervisor.put('/api/lists/bundle-existing/employees/emp-eva/account').send({ username: account.user.username }).expect(200)
+
+    // userId escrito a mano en el archivo: la cuenta de un scheduler, que la ruta de enlace rechazaría
+    const linkTo = (employees: any[]) => employees.map(employee => ({ ...employee, userId: scheduler.user.id }))
+    const bundle = bundleFor([
+      { ...existingList, employees: [{ id: 'emp-eva', name: 'Eva' }, { id: 'emp-ana', name: 'Ana' }] },
+      { id: 'bundle-linked', name: 'Linked', employees: [{ id: 'emp-max', name: 'Max' }], shifts: [] }
+    ])
+    bundle.lists.forEach((list: any) => { list.employees = linkTo(list.employees) })
+
+    for (const mode of ['merge', 'replace']) {
+      await supervisor.post('/api/data-bundle/import').send({ bundle, mode }).expect(201)
+
+      const list = await supervisor.get('/api/lists/bundle-existing').expect(200)
+      const userIdOf = (id: string) => list.body.employees.find((e: any) => e.id === id).userId
+      expect(userIdOf('emp-eva')).toBe(account.user.id)
+      expect(userIdOf('emp-ana')).toBeUndefined()
+    }
+
+    const created = await supervisor.get('/api/lists/bundle-linked').expect(200)
+    expect(created.body.employees[0]).not.toHaveProperty('userId')
+  })
+
+  it('should reject invalid files, duplicate IDs and non-supervisors', async () => {
+    const invalid = await supervisor.post('/api/data-bundle/preview')
+      .send({ bundle: { ...bundleFor([]), version: 99 } })
+      .expect(400)
+    expect(invalid.body.details[0].message).toBe('Unsupported data file version (expected 1)')
+
+    const duplicated = bundleFor([{ id: 'bundle-dup', name: 'Dup', employees: [{ id: 'e1', name: 'A' }, { id: 'e1', name: 'B' }], shifts: [] }])
+    const response = await supervisor.post('/api/data-bundle/import').send({ bundle: duplicated, mode: 'merge' }).expect(409)
+    expect(response.body.details.duplicateEmployeeIds).toEqual([{ listId: 'bundle-dup', employeeIds: ['e1'] }])
+    await supervisor.get('/api/lists/bundle-dup').expect(404)
+
+    await scheduler.post('/api/data-bundle/import').send({ bundle: bundleFor([]), mode: 'merge' }).expect(403)
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Pruebas de Integración de las listas de empleados
+ *
+ * Validan el CRUD de /api/lists y de sus empleados y turnos,
+ * además de la migración única de los datos guardados en localStorage.
+ * Se ejecutan contra MemStorage (sin DATABASE_URL).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs } from './authHelpers'
+
+const baseList = {
+  name: 'Emergency Room',
+  employees: [
+    {
+      id: 'emp-1',
+      name: 'Ana',
+      email: 'ana@example.com',
+      phone: '',
+      hireDate: '2020-01-01',
+      shiftPreferences: [1, null],
+      notes: { confidential: '', aiRules: '' },
+      manualShifts: { '2026-11-02': 'shift-day' }
+    }
+  ],
+  shifts: [
+    {
+      id: 'shift-day',
+      startTime: '7:00 AM',
+      endTime: '3:00 PM',
+      duration: '8:00',
+      lunchBreakDeduction: 0,
+      isOvertimeActive: false,
+      overtimeEntries: [],
+      name: 'TURNO DE DÍA'
+    }
+  ],
+  rules: {
+    startDate: '2026-11-01',
+    endDate: '2026-11-30',
+    maxConsecutiveShifts: '5'
+  }
+}
+
+describe('Employee Lists API', () => {
+  let app: Express
+  let server: any
+  let api: Awaited<ReturnType<typeof loginAs>>
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    api = await loginAs(app)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  describe('CRUD /api/lists', () => {
+
+    it('should create a list and keep employee fields not declared in the schema', async () => {
+      const response = await api
+        .post('/api/lists')
+        .send(baseList)
+        .expect(201)
+
+      expect(response.body.id).toEqual(expect.any(String))
+      expect(response.body.employees[0].manualShifts).toEqual({ '2026-11-02': 'shift-day' })
+      // Las reglas no enviadas se completan con valores vacíos
+      expect(response.body.rules).toMatchObject({ maxConsecutiveShifts: '5', minHoursPerWeek: '' })
+
+      const fetched = await api
+        .get(`/api/lists/${response.body.id}`)
+        .expect(200)
+      expect(fetched.body.name).toBe('Emergency Room')
+    })
+
+    it('should reject a list without name', async () => {
+      const response = await api
+        .post('/api/lists')
+        .send({ ...baseList, name: '' })
+        .expect(400)
+
+      expect(response.body).toMatchObject({ error: expect.any(String), details: expect.any(Array) })
+    })
+
+    it('should reject duplicate list IDs', async () => {
+      await api.post('/api/lists').send({ ...baseList, id: 'dup-list' }).expect(201)
+      await api.post('/api/lists').send({ ...baseList, id: 'dup-list' }).expect(409)
+    })
+
+    it('should update and delete a list', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+
+      const updated = await api
+        .put(`/api/lists/${created.body.id}`)
+        .send({ name: 'ICU', employees: [] })
+        .expect(200)
+      expect(updated.body).toMatchObject({ name: 'ICU', employees: [] })
+      expect(updated.body.shifts).toHaveLength(1)
+
+      await api.delete(`/api/lists/${created.body.id}`).expect(204)
+      await api.get(`/api/lists/${created.body.id}`).expect(404)
+    })
+
+    it('should store the holiday calendar and validate its dates', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+      expect(created.body.holidays).toEqual([])
+
+      const holidays = [
+        { date: '2026-12-25', name: 'Christmas Day', group: 'Year-end 2026' },
+        { date: '2027-01-01', name: "New Year's Day", group: 'Year-end 2026' }
+      ]
+      const updated = await api.patch(`/api/lists/${created.body.id}`).send({ holidays }).expect(200)
+      expect(updated.body.holidays).toEqual(holidays)
+
+      await api
+        .patch(`/api/lists/${created.body.id}`)
+        .send({ holidays: [{ date: '25/12/2026', name: 'Christmas Day' }] })
+        .expect(400)
+    })
+
+    it('should store the labor budget and employee hourly rates', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+      expect(created.body.laborBudget).toEqual({ budget: 0, defaultHourlyRate: 0, overtimeMultiplier: 1.5, roleRates: {} })
+
+      const laborBudget = { budget: 12000, defaultHourlyRate: 22, overtimeMultiplier: 1.5, roleRates: { RN: 40 } }
+      const employees = [{ id: 'emp-1', name: 'Ana', email: '', role: 'RN', hourlyRate: 42.5 }]
+      const updated = await api.patch(`/api/lists/${created.body.id}`).send({ laborBudget, employees }).expect(200)
+      expect(updated.body.laborBudget).toEqual(laborBudget)
+      expect(updated.body.employees[0]).toMatchObject({ role: 'RN', hourlyRate: 42.5 })
+
+      await api
+        .patch(`/api/lists/${created.body.id}`)
+        .send({ employees: [{ id: 'emp-1', name: 'Ana', hourlyRate: -5 }] })
+        .expect(400)
+    })
+
+    it('should store roles, certifications and minimum staff per role', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+
+      const employees = [{ id: 'emp-1', name: 'Ana', email: '', role: 'RN', certifications: [{ name: 'BLS', expiresOn: '2027-03-31' }, { name: 'Spanish' }] }]
+      const shiftData = [{ id: 1, name: 'Shift 1', timeRange: '7:00 AM - 3:00 PM', counts: [3, 3, 3, 3, 3, 3, 3], idealNumber: 4, roleCounts: { RN: [1, 1, 1, 1, 1, 1, 1] } }]
+      const updated = await api.patch(`/api/lists/${created.body.id}`).send({ employees, shiftData }).expect(200)
+      expect(updated.body.employees[0].certifications).toEqual(employees[0].certifications)
+      expect(updated.body.shiftData[0].roleCounts).toEqual({ RN: [1, 1, 1, 1, 1, 1, 1] })
+
+      await api
+        .patch(`/api/lists/${created.body.id}`)
+        .send({ employees: [{ id: 'emp-1', name: 'Ana', certifications: [{ name: 'BLS', expiresOn: '31/03/2027' }] }] })
+        .expect(400)
+      await api
+        .patch(`/api/lists/${created.body.id}`)
+        .send({ shiftData: [{ ...shiftData[0], roleCounts: { RN: [1, 1] } }] })
+        .expect(400)
+    })
+
+    it('should store the certifications required by each shift', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+
+      const shifts = [{ id: 'uid_day', startTime: '7:00 AM', endTime: '7:00 PM', requiredCertifications: ['ACLS', 'BLS'] }]
+      const updated = await api.patch(`/api/lists/${created.body.id}`).send({ shifts }).expect(200)
+      expect(updated.body.shifts[0].requiredCertifications).toEqual(['ACLS', 'BLS'])
+
+      await api
+        .patch(`/api/lists/${created.body.id}`)
+        .send({ shifts: [{ ...shifts[0], requiredCertifications: [''] }] })
+        .expect(400)
+    })
+
+    it('should reject saves of a list that changed since it was loaded', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+      const loadedVersion = created.body.updatedAt
+
+      // Otro cliente guarda un empleado mientras tanto (como un intercambio o una ausencia aprobada)
+      await api.post(`/api/lists/${created.body.id}/employees`).send({ id: 'emp-new', name: 'Luis' }).expect(201)
+
+      const stale = await api
+        .put(`/api/lists/${created.body.id}`)
+        .set('If-Match', `"${loadedVersion}"`)
+        .send({ ...baseList, name: 'Stale copy' })
+        .expect(409)
+      expect(stale.body.list.employees.map((e: any) => e.id)).toContain('emp-new')
+
+      const saved = await api
+        .put(`/api/lists/${created.body.id}`)
+        .set('If-Match', `"${stale.body.list.updatedAt}"`)
+        .send({ ...stale.body.list, name: 'Fresh copy' })
+        .expect(200)
+      expect(saved.body.name).toBe('Fresh copy')
+      expect(saved.body.updatedAt).not.toBe(stale.body.list.updatedAt)
+    })
+
+    it('should return 404 when updating a missing list', async () => {
+      await api.patch('/api/lists/missing').send({ name: 'X' }).expect(404)
+    })
+
+  })
+
+  describe('Employees and shifts of a list', () => {
+
+    it('should add, replace and delete employees', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+      const listId = created.body.id
+
+      await api
+        .post(`/api/lists/${listId}/employees`)
+        .send({ id: 'emp-2', name: 'Luis', email: '' })
+        .expect(201)
+      await api
+        .post(`/api/lists/${listId}/employees`)
+        .send({ id: 'emp-2', name: 'Luis', email: '' })
+        .expect(409)
+
+      const replaced = await api
+        .put(`/api/lists/${listId}/employees/emp-1`)
+        .send({ name: 'Ana María', email: 'ana@example.com' })
+        .expect(200)
+      expect(replaced.body).toMatchObject({ id: 'emp-1', name: 'Ana María' })
+
+      await api.delete(`/api/lists/${listId}/employees/emp-2`).expect(204)
+
+      const employees = await api.get(`/api/lists/${listId}/employees`).expect(200)
+      expect(employees.body.map((e: any) => e.name)).toEqual(['Ana María'])
+    })
+
+    it('should validate shifts', async () => {
+      const created = await api.post('/api/lists').send(baseList).expect(201)
+
+      await api
+        .post(`/api/lists/${created.body.id}/shifts`)
+        .send({ id: 'shift-night' })
+        .expect(400)
+      await api
+        .delete(`/api/lists/${created.body.id}/shifts/unknown`)
+        .expect(404)
+    })
+
+  })
+
+  describe('POST /api/lists/import - localStorage migration', () => {
+
+    it('should import new lists and skip the ones already stored', async () => {
+      await api.post('/api/lists').send({ ...baseList, id: 'existing-list' }).expect(201)
+
+      const response = await api
+        .post('/api/lists/import')
+        .send({ lists: [{ ...baseList, id: 'existing-list' }, { ...baseList, id: 'browser-list', name: 'From browser' }] })
+        .expect(201)
+
+      expect(response.body.imported).toEqual(['browser-list'])
+      expect(response.body.skipped).toEqual(['existing-list'])
+      expect(response.body.lists.some((l: any) => l.id === 'browser-list')).toBe(true)
+    })
+
+    it('should require list IDs', async () => {
+      await api
+        .post('/api/lists/import')
+        .send({ lists: [baseList] })
+        .expect(400)
+    })
+
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Pruebas de Integración del flujo de aprobación de ausencias
+ *
+ * Validan el ciclo pending → approved | rejected → cancelled, quién puede
+ * decidir cada paso y cómo se refleja en employee.leave.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+const leaveRequest = {
+  employeeId: 'emp-ana',
+  startDate: '2026-12-01',
+  endDate: '2026-12-03',
+  leaveType: 'Paid Vacation',
+  hoursPerDay: 8,
+  reason: 'Family trip'
+}
+
+describe('Leave approval API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let approver: UserSession
+  let scheduler: UserSession
+  let employee: UserSession
+  let listId: string
+
+  const submit = async (overrides: Partial<typeof leaveRequest> = {}) => {
+    const created = await employee
+      .post(`/api/lists/${listId}/leave-requests`)
+      .send({ ...leaveRequest, ...overrides })
+      .expect(201)
+    return created.body
+  }
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    approver = await loginAsNewUser(app, supervisor, 'supervisor')
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Leave approval',
+      employees: [{ id: 'emp-ana', name: 'Ana', email: 'ana@example.com' }]
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [listId] }).expect(200)
+    await supervisor
+      .put(`/api/lists/${listId}/employees/emp-ana/account`)
+      .send({ username: employee.user.username })
+      .expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should record the approver, reason and timestamps on approval', async () => {
+    const created = await submit()
+    expect(created).toMatchObject({ status: 'pending', reason: 'Family trip', decidedBy: null })
+
+    const response = await approver
+      .post(`/api/lists/${listId}/leave-requests/${created.id}/approve`)
+      .send({ reason: 'Covered by Luis' })
+      .expect(200)
+
+    expect(response.body.request).toMatchObject({
+      status: 'approved',
+      decidedBy: approver.user.id,
+      decisionReason: 'Covered by Luis'
+    })
+    expect(response.body.request.decidedAt).toBeTruthy()
+    expect(response.body.employee.leave).toEqual([
+      expect.objectContaining({
+        status: 'approved',
+        requestId: created.id,
+        reason: 'Family trip',
+        approvedBy: approver.user.username
+      })
+    ])
+
+    // Una solicitud decidida no se puede volver a decidir
+    await supervisor.post(`/api/lists/${listId}/leave-requests/${created.id}/reject`).expect(409)
+  })
+
+  it('should reject requests without touching employee leave', async () => {
+    const created = await submit({ startDate: '2026-12-10', endDate: '2026-12-10' })
+
+    await scheduler.post(`/api/lists/${listId}/leave-requests/${created.id}/reject`).expect(403)
+    const rejected = await supervisor
+      .post(`/api/lists/${listId}/leave-requests/${created.id}/reject`)
+      .send({ reason: 'Short-staffed that week' })
+      .expect(200)
+    expect(rejected.body).toMatchObject({ status: 'rejected', decisionReason: 'Short-staffed that week' })
+
+    const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+    expect(list.body.employees[0].leave.map((l: any) => l.requestId)).not.toContain(created.id)
+
+    await employee.post(`/api/lists/${listId}/leave-requests/${created.id}/cancel`).expect(409)
+  })
+
+  it('should mark approved leave as cancelled when the request is cancelled', async () => {
+    const created = await submit({ startDate: '2026-12-20', endDate: '2026-12-21' })
+    await supervisor.post(`/api/lists/${listId}/leave-requests/${created.id}/approve`).expect(200)
+
+    const cancelled = await employee
+      .post(`/api/lists/${listId}/leave-requests/${created.id}/cancel`)
+      .expect(200)
+
+    expect(cancelled.body.request.status).toBe('cancelled')
+    expect(cancelled.body.request.cancelledAt).toBeTruthy()
+    // El empleado solo ve lo publicado; en el borrador la ausencia queda marcada como cancelada
+    const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+    expect(list.body.employees[0].leave.find((l: any) => l.requestId === created.id).status).toBe('cancelled')
+  })
+
+  it('should filter requests by status', async () => {
+    const created = await submit({ startDate: '2027-01-05', endDate: '2027-01-05' })
+
+    const pending = await supervisor.get(`/api/lists/${listId}/leave-requests?status=pending`).expect(200)
+    expect(pending.body.map((r: any) => r.id)).toEqual([created.id])
+
+    await supervisor.get(`/api/lists/${listId}/leave-requests?status=archived`).expect(400)
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Pruebas de Integración de los avisos a empleados
+ *
+ * Validan que los cambios de turnos publicados, los intercambios y las decisiones de
+ * ausencias llegan a la bandeja del empleado y a su email, usando un servidor SMTP local.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import net from 'net'
+import type { AddressInfo } from 'net'
+import { registerRoutes } from '../routes'
+import { createSmtpTransport, setNotificationTransport } from '../notifications'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+interface ReceivedEmail {
+  from: string
+  to: string[]
+  data: string
+}
+
+// Servidor SMTP mínimo que acepta todos los mensajes y los guarda en memoria
+const startSmtpServer = async () => {
+  const received: ReceivedEmail[] = []
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let current: ReceivedEmail = { from: '', to: [], data: '' }
+    let inData = false
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+
+    reply('220 localhost ESMTP test')
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            received.push(current)
+            current = { from: '', to: [], data: '' }
+            reply('250 OK queued')
+          } else {
+            current.data += `${line.startsWith('..') ? line.slice(1) : line}\n`
+          }
+        } else if (line.startsWith('EHLO')) {
+          reply('250-localhost')
+          reply('250 AUTH PLAIN')
+        } else if (line.startsWith('MAIL FROM:')) {
+          current.from = line.slice(10)
+          reply('250 OK')
+        } else if (line.startsWith('RCPT TO:')) {
+          current.to.push(line.slice(8))
+          reply('250 OK')
+        } else if (line === 'DATA') {
+          inData = true
+          reply('354 End data with <CR><LF>.<CR><LF>')
+        } else if (line === 'QUIT') {
+          reply('221 Bye')
+          socket.end()
+        } else {
+          reply('502 Command not implemented')
+        }
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, received, port: (server.address() as AddressInfo).port }
+}
+
+describe('Notifications API', () => {
+  let app: Express
+  let server: any
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>
+  let supervisor: Session
+  let employee: UserSession
+  let otherEmployee: UserSession
+  let listId: string
+
+  const setDraftShift = async (employeeId: string, date: string, shiftId: string) => {
+    const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+    const employees = list.body.employees.map((e: any) =>
+      e.id === employeeId ? { ...e, manualShifts: { ...e.manualShifts, [date]: shiftId } } : e
+    )
+    await supervisor.patch(`/api/lists/${listId}`).send({ employees }).expect(200)
+  }
+
+  const publish = () => supervisor
+    .post(`/api/lists/${listId}/publications`)
+    .send({ startDate: '2026-11-02', endDate: '2026-11-08' })
+    .expect(201)
+
+  beforeAll(async () => {
+    smtp = await startSmtpServer()
+    setNotificationTransport(createSmtpTransport({
+      host: '127.0.0.1',
+      port: smtp.port,
+      from: 'WAOK Schedule <no-reply@waok.test>',
+      timeoutMs: 2000
+    }))
+
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+    otherEmployee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Notifications',
+      employees: [
+        { id: 'emp-ana', name: 'Ana', email: 'ana@waok.test', manualShifts: { '2026-11-03': 'uid_day' } },
+        { id: 'emp-luis', name: 'Luis', manualShifts: { '2026-11-03': 'uid_night' } }
+      ],
+      shifts: [
+        { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day' },
+        { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', name: 'Night' }
+      ]
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/lists/${listId}/employees/emp-ana/account`).send({ username: employee.user.username }).expect(200)
+    await supervisor.put(`/api/lists/${listId}/employees/emp-luis/account`).send({ username: otherEmployee.user.username }).expect(200)
+  })
+
+  afterAll(async () => {
+    setNotificationTransport(null)
+    if (server) {
+      server.close()
+    }
+    await new Promise(resolve => smtp.server.close(resolve))
+  })
+
+  it('should notify changes to published shifts by inbox and email', async () => {
+    await publish()
+    expect((await employee.get('/api/notifications').expect(200)).body).toEqual([])
+
+    // Los cambios del borrador no avisan hasta que se vuelven a publicar
+    await setDraftShift('emp-ana', '2026-11-03', 'uid_night')
+    await setDraftShift('emp-ana', '2026-11-05', 'uid_day')
+    expect((await employee.get('/api/notifications').expect(200)).body).toEqual([])
+    await publish()
+
+    const inbox = await employee.get('/api/notifications').expect(200)
+    expect(inbox.body.map((n: any) => n.type).sort()).toEqual(['assignment-added', 'assignment-changed'])
+    const changed = inbox.body.find((n: any) => n.type === 'assignment-changed')
+    expect(changed.message).toContain('2026-11-03: Day → Night')
+    expect(changed).toMatchObject({ email: 'ana@waok.test', emailStatus: 'sent', readAt: null })
+
+    expect(smtp.received).toHaveLength(2)
+    expect(smtp.received[0]).toMatchObject({ from: '<no-reply@waok.test>', to: ['<ana@waok.test>'] })
+    expect(smtp.received.map(email => email.data).join('')).toContain('Subject: Shift assignment changed')
+
+    // Luis no cambió: no recibe nada
+    expect((await otherEmployee.get('/api/notifications').expect(200)).body).toEqual([])
+  })
+
+  it('should notify both employees of an approved swap, skipping email without an address', async () => {
+    const before = smtp.received.length
+    await supervisor.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-ana',
+      date: '2026-11-05',
+      counterpartEmployeeId: 'emp-luis',
+      counterpartDate: '2026-11-05'
+    }).expect(201)
+
+    const [luisNotification] = (await otherEmployee.get('/api/notifications').expect(200)).body
+    expect(luisNotification).toMatchObject({ type: 'swap-approved', email: null, emailStatus: 'skipped' })
+    expect(luisNotification.message).toContain('with Ana')
+    expect((await employee.get('/api/notifications').expect(200)).body[0].type).toBe('swap-approved')
+    expect(smtp.received).toHaveLength(before + 1)
+  })
+
+  it('should notify leave decisions and mark notifications as read', async () => {
+    const request = await employee.post(`/api/lists/${listId}/leave-requests`).send({
+      employeeId: 'emp-ana',
+      startDate: '2026-12-01',
+      endDate: '2026-12-03',
+      leaveType: 'Paid Vacation',
+      hoursPerDay: 8
+    }).expect(201)
+    await supervisor
+      .post(`/api/lists/${listId}/leave-requests/${request.body.id}/reject`)
+      .send({ reason: 'Short staffed' })
+      .expect(200)
+
+    const [decision] = (await employee.get('/api/notifications').expect(200)).body
+    expect(decision).toMatchObject({ type: 'leave-decided', title: 'Leave request rejected' })
+    expect(decision.message).toContain('Reason: Short staffed')
+
+    await otherEmployee.post(`/api/notifications/${decision.id}/read`).expect(404)
+    const read = await employee.post(`/api/notifications/${decision.id}/read`).expect(200)
+    expect(read.body.readAt).not.toBeNull()
+
+    await employee.post('/api/notifications/read-all').expect(204)
+    const inbox = await employee.get('/api/notifications').expect(200)
+    expect(inbox.body.every((n: any) => n.readAt !== null)).toBe(true)
+  })
+
+  it('should keep the change and record the failure when the email cannot be sent', async () => {
+    setNotificationTransport({ send: async () => { throw new Error('Mailbox unavailable') } })
+    try {
+      await setDraftShift('emp-ana', '2026-11-06', 'uid_night')
+      await publish()
+    } finally {
+      setNotificationTransport(createSmtpTransport({ host: '127.0.0.1', port: smtp.port, from: 'no-reply@waok.test' }))
+    }
+
+    const [latest] = (await employee.get('/api/notifications').expect(200)).body
+    expect(latest).toMatchObject({ type: 'assignment-added', emailStatus: 'failed' })
+  })
+})
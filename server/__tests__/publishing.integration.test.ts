@@ -0,0 +1,111 @@
+/**
+ * Pruebas de Integración de la publicación del horario
+ *
+ * Validan que publicar guarda una versión inmutable, que los empleados solo ven
+ * lo publicado mientras se edita el borrador y la comparación entre ambos.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+describe('Schedule publishing API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+  let employee: UserSession
+  let listId: string
+
+  // Turno de Ana el 2026-11-03 tal como lo ve el propio empleado
+  const employeeView = async () => {
+    const response = await employee.get(`/api/lists/${listId}`).expect(200)
+    return response.body.employees[0].manualShifts['2026-11-03']
+  }
+
+  const setDraftShift = async (shiftId: string) => {
+    const list = await scheduler.get(`/api/lists/${listId}`).expect(200)
+    const employees = list.body.employees.map((e: any) =>
+      e.id === 'emp-ana' ? { ...e, manualShifts: { ...e.manualShifts, '2026-11-03': shiftId } } : e
+    )
+    await scheduler.patch(`/api/lists/${listId}`).send({ employees }).expect(200)
+  }
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Publishing',
+      employees: [{ id: 'emp-ana', name: 'Ana', manualShifts: { '2026-11-03': 'uid_day' } }],
+      shifts: [
+        { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day' },
+        { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', name: 'Night' }
+      ],
+      rules: { startDate: '2026-11-01', endDate: '2026-11-14' }
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [listId] }).expect(200)
+    await supervisor.put(`/api/lists/${listId}/employees/emp-ana/account`).send({ username: employee.user.username }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should only show employees the published schedule while the draft changes', async () => {
+    expect(await employeeView()).toBeUndefined()
+
+    const published = await scheduler.post(`/api/lists/${listId}/publications`).send({}).expect(201)
+    expect(published.body).toMatchObject({
+      listId,
+      version: 1,
+      startDate: '2026-11-01',
+      endDate: '2026-11-14',
+      publishedBy: scheduler.user.id
+    })
+    expect(published.body).not.toHaveProperty('snapshot')
+    expect(await employeeView()).toBe('uid_day')
+
+    await setDraftShift('uid_night')
+    expect(await employeeView()).toBe('uid_day')
+
+    const diff = await scheduler.get(`/api/lists/${listId}/publications/${published.body.id}/diff`).expect(200)
+    expect(diff.body.cells).toEqual([{
+      employeeId: 'emp-ana',
+      employeeName: 'Ana',
+      date: '2026-11-03',
+      published: { type: 'shift', shiftId: 'uid_day' },
+      draft: { type: 'shift', shiftId: 'uid_night' }
+    }])
+    expect(diff.body.shifts).toEqual([])
+
+    const republished = await scheduler.post(`/api/lists/${listId}/publications`).send({}).expect(201)
+    expect(republished.body.version).toBe(2)
+    expect(await employeeView()).toBe('uid_night')
+
+    // La primera versión no cambia
+    const first = await scheduler.get(`/api/lists/${listId}/publications/${published.body.id}`).expect(200)
+    expect(first.body.snapshot.employees[0].assignments['2026-11-03']).toBe('uid_day')
+    const versions = await scheduler.get(`/api/lists/${listId}/publications`).expect(200)
+    expect(versions.body.map((publication: any) => publication.version)).toEqual([1, 2])
+  })
+
+  it('should validate the period and require edit access', async () => {
+    await scheduler.post(`/api/lists/${listId}/publications`).send({ startDate: '2026-11-10', endDate: '2026-11-01' }).expect(400)
+    await scheduler.get(`/api/lists/${listId}/publications/9999`).expect(404)
+    await employee.post(`/api/lists/${listId}/publications`).send({}).expect(403)
+    await employee.get(`/api/lists/${listId}/publications`).expect(403)
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Pruebas de Integración de roles
+ *
+ * Validan los permisos de supervisor, scheduler y employee sobre
+ * usuarios y listas, y que un empleado solo vea su propia fila sin notas confidenciales
+ * ni datos de coste.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+const buildList = (name: string) => ({
+  name,
+  employees: [
+    {
+      id: 'emp-own',
+      name: 'Ana',
+      email: 'ana@example.com',
+      hourlyRate: 25,
+      notes: { confidential: 'Salary review pending', aiRules: 'Prefers mornings' },
+      manualShifts: { '2026-11-02': 'shift-day' }
+    },
+    {
+      id: 'emp-other',
+      name: 'Luis',
+      email: 'luis@example.com',
+      notes: { confidential: 'Other notes', aiRules: '' }
+    }
+  ],
+  shifts: [
+    { id: 'shift-day', startTime: '7:00 AM', endTime: '3:00 PM' }
+  ],
+  rules: { startDate: '2026-11-01', endDate: '2026-11-30', minHoursPerWeek: '20' },
+  laborBudget: { budget: 5000, defaultHourlyRate: 18, overtimeMultiplier: 1.5, roleRates: { Nurse: 30 } }
+})
+
+describe('Role-based access', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+  let employee: UserSession
+  let assignedListId: string
+  let otherListId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const assigned = await supervisor.post('/api/lists').send(buildList('Assigned')).expect(201)
+    const other = await supervisor.post('/api/lists').send(buildList('Other')).expect(201)
+    assignedListId = assigned.body.id
+    otherListId = other.body.id
+    await supervisor
+      .put(`/api/lists/${assignedListId}/employees/emp-own/account`)
+      .send({ username: employee.user.username })
+      .expect(200)
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [assignedListId] }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  describe('Users', () => {
+
+    it('should create users with the employee role by default', async () => {
+      const response = await supervisor
+        .post('/api/users')
+        .send({ username: `default_role_${Date.now()}`, password: 'password123' })
+        .expect(201)
+
+      expect(response.body.role).toBe('employee')
+    })
+
+    it('should include the role in the session user', async () => {
+      const response = await scheduler.get('/api/auth/me').expect(200)
+      expect(response.body).toMatchObject({ id: scheduler.user.id, role: 'scheduler' })
+    })
+
+    it('should only let supervisors manage users', async () => {
+      await scheduler.get('/api/users').expect(403)
+      await employee.post('/api/users').send({ username: 'intruder', password: 'password123' }).expect(403)
+      await employee.patch(`/api/users/${employee.user.id}`).send({ role: 'supervisor' }).expect(403)
+
+      // Cada usuario puede consultar su propia cuenta
+      await employee.get(`/api/users/${employee.user.id}`).expect(200)
+      await employee.get(`/api/users/${scheduler.user.id}`).expect(403)
+    })
+
+    it('should change roles and validate assignments', async () => {
+      const user = await loginAsNewUser(app, supervisor, 'employee')
+
+      const updated = await supervisor.patch(`/api/users/${user.user.id}`).send({ role: 'scheduler' }).expect(200)
+      expect(updated.body.role).toBe('scheduler')
+
+      await supervisor.patch(`/api/users/${user.user.id}`).send({ role: 'admin' }).expect(400)
+      await supervisor.put(`/api/users/${user.user.id}/lists`).send({ listIds: ['missing-list'] }).expect(404)
+      await supervisor.patch('/api/users/99999').send({ role: 'employee' }).expect(404)
+    })
+
+  })
+
+  describe('Scheduler', () => {
+
+    it('should only see assigned lists', async () => {
+      const response = await scheduler.get('/api/lists').expect(200)
+      expect(response.body.map((l: any) => l.id)).toEqual([assignedListId])
+
+      await scheduler.get(`/api/lists/${otherListId}`).expect(403)
+    })
+
+    it('should edit assigned lists only', async () => {
+      await scheduler.patch(`/api/lists/${assignedListId}`).send({ name: 'Renamed' }).expect(200)
+      await scheduler
+        .post(`/api/lists/${assignedListId}/employees`)
+        .send({ id: 'emp-new', name: 'Marta', email: '' })
+        .expect(201)
+
+      await scheduler.patch(`/api/lists/${otherListId}`).send({ name: 'Renamed' }).expect(403)
+      await scheduler.delete(`/api/lists/${otherListId}/employees/emp-other`).expect(403)
+    })
+
+    it('should not create, import or remove lists', async () => {
+      await scheduler.post('/api/lists').send(buildList('New')).expect(403)
+      await scheduler.post('/api/lists/import').send({ lists: [] }).expect(403)
+      await scheduler.delete(`/api/lists/${assignedListId}`).expect(403)
+    })
+
+  })
+
+  describe('Employee', () => {
+
+    it('should only see their own row without confidential notes', async () => {
+      await supervisor.post(`/api/lists/${assignedListId}/publications`).send({ startDate: '2026-11-01', endDate: '2026-11-30' }).expect(201)
+      const response = await employee.get('/api/lists').expect(200)
+
+      expect(response.body.map((l: any) => l.id)).toEqual([assignedListId])
+      const [list] = response.body
+      expect(list.employees.map((e: any) => e.id)).toEqual(['emp-own'])
+      expect(list.employees[0].notes).toEqual({ aiRules: 'Prefers mornings' })
+      expect(list.employees[0].manualShifts).toEqual({ '2026-11-02': 'shift-day' })
+
+      const employees = await employee.get(`/api/lists/${assignedListId}/employees`).expect(200)
+      expect(employees.body).toHaveLength(1)
+      expect(employees.body[0].notes).not.toHaveProperty('confidential')
+    })
+
+    it('should only get the published schedule and shifts without cost fields', async () => {
+      const response = await employee.get(`/api/lists/${assignedListId}`).expect(200)
+
+      expect(response.body.employees[0]).not.toHaveProperty('hourlyRate')
+      expect(response.body.shifts.map((s: any) => s.id)).toEqual(['shift-day'])
+      expect(response.body.rules).toMatchObject({ startDate: '2026-11-01', endDate: '2026-11-30', minHoursPerWeek: '' })
+      expect(response.body.laborBudget).toEqual({ budget: 0, defaultHourlyRate: 0, overtimeMultiplier: 1.5, roleRates: {} })
+
+      const full = await supervisor.get(`/api/lists/${assignedListId}`).expect(200)
+      expect(full.body.employees[0].hourlyRate).toBe(25)
+      expect(full.body.laborBudget.budget).toBe(5000)
+    })
+
+    it('should not access other lists or edit the schedule', async () => {
+      await employee.get(`/api/lists/${otherListId}`).expect(403)
+      await employee.patch(`/api/lists/${assignedListId}`).send({ name: 'Mine' }).expect(403)
+      await employee
+        .put(`/api/lists/${assignedListId}/employees/emp-own`)
+        .send({ name: 'Ana', email: '', manualShifts: {} })
+        .expect(403)
+    })
+
+  })
+
+  describe('Supervisor', () => {
+
+    it('should see confidential notes and remove lists', async () => {
+      const list = await supervisor.get(`/api/lists/${otherListId}`).expect(200)
+      expect(list.body.employees[1].notes.confidential).toBe('Other notes')
+
+      await supervisor.delete(`/api/lists/${otherListId}`).expect(204)
+    })
+
+  })
+})
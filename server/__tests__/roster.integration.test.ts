@@ -0,0 +1,111 @@
+/**
+ * Pruebas de Integración del roster en PDF
+ *
+ * Validan el periodo, la paginación por semanas y que el empleado solo
+ * reciba su propia fila.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+// Supertest no convierte application/pdf: se lee el cuerpo como binario
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = []
+  res.on('data', (chunk: Buffer) => chunks.push(chunk))
+  res.on('end', () => callback(null, Buffer.concat(chunks)))
+}
+
+const countPages = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page /g) || []).length
+
+describe('Roster PDF API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let employee: UserSession
+  let listId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Roster',
+      employees: [
+        { id: 'emp-ana', name: 'Ana Peña', manualShifts: { '2026-11-03': 'uid_day' } },
+        { id: 'emp-luis', name: 'Luis', leave: [{ id: 'l1', startDate: '2026-11-04', endDate: '2026-11-05', leaveType: 'Vacation', hoursPerDay: 8 }] }
+      ],
+      shifts: [{ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day', color: '#FDE68A' }],
+      rules: { startDate: '2026-11-01', endDate: '2026-11-14' }
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/lists/${listId}/employees/emp-ana/account`).send({ username: employee.user.username }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should render one page per week of the list period', async () => {
+    const response = await supervisor.get(`/api/lists/${listId}/roster.pdf`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200)
+
+    expect(response.headers['content-type']).toBe('application/pdf')
+    expect(response.headers['content-disposition']).toContain('roster-2026-11-01-to-2026-11-14.pdf')
+
+    const pdf: Buffer = response.body
+    const text = pdf.toString('latin1')
+    expect(text.startsWith('%PDF-1.4')).toBe(true)
+    expect(countPages(pdf)).toBe(2)
+    expect(text).toContain('(Ana Peña)')
+    expect(text).toContain('(Vacation \\(8h\\))')
+
+    // Cada entrada de la tabla xref apunta al inicio de su objeto
+    const xrefStart = Number(text.match(/startxref\n(\d+)/)![1])
+    const offsets = text.slice(xrefStart).split('\n').slice(3).filter(line => / n $/.test(line)).map(line => Number(line.slice(0, 10)))
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+
+  it('should accept a custom period and validate it', async () => {
+    const response = await supervisor.get(`/api/lists/${listId}/roster.pdf?startDate=2026-11-01&endDate=2026-11-03`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200)
+    expect(countPages(response.body)).toBe(1)
+
+    // Solo los empleados seleccionados en la tabla
+    const selected = await supervisor.get(`/api/lists/${listId}/roster.pdf?employeeIds=emp-luis`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200)
+    expect(selected.body.toString('latin1')).not.toContain('(Ana Peña)')
+
+    await supervisor.get(`/api/lists/${listId}/roster.pdf?startDate=2026-11-10&endDate=2026-11-01`).expect(400)
+    await supervisor.get(`/api/lists/${listId}/roster.pdf?startDate=2026-01-01&endDate=2027-12-31`).expect(400)
+  })
+
+  it('should only include the employee own row', async () => {
+    const response = await employee.get(`/api/lists/${listId}/roster.pdf`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200)
+
+    const text = response.body.toString('latin1')
+    expect(text).toContain('(Ana Peña)')
+    expect(text).not.toContain('(Luis)')
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Pruebas de Integración del autoservicio de empleados
+ *
+ * Validan la vinculación de empleados con cuentas de usuario, la edición
+ * de sus preferencias de turno y la cola de solicitudes de ausencia.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+const leaveRequest = {
+  employeeId: 'emp-ana',
+  startDate: '2026-11-10',
+  endDate: '2026-11-12',
+  leaveType: 'Paid Vacation',
+  hoursPerDay: 8
+}
+
+describe('Employee self-service API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+  let employee: UserSession
+  let listId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Self-service',
+      employees: [
+        { id: 'emp-ana', name: 'Ana', email: 'ana@example.com', shiftPreferences: [null, null] },
+        { id: 'emp-luis', name: 'Luis', email: 'luis@example.com', shiftPreferences: [null, null] }
+      ]
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [listId] }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  describe('Account linking', () => {
+
+    it('should link an employee record to an employee account', async () => {
+      // Sin vincular, el empleado no ve ninguna lista
+      const before = await employee.get('/api/lists').expect(200)
+      expect(before.body).toEqual([])
+
+      const linked = await scheduler
+        .put(`/api/lists/${listId}/employees/emp-ana/account`)
+        .send({ username: employee.user.username })
+        .expect(200)
+      expect(linked.body.userId).toBe(employee.user.id)
+
+      const accounts = await scheduler.get(`/api/lists/${listId}/accounts`).expect(200)
+      expect(accounts.body).toEqual([{ employeeId: 'emp-ana', userId: employee.user.id, username: employee.user.username }])
+
+      const after = await employee.get('/api/lists').expect(200)
+      expect(after.body[0].employees.map((e: any) => e.id)).toEqual(['emp-ana'])
+    })
+
+    it('should reject non-employee accounts and duplicate links', async () => {
+      await scheduler
+        .put(`/api/lists/${listId}/employees/emp-luis/account`)
+        .send({ username: scheduler.user.username })
+        .expect(400)
+      await scheduler
+        .put(`/api/lists/${listId}/employees/emp-luis/account`)
+        .send({ username: employee.user.username })
+        .expect(409)
+      await scheduler
+        .put(`/api/lists/${listId}/employees/emp-luis/account`)
+        .send({ username: 'nobody_here' })
+        .expect(404)
+    })
+
+    it('should keep account links when the list or an employee is saved', async () => {
+      const list = await scheduler.get(`/api/lists/${listId}`).expect(200)
+      // La copia del cliente intenta vincular a Luis con la cuenta de Ana y desvincular a Ana
+      const employees = list.body.employees.map((e: any) => {
+        const { userId, ...rest } = e
+        return e.id === 'emp-luis' ? { ...rest, userId: employee.user.id } : rest
+      })
+      const saved = await scheduler.patch(`/api/lists/${listId}`).send({ employees }).expect(200)
+      const userIdOf = (id: string) => saved.body.employees.find((e: any) => e.id === id).userId
+      expect(userIdOf('emp-ana')).toBe(employee.user.id)
+      expect(userIdOf('emp-luis')).toBeUndefined()
+
+      const luis = await scheduler
+        .put(`/api/lists/${listId}/employees/emp-luis`)
+        .send({ name: 'Luis', userId: employee.user.id })
+        .expect(200)
+      expect(luis.body.userId).toBeUndefined()
+    })
+
+    it('should drop account links sent with new or migrated lists', async () => {
+      const employees = [{ id: 'emp-eva', name: 'Eva', userId: employee.user.id }]
+
+      const created = await supervisor.post('/api/lists').send({ name: 'Linked on create', employees }).expect(201)
+      expect(created.body.employees[0]).not.toHaveProperty('userId')
+
+      await supervisor.post('/api/lists/import').send({ lists: [{ id: 'linked-import', name: 'Linked on import', employees }] }).expect(201)
+      const imported = await supervisor.get('/api/lists/linked-import').expect(200)
+      expect(imported.body.employees[0]).not.toHaveProperty('userId')
+    })
+
+    it('should only let editors link accounts', async () => {
+      await employee
+        .put(`/api/lists/${listId}/employees/emp-luis/account`)
+        .send({ username: employee.user.username })
+        .expect(403)
+    })
+
+  })
+
+  describe('Shift preferences', () => {
+
+    it('should let employees update their own preferences only', async () => {
+      const response = await employee
+        .put(`/api/lists/${listId}/employees/emp-ana/preferences`)
+        .send({ shiftPreferences: [2, 1] })
+        .expect(200)
+      expect(response.body.shiftPreferences).toEqual([2, 1])
+
+      await employee
+        .put(`/api/lists/${listId}/employees/emp-luis/preferences`)
+        .send({ shiftPreferences: [1, null] })
+        .expect(403)
+      await employee
+        .put(`/api/lists/${listId}/employees/emp-ana/preferences`)
+        .send({ shiftPreferences: [4] })
+        .expect(400)
+
+      const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+      expect(list.body.employees[0].shiftPreferences).toEqual([2, 1])
+    })
+
+  })
+
+  describe('Leave requests', () => {
+
+    it('should queue requests without touching employee leave', async () => {
+      const created = await employee
+        .post(`/api/lists/${listId}/leave-requests`)
+        .send(leaveRequest)
+        .expect(201)
+      expect(created.body).toMatchObject({ ...leaveRequest, requestedBy: employee.user.id })
+
+      const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+      expect(list.body.employees[0].leave).toBeUndefined()
+
+      const queue = await scheduler.get(`/api/lists/${listId}/leave-requests`).expect(200)
+      expect(queue.body.map((r: any) => r.id)).toContain(created.body.id)
+    })
+
+    it('should validate requests and reject other employees', async () => {
+      await employee
+        .post(`/api/lists/${listId}/leave-requests`)
+        .send({ ...leaveRequest, endDate: '2026-11-01' })
+        .expect(400)
+      await employee
+        .post(`/api/lists/${listId}/leave-requests`)
+        .send({ ...leaveRequest, employeeId: 'emp-luis' })
+        .expect(403)
+    })
+
+    it('should write the leave once a supervisor approves the request', async () => {
+      const created = await employee.post(`/api/lists/${listId}/leave-requests`).send(leaveRequest).expect(201)
+      expect(created.body.status).toBe('pending')
+
+      await employee.post(`/api/lists/${listId}/leave-requests/${created.body.id}/approve`).expect(403)
+      await scheduler.post(`/api/lists/${listId}/leave-requests/${created.body.id}/approve`).expect(403)
+      const approved = await supervisor
+        .post(`/api/lists/${listId}/leave-requests/${created.body.id}/approve`)
+        .expect(200)
+
+      expect(approved.body.employee.leave).toEqual([
+        expect.objectContaining({ startDate: '2026-11-10', endDate: '2026-11-12', leaveType: 'Paid Vacation', hoursPerDay: 8, status: 'approved' })
+      ])
+      const pending = await scheduler.get(`/api/lists/${listId}/leave-requests?status=pending`).expect(200)
+      expect(pending.body.map((r: any) => r.id)).not.toContain(created.body.id)
+    })
+
+    it('should let employees withdraw their own requests', async () => {
+      const created = await employee.post(`/api/lists/${listId}/leave-requests`).send(leaveRequest).expect(201)
+
+      const cancelled = await employee.post(`/api/lists/${listId}/leave-requests/${created.body.id}/cancel`).expect(200)
+      expect(cancelled.body.request.status).toBe('cancelled')
+      await scheduler.post(`/api/lists/${listId}/leave-requests/${created.body.id}/cancel`).expect(409)
+    })
+
+  })
+})
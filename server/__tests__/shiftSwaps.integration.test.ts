@@ -0,0 +1,121 @@
+/**
+ * Pruebas de Integración de los intercambios de turnos
+ *
+ * Validan que el intercambio actualiza los manualShifts de ambos empleados,
+ * que respeta las reglas de la lista y que deja un registro de auditoría.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Express } from 'express'
+import express from 'express'
+import { registerRoutes } from '../routes'
+import { loginAs, loginAsNewUser } from './authHelpers'
+
+type Session = Awaited<ReturnType<typeof loginAs>>
+type UserSession = Awaited<ReturnType<typeof loginAsNewUser>>
+
+describe('Shift swap API', () => {
+  let app: Express
+  let server: any
+  let supervisor: Session
+  let scheduler: UserSession
+  let employee: UserSession
+  let listId: string
+
+  beforeAll(async () => {
+    app = express()
+    server = await registerRoutes(app)
+    supervisor = await loginAs(app)
+    scheduler = await loginAsNewUser(app, supervisor, 'scheduler')
+    employee = await loginAsNewUser(app, supervisor, 'employee')
+
+    const list = await supervisor.post('/api/lists').send({
+      name: 'Shift swaps',
+      employees: [
+        { id: 'emp-ana', name: 'Ana', manualShifts: { '2026-11-03': 'uid_day' } },
+        { id: 'emp-luis', name: 'Luis', manualShifts: { '2026-11-03': 'uid_night' } },
+        {
+          id: 'emp-eva',
+          name: 'Eva',
+          manualShifts: { '2026-11-03': 'day-off' },
+          blockedShifts: { uid_day: { blockedDays: ['all'], isActive: true } }
+        }
+      ],
+      shifts: [
+        { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' },
+        { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' }
+      ]
+    }).expect(201)
+    listId = list.body.id
+
+    await supervisor.put(`/api/users/${scheduler.user.id}/lists`).send({ listIds: [listId] }).expect(200)
+  })
+
+  afterAll(async () => {
+    if (server) {
+      server.close()
+    }
+  })
+
+  it('should swap both employees and record who did it', async () => {
+    const response = await scheduler.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-ana',
+      date: '2026-11-03',
+      counterpartEmployeeId: 'emp-luis',
+      counterpartDate: '2026-11-03'
+    }).expect(201)
+
+    expect(response.body.swap).toMatchObject({
+      employeeId: 'emp-ana',
+      counterpartEmployeeId: 'emp-luis',
+      swappedBy: scheduler.user.id,
+      changes: [
+        { employeeId: 'emp-ana', date: '2026-11-03', before: 'uid_day', after: 'uid_night' },
+        { employeeId: 'emp-luis', date: '2026-11-03', before: 'uid_night', after: 'uid_day' }
+      ]
+    })
+
+    const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+    const shiftsOn = (id: string) => list.body.employees.find((e: any) => e.id === id).manualShifts['2026-11-03']
+    expect(shiftsOn('emp-ana')).toBe('uid_night')
+    expect(shiftsOn('emp-luis')).toBe('uid_day')
+
+    const audit = await scheduler.get(`/api/lists/${listId}/shift-swaps`).expect(200)
+    expect(audit.body.map((swap: any) => swap.id)).toEqual([response.body.swap.id])
+  })
+
+  it('should refuse swaps that break the employee rules', async () => {
+    const response = await scheduler.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-luis',
+      date: '2026-11-03',
+      counterpartEmployeeId: 'emp-eva',
+      counterpartDate: '2026-11-03'
+    }).expect(409)
+
+    expect(response.body.details).toEqual(['Eva has 7:00 AM - 3:00 PM blocked on 2026-11-03'])
+
+    const list = await supervisor.get(`/api/lists/${listId}`).expect(200)
+    expect(list.body.employees.find((e: any) => e.id === 'emp-eva').manualShifts['2026-11-03']).toBe('day-off')
+  })
+
+  it('should validate the request and require edit access', async () => {
+    await scheduler.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-ana',
+      date: '2026-11-03',
+      counterpartEmployeeId: 'emp-ana',
+      counterpartDate: '2026-11-04'
+    }).expect(400)
+    await scheduler.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-ana',
+      date: '2026-11-03',
+      counterpartEmployeeId: 'emp-nobody',
+      counterpartDate: '2026-11-03'
+    }).expect(404)
+    await employee.post(`/api/lists/${listId}/shift-swaps`).send({
+      employeeId: 'emp-ana',
+      date: '2026-11-03',
+      counterpartEmployeeId: 'emp-luis',
+      counterpartDate: '2026-11-03'
+    }).expect(403)
+  })
+})
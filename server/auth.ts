@@ -0,0 +1,109 @@
+// Autenticación de la API: sesiones con JWT guardado en una cookie httpOnly
+// (también se acepta "Authorization: Bearer"). Las contraseñas se comparan en password.ts.
+
+import type { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export const AUTH_COOKIE = "waok_session";
+const SESSION_DURATION_SECONDS = 12 * 60 * 60; // 12 horas
+
+// Usuario sin contraseña, tal como se expone en las respuestas
+export type SafeUser = Omit<User, "password">;
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SafeUser;
+    }
+  }
+}
+
+interface SessionPayload {
+  sub: number;
+}
+
+/**
+ * Secreto para firmar las sesiones. En producción es obligatorio definir SESSION_SECRET.
+ */
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "waok-schedule-development-secret";
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { password, ...safeUser } = user;
+  return safeUser;
+}
+
+export function createSessionToken(user: SafeUser): string {
+  const payload: SessionPayload = { sub: user.id };
+  return jwt.sign(payload, getSessionSecret(), { expiresIn: SESSION_DURATION_SECONDS });
+}
+
+/**
+ * Lee el token de la cookie de sesión o de la cabecera Authorization
+ */
+function getTokenFromRequest(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  const cookies = req.headers.cookie?.split(";") || [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === AUTH_COOKIE) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+export function setSessionCookie(res: Response, token: string) {
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_DURATION_SECONDS * 1000,
+    path: "/",
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(AUTH_COOKIE, { path: "/" });
+}
+
+/**
+ * Middleware que exige una sesión válida y deja el usuario en req.user
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getTokenFromRequest(req);
+  if (!token) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  let payload: SessionPayload;
+  try {
+    payload = jwt.verify(token, getSessionSecret()) as unknown as SessionPayload;
+  } catch {
+    return res.status(401).json({ error: "Invalid or expired session" });
+  }
+
+  try {
+    const user = await storage.getUserById(Number(payload.sub));
+    if (!user) {
+      return res.status(401).json({ error: "Invalid or expired session" });
+    }
+    req.user = toSafeUser(user);
+    next();
+  } catch (error) {
+    console.error("Error authenticating request:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
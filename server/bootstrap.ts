@@ -0,0 +1,37 @@
+// Arranque de una instalación nueva: sin usuarios nadie puede iniciar sesión, así que el primer
+// supervisor se crea a partir de INITIAL_SUPERVISOR_USERNAME e INITIAL_SUPERVISOR_PASSWORD.
+// Funciona igual con MemStorage y con DatabaseStorage, y no hay contraseña por defecto.
+
+import { insertUserSchema, type User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+/**
+ * Crea el primer supervisor si la tabla users está vacía y las variables de entorno están definidas
+ * @returns El supervisor creado, o undefined si ya había usuarios o faltan las variables
+ * @throws Si las variables no cumplen las reglas de usuario y contraseña
+ */
+export async function ensureInitialSupervisor(
+  storage: IStorage,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<User | undefined> {
+  if ((await storage.getUsers()).length > 0) return undefined;
+
+  const username = env.INITIAL_SUPERVISOR_USERNAME;
+  const password = env.INITIAL_SUPERVISOR_PASSWORD;
+  if (!username || !password) {
+    console.warn(
+      "No users exist yet: set INITIAL_SUPERVISOR_USERNAME and INITIAL_SUPERVISOR_PASSWORD to create the first supervisor"
+    );
+    return undefined;
+  }
+
+  const validationResult = insertUserSchema.safeParse({ username, password, role: "supervisor" });
+  if (!validationResult.success) {
+    const issues = validationResult.error.errors.map(issue => issue.message).join(", ");
+    throw new Error(`Invalid initial supervisor: ${issues}`);
+  }
+
+  const supervisor = await storage.createUser(validationResult.data);
+  console.log(`Created initial supervisor "${supervisor.username}"`);
+  return supervisor;
+}
@@ -0,0 +1,460 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  users,
+  employeeLists,
+  listEmployees,
+  listShifts,
+  listAssignments,
+  leaveRequests,
+  shiftSwaps,
+  calendarFeeds,
+  auditEvents,
+  schedulePublications,
+  notifications,
+  type User,
+  type InsertUser,
+  type UserRole,
+  type EmployeeListRecord,
+  type InsertEmployeeList,
+  type UpdateEmployeeList,
+  type StoredEmployee,
+  type StoredShift,
+  type LeaveRequest,
+  type InsertLeaveRequest,
+  type LeaveRequestChanges,
+  type ShiftSwap,
+  type NewShiftSwapRecord,
+  type CalendarFeed,
+  type NewCalendarFeed,
+  type AuditEvent,
+  type NewAuditEvent,
+  type AuditEventFilters,
+  type SchedulePublication,
+  type NewSchedulePublication,
+  type Notification,
+  type NewNotification,
+} from "@shared/schema";
+import type { IStorage, NotificationRecipient } from "./storage";
+import { hashPassword } from "./password";
+
+type Database = typeof import("./db").db;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// db.ts exige DATABASE_URL al importarse, así que se carga solo cuando se usa esta implementación
+async function getDb(): Promise<Database> {
+  const { db } = await import("./db");
+  return db;
+}
+
+// --- Conversión entre filas y objetos del cliente ---
+
+function toEmployeeRow(listId: string, employee: StoredEmployee, position: number) {
+  const { id, name, email, ...data } = employee;
+  return { listId, id, name, email: email || "", position, data };
+}
+
+function fromEmployeeRow(row: typeof listEmployees.$inferSelect): StoredEmployee {
+  return { ...(row.data as object), id: row.id, name: row.name, email: row.email };
+}
+
+function toShiftRow(listId: string, shift: StoredShift, position: number) {
+  const { id, name, color, startTime, endTime, duration, lunchBreakDeduction, isOvertimeActive, overtimeEntries, ...data } = shift;
+  return {
+    listId,
+    id,
+    position,
+    name: name ?? null,
+    color: color ?? null,
+    startTime,
+    endTime,
+    duration,
+    lunchBreakDeduction,
+    isOvertimeActive,
+    overtimeEntries,
+    data,
+  };
+}
+
+function fromShiftRow(row: typeof listShifts.$inferSelect): StoredShift {
+  return {
+    ...(row.data as object),
+    id: row.id,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    duration: row.duration,
+    lunchBreakDeduction: row.lunchBreakDeduction,
+    isOvertimeActive: row.isOvertimeActive,
+    overtimeEntries: row.overtimeEntries as StoredShift["overtimeEntries"],
+    ...(row.name !== null ? { name: row.name } : {}),
+    ...(row.color !== null ? { color: row.color } : {}),
+  };
+}
+
+/**
+ * Implementación de IStorage sobre PostgreSQL (Drizzle).
+ * Las listas se guardan en employee_lists y sus empleados y turnos en tablas hijas.
+ */
+export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await getDb();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.getUser(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await getDb();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    const db = await getDb();
+    return db.select().from(users);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await getDb();
+    const [user] = await db.insert(users)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
+      .returning();
+    return user;
+  }
+
+  async insertUser(insertUser: InsertUser): Promise<User> {
+    return this.createUser(insertUser);
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const db = await getDb();
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getAssignedListIds(userId: number): Promise<string[]> {
+    const db = await getDb();
+    const rows = await db.select().from(listAssignments).where(eq(listAssignments.userId, userId));
+    return rows.map(row => row.listId);
+  }
+
+  async setAssignedListIds(userId: number, listIds: string[]): Promise<void> {
+    const db = await getDb();
+    await db.transaction(async (tx) => {
+      await tx.delete(listAssignments).where(eq(listAssignments.userId, userId));
+      const uniqueIds = Array.from(new Set(listIds));
+      if (uniqueIds.length > 0) {
+        await tx.insert(listAssignments).values(uniqueIds.map(listId => ({ userId, listId })));
+      }
+    });
+  }
+
+  private async loadList(db: Database | Transaction, row: typeof employeeLists.$inferSelect): Promise<EmployeeListRecord> {
+    const employeeRows = await db.select().from(listEmployees)
+      .where(eq(listEmployees.listId, row.id))
+      .orderBy(asc(listEmployees.position));
+    const shiftRows = await db.select().from(listShifts)
+      .where(eq(listShifts.listId, row.id))
+      .orderBy(asc(listShifts.position));
+
+    return {
+      id: row.id,
+      name: row.name,
+      employees: employeeRows.map(fromEmployeeRow),
+      shifts: shiftRows.map(fromShiftRow),
+      rules: row.rules as EmployeeListRecord["rules"],
+      priorities: row.priorities as EmployeeListRecord["priorities"],
+      shiftData: row.shiftData as EmployeeListRecord["shiftData"],
+      holidays: row.holidays as EmployeeListRecord["holidays"],
+      laborBudget: row.laborBudget as EmployeeListRecord["laborBudget"],
+      ...(row.specialRules ? { specialRules: row.specialRules as EmployeeListRecord["specialRules"] } : {}),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  private async replaceEmployees(tx: Transaction, listId: string, employees: StoredEmployee[]) {
+    await tx.delete(listEmployees).where(eq(listEmployees.listId, listId));
+    if (employees.length > 0) {
+      await tx.insert(listEmployees).values(employees.map((employee, index) => toEmployeeRow(listId, employee, index)));
+    }
+  }
+
+  private async replaceShifts(tx: Transaction, listId: string, shifts: StoredShift[]) {
+    await tx.delete(listShifts).where(eq(listShifts.listId, listId));
+    if (shifts.length > 0) {
+      await tx.insert(listShifts).values(shifts.map((shift, index) => toShiftRow(listId, shift, index)));
+    }
+  }
+
+  async getEmployeeLists(): Promise<EmployeeListRecord[]> {
+    const db = await getDb();
+    const rows = await db.select().from(employeeLists).orderBy(asc(employeeLists.createdAt));
+    return Promise.all(rows.map(row => this.loadList(db, row)));
+  }
+
+  async getEmployeeList(id: string): Promise<EmployeeListRecord | undefined> {
+    const db = await getDb();
+    const [row] = await db.select().from(employeeLists).where(eq(employeeLists.id, id));
+    return row ? this.loadList(db, row) : undefined;
+  }
+
+  async createEmployeeList(insertList: InsertEmployeeList): Promise<EmployeeListRecord> {
+    const db = await getDb();
+    const id = insertList.id || randomUUID();
+
+    return db.transaction(async (tx) => {
+      const [row] = await tx.insert(employeeLists).values({
+        id,
+        name: insertList.name,
+        rules: insertList.rules,
+        priorities: insertList.priorities,
+        shiftData: insertList.shiftData,
+        holidays: insertList.holidays,
+        laborBudget: insertList.laborBudget,
+        specialRules: insertList.specialRules ?? null,
+      }).returning();
+      await this.replaceEmployees(tx, id, insertList.employees);
+      await this.replaceShifts(tx, id, insertList.shifts);
+      return this.loadList(tx, row);
+    });
+  }
+
+  async updateEmployeeList(id: string, data: UpdateEmployeeList): Promise<EmployeeListRecord | undefined> {
+    const db = await getDb();
+
+    return db.transaction(async (tx) => {
+      const { employees, shifts, ...fields } = data;
+      const [row] = await tx.update(employeeLists)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(employeeLists.id, id))
+        .returning();
+      if (!row) return undefined;
+
+      if (employees) await this.replaceEmployees(tx, id, employees);
+      if (shifts) await this.replaceShifts(tx, id, shifts);
+      return this.loadList(tx, row);
+    });
+  }
+
+  async deleteEmployeeList(id: string): Promise<boolean> {
+    const db = await getDb();
+    // Empleados y turnos se eliminan en cascada
+    const deleted = await db.delete(employeeLists).where(eq(employeeLists.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async saveListEmployee(listId: string, employee: StoredEmployee): Promise<StoredEmployee | undefined> {
+    const db = await getDb();
+    const [list] = await db.select().from(employeeLists).where(eq(employeeLists.id, listId));
+    if (!list) return undefined;
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(listEmployees)
+        .where(and(eq(listEmployees.listId, listId), eq(listEmployees.id, employee.id)));
+      const position = existing
+        ? existing.position
+        : (await tx.select().from(listEmployees).where(eq(listEmployees.listId, listId))).length;
+      const row = toEmployeeRow(listId, employee, position);
+
+      await tx.insert(listEmployees).values(row).onConflictDoUpdate({
+        target: [listEmployees.listId, listEmployees.id],
+        set: { name: row.name, email: row.email, data: row.data },
+      });
+      await tx.update(employeeLists).set({ updatedAt: new Date() }).where(eq(employeeLists.id, listId));
+      return employee;
+    });
+  }
+
+  async deleteListEmployee(listId: string, employeeId: string): Promise<boolean> {
+    const db = await getDb();
+    const deleted = await db.delete(listEmployees)
+      .where(and(eq(listEmployees.listId, listId), eq(listEmployees.id, employeeId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async saveListShift(listId: string, shift: StoredShift): Promise<StoredShift | undefined> {
+    const db = await getDb();
+    const [list] = await db.select().from(employeeLists).where(eq(employeeLists.id, listId));
+    if (!list) return undefined;
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(listShifts)
+        .where(and(eq(listShifts.listId, listId), eq(listShifts.id, shift.id)));
+      const position = existing
+        ? existing.position
+        : (await tx.select().from(listShifts).where(eq(listShifts.listId, listId))).length;
+      const { listId: _listId, id: _id, ...row } = toShiftRow(listId, shift, position);
+
+      await tx.insert(listShifts).values({ listId, id: shift.id, ...row }).onConflictDoUpdate({
+        target: [listShifts.listId, listShifts.id],
+        set: row,
+      });
+      await tx.update(employeeLists).set({ updatedAt: new Date() }).where(eq(employeeLists.id, listId));
+      return shift;
+    });
+  }
+
+  async deleteListShift(listId: string, shiftId: string): Promise<boolean> {
+    const db = await getDb();
+    const deleted = await db.delete(listShifts)
+      .where(and(eq(listShifts.listId, listId), eq(listShifts.id, shiftId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getLeaveRequests(listId: string): Promise<LeaveRequest[]> {
+    const db = await getDb();
+    return db.select().from(leaveRequests)
+      .where(eq(leaveRequests.listId, listId))
+      .orderBy(asc(leaveRequests.createdAt));
+  }
+
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    const db = await getDb();
+    const [request] = await db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+    return request;
+  }
+
+  async createLeaveRequest(listId: string, requestedBy: number, data: InsertLeaveRequest): Promise<LeaveRequest> {
+    const db = await getDb();
+    const [request] = await db.insert(leaveRequests).values({ ...data, listId, requestedBy }).returning();
+    return request;
+  }
+
+  async updateLeaveRequest(id: number, changes: LeaveRequestChanges): Promise<LeaveRequest | undefined> {
+    const db = await getDb();
+    const [request] = await db.update(leaveRequests).set(changes).where(eq(leaveRequests.id, id)).returning();
+    return request;
+  }
+
+  async getShiftSwaps(listId: string): Promise<ShiftSwap[]> {
+    const db = await getDb();
+    return db.select().from(shiftSwaps)
+      .where(eq(shiftSwaps.listId, listId))
+      .orderBy(asc(shiftSwaps.createdAt));
+  }
+
+  async swapShifts(listId: string, employees: StoredEmployee[], swap: NewShiftSwapRecord): Promise<ShiftSwap | undefined> {
+    const db = await getDb();
+    const [list] = await db.select().from(employeeLists).where(eq(employeeLists.id, listId));
+    if (!list) return undefined;
+
+    return db.transaction(async (tx) => {
+      for (const employee of employees) {
+        const { data } = toEmployeeRow(listId, employee, 0);
+        await tx.update(listEmployees)
+          .set({ data })
+          .where(and(eq(listEmployees.listId, listId), eq(listEmployees.id, employee.id)));
+      }
+      await tx.update(employeeLists).set({ updatedAt: new Date() }).where(eq(employeeLists.id, listId));
+      const [record] = await tx.insert(shiftSwaps).values({ ...swap, listId }).returning();
+      return record;
+    });
+  }
+
+  async getCalendarFeed(listId: string, employeeId: string): Promise<CalendarFeed | undefined> {
+    const db = await getDb();
+    const [feed] = await db.select().from(calendarFeeds)
+      .where(and(eq(calendarFeeds.listId, listId), eq(calendarFeeds.employeeId, employeeId)));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const db = await getDb();
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async replaceCalendarFeed(feed: NewCalendarFeed): Promise<CalendarFeed> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      await tx.delete(calendarFeeds)
+        .where(and(eq(calendarFeeds.listId, feed.listId), eq(calendarFeeds.employeeId, feed.employeeId)));
+      const [record] = await tx.insert(calendarFeeds).values(feed).returning();
+      return record;
+    });
+  }
+
+  async getSchedulePublications(listId: string): Promise<SchedulePublication[]> {
+    const db = await getDb();
+    const rows = await db.select().from(schedulePublications)
+      .where(eq(schedulePublications.listId, listId))
+      .orderBy(asc(schedulePublications.version));
+    return rows as SchedulePublication[];
+  }
+
+  async getSchedulePublication(id: number): Promise<SchedulePublication | undefined> {
+    const db = await getDb();
+    const [publication] = await db.select().from(schedulePublications).where(eq(schedulePublications.id, id));
+    return publication as SchedulePublication | undefined;
+  }
+
+  async createSchedulePublication(listId: string, publication: NewSchedulePublication): Promise<SchedulePublication | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      // Bloquea la lista para que dos publicaciones simultáneas no repitan versión
+      const [list] = await tx.select({ id: employeeLists.id }).from(employeeLists)
+        .where(eq(employeeLists.id, listId))
+        .for("update");
+      if (!list) return undefined;
+
+      const [{ version }] = await tx
+        .select({ version: sql<number>`coalesce(max(${schedulePublications.version}), 0)` })
+        .from(schedulePublications)
+        .where(eq(schedulePublications.listId, listId));
+      const [record] = await tx.insert(schedulePublications)
+        .values({ ...publication, listId, version: Number(version) + 1 })
+        .returning();
+      return record as SchedulePublication;
+    });
+  }
+
+  async createNotifications(records: NewNotification[]): Promise<Notification[]> {
+    if (records.length === 0) return [];
+    const db = await getDb();
+    return db.insert(notifications).values(records).returning();
+  }
+
+  async getNotifications(recipients: NotificationRecipient[]): Promise<Notification[]> {
+    if (recipients.length === 0) return [];
+    const db = await getDb();
+    return db.select().from(notifications)
+      .where(or(...recipients.map(recipient =>
+        and(eq(notifications.listId, recipient.listId), eq(notifications.employeeId, recipient.employeeId))
+      )))
+      .orderBy(desc(notifications.id));
+  }
+
+  async markNotificationsRead(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await getDb();
+    await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(inArray(notifications.id, ids), isNull(notifications.readAt)));
+  }
+
+  async appendAuditEvents(events: NewAuditEvent[]): Promise<AuditEvent[]> {
+    if (events.length === 0) return [];
+    const db = await getDb();
+    return db.insert(auditEvents).values(events).returning();
+  }
+
+  async getAuditEvents(listId: string, filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const db = await getDb();
+    const conditions = [eq(auditEvents.listId, listId)];
+    if (filters.employeeId) conditions.push(eq(auditEvents.employeeId, filters.employeeId));
+    if (filters.field) conditions.push(eq(auditEvents.field, filters.field));
+    if (filters.date) {
+      // Igual que auditEventCoversDate: la celda del día o una ausencia que lo incluye
+      conditions.push(lte(auditEvents.date, filters.date));
+      conditions.push(gte(sql`coalesce(${auditEvents.endDate}, ${auditEvents.date})`, filters.date));
+    }
+    return db.select().from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.id));
+  }
+}
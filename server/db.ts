@@ -16,23 +16,13 @@ if (!process.env.DATABASE_URL) {
 const isNeonDatabase = process.env.DATABASE_URL?.includes('neon.tech') || 
                       process.env.DATABASE_URL?.includes('neon.database.url');
 
-if (isNeonDatabase) {
-  // Use Neon-specific configuration for serverless
-  export const pool = new Pool({ 
-    connectionString: process.env.DATABASE_URL,
-    max: 1, // Serverless optimization
-    idleTimeoutMillis: 30000,
-    connectionTimeoutMillis: 10000
-  });
-} else {
-  // Standard PostgreSQL configuration for local/other environments
-  export const pool = new Pool({ 
-    connectionString: process.env.DATABASE_URL,
-    max: 10,
-    idleTimeoutMillis: 30000,
-    connectionTimeoutMillis: 5000
-  });
-}
+// Neon usa una sola conexión (serverless); PostgreSQL local/otros entornos usan un pool normal
+export const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: isNeonDatabase ? 1 : 10,
+  idleTimeoutMillis: 30000,
+  connectionTimeoutMillis: isNeonDatabase ? 10000 : 5000
+});
 
 export const db = drizzle({ client: pool, schema });
 
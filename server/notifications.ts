@@ -0,0 +1,333 @@
+/**
+ * Avisos a los empleados. Cada aviso se guarda en la bandeja de entrada del empleado y se
+ * envía también al email de su ficha (Employee.email) con el transporte configurado.
+ * El transporte es intercambiable: por defecto se usa SMTP con las variables SMTP_* y,
+ * sin SMTP_HOST, los avisos solo quedan en la bandeja (emailStatus "skipped").
+ */
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import type { EmployeeListRecord, Notification, NotificationType } from "@shared/schema";
+import type { ScheduleShift } from "@shared/schedule";
+import type { PublishedCell, ScheduleCellChange } from "@shared/publishing";
+import type { ShiftSwapChange } from "@shared/shiftSwap";
+import { getShiftLabel } from "@shared/roster";
+import { storage } from "./storage";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface NotificationTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true para TLS implícito (puerto 465); no se negocia STARTTLS
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  // Remitente, con o sin nombre: "WAOK Schedule <no-reply@example.com>"
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface NotificationItem {
+  employeeId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 10000;
+
+// Las cabeceras no pueden contener saltos de línea; fuera de ASCII se codifican (RFC 2047)
+const encodeHeader = (value: string): string => {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, "utf8").toString("base64")}?=`;
+};
+
+const extractAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+};
+
+// Mensaje completo para DATA: cabeceras, líneas en CRLF y puntos iniciales duplicados
+const formatMessage = (from: string, message: EmailMessage): string => {
+  const headers = [
+    `From: ${from.replace(/[\r\n]+/g, " ")}`,
+    `To: ${message.to.replace(/[\r\n]+/g, " ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map(line => (line.startsWith(".") ? `.${line}` : line));
+  return [...headers, "", ...body].join("\r\n");
+};
+
+// Lee las respuestas del servidor; una respuesta multilínea termina en "NNN texto"
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+  const flush = () => {
+    if (!waiter) return;
+    const current = waiter;
+    if (replies.length > 0) {
+      waiter = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiter = null;
+      current.reject(failure);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, "");
+      buffer = buffer.slice(index + 1);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.map(l => l.slice(4)).join("\n") });
+        lines = [];
+      }
+    }
+    flush();
+  });
+  socket.on("error", (error: Error) => {
+    failure = failure ?? error;
+    flush();
+  });
+  socket.on("close", () => {
+    failure = failure ?? new Error("SMTP connection closed");
+    flush();
+  });
+
+  return () => new Promise<SmtpReply>((resolve, reject) => {
+    waiter = { resolve, reject };
+    flush();
+  });
+};
+
+/**
+ * Transporte SMTP mínimo (EHLO, AUTH PLAIN, MAIL, RCPT, DATA) sin dependencias externas.
+ * Abre una conexión por mensaje.
+ */
+export function createSmtpTransport(options: SmtpOptions): NotificationTransport {
+  return {
+    async send(message) {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      socket.setTimeout(options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS, () => {
+        socket.destroy(new Error("SMTP connection timed out"));
+      });
+      const nextReply = createReplyReader(socket);
+
+      const command = async (line: string | null, expected: number[]) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await nextReply();
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        await command(`EHLO ${os.hostname() || "localhost"}`, [250]);
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ""}`, "utf8").toString("base64");
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await command(`MAIL FROM:<${extractAddress(options.from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command("DATA", [354]);
+        await command(`${formatMessage(options.from, message)}\r\n.`, [250]);
+        await command("QUIT", [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+// Transporte configurado con SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS y SMTP_FROM
+const createTransportFromEnv = (): NotificationTransport | null => {
+  if (!process.env.SMTP_HOST) return null;
+  const secure = process.env.SMTP_SECURE === "true";
+  return createSmtpTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 25),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || "WAOK Schedule <no-reply@localhost>",
+  });
+};
+
+let transport: NotificationTransport | null = createTransportFromEnv();
+
+/**
+ * Sustituye el transporte de email (null desactiva el envío); usado por las pruebas
+ */
+export function setNotificationTransport(next: NotificationTransport | null) {
+  transport = next;
+}
+
+const getEmployeeEmail = (list: EmployeeListRecord, employeeId: string): string | null => {
+  const email = list.employees.find(employee => employee.id === employeeId)?.email;
+  return typeof email === "string" && email.trim() ? email.trim() : null;
+};
+
+/**
+ * Guarda los avisos en la bandeja de cada empleado y los envía a su email. Un fallo al
+ * avisar nunca hace fallar el cambio que lo provocó: los errores solo se registran.
+ */
+export async function sendNotifications(list: EmployeeListRecord, items: NotificationItem[]): Promise<Notification[]> {
+  try {
+    const records = [];
+    for (const item of items) {
+      const email = getEmployeeEmail(list, item.employeeId);
+      let emailStatus: "sent" | "failed" | "skipped" = "skipped";
+      if (email && transport) {
+        try {
+          await transport.send({ to: email, subject: item.title, text: item.message });
+          emailStatus = "sent";
+        } catch (error) {
+          console.error("Error sending notification email:", error);
+          emailStatus = "failed";
+        }
+      }
+      records.push({ ...item, listId: list.id, email, emailStatus });
+    }
+    return await storage.createNotifications(records);
+  } catch (error) {
+    console.error("Error saving notifications:", error);
+    return [];
+  }
+}
+
+const describeValue = (value: string | null, shifts: ScheduleShift[]): string => {
+  if (!value) return "nothing assigned";
+  if (value === "day-off") return "Day Off";
+  const shift = shifts.find(s => s.id === value);
+  return shift ? getShiftLabel(shift) : value;
+};
+
+const describeCell = (cell: PublishedCell, shifts: ScheduleShift[]): string => {
+  if (!cell) return "nothing assigned";
+  if (cell.type === "leave") return `Leave (${cell.leaveType})`;
+  return describeValue(cell.type === "shift" ? cell.shiftId : "day-off", shifts);
+};
+
+const PUBLICATION_TITLES: Record<"assignment-added" | "assignment-removed" | "assignment-changed", string> = {
+  "assignment-added": "New shift assignment",
+  "assignment-removed": "Shift assignment removed",
+  "assignment-changed": "Shift assignment changed",
+};
+
+/**
+ * Avisos de una publicación que cambia turnos ya publicados: uno por empleado y tipo de cambio.
+ * Solo cuentan las celdas con un turno antes o después (no los cambios entre libre y vacío).
+ */
+export function buildPublicationNotifications(
+  changes: ScheduleCellChange[],
+  shifts: ScheduleShift[],
+  version: number
+): NotificationItem[] {
+  const groups = new Map<string, { employeeId: string; type: keyof typeof PUBLICATION_TITLES; lines: string[] }>();
+
+  changes.forEach(change => {
+    const hadShift = change.published?.type === "shift";
+    const hasShift = change.draft?.type === "shift";
+    if (!hadShift && !hasShift) return;
+
+    const type = hadShift && hasShift ? "assignment-changed" : hasShift ? "assignment-added" : "assignment-removed";
+    const before = describeCell(change.published, shifts);
+    const after = describeCell(change.draft, shifts);
+    const line = type === "assignment-added"
+      ? `${change.date}: ${after}`
+      : `${change.date}: ${before} → ${after}`;
+
+    const key = `${change.employeeId}:${type}`;
+    const group = groups.get(key) ?? { employeeId: change.employeeId, type, lines: [] };
+    group.lines.push(line);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).map(group => ({
+    employeeId: group.employeeId,
+    type: group.type,
+    title: PUBLICATION_TITLES[group.type],
+    message: [`Version ${version} of the schedule changed your shifts:`, ...group.lines.map(line => `- ${line}`)].join("\n"),
+  }));
+}
+
+/**
+ * Avisos de un intercambio aprobado: uno para cada empleado con sus celdas nuevas
+ */
+export function buildSwapNotifications(
+  list: EmployeeListRecord,
+  changes: ShiftSwapChange[],
+  shifts: ScheduleShift[]
+): NotificationItem[] {
+  const employeeIds = Array.from(new Set(changes.map(change => change.employeeId)));
+  const nameOf = (id: string) => list.employees.find(employee => employee.id === id)?.name ?? id;
+
+  return employeeIds.map(employeeId => {
+    const counterpart = employeeIds.find(id => id !== employeeId);
+    const lines = changes
+      .filter(change => change.employeeId === employeeId)
+      .map(change => `- ${change.date}: ${describeValue(change.before, shifts)} → ${describeValue(change.after, shifts)}`);
+    return {
+      employeeId,
+      type: "swap-approved" as const,
+      title: "Shift swap approved",
+      message: [`Your shift swap${counterpart ? ` with ${nameOf(counterpart)}` : ""} was approved:`, ...lines].join("\n"),
+    };
+  });
+}
+
+/**
+ * Aviso de la decisión sobre una solicitud de ausencia
+ */
+export function buildLeaveDecisionNotification(
+  request: { employeeId: string; leaveType: string; startDate: string; endDate: string },
+  status: "approved" | "rejected",
+  reason?: string | null
+): NotificationItem {
+  const period = request.startDate === request.endDate
+    ? request.startDate
+    : `${request.startDate} – ${request.endDate}`;
+  return {
+    employeeId: request.employeeId,
+    type: "leave-decided",
+    title: `Leave request ${status}`,
+    message: [
+      `Your ${request.leaveType} request for ${period} was ${status}.`,
+      ...(reason ? [`Reason: ${reason}`] : []),
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,17 @@
+import bcrypt from "bcryptjs";
+
+const BCRYPT_ROUNDS = 10;
+
+/**
+ * Genera el hash de una contraseña para guardarla en la tabla users
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Compara una contraseña en texto plano con su hash guardado
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(password, hash);
+}
@@ -0,0 +1,145 @@
+/**
+ * Generador mínimo de PDF (texto y rectángulos) sin dependencias externas.
+ * Usa las fuentes estándar Helvetica y Helvetica-Bold con WinAnsiEncoding, así que
+ * los caracteres fuera de Latin-1 se sustituyen por "?".
+ */
+
+// A4 horizontal en puntos (1/72 de pulgada)
+export const PDF_PAGE_WIDTH = 842;
+export const PDF_PAGE_HEIGHT = 595;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: string;
+}
+
+// Ancho medio aproximado de un carácter de Helvetica, en fracción del tamaño de letra
+const AVERAGE_CHAR_WIDTH = 0.52;
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const toRgb = (hex: string): string => {
+  const value = hex.replace("#", "");
+  const channels = value.length === 3
+    ? value.split("").map(char => parseInt(char + char, 16))
+    : [0, 2, 4].map(offset => parseInt(value.slice(offset, offset + 2), 16));
+  return channels.map(channel => formatNumber((isNaN(channel) ? 0 : channel) / 255)).join(" ");
+};
+
+const escapeText = (text: string): string => {
+  return Array.from(text)
+    .map(char => (char.charCodeAt(0) > 255 ? "?" : char))
+    .join("")
+    .replace(/[\\()]/g, match => `\\${match}`)
+    .replace(/[\r\n\t]/g, " ");
+};
+
+/**
+ * Ancho aproximado de un texto en puntos
+ */
+export const measureText = (text: string, size: number): number => text.length * size * AVERAGE_CHAR_WIDTH;
+
+/**
+ * Recorta un texto con "..." para que quepa en el ancho indicado
+ */
+export const fitText = (text: string, maxWidth: number, size: number): string => {
+  if (measureText(text, size) <= maxWidth) return text;
+  const maxChars = Math.max(0, Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH)) - 3);
+  return `${text.slice(0, maxChars)}...`;
+};
+
+/**
+ * Página del documento. Las coordenadas empiezan arriba a la izquierda (como en pantalla)
+ * y se convierten al sistema del PDF, que empieza abajo a la izquierda.
+ */
+export class PdfPage {
+  private operations: string[] = [];
+
+  /**
+   * Dibuja un rectángulo relleno y/o con borde
+   */
+  rect(x: number, y: number, width: number, height: number, options: { fill?: string; stroke?: string } = {}): void {
+    if (!options.fill && !options.stroke) return;
+    const bottom = PDF_PAGE_HEIGHT - y - height;
+    const path = `${formatNumber(x)} ${formatNumber(bottom)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    if (options.fill) this.operations.push(`${toRgb(options.fill)} rg`);
+    if (options.stroke) this.operations.push(`${toRgb(options.stroke)} RG 0.5 w`);
+    const paint = options.fill && options.stroke ? "B" : options.fill ? "f" : "S";
+    this.operations.push(`${path} ${paint}`);
+  }
+
+  /**
+   * Escribe una línea de texto; y es la línea base
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 9;
+    const font = FONT_NAMES[options.font ?? "regular"];
+    this.operations.push(
+      `${toRgb(options.color ?? "#000000")} rg`,
+      `BT /${font} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  toContentStream(): string {
+    return this.operations.join("\n");
+  }
+}
+
+/**
+ * Documento PDF formado por páginas A4 horizontales
+ */
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Serializa el documento (cabecera, objetos, tabla xref y trailer)
+   */
+  toBuffer(): Buffer {
+    // 1: catálogo, 2: árbol de páginas, 3 y 4: fuentes, después página + contenido por cada página
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    this.pages.forEach((page, index) => {
+      const content = page.toContentStream();
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
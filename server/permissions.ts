@@ -0,0 +1,168 @@
+// Autorización por roles (ver userRoles en shared/schema.ts):
+// - supervisor: gestiona todo, incluido crear y eliminar listas y usuarios
+// - scheduler: lee y edita solo las listas que tiene asignadas
+// - employee: solo ve su propia fila del horario publicado y los turnos, sin notes.confidential
+//   ni datos de coste (tarifas, presupuesto)
+
+import type { Request, Response, NextFunction } from "express";
+import { laborBudgetSchema, rulesSchema, type EmployeeListRecord, type StoredEmployee, type UserRole } from "@shared/schema";
+import type { SafeUser } from "./auth";
+import type { ScheduleEmployee } from "@shared/schedule";
+import { applyPublishedSchedule, mergePublishedShifts } from "@shared/publishing";
+import { storage, type NotificationRecipient } from "./storage";
+
+export type ListAccess = "read" | "write";
+
+export const FORBIDDEN_MESSAGE = "You do not have permission to perform this action";
+
+/**
+ * Middleware que exige uno de los roles indicados (usar después de requireAuth)
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+    }
+    next();
+  };
+}
+
+const isOwnEmployee = (user: SafeUser, employee: StoredEmployee) => employee.userId === user.id;
+
+/**
+ * Indica si el usuario puede leer o modificar la lista
+ */
+export async function canAccessList(user: SafeUser, listId: string, access: ListAccess): Promise<boolean> {
+  switch (user.role) {
+    case "supervisor":
+      return true;
+    case "scheduler":
+      return (await storage.getAssignedListIds(user.id)).includes(listId);
+    case "employee": {
+      if (access === "write") return false;
+      const list = await storage.getEmployeeList(listId);
+      return !!list?.employees.some(employee => isOwnEmployee(user, employee));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Indica si el usuario puede actuar sobre un empleado de la lista:
+ * quien puede editar la lista o el propio empleado (autoservicio)
+ */
+export async function canActForEmployee(user: SafeUser, listId: string, employee: StoredEmployee): Promise<boolean> {
+  if (isOwnEmployee(user, employee)) return true;
+  return canAccessList(user, listId, "write");
+}
+
+/**
+ * Middleware para las rutas /api/lists/:id que comprueba el acceso a la lista
+ */
+export function authorizeList(access: ListAccess) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user || !(await canAccessList(req.user, req.params.id, access))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking list permissions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * Empleados vinculados a la cuenta del usuario, en todas las listas
+ */
+export async function getLinkedEmployees(user: SafeUser): Promise<NotificationRecipient[]> {
+  const lists = await storage.getEmployeeLists();
+  return lists.flatMap(list => list.employees
+    .filter(employee => isOwnEmployee(user, employee))
+    .map(employee => ({ listId: list.id, employeeId: employee.id })));
+}
+
+/**
+ * Empleados visibles para el usuario: un empleado solo se ve a sí mismo, sin notas
+ * confidenciales ni tarifa por hora
+ */
+export function visibleEmployees(user: SafeUser, employees: StoredEmployee[]): StoredEmployee[] {
+  if (user.role !== "employee") return employees;
+
+  return employees
+    .filter(employee => isOwnEmployee(user, employee))
+    .map(({ hourlyRate, ...employee }) => {
+      const notes = employee.notes as { confidential?: string } | undefined;
+      if (!notes || typeof notes !== "object") return employee;
+      const { confidential, ...visibleNotes } = notes;
+      return { ...employee, notes: visibleNotes };
+    });
+}
+
+/**
+ * Versión publicada de la lista: el horario de cada empleado y los turnos tal como se
+ * publicaron (sin publicaciones, los empleados no tienen turnos)
+ */
+export async function getPublishedList(list: EmployeeListRecord): Promise<EmployeeListRecord> {
+  const publications = await storage.getSchedulePublications(list.id);
+  return {
+    ...list,
+    employees: list.employees.map(employee =>
+      applyPublishedSchedule(employee as StoredEmployee & ScheduleEmployee, publications)
+    ),
+    shifts: mergePublishedShifts(list.shifts, publications),
+  };
+}
+
+/**
+ * Versión de la lista que puede ver el usuario. Un empleado recibe solo su horario publicado,
+ * los turnos, los festivos y el periodo del horario: ni el borrador, ni las reglas, ni el
+ * personal ideal, ni el presupuesto o las tarifas
+ */
+export async function viewListAs(user: SafeUser, list: EmployeeListRecord): Promise<EmployeeListRecord> {
+  if (user.role !== "employee") return list;
+  const published = await getPublishedList(list);
+  return {
+    id: published.id,
+    name: published.name,
+    updatedAt: published.updatedAt,
+    employees: visibleEmployees(user, published.employees),
+    shifts: published.shifts,
+    holidays: published.holidays,
+    rules: rulesSchema.parse({ startDate: published.rules.startDate, endDate: published.rules.endDate }),
+    priorities: {},
+    shiftData: [],
+    laborBudget: laborBudgetSchema.parse({}),
+  };
+}
+
+/**
+ * Empleados de una lista tal como los ve el usuario (ver viewListAs)
+ */
+export async function viewEmployeesAs(user: SafeUser, list: EmployeeListRecord, employees: StoredEmployee[]): Promise<StoredEmployee[]> {
+  return (await viewListAs(user, { ...list, employees })).employees;
+}
+
+/**
+ * Listas que puede ver el usuario, ya filtradas con viewListAs
+ */
+export async function getVisibleLists(user: SafeUser): Promise<EmployeeListRecord[]> {
+  const lists = await storage.getEmployeeLists();
+
+  switch (user.role) {
+    case "supervisor":
+      return lists;
+    case "scheduler": {
+      const assigned = await storage.getAssignedListIds(user.id);
+      return lists.filter(list => assigned.includes(list.id));
+    }
+    case "employee":
+      return Promise.all(lists
+        .filter(list => list.employees.some(employee => isOwnEmployee(user, employee)))
+        .map(list => viewListAs(user, list)));
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Roster imprimible en PDF para colgar en la unidad: una semana por página, con los
+ * nombres de los empleados repetidos en cada página, los colores de los turnos,
+ * la fila de totales de personal, las ausencias y la leyenda.
+ */
+
+import { PdfDocument, PdfPage, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, fitText, measureText } from "./pdf";
+import { Roster, RosterCell, RosterWeek, getContrastTextColor } from "../shared/roster";
+import { getDayOfWeek } from "../shared/schedule";
+
+const MARGIN = 28;
+const TABLE_TOP = 72;
+const NAME_COLUMN_WIDTH = 140;
+const HEADER_ROW_HEIGHT = 26;
+const ROW_HEIGHT = 18;
+const TOTAL_ROW_HEIGHT = 16;
+const LEGEND_LINE_HEIGHT = 14;
+const LEGEND_SWATCH = 9;
+
+const BORDER_COLOR = "#9CA3AF";
+const HEADER_FILL = "#E5E7EB";
+const LEAVE_FILL = "#F3F4F6";
+const LEAVE_MARKER = "#6B7280";
+const SHORTAGE_COLOR = "#B91C1C";
+
+interface LegendItem {
+  label: string;
+  fill?: string;
+  marker?: boolean;
+}
+
+const getLegendItems = (roster: Roster): LegendItem[] => [
+  ...roster.legend.map(entry => ({ label: `${entry.label} (${entry.timeRange})`, fill: entry.color || "#FFFFFF" })),
+  ...(roster.leaveTypes.length > 0
+    ? [{ label: `Leave: ${roster.leaveTypes.join(", ")}`, fill: LEAVE_FILL, marker: true }]
+    : []),
+  { label: "Staffing: scheduled/ideal (red = short)" }
+];
+
+// Reparte los elementos de la leyenda en líneas que caben en el ancho de la página
+const layoutLegend = (items: LegendItem[]): LegendItem[][] => {
+  const maxWidth = PDF_PAGE_WIDTH - MARGIN * 2;
+  const lines: LegendItem[][] = [[]];
+  let lineWidth = 0;
+
+  items.forEach(item => {
+    const width = LEGEND_SWATCH + 4 + measureText(item.label, 8) + 14;
+    if (lineWidth + width > maxWidth && lines[lines.length - 1].length > 0) {
+      lines.push([]);
+      lineWidth = 0;
+    }
+    lines[lines.length - 1].push(item);
+    lineWidth += width;
+  });
+  return lines;
+};
+
+const drawLegend = (page: PdfPage, lines: LegendItem[][], top: number) => {
+  lines.forEach((line, lineIndex) => {
+    let x = MARGIN;
+    const y = top + lineIndex * LEGEND_LINE_HEIGHT;
+    line.forEach(item => {
+      if (item.fill) {
+        page.rect(x, y, LEGEND_SWATCH, LEGEND_SWATCH, { fill: item.fill, stroke: BORDER_COLOR });
+        if (item.marker) page.rect(x, y, 2, LEGEND_SWATCH, { fill: LEAVE_MARKER });
+        x += LEGEND_SWATCH + 4;
+      }
+      page.text(item.label, x, y + 8, { size: 8 });
+      x += measureText(item.label, 8) + 14;
+    });
+  });
+};
+
+const drawCell = (page: PdfPage, cell: RosterCell, x: number, y: number, width: number) => {
+  const textWidth = width - 6;
+
+  switch (cell.kind) {
+    case "shift": {
+      page.rect(x, y, width, ROW_HEIGHT, { fill: cell.color || "#FFFFFF", stroke: BORDER_COLOR });
+      page.text(fitText(cell.label, textWidth, 8), x + 3, y + 12, { size: 8, color: getContrastTextColor(cell.color) });
+      break;
+    }
+    case "leave": {
+      page.rect(x, y, width, ROW_HEIGHT, { fill: LEAVE_FILL, stroke: BORDER_COLOR });
+      page.rect(x, y, 3, ROW_HEIGHT, { fill: LEAVE_MARKER });
+      const label = cell.hoursPerDay ? `${cell.label} (${cell.hoursPerDay}h)` : cell.label;
+      page.text(fitText(label, textWidth - 2, 8), x + 5, y + 12, { size: 8, color: LEAVE_MARKER });
+      break;
+    }
+    case "day-off": {
+      page.rect(x, y, width, ROW_HEIGHT, { stroke: BORDER_COLOR });
+      page.text(cell.label, x + 3, y + 12, { size: 8, color: LEAVE_MARKER });
+      break;
+    }
+    default:
+      page.rect(x, y, width, ROW_HEIGHT, { stroke: BORDER_COLOR });
+  }
+};
+
+const drawWeekPage = (
+  page: PdfPage,
+  roster: Roster,
+  week: RosterWeek,
+  weekIndex: number,
+  rows: RosterWeek["rows"],
+  withTotals: boolean,
+  isContinuation: boolean
+) => {
+  const columnWidth = (PDF_PAGE_WIDTH - MARGIN * 2 - NAME_COLUMN_WIDTH) / week.dates.length;
+  const dateX = (index: number) => MARGIN + NAME_COLUMN_WIDTH + index * columnWidth;
+
+  page.text(roster.title, MARGIN, 40, { size: 14, font: "bold" });
+  page.text(
+    `Week ${weekIndex + 1} of ${roster.weeks.length}: ${week.dates[0]} to ${week.dates[week.dates.length - 1]}${isContinuation ? " (continued)" : ""}`,
+    MARGIN,
+    58,
+    { size: 10 }
+  );
+
+  // Cabecera con los días
+  page.rect(MARGIN, TABLE_TOP, NAME_COLUMN_WIDTH, HEADER_ROW_HEIGHT, { fill: HEADER_FILL, stroke: BORDER_COLOR });
+  page.text("Employee", MARGIN + 4, TABLE_TOP + 16, { size: 9, font: "bold" });
+  week.dates.forEach((date, index) => {
+    page.rect(dateX(index), TABLE_TOP, columnWidth, HEADER_ROW_HEIGHT, { fill: HEADER_FILL, stroke: BORDER_COLOR });
+    page.text(getDayOfWeek(date), dateX(index) + 3, TABLE_TOP + 11, { size: 8, font: "bold" });
+    page.text(date, dateX(index) + 3, TABLE_TOP + 21, { size: 8 });
+  });
+
+  let y = TABLE_TOP + HEADER_ROW_HEIGHT;
+  rows.forEach(row => {
+    page.rect(MARGIN, y, NAME_COLUMN_WIDTH, ROW_HEIGHT, { stroke: BORDER_COLOR });
+    page.text(fitText(row.name, NAME_COLUMN_WIDTH - 8, 9), MARGIN + 4, y + 12, { size: 9 });
+    row.cells.forEach((cell, index) => drawCell(page, cell, dateX(index), y, columnWidth));
+    y += ROW_HEIGHT;
+  });
+
+  if (!withTotals) return;
+
+  const totalRows = [
+    ...week.totals.map(total => ({ label: total.label, color: total.color, scheduled: total.scheduled, ideal: total.ideal })),
+    {
+      label: "Total",
+      color: HEADER_FILL,
+      scheduled: week.dates.map((_, index) => week.totals.reduce((sum, total) => sum + total.scheduled[index], 0)),
+      ideal: week.dates.map((_, index) => week.totals.reduce((sum, total) => sum + total.ideal[index], 0))
+    }
+  ];
+
+  y += 4;
+  totalRows.forEach(total => {
+    page.rect(MARGIN, y, NAME_COLUMN_WIDTH, TOTAL_ROW_HEIGHT, { fill: total.color || "#FFFFFF", stroke: BORDER_COLOR });
+    page.text(fitText(total.label, NAME_COLUMN_WIDTH - 8, 8), MARGIN + 4, y + 11, { size: 8, font: "bold", color: getContrastTextColor(total.color) });
+    week.dates.forEach((_, index) => {
+      const isShort = total.scheduled[index] < total.ideal[index];
+      page.rect(dateX(index), y, columnWidth, TOTAL_ROW_HEIGHT, { stroke: BORDER_COLOR });
+      page.text(`${total.scheduled[index]}/${total.ideal[index]}`, dateX(index) + 3, y + 11, {
+        size: 8,
+        font: isShort ? "bold" : "regular",
+        color: isShort ? SHORTAGE_COLOR : "#000000"
+      });
+    });
+    y += TOTAL_ROW_HEIGHT;
+  });
+};
+
+/**
+ * Genera el PDF del roster. Las semanas con más empleados de los que caben en una
+ * página continúan en la siguiente; los totales se dibujan en la última página de la semana.
+ */
+export const renderRosterPdf = (roster: Roster): Buffer => {
+  const document = new PdfDocument();
+  const legendLines = layoutLegend(getLegendItems(roster));
+  const legendTop = PDF_PAGE_HEIGHT - MARGIN - legendLines.length * LEGEND_LINE_HEIGHT;
+
+  roster.weeks.forEach((week, weekIndex) => {
+    const totalsHeight = 4 + (week.totals.length + 1) * TOTAL_ROW_HEIGHT;
+    const available = legendTop - 10 - TABLE_TOP - HEADER_ROW_HEIGHT - totalsHeight;
+    const rowsPerPage = Math.max(1, Math.floor(available / ROW_HEIGHT));
+
+    // Una semana sin empleados también se imprime (solo cabecera y totales)
+    const chunks: RosterWeek["rows"][] = [];
+    for (let index = 0; index < week.rows.length; index += rowsPerPage) {
+      chunks.push(week.rows.slice(index, index + rowsPerPage));
+    }
+    if (chunks.length === 0) chunks.push([]);
+
+    chunks.forEach((rows, chunkIndex) => {
+      const page = document.addPage();
+      drawWeekPage(page, roster, week, weekIndex, rows, chunkIndex === chunks.length - 1, chunkIndex > 0);
+      drawLegend(page, legendLines, legendTop);
+    });
+  });
+
+  if (document.pageCount === 0) {
+    document.addPage().text(`${roster.title}: no dates in the selected period`, MARGIN, 40, { size: 12 });
+  }
+
+  return document.toBuffer();
+};
@@ -1,16 +1,182 @@
 import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
+import { randomBytes, randomUUID } from "crypto";
 import { storage } from "./storage";
-import { insertUserSchema } from "../shared/schema";
+import { verifyPassword } from "./password";
+import { ensureInitialSupervisor } from "./bootstrap";
+import {
+  requireAuth,
+  createSessionToken,
+  setSessionCookie,
+  clearSessionCookie,
+  toSafeUser,
+  type SafeUser,
+} from "./auth";
+import {
+  requireRole,
+  authorizeList,
+  getVisibleLists,
+  viewListAs,
+  viewEmployeesAs,
+  visibleEmployees,
+  getPublishedList,
+  canAccessList,
+  canActForEmployee,
+  getLinkedEmployees,
+  FORBIDDEN_MESSAGE,
+} from "./permissions";
+import {
+  insertUserSchema,
+  loginSchema,
+  updateUserRoleSchema,
+  assignListsSchema,
+  insertEmployeeListSchema,
+  updateEmployeeListSchema,
+  importEmployeeListsSchema,
+  previewDataBundleSchema,
+  importDataBundleSchema,
+  employeeSchema,
+  shiftSchema,
+  insertLeaveRequestSchema,
+  leaveDecisionSchema,
+  leaveStatuses,
+  type LeaveStatus,
+  shiftPreferencesSchema,
+  linkEmployeeAccountSchema,
+  insertShiftSwapSchema,
+  schedulePeriodSchema,
+  auditEventFiltersSchema,
+  type StoredEmployee,
+  type EmployeeListRecord,
+  type CalendarFeed,
+  type SchedulePublication,
+} from "../shared/schema";
+import type { ScheduleEmployee } from "../shared/schedule";
+import { planShiftSwap } from "../shared/shiftSwap";
+import { buildRoster } from "../shared/roster";
+import { buildEmployeeCalendar, getCalendarFeedPeriod, ICALENDAR_MIME_TYPE, type CalendarEmployee } from "../shared/icalendar";
+import { renderRosterPdf } from "./rosterPdf";
+import { findBundleConflicts, hasBlockingConflicts, mergeEmployeeLists } from "../shared/dataBundle";
+import { diffListForAudit, type AuditSource } from "../shared/auditLog";
+import { buildScheduleSnapshot, diffScheduleSnapshots, diffWithPreviousPublications } from "../shared/publishing";
+import {
+  sendNotifications,
+  buildPublicationNotifications,
+  buildSwapNotifications,
+  buildLeaveDecisionNotification,
+} from "./notifications";
 import { z } from "zod";
 
+// Sends the iCalendar file of an employee for the given period. Calendars are meant for
+// the employee, so they always show the published schedule, never the draft.
+async function sendEmployeeCalendar(
+  res: express.Response,
+  list: EmployeeListRecord,
+  employee: StoredEmployee,
+  period: { startDate: string; endDate: string },
+  disposition: "attachment" | "inline"
+) {
+  const published = await getPublishedList({ ...list, employees: [employee] });
+  const calendar = buildEmployeeCalendar(published.employees[0] as CalendarEmployee, published.shifts, {
+    calendarName: `${employee.name} - ${list.name}`,
+    ...period,
+    now: new Date(),
+  });
+  const fileName = `${employee.name.replace(/[^\w-]+/g, "-") || "schedule"}.ics`;
+  res.setHeader("Content-Type", ICALENDAR_MIME_TYPE);
+  res.setHeader("Content-Disposition", `${disposition}; filename="${fileName}"`);
+  res.send(calendar);
+}
+
+// Subscription URL of a calendar feed, built from the host the client used
+function toCalendarFeedResponse(req: express.Request, feed: CalendarFeed) {
+  return {
+    url: `${req.protocol}://${req.get("host")}/api/calendar/${feed.token}.ics`,
+    createdAt: feed.createdAt,
+  };
+}
+
+// Publication without its snapshot, for listing the published versions
+function toPublicationSummary({ snapshot, ...publication }: SchedulePublication) {
+  return publication;
+}
+
+// A collection inside a list (employees, shifts) exposed through the same CRUD routes
+interface ChildResource<T extends { id: string }> {
+  path: string;
+  label: string;
+  source: AuditSource;
+  title: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  list: (list: EmployeeListRecord | undefined) => T[] | undefined;
+  save: (listId: string, item: T) => Promise<T | undefined>;
+  remove: (listId: string, itemId: string) => Promise<boolean>;
+  // Adjusts the item sent by the client before saving it (existing is undefined when creating)
+  prepare?: (item: T, existing: T | undefined) => T;
+}
+
+// Account links (userId) only change through the account-link route, which checks the account
+// role and duplicates: list and employee saves keep the link each employee already had
+function keepAccountLink(employee: StoredEmployee, existing: StoredEmployee | undefined): StoredEmployee {
+  const { userId: _sentUserId, ...rest } = employee;
+  return existing?.userId !== undefined ? { ...rest, userId: existing.userId } : rest;
+}
+
+// keepAccountLink for every employee of an incoming list; without `existing` (new lists)
+// every link the client sent is dropped
+function keepAccountLinks<L extends { employees: StoredEmployee[] }>(list: L, existing?: EmployeeListRecord): L {
+  return {
+    ...list,
+    employees: list.employees.map(employee =>
+      keepAccountLink(employee, existing?.employees.find(e => e.id === employee.id))
+    )
+  };
+}
+
+// Appends an audit event for every tracked value that differs between two versions of a
+// list. `before` is null for new lists and `after` null for deleted ones; `after` defaults
+// to the list as currently saved.
+async function recordListChanges(
+  user: SafeUser,
+  source: AuditSource,
+  before: EmployeeListRecord | null,
+  after?: EmployeeListRecord | null
+) {
+  const listId = after?.id ?? before?.id;
+  const current = after === undefined && listId ? await storage.getEmployeeList(listId) : after;
+  if (!listId || current === undefined) return;
+
+  const changes = diffListForAudit(before, current);
+  await storage.appendAuditEvents(changes.map(change => ({
+    ...change,
+    listId,
+    userId: user.id,
+    username: user.username,
+    source,
+  })));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // CORS middleware
+  // A fresh install has no users; create the first supervisor from the environment
+  await ensureInitialSupervisor(storage);
+
+  // CORS middleware - only trusted origins (CORS_ORIGINS, comma separated) may call the API
+  // with credentials; the client served by this same server does not need CORS.
+  const allowedOrigins = (process.env.CORS_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
   app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    const origin = req.headers.origin;
+    if (origin && allowedOrigins.includes(origin)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Credentials', 'true');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    }
+    res.header('Vary', 'Origin');
     next();
   });
 
@@ -31,8 +197,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Get all users
-  app.get("/api/users", async (req, res) => {
+  // --- Authentication ---
+
+  // Log in with username and password; the session is stored in an httpOnly cookie
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const validationResult = loginSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid login data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { username, password } = validationResult.data;
+      const user = await storage.getUserByUsername(username);
+
+      // Same message for unknown users and wrong passwords
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      const safeUser = toSafeUser(user);
+      const token = createSessionToken(safeUser);
+      setSessionCookie(res, token);
+      res.json({ user: safeUser, token });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Log out (clears the session cookie)
+  app.post("/api/auth/logout", (req, res) => {
+    clearSessionCookie(res);
+    res.status(204).end();
+  });
+
+  // Calendar subscription feed (.ics) of one employee. Calendar apps cannot log in, so
+  // the random token in the URL is the credential; it covers a rolling window around today.
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const list = feed && await storage.getEmployeeList(feed.listId);
+      const employee = list?.employees.find(e => e.id === feed!.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+
+      res.setHeader("Cache-Control", "no-cache");
+      await sendEmployeeCalendar(res, list, employee, getCalendarFeedPeriod(new Date().toISOString().slice(0, 10)), "inline");
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Every route registered below requires a valid session
+  app.use("/api", requireAuth);
+
+  // Get the logged in user
+  app.get("/api/auth/me", (req, res) => {
+    res.json(req.user);
+  });
+
+  // Get all users (supervisors only)
+  app.get("/api/users", requireRole("supervisor"), async (req, res) => {
     try {
       const users = await storage.getUsers();
       // Remove password from response for security
@@ -53,6 +284,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid user ID format" });
       }
 
+      // Users other than supervisors may only read their own account
+      if (req.user!.role !== "supervisor" && req.user!.id !== id) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
       const user = await storage.getUserById(id);
       
       if (!user) {
@@ -68,8 +304,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create new user
-  app.post("/api/users", async (req, res) => {
+  // Create new user (supervisors only)
+  app.post("/api/users", requireRole("supervisor"), async (req, res) => {
     try {
       // Validate content-type
       if (req.headers['content-type'] && !req.headers['content-type'].includes('application/json')) {
@@ -132,6 +368,1117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Change the role of a user
+  app.patch("/api/users/:id", requireRole("supervisor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid user ID format" });
+      }
+
+      const validationResult = updateUserRoleSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid user data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const user = await storage.updateUserRole(id, validationResult.data.role);
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lists a scheduler is assigned to
+  app.get("/api/users/:id/lists", requireRole("supervisor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid user ID format" });
+      }
+
+      if (!(await storage.getUserById(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({ listIds: await storage.getAssignedListIds(id) });
+    } catch (error) {
+      console.error("Error fetching list assignments:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Replace the lists a scheduler is assigned to
+  app.put("/api/users/:id/lists", requireRole("supervisor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid user ID format" });
+      }
+
+      const validationResult = assignListsSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid list assignment data",
+          details: validationResult.error.errors
+        });
+      }
+
+      if (!(await storage.getUserById(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { listIds } = validationResult.data;
+      for (const listId of listIds) {
+        if (!(await storage.getEmployeeList(listId))) {
+          return res.status(404).json({ error: `Employee list not found: ${listId}` });
+        }
+      }
+
+      await storage.setAssignedListIds(id, listIds);
+      res.json({ listIds: await storage.getAssignedListIds(id) });
+    } catch (error) {
+      console.error("Error updating list assignments:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Employee lists ---
+
+  // Get the employee lists visible to the logged in user with their employees, shifts and rules
+  app.get("/api/lists", async (req, res) => {
+    try {
+      const lists = await getVisibleLists(req.user!);
+      res.json(lists);
+    } catch (error) {
+      console.error("Error fetching employee lists:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get employee list by ID
+  app.get("/api/lists/:id", authorizeList("read"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      res.json(await viewListAs(req.user!, list));
+    } catch (error) {
+      console.error("Error fetching employee list:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create new employee list (supervisors only)
+  app.post("/api/lists", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = insertEmployeeListSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid employee list data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const listData = validationResult.data;
+
+      if (listData.id && await storage.getEmployeeList(listData.id)) {
+        return res.status(409).json({
+          error: "Employee list with this ID already exists"
+        });
+      }
+
+      const newList = await storage.createEmployeeList(keepAccountLinks(listData));
+      await recordListChanges(req.user!, "list", null, newList);
+      res.status(201).json(newList);
+    } catch (error) {
+      console.error("Error creating employee list:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // One-time migration of the lists stored in the browser (localStorage).
+  // Lists that already exist on the server are left untouched.
+  app.post("/api/lists/import", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = importEmployeeListsSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid employee lists data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const imported: string[] = [];
+      const skipped: string[] = [];
+
+      for (const list of validationResult.data.lists) {
+        if (await storage.getEmployeeList(list.id)) {
+          skipped.push(list.id);
+          continue;
+        }
+        await recordListChanges(req.user!, "data-import", null, await storage.createEmployeeList(keepAccountLinks(list)));
+        imported.push(list.id);
+      }
+
+      res.status(201).json({ imported, skipped, lists: await storage.getEmployeeLists() });
+    } catch (error) {
+      console.error("Error importing employee lists:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Check an Export Data bundle before importing it: validation plus ID conflicts
+  app.post("/api/data-bundle/preview", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = previewDataBundleSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data file",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { bundle } = validationResult.data;
+      const conflicts = findBundleConflicts(bundle.lists, await storage.getEmployeeLists());
+
+      res.json({
+        lists: bundle.lists.map(list => ({
+          id: list.id,
+          name: list.name,
+          employeeCount: list.employees.length,
+          exists: conflicts.existingListIds.includes(list.id)
+        })),
+        conflicts
+      });
+    } catch (error) {
+      console.error("Error previewing data bundle:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Import an Export Data bundle. New lists are created; lists that already exist
+  // are merged (employees and shifts upserted by ID) or replaced, depending on mode.
+  app.post("/api/data-bundle/import", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = importDataBundleSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data file",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { bundle, mode } = validationResult.data;
+      const conflicts = findBundleConflicts(bundle.lists, await storage.getEmployeeLists());
+
+      if (hasBlockingConflicts(conflicts)) {
+        return res.status(409).json({
+          error: "The data file contains duplicate list or employee IDs",
+          details: conflicts
+        });
+      }
+
+      const created: string[] = [];
+      const merged: string[] = [];
+      const replaced: string[] = [];
+
+      for (const list of bundle.lists) {
+        const existing = await storage.getEmployeeList(list.id);
+        // Account links belong to this installation: imported employees keep the ones they have here
+        const incoming = keepAccountLinks(list, existing);
+
+        if (!existing) {
+          await recordListChanges(req.user!, "data-import", null, await storage.createEmployeeList(incoming));
+          created.push(list.id);
+        } else if (mode === "merge") {
+          const { id, updatedAt, ...mergedList } = mergeEmployeeLists(existing, { ...incoming, updatedAt: existing.updatedAt });
+          await recordListChanges(req.user!, "data-import", existing, await storage.updateEmployeeList(list.id, mergedList));
+          merged.push(list.id);
+        } else {
+          const { id, ...replacement } = incoming;
+          await recordListChanges(req.user!, "data-import", existing, await storage.updateEmployeeList(list.id, replacement));
+          replaced.push(list.id);
+        }
+      }
+
+      res.status(201).json({ created, merged, replaced, lists: await storage.getEmployeeLists() });
+    } catch (error) {
+      console.error("Error importing data bundle:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Replace or partially update an employee list
+  const updateListHandler = async (req: express.Request, res: express.Response) => {
+    try {
+      const validationResult = updateEmployeeListSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid employee list data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const existing = await storage.getEmployeeList(req.params.id);
+      // Clients send the updatedAt they loaded in If-Match. A different value means the list
+      // changed since (swaps, leave decisions, account links, another tab) and saving the
+      // client's copy would undo those changes, so the current list is returned instead.
+      const expectedVersion = req.get("If-Match")?.replace(/^"|"$/g, "");
+      if (existing && expectedVersion && expectedVersion !== existing.updatedAt) {
+        return res.status(409).json({
+          error: "The list was changed by someone else since it was loaded",
+          list: existing
+        });
+      }
+
+      const changes = validationResult.data;
+      if (existing && changes.employees) {
+        changes.employees = changes.employees.map(employee =>
+          keepAccountLink(employee, existing.employees.find(e => e.id === employee.id))
+        );
+      }
+
+      const updatedList = existing && await storage.updateEmployeeList(existing.id, changes);
+
+      if (!updatedList) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      await recordListChanges(req.user!, "list", existing, updatedList);
+      res.json(updatedList);
+    } catch (error) {
+      console.error("Error updating employee list:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+  app.put("/api/lists/:id", authorizeList("write"), updateListHandler);
+  app.patch("/api/lists/:id", authorizeList("write"), updateListHandler);
+
+  // Delete employee list (with its employees and shifts) - supervisors only
+  app.delete("/api/lists/:id", requireRole("supervisor"), async (req, res) => {
+    try {
+      const existing = await storage.getEmployeeList(req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      // Everything the list held (assignments, leave, fixed shifts, rules) is audited as removed
+      await recordListChanges(req.user!, "list-delete", existing, null);
+      await storage.deleteEmployeeList(existing.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting employee list:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Employees and shifts of a list share the same CRUD routes
+  const registerChildResource = <T extends { id: string }>(resource: ChildResource<T>) => {
+    // Get all children of a list
+    app.get(`/api/lists/:id/${resource.path}`, authorizeList("read"), async (req, res) => {
+      try {
+        const list = await storage.getEmployeeList(req.params.id);
+        const items = resource.list(list && await viewListAs(req.user!, list));
+
+        if (!items) {
+          return res.status(404).json({ error: "Employee list not found" });
+        }
+
+        res.json(items);
+      } catch (error) {
+        console.error(`Error fetching ${resource.label}s:`, error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // Create a child in a list
+    app.post(`/api/lists/:id/${resource.path}`, authorizeList("write"), async (req, res) => {
+      try {
+        const validationResult = resource.schema.safeParse(req.body);
+
+        if (!validationResult.success) {
+          return res.status(400).json({
+            error: `Invalid ${resource.label} data`,
+            details: validationResult.error.errors
+          });
+        }
+
+        const list = await storage.getEmployeeList(req.params.id);
+        const items = resource.list(list);
+        if (!list || !items) {
+          return res.status(404).json({ error: "Employee list not found" });
+        }
+        if (items.some(item => item.id === validationResult.data.id)) {
+          return res.status(409).json({ error: `A ${resource.label} with this ID already exists` });
+        }
+
+        const item = resource.prepare ? resource.prepare(validationResult.data, undefined) : validationResult.data;
+        const saved = await resource.save(req.params.id, item);
+        await recordListChanges(req.user!, resource.source, list);
+        res.status(201).json(saved);
+      } catch (error) {
+        console.error(`Error creating ${resource.label}:`, error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // Replace a child of a list
+    app.put(`/api/lists/:id/${resource.path}/:itemId`, authorizeList("write"), async (req, res) => {
+      try {
+        const validationResult = resource.schema.safeParse({ ...req.body, id: req.params.itemId });
+
+        if (!validationResult.success) {
+          return res.status(400).json({
+            error: `Invalid ${resource.label} data`,
+            details: validationResult.error.errors
+          });
+        }
+
+        const list = await storage.getEmployeeList(req.params.id);
+        const items = resource.list(list);
+        if (!list || !items) {
+          return res.status(404).json({ error: "Employee list not found" });
+        }
+        const existing = items.find(item => item.id === req.params.itemId);
+        if (!existing) {
+          return res.status(404).json({ error: `${resource.title} not found` });
+        }
+
+        const item = resource.prepare ? resource.prepare(validationResult.data, existing) : validationResult.data;
+        const saved = await resource.save(req.params.id, item);
+        await recordListChanges(req.user!, resource.source, list);
+        res.json(saved);
+      } catch (error) {
+        console.error(`Error updating ${resource.label}:`, error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // Delete a child of a list
+    app.delete(`/api/lists/:id/${resource.path}/:itemId`, authorizeList("write"), async (req, res) => {
+      try {
+        const list = await storage.getEmployeeList(req.params.id);
+        const deleted = list && await resource.remove(list.id, req.params.itemId);
+
+        if (!deleted) {
+          return res.status(404).json({ error: `${resource.title} not found` });
+        }
+
+        await recordListChanges(req.user!, resource.source, list);
+        res.status(204).end();
+      } catch (error) {
+        console.error(`Error deleting ${resource.label}:`, error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+  };
+
+  registerChildResource({
+    path: "employees",
+    label: "employee",
+    source: "employee",
+    title: "Employee",
+    schema: employeeSchema,
+    list: list => list?.employees,
+    save: storage.saveListEmployee.bind(storage),
+    remove: storage.deleteListEmployee.bind(storage),
+    prepare: keepAccountLink,
+  });
+  registerChildResource({
+    path: "shifts",
+    label: "shift",
+    source: "shift",
+    title: "Shift",
+    schema: shiftSchema,
+    list: list => list?.shifts,
+    save: storage.saveListShift.bind(storage),
+    remove: storage.deleteListShift.bind(storage),
+  });
+
+  // --- Employee accounts and self-service ---
+
+  // Usernames of the accounts linked to the employees of a list
+  app.get("/api/lists/:id/accounts", authorizeList("write"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      const accounts = [];
+      for (const employee of list.employees) {
+        if (!employee.userId) continue;
+        const user = await storage.getUserById(employee.userId);
+        if (user) {
+          accounts.push({ employeeId: employee.id, userId: user.id, username: user.username });
+        }
+      }
+
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching employee accounts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Link an employee record to a user account with the employee role (username null unlinks it)
+  app.put("/api/lists/:id/employees/:employeeId/account", authorizeList("write"), async (req, res) => {
+    try {
+      const validationResult = linkEmployeeAccountSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid account data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const list = await storage.getEmployeeList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+      const employee = list.employees.find(e => e.id === req.params.employeeId);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      const { username } = validationResult.data;
+      const { userId: _previousUserId, ...unlinkedEmployee } = employee;
+
+      if (username === null) {
+        const saved = await storage.saveListEmployee(list.id, unlinkedEmployee);
+        return res.json(saved);
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.role !== "employee") {
+        return res.status(400).json({ error: "Only accounts with the employee role can be linked" });
+      }
+      if (list.employees.some(e => e.id !== employee.id && e.userId === user.id)) {
+        return res.status(409).json({ error: "This account is already linked to another employee of the list" });
+      }
+
+      const saved = await storage.saveListEmployee(list.id, { ...unlinkedEmployee, userId: user.id });
+      res.json(saved);
+    } catch (error) {
+      console.error("Error linking employee account:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update the shift preferences of an employee (the employee themselves or an editor of the list)
+  app.put("/api/lists/:id/employees/:employeeId/preferences", authorizeList("read"), async (req, res) => {
+    try {
+      const validationResult = shiftPreferencesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid shift preferences",
+          details: validationResult.error.errors
+        });
+      }
+
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === req.params.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (!(await canActForEmployee(req.user!, list.id, employee))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
+      const saved = await storage.saveListEmployee(list.id, {
+        ...employee,
+        shiftPreferences: validationResult.data.shiftPreferences,
+      });
+      res.json((await viewEmployeesAs(req.user!, list, [saved!]))[0]);
+    } catch (error) {
+      console.error("Error updating shift preferences:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Employee calendar ---
+
+  // Download the schedule of an employee as an .ics file (the employee themselves or an
+  // editor of the list). The period defaults to the list rules (?startDate=&endDate= override it).
+  app.get("/api/lists/:id/employees/:employeeId/calendar.ics", authorizeList("read"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === req.params.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (!(await canActForEmployee(req.user!, list.id, employee))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
+      // Lists without a period in their rules fall back to the subscription window
+      const defaultPeriod = list.rules.startDate && list.rules.endDate
+        ? { startDate: list.rules.startDate, endDate: list.rules.endDate }
+        : getCalendarFeedPeriod(new Date().toISOString().slice(0, 10));
+      const validationResult = schedulePeriodSchema.safeParse({
+        startDate: req.query.startDate ?? defaultPeriod.startDate,
+        endDate: req.query.endDate ?? defaultPeriod.endDate,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid schedule period",
+          details: validationResult.error.errors
+        });
+      }
+
+      await sendEmployeeCalendar(res, list, employee, validationResult.data, "attachment");
+    } catch (error) {
+      console.error("Error generating employee calendar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Current calendar subscription URL of an employee (null when none has been created)
+  app.get("/api/lists/:id/employees/:employeeId/calendar-feed", authorizeList("read"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === req.params.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (!(await canActForEmployee(req.user!, list.id, employee))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
+      const feed = await storage.getCalendarFeed(list.id, employee.id);
+      res.json(feed ? toCalendarFeedResponse(req, feed) : null);
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create the calendar subscription URL of an employee; an existing URL stops working
+  app.post("/api/lists/:id/employees/:employeeId/calendar-feed", authorizeList("read"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === req.params.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (!(await canActForEmployee(req.user!, list.id, employee))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
+      const feed = await storage.replaceCalendarFeed({
+        token: randomBytes(24).toString("base64url"),
+        listId: list.id,
+        employeeId: employee.id,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(toCalendarFeedResponse(req, feed));
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Leave requests ---
+
+  // Leave requests of a list, optionally filtered with ?status= (employees only see their own)
+  app.get("/api/lists/:id/leave-requests", authorizeList("read"), async (req, res) => {
+    try {
+      const status = req.query.status;
+      if (status !== undefined && !leaveStatuses.includes(status as LeaveStatus)) {
+        return res.status(400).json({ error: `Status must be one of: ${leaveStatuses.join(", ")}` });
+      }
+
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      const visibleIds = new Set(visibleEmployees(req.user!, list.employees).map(e => e.id));
+      const requests = await storage.getLeaveRequests(list.id);
+      res.json(requests.filter(request =>
+        visibleIds.has(request.employeeId) && (status === undefined || request.status === status)
+      ));
+    } catch (error) {
+      console.error("Error fetching leave requests:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Submit a pending leave request; it only blocks days in employee.leave once a supervisor approves it
+  app.post("/api/lists/:id/leave-requests", authorizeList("read"), async (req, res) => {
+    try {
+      const validationResult = insertLeaveRequestSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid leave request data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === validationResult.data.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (!(await canActForEmployee(req.user!, list.id, employee))) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+
+      const request = await storage.createLeaveRequest(list.id, req.user!.id, validationResult.data);
+      res.status(201).json(request);
+    } catch (error) {
+      console.error("Error creating leave request:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Approve a pending request: the leave is added to employee.leave with the approval details
+  app.post("/api/lists/:id/leave-requests/:requestId/approve", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = leaveDecisionSchema.safeParse(req.body ?? {});
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid leave decision data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const request = await storage.getLeaveRequest(Number(req.params.requestId));
+      if (!request || request.listId !== req.params.id) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      if (request.status !== "pending") {
+        return res.status(409).json({ error: `Leave request is already ${request.status}` });
+      }
+
+      const list = await storage.getEmployeeList(request.listId);
+      const employee = list?.employees.find(e => e.id === request.employeeId);
+      if (!list || !employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      const decidedAt = new Date();
+      const leave = Array.isArray(employee.leave) ? employee.leave : [];
+      const saved = await storage.saveListEmployee(request.listId, {
+        ...employee,
+        leave: [...leave, {
+          id: randomUUID(),
+          startDate: request.startDate,
+          endDate: request.endDate,
+          leaveType: request.leaveType,
+          hoursPerDay: request.hoursPerDay,
+          status: "approved",
+          requestId: request.id,
+          reason: request.reason ?? undefined,
+          approvedBy: req.user!.username,
+          requestedAt: new Date(request.createdAt).toISOString(),
+          decidedAt: decidedAt.toISOString(),
+        }],
+      });
+      await recordListChanges(req.user!, "leave-request", list);
+      const updated = await storage.updateLeaveRequest(request.id, {
+        status: "approved",
+        decidedBy: req.user!.id,
+        decisionReason: validationResult.data.reason ?? null,
+        decidedAt,
+      });
+      await sendNotifications(list, [
+        buildLeaveDecisionNotification(request, "approved", validationResult.data.reason),
+      ]);
+
+      res.json({ request: updated, employee: saved });
+    } catch (error) {
+      console.error("Error approving leave request:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Reject a pending request; employee.leave is not touched
+  app.post("/api/lists/:id/leave-requests/:requestId/reject", requireRole("supervisor"), async (req, res) => {
+    try {
+      const validationResult = leaveDecisionSchema.safeParse(req.body ?? {});
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid leave decision data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const request = await storage.getLeaveRequest(Number(req.params.requestId));
+      if (!request || request.listId !== req.params.id) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      if (request.status !== "pending") {
+        return res.status(409).json({ error: `Leave request is already ${request.status}` });
+      }
+
+      const updated = await storage.updateLeaveRequest(request.id, {
+        status: "rejected",
+        decidedBy: req.user!.id,
+        decisionReason: validationResult.data.reason ?? null,
+        decidedAt: new Date(),
+      });
+      const list = await storage.getEmployeeList(request.listId);
+      if (list) {
+        await sendNotifications(list, [
+          buildLeaveDecisionNotification(request, "rejected", validationResult.data.reason),
+        ]);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rejecting leave request:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Cancel a pending or approved request (the employee who owns it or an editor);
+  // an approved leave stays in employee.leave marked as cancelled and stops blocking days
+  app.post("/api/lists/:id/leave-requests/:requestId/cancel", authorizeList("read"), async (req, res) => {
+    try {
+      const request = await storage.getLeaveRequest(Number(req.params.requestId));
+      if (!request || request.listId !== req.params.id) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+
+      const list = await storage.getEmployeeList(request.listId);
+      const employee = list?.employees.find(e => e.id === request.employeeId);
+      const allowed = employee
+        ? await canActForEmployee(req.user!, request.listId, employee)
+        : await canAccessList(req.user!, request.listId, "write");
+      if (!allowed) {
+        return res.status(403).json({ error: FORBIDDEN_MESSAGE });
+      }
+      if (request.status !== "pending" && request.status !== "approved") {
+        return res.status(409).json({ error: `Leave request is already ${request.status}` });
+      }
+
+      let saved = employee;
+      if (employee && request.status === "approved" && Array.isArray(employee.leave)) {
+        saved = await storage.saveListEmployee(request.listId, {
+          ...employee,
+          leave: employee.leave.map((entry: { requestId?: number }) =>
+            entry.requestId === request.id ? { ...entry, status: "cancelled" } : entry
+          ),
+        });
+        await recordListChanges(req.user!, "leave-request", list!);
+      }
+      const updated = await storage.updateLeaveRequest(request.id, {
+        status: "cancelled",
+        cancelledAt: new Date(),
+      });
+
+      res.json({
+        request: updated,
+        employee: saved ? (await viewEmployeesAs(req.user!, list!, [saved]))[0] : null,
+      });
+    } catch (error) {
+      console.error("Error cancelling leave request:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Printable roster ---
+
+  // PDF roster of the list, one week per page. The period defaults to the list rules
+  // (?startDate=&endDate= override it) and ?employeeIds=a,b limits the rows to the
+  // employees selected in the grid; employees only get their own row.
+  app.get("/api/lists/:id/roster.pdf", authorizeList("read"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      const validationResult = schedulePeriodSchema.safeParse({
+        startDate: req.query.startDate ?? list.rules.startDate,
+        endDate: req.query.endDate ?? list.rules.endDate,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid schedule period",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { startDate, endDate } = validationResult.data;
+      const visibleList = await viewListAs(req.user!, list);
+      const employeeIds = typeof req.query.employeeIds === "string"
+        ? new Set(req.query.employeeIds.split(",").filter(Boolean))
+        : null;
+      const employees = visibleList.employees.filter(employee => !employeeIds || employeeIds.has(employee.id));
+      const roster = buildRoster({
+        name: visibleList.name,
+        employees: employees as ScheduleEmployee[],
+        shifts: visibleList.shifts,
+        shiftData: visibleList.shiftData,
+      }, startDate, endDate);
+
+      const fileName = `roster-${startDate}-to-${endDate}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(renderRosterPdf(roster));
+    } catch (error) {
+      console.error("Error generating roster PDF:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Shift swaps ---
+
+  // Audit trail of the shift swaps of a list
+  app.get("/api/lists/:id/shift-swaps", authorizeList("write"), async (req, res) => {
+    try {
+      const swaps = await storage.getShiftSwaps(req.params.id);
+      res.json(swaps);
+    } catch (error) {
+      console.error("Error fetching shift swaps:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Swap the shifts of two employees; both manualShifts and the audit record are saved together
+  app.post("/api/lists/:id/shift-swaps", authorizeList("write"), async (req, res) => {
+    try {
+      const validationResult = insertShiftSwapSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid shift swap data",
+          details: validationResult.error.errors
+        });
+      }
+
+      const swapRequest = validationResult.data;
+      const list = await storage.getEmployeeList(req.params.id);
+      const employee = list?.employees.find(e => e.id === swapRequest.employeeId);
+      const counterpart = list?.employees.find(e => e.id === swapRequest.counterpartEmployeeId);
+      if (!list || !employee || !counterpart) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      const plan = planShiftSwap(
+        employee as StoredEmployee & ScheduleEmployee,
+        counterpart as StoredEmployee & ScheduleEmployee,
+        swapRequest,
+        list.shifts,
+        list.rules
+      );
+      if (plan.errors.length > 0) {
+        return res.status(409).json({ error: "Shift swap is not allowed", details: plan.errors });
+      }
+
+      const swap = await storage.swapShifts(list.id, [plan.employee, plan.counterpart], {
+        ...swapRequest,
+        changes: plan.changes,
+        swappedBy: req.user!.id,
+      });
+      await recordListChanges(req.user!, "shift-swap", list);
+      await sendNotifications(list, buildSwapNotifications(list, plan.changes, list.shifts));
+      res.status(201).json({ swap, employees: [plan.employee, plan.counterpart] });
+    } catch (error) {
+      console.error("Error swapping shifts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Schedule publishing ---
+
+  // Published versions of the schedule, oldest first (without their snapshots)
+  app.get("/api/lists/:id/publications", authorizeList("write"), async (req, res) => {
+    try {
+      const publications = await storage.getSchedulePublications(req.params.id);
+      res.json(publications.map(toPublicationSummary));
+    } catch (error) {
+      console.error("Error fetching schedule publications:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Publish the current draft for a period (defaults to the list rules). The snapshot never
+  // changes afterwards; employees see the latest publication that covers each date and are
+  // notified when it changes shifts they already had published.
+  app.post("/api/lists/:id/publications", authorizeList("write"), async (req, res) => {
+    try {
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list) {
+        return res.status(404).json({ error: "Employee list not found" });
+      }
+
+      const validationResult = schedulePeriodSchema.safeParse({
+        startDate: req.body?.startDate ?? list.rules.startDate,
+        endDate: req.body?.endDate ?? list.rules.endDate,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid schedule period",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { startDate, endDate } = validationResult.data;
+      const previous = await storage.getSchedulePublications(list.id);
+      const publication = await storage.createSchedulePublication(list.id, {
+        startDate,
+        endDate,
+        snapshot: buildScheduleSnapshot({
+          employees: list.employees as ScheduleEmployee[],
+          shifts: list.shifts,
+        }, startDate, endDate),
+        publishedBy: req.user!.id,
+      });
+      await sendNotifications(list, buildPublicationNotifications(
+        diffWithPreviousPublications(previous, publication!),
+        publication!.snapshot.shifts,
+        publication!.version
+      ));
+      res.status(201).json(toPublicationSummary(publication!));
+    } catch (error) {
+      console.error("Error publishing schedule:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // A published version with its snapshot
+  app.get("/api/lists/:id/publications/:publicationId", authorizeList("write"), async (req, res) => {
+    try {
+      const publication = await storage.getSchedulePublication(Number(req.params.publicationId));
+
+      if (!publication || publication.listId !== req.params.id) {
+        return res.status(404).json({ error: "Publication not found" });
+      }
+
+      res.json(publication);
+    } catch (error) {
+      console.error("Error fetching schedule publication:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Changes of the current draft since a published version, over that version's period
+  app.get("/api/lists/:id/publications/:publicationId/diff", authorizeList("write"), async (req, res) => {
+    try {
+      const publication = await storage.getSchedulePublication(Number(req.params.publicationId));
+      const list = await storage.getEmployeeList(req.params.id);
+
+      if (!list || !publication || publication.listId !== list.id) {
+        return res.status(404).json({ error: "Publication not found" });
+      }
+
+      const draft = buildScheduleSnapshot({
+        employees: list.employees as ScheduleEmployee[],
+        shifts: list.shifts,
+      }, publication.startDate, publication.endDate);
+      res.json({
+        publication: toPublicationSummary(publication),
+        ...diffScheduleSnapshots(publication, draft),
+      });
+    } catch (error) {
+      console.error("Error comparing draft with publication:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Notifications ---
+
+  // Inbox of the current user: notifications of the employees linked to the account, newest first
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      const notifications = await storage.getNotifications(await getLinkedEmployees(req.user!));
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", async (req, res) => {
+    try {
+      const notifications = await storage.getNotifications(await getLinkedEmployees(req.user!));
+      await storage.markNotificationsRead(notifications.filter(n => !n.readAt).map(n => n.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:notificationId/read", async (req, res) => {
+    try {
+      const notifications = await storage.getNotifications(await getLinkedEmployees(req.user!));
+      const notification = notifications.find(n => n.id === Number(req.params.notificationId));
+
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      await storage.markNotificationsRead([notification.id]);
+      res.json({ ...notification, readAt: notification.readAt ?? new Date() });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // --- Audit log ---
+
+  // Audit events of a list, newest first, optionally filtered with ?employeeId=&date=&field=
+  app.get("/api/lists/:id/audit-events", authorizeList("write"), async (req, res) => {
+    try {
+      const validationResult = auditEventFiltersSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid audit filters",
+          details: validationResult.error.errors
+        });
+      }
+
+      const events = await storage.getAuditEvents(req.params.id, validationResult.data);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Handle 404 for undefined routes
   app.use("/api/*", (req, res) => {
     res.status(404).json({ error: "API endpoint not found" });
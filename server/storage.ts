@@ -1,4 +1,38 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { randomUUID } from "crypto";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type UserRole,
+  type EmployeeListRecord,
+  type InsertEmployeeList,
+  type UpdateEmployeeList,
+  type StoredEmployee,
+  type StoredShift,
+  type LeaveRequest,
+  type InsertLeaveRequest,
+  type LeaveRequestChanges,
+  type ShiftSwap,
+  type NewShiftSwapRecord,
+  type CalendarFeed,
+  type NewCalendarFeed,
+  type AuditEvent,
+  type NewAuditEvent,
+  type AuditEventFilters,
+  type SchedulePublication,
+  type NewSchedulePublication,
+  type Notification,
+  type NewNotification,
+} from "@shared/schema";
+import { auditEventCoversDate } from "@shared/auditLog";
+import { DatabaseStorage } from "./databaseStorage";
+import { hashPassword } from "./password";
+
+// Empleado de una lista que recibe avisos
+export interface NotificationRecipient {
+  listId: string;
+  employeeId: string;
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -9,24 +43,111 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  // Guarda el usuario con la contraseña hasheada
   insertUser(user: InsertUser): Promise<User>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+
+  // Listas asignadas a un usuario scheduler
+  getAssignedListIds(userId: number): Promise<string[]>;
+  setAssignedListIds(userId: number, listIds: string[]): Promise<void>;
+
+  // Listas de empleados con sus empleados, turnos y reglas
+  getEmployeeLists(): Promise<EmployeeListRecord[]>;
+  getEmployeeList(id: string): Promise<EmployeeListRecord | undefined>;
+  createEmployeeList(list: InsertEmployeeList): Promise<EmployeeListRecord>;
+  updateEmployeeList(id: string, data: UpdateEmployeeList): Promise<EmployeeListRecord | undefined>;
+  deleteEmployeeList(id: string): Promise<boolean>;
+  // Crea o reemplaza un empleado/turno; undefined si la lista no existe
+  saveListEmployee(listId: string, employee: StoredEmployee): Promise<StoredEmployee | undefined>;
+  deleteListEmployee(listId: string, employeeId: string): Promise<boolean>;
+  saveListShift(listId: string, shift: StoredShift): Promise<StoredShift | undefined>;
+  deleteListShift(listId: string, shiftId: string): Promise<boolean>;
+
+  // Cola de solicitudes de ausencia de cada lista
+  getLeaveRequests(listId: string): Promise<LeaveRequest[]>;
+  getLeaveRequest(id: number): Promise<LeaveRequest | undefined>;
+  createLeaveRequest(listId: string, requestedBy: number, request: InsertLeaveRequest): Promise<LeaveRequest>;
+  updateLeaveRequest(id: number, changes: LeaveRequestChanges): Promise<LeaveRequest | undefined>;
+
+  // Intercambios de turnos: guarda los dos empleados y el registro de auditoría a la vez
+  getShiftSwaps(listId: string): Promise<ShiftSwap[]>;
+  swapShifts(listId: string, employees: StoredEmployee[], swap: NewShiftSwapRecord): Promise<ShiftSwap | undefined>;
+
+  // Suscripción al calendario de un empleado: un token vigente por empleado
+  getCalendarFeed(listId: string, employeeId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  // Guarda el nuevo token y revoca el anterior del mismo empleado
+  replaceCalendarFeed(feed: NewCalendarFeed): Promise<CalendarFeed>;
+
+  // Horarios publicados: se numeran por lista y no se modifican
+  getSchedulePublications(listId: string): Promise<SchedulePublication[]>;
+  getSchedulePublication(id: number): Promise<SchedulePublication | undefined>;
+  createSchedulePublication(listId: string, publication: NewSchedulePublication): Promise<SchedulePublication | undefined>;
+
+  // Avisos a los empleados; recipients son los empleados (de cualquier lista) de un usuario
+  createNotifications(notifications: NewNotification[]): Promise<Notification[]>;
+  getNotifications(recipients: NotificationRecipient[]): Promise<Notification[]>;
+  markNotificationsRead(ids: number[]): Promise<void>;
+
+  // Registro de auditoría: solo se añaden eventos, nunca se modifican ni se borran
+  appendAuditEvents(events: NewAuditEvent[]): Promise<AuditEvent[]>;
+  // Eventos de una lista, del más reciente al más antiguo
+  getAuditEvents(listId: string, filters?: AuditEventFilters): Promise<AuditEvent[]>;
+}
+
+// Copia profunda para que quien llama no pueda modificar el estado guardado
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Nueva versión (updatedAt) de una lista: siempre posterior a la anterior, aunque se guarde
+// dos veces en el mismo milisegundo, para que If-Match detecte cualquier cambio intermedio
+const nextUpdatedAt = (previous: string): string => {
+  const now = Date.now();
+  const last = Date.parse(previous);
+  return new Date(now > last ? now : last + 1).toISOString();
+};
+
+/**
+ * Inserta o reemplaza un elemento por ID conservando su posición
+ */
+export function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex(existing => existing.id === item.id);
+  if (index === -1) return [...items, item];
+  return items.map((existing, i) => (i === index ? item : existing));
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private employeeLists: Map<string, EmployeeListRecord>;
+  private listAssignments: Map<number, string[]>;
+  private leaveRequests: Map<number, LeaveRequest>;
+  private shiftSwaps: Map<number, ShiftSwap>;
+  private calendarFeeds: Map<string, CalendarFeed>;
+  private auditEvents: AuditEvent[];
+  private schedulePublications: Map<number, SchedulePublication>;
+  private notifications: Map<number, Notification>;
   currentId: number;
+  private currentLeaveRequestId: number;
+  private currentShiftSwapId: number;
+  private currentAuditEventId: number;
+  private currentPublicationId: number;
+  private currentNotificationId: number;
 
   constructor() {
     this.users = new Map();
+    this.employeeLists = new Map();
+    this.listAssignments = new Map();
+    this.leaveRequests = new Map();
+    this.shiftSwaps = new Map();
+    this.calendarFeeds = new Map();
+    this.auditEvents = [];
+    this.schedulePublications = new Map();
+    this.notifications = new Map();
     this.currentId = 1;
-    
-    // Initialize with some test data
-    this.initializeTestData();
-  }
-
-  private async initializeTestData() {
-    await this.createUser({ username: "admin", password: "admin123" });
-    await this.createUser({ username: "user1", password: "password1" });
+    this.currentLeaveRequestId = 1;
+    this.currentShiftSwapId = 1;
+    this.currentAuditEventId = 1;
+    this.currentPublicationId = 1;
+    this.currentNotificationId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -49,7 +170,7 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, password: await hashPassword(insertUser.password) };
     this.users.set(id, user);
     return user;
   }
@@ -57,6 +178,267 @@ export class MemStorage implements IStorage {
   async insertUser(insertUser: InsertUser): Promise<User> {
     return this.createUser(insertUser);
   }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getAssignedListIds(userId: number): Promise<string[]> {
+    // Solo listas que siguen existiendo (en la base de datos se borran en cascada)
+    return (this.listAssignments.get(userId) || []).filter(id => this.employeeLists.has(id));
+  }
+
+  async setAssignedListIds(userId: number, listIds: string[]): Promise<void> {
+    this.listAssignments.set(userId, Array.from(new Set(listIds)));
+  }
+
+  async getEmployeeLists(): Promise<EmployeeListRecord[]> {
+    return Array.from(this.employeeLists.values()).map(clone);
+  }
+
+  async getEmployeeList(id: string): Promise<EmployeeListRecord | undefined> {
+    const list = this.employeeLists.get(id);
+    return list ? clone(list) : undefined;
+  }
+
+  async createEmployeeList(insertList: InsertEmployeeList): Promise<EmployeeListRecord> {
+    const { id, ...data } = insertList;
+    const list: EmployeeListRecord = {
+      ...clone(data),
+      id: id || randomUUID(),
+      updatedAt: new Date().toISOString(),
+    };
+    this.employeeLists.set(list.id, list);
+    return clone(list);
+  }
+
+  async updateEmployeeList(id: string, data: UpdateEmployeeList): Promise<EmployeeListRecord | undefined> {
+    const existing = this.employeeLists.get(id);
+    if (!existing) return undefined;
+
+    const list: EmployeeListRecord = {
+      ...existing,
+      ...clone(data),
+      id,
+      updatedAt: nextUpdatedAt(existing.updatedAt),
+    };
+    this.employeeLists.set(id, list);
+    return clone(list);
+  }
+
+  async deleteEmployeeList(id: string): Promise<boolean> {
+    return this.employeeLists.delete(id);
+  }
+
+  async saveListEmployee(listId: string, employee: StoredEmployee): Promise<StoredEmployee | undefined> {
+    const list = this.employeeLists.get(listId);
+    if (!list) return undefined;
+    await this.updateEmployeeList(listId, { employees: upsertById(list.employees, clone(employee)) });
+    return clone(employee);
+  }
+
+  async deleteListEmployee(listId: string, employeeId: string): Promise<boolean> {
+    const list = this.employeeLists.get(listId);
+    if (!list || !list.employees.some(e => e.id === employeeId)) return false;
+    await this.updateEmployeeList(listId, { employees: list.employees.filter(e => e.id !== employeeId) });
+    return true;
+  }
+
+  async saveListShift(listId: string, shift: StoredShift): Promise<StoredShift | undefined> {
+    const list = this.employeeLists.get(listId);
+    if (!list) return undefined;
+    await this.updateEmployeeList(listId, { shifts: upsertById(list.shifts, clone(shift)) });
+    return clone(shift);
+  }
+
+  async deleteListShift(listId: string, shiftId: string): Promise<boolean> {
+    const list = this.employeeLists.get(listId);
+    if (!list || !list.shifts.some(s => s.id === shiftId)) return false;
+    await this.updateEmployeeList(listId, { shifts: list.shifts.filter(s => s.id !== shiftId) });
+    return true;
+  }
+
+  async getLeaveRequests(listId: string): Promise<LeaveRequest[]> {
+    // Las solicitudes de listas eliminadas desaparecen con ellas (en la base de datos, en cascada)
+    if (!this.employeeLists.has(listId)) return [];
+    return Array.from(this.leaveRequests.values())
+      .filter(request => request.listId === listId)
+      .map(clone);
+  }
+
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    const request = this.leaveRequests.get(id);
+    return request && this.employeeLists.has(request.listId) ? clone(request) : undefined;
+  }
+
+  async createLeaveRequest(listId: string, requestedBy: number, data: InsertLeaveRequest): Promise<LeaveRequest> {
+    const request: LeaveRequest = {
+      ...data,
+      id: this.currentLeaveRequestId++,
+      listId,
+      requestedBy,
+      reason: data.reason ?? null,
+      status: "pending",
+      decidedBy: null,
+      decisionReason: null,
+      decidedAt: null,
+      cancelledAt: null,
+      createdAt: new Date(),
+    };
+    this.leaveRequests.set(request.id, request);
+    return clone(request);
+  }
+
+  async updateLeaveRequest(id: number, changes: LeaveRequestChanges): Promise<LeaveRequest | undefined> {
+    const request = this.leaveRequests.get(id);
+    if (!request) return undefined;
+    const updated = { ...request, ...changes };
+    this.leaveRequests.set(id, updated);
+    return clone(updated);
+  }
+
+  async getShiftSwaps(listId: string): Promise<ShiftSwap[]> {
+    if (!this.employeeLists.has(listId)) return [];
+    return Array.from(this.shiftSwaps.values())
+      .filter(swap => swap.listId === listId)
+      .map(clone);
+  }
+
+  async swapShifts(listId: string, employees: StoredEmployee[], swap: NewShiftSwapRecord): Promise<ShiftSwap | undefined> {
+    const list = this.employeeLists.get(listId);
+    if (!list) return undefined;
+
+    // Un único updateEmployeeList: los dos empleados cambian juntos
+    const updatedEmployees = employees.reduce((current, employee) => upsertById(current, clone(employee)), list.employees);
+    await this.updateEmployeeList(listId, { employees: updatedEmployees });
+
+    const record: ShiftSwap = {
+      ...swap,
+      id: this.currentShiftSwapId++,
+      listId,
+      swappedBy: swap.swappedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.shiftSwaps.set(record.id, record);
+    return clone(record);
+  }
+
+  async getCalendarFeed(listId: string, employeeId: string): Promise<CalendarFeed | undefined> {
+    const feed = Array.from(this.calendarFeeds.values())
+      .find(existing => existing.listId === listId && existing.employeeId === employeeId);
+    return feed && clone(feed);
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const feed = this.calendarFeeds.get(token);
+    // Las listas borradas se llevan sus enlaces (como el cascade de la base de datos)
+    if (!feed || !this.employeeLists.has(feed.listId)) return undefined;
+    return clone(feed);
+  }
+
+  async replaceCalendarFeed(feed: NewCalendarFeed): Promise<CalendarFeed> {
+    Array.from(this.calendarFeeds.values())
+      .filter(existing => existing.listId === feed.listId && existing.employeeId === feed.employeeId)
+      .forEach(existing => this.calendarFeeds.delete(existing.token));
+
+    const record: CalendarFeed = { ...feed, createdBy: feed.createdBy ?? null, createdAt: new Date() };
+    this.calendarFeeds.set(record.token, record);
+    return clone(record);
+  }
+
+  async getSchedulePublications(listId: string): Promise<SchedulePublication[]> {
+    if (!this.employeeLists.has(listId)) return [];
+    return Array.from(this.schedulePublications.values())
+      .filter(publication => publication.listId === listId)
+      .map(clone);
+  }
+
+  async getSchedulePublication(id: number): Promise<SchedulePublication | undefined> {
+    const publication = this.schedulePublications.get(id);
+    return publication && this.employeeLists.has(publication.listId) ? clone(publication) : undefined;
+  }
+
+  async createSchedulePublication(listId: string, publication: NewSchedulePublication): Promise<SchedulePublication | undefined> {
+    if (!this.employeeLists.has(listId)) return undefined;
+    const versions = (await this.getSchedulePublications(listId)).map(existing => existing.version);
+    const record: SchedulePublication = {
+      ...clone(publication),
+      id: this.currentPublicationId++,
+      listId,
+      version: Math.max(0, ...versions) + 1,
+      publishedBy: publication.publishedBy ?? null,
+      publishedAt: new Date(),
+    };
+    this.schedulePublications.set(record.id, record);
+    return clone(record);
+  }
+
+  async createNotifications(notifications: NewNotification[]): Promise<Notification[]> {
+    const createdAt = new Date();
+    const records = notifications.map((notification): Notification => ({
+      ...notification,
+      id: this.currentNotificationId++,
+      email: notification.email ?? null,
+      readAt: null,
+      createdAt,
+    }));
+    records.forEach(record => this.notifications.set(record.id, record));
+    return records.map(clone);
+  }
+
+  async getNotifications(recipients: NotificationRecipient[]): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        this.employeeLists.has(notification.listId) &&
+        recipients.some(r => r.listId === notification.listId && r.employeeId === notification.employeeId)
+      )
+      .reverse()
+      .map(clone);
+  }
+
+  async markNotificationsRead(ids: number[]): Promise<void> {
+    const readAt = new Date();
+    ids.forEach(id => {
+      const notification = this.notifications.get(id);
+      if (notification && !notification.readAt) this.notifications.set(id, { ...notification, readAt });
+    });
+  }
+
+  async appendAuditEvents(events: NewAuditEvent[]): Promise<AuditEvent[]> {
+    const createdAt = new Date();
+    const records = events.map((event): AuditEvent => ({
+      ...clone(event),
+      id: this.currentAuditEventId++,
+      userId: event.userId ?? null,
+      employeeId: event.employeeId ?? null,
+      date: event.date ?? null,
+      endDate: event.endDate ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      createdAt,
+    }));
+    this.auditEvents.push(...records);
+    return records.map(clone);
+  }
+
+  async getAuditEvents(listId: string, filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter(event =>
+        event.listId === listId &&
+        (!filters.employeeId || event.employeeId === filters.employeeId) &&
+        (!filters.field || event.field === filters.field) &&
+        (!filters.date || auditEventCoversDate(event, filters.date))
+      )
+      .reverse()
+      .map(clone);
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres cuando hay DATABASE_URL; en desarrollo sin base de datos y en pruebas, memoria
+export const storage: IStorage = process.env.DATABASE_URL && process.env.NODE_ENV !== "test"
+  ? new DatabaseStorage()
+  : new MemStorage();
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { auditEventCoversDate, diffListForAudit, type AuditedList } from '../auditLog';
+
+const before: AuditedList = {
+  employees: [
+    {
+      id: 'A',
+      name: 'Ana',
+      email: 'ana@example.com',
+      manualShifts: { '2026-11-02': 'uid_day', '2026-11-03': 'uid_day' },
+      fixedShifts: { Monday: ['uid_day'], Tuesday: ['uid_day'] },
+      leave: [{ id: 'lv1', startDate: '2026-11-10', endDate: '2026-11-12', leaveType: 'Vacation', hoursPerDay: 8 }]
+    },
+    { id: 'L', name: 'Luis', lockedShifts: { '2026-11-04': 'uid_night' } }
+  ],
+  shifts: [{ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' }],
+  rules: { maxConsecutiveShifts: '5', minRestHoursBetweenShifts: '8' }
+};
+
+describe('diffListForAudit', () => {
+  it('debería guardar un evento por celda, ausencia, turno fijo y regla que cambian', () => {
+    const [ana] = before.employees;
+    const after: AuditedList = {
+      ...before,
+      employees: [
+        {
+          ...ana,
+          email: 'ana@other.com',
+          manualShifts: { '2026-11-03': 'uid_night' },
+          fixedShifts: { Monday: ['uid_day'], Tuesday: ['day-off'] },
+          leave: [{ ...(ana.leave as object[])[0], status: 'cancelled' }]
+        },
+        before.employees[1]
+      ],
+      rules: { maxConsecutiveShifts: '4', minRestHoursBetweenShifts: '8' }
+    };
+
+    expect(diffListForAudit(before, after)).toEqual([
+      { field: 'manualShifts', employeeId: 'A', date: '2026-11-02', endDate: null, before: 'uid_day', after: null },
+      { field: 'manualShifts', employeeId: 'A', date: '2026-11-03', endDate: null, before: 'uid_day', after: 'uid_night' },
+      {
+        field: 'leave',
+        employeeId: 'A',
+        date: '2026-11-10',
+        endDate: '2026-11-12',
+        before: (ana.leave as object[])[0],
+        after: { ...(ana.leave as object[])[0], status: 'cancelled' }
+      },
+      { field: 'fixedShifts', employeeId: 'A', date: null, endDate: null, before: { Tuesday: ['uid_day'] }, after: { Tuesday: ['day-off'] } },
+      { field: 'rules', employeeId: null, date: null, endDate: null, before: { maxConsecutiveShifts: '5' }, after: { maxConsecutiveShifts: '4' } }
+    ]);
+  });
+
+  it('debería registrar empleados y turnos añadidos o eliminados', () => {
+    const after: AuditedList = {
+      ...before,
+      employees: [before.employees[0], { id: 'E', name: 'Eva' }],
+      shifts: [{ id: 'uid_day', startTime: '8:00 AM', endTime: '4:00 PM' }]
+    };
+
+    expect(diffListForAudit(before, after)).toEqual([
+      { field: 'employee', employeeId: 'E', date: null, endDate: null, before: null, after: { name: 'Eva' } },
+      {
+        field: 'employee',
+        employeeId: 'L',
+        date: null,
+        endDate: null,
+        before: { name: 'Luis', lockedShifts: { '2026-11-04': 'uid_night' } },
+        after: null
+      },
+      { field: 'shift', employeeId: null, date: null, endDate: null, before: before.shifts[0], after: after.shifts[0] }
+    ]);
+    expect(diffListForAudit(before, before)).toEqual([]);
+  });
+
+  it('debería registrar como eliminado todo lo que tenía una lista borrada', () => {
+    expect(diffListForAudit(before, null).map(change => [change.field, change.employeeId, change.after])).toEqual([
+      ['employee', 'A', null],
+      ['employee', 'L', null],
+      ['shift', null, null],
+      ['rules', null, {}]
+    ]);
+    expect(diffListForAudit(before, null)[0].before).toMatchObject({ name: 'Ana', manualShifts: before.employees[0].manualShifts });
+  });
+});
+
+describe('auditEventCoversDate', () => {
+  it('debería incluir el día de la celda y todo el rango de una ausencia', () => {
+    expect(auditEventCoversDate({ date: '2026-11-03', endDate: null }, '2026-11-03')).toBe(true);
+    expect(auditEventCoversDate({ date: '2026-11-10', endDate: '2026-11-12' }, '2026-11-11')).toBe(true);
+    expect(auditEventCoversDate({ date: '2026-11-10', endDate: '2026-11-12' }, '2026-11-13')).toBe(false);
+    expect(auditEventCoversDate({ date: null, endDate: null }, '2026-11-03')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { CertifiedEmployee, getExpiringCertifications, getMissingCertifications, isCertificationValid } from '../certifications';
+
+const employees: CertifiedEmployee[] = [
+  {
+    id: 'A',
+    name: 'Ana',
+    certifications: [{ name: 'BLS', expiresOn: '2026-11-15' }, { name: 'ACLS', expiresOn: '2027-03-01' }]
+  },
+  { id: 'L', name: 'Luis', certifications: [{ name: 'BLS', expiresOn: '2026-10-10' }, { name: 'PALS' }] }
+];
+
+describe('certifications', () => {
+  it('debería tratar la certificación como vigente hasta el día de caducidad incluido', () => {
+    expect(isCertificationValid({ name: 'BLS', expiresOn: '2026-11-15' }, '2026-11-15')).toBe(true);
+    expect(isCertificationValid({ name: 'BLS', expiresOn: '2026-11-15' }, '2026-11-16')).toBe(false);
+    expect(isCertificationValid({ name: 'PALS' }, '2099-01-01')).toBe(true);
+
+    const shift = { id: 'day', startTime: '7:00 AM', endTime: '7:00 PM', requiredCertifications: ['BLS', 'PALS'] };
+    expect(getMissingCertifications(employees[0], shift, '2026-11-20')).toEqual([
+      { name: 'BLS', expiredOn: '2026-11-15' },
+      { name: 'PALS' }
+    ]);
+    expect(getMissingCertifications(employees[1], { ...shift, requiredCertifications: ['PALS'] }, '2026-11-20')).toEqual([]);
+  });
+
+  it('debería listar las certificaciones que caducan en la ventana, incluidas las caducadas', () => {
+    const expiring = getExpiringCertifications(employees, '2026-10-19', 30);
+    expect(expiring).toEqual([
+      { employeeId: 'L', employeeName: 'Luis', name: 'BLS', expiresOn: '2026-10-10', daysLeft: -9 },
+      { employeeId: 'A', employeeName: 'Ana', name: 'BLS', expiresOn: '2026-11-15', daysLeft: 27 }
+    ]);
+    expect(getExpiringCertifications(employees, '2026-10-19', 90)).toHaveLength(2);
+    expect(getExpiringCertifications(employees, '2026-12-05', 90).map(item => item.name)).toEqual(['BLS', 'BLS', 'ACLS']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createDataBundle, findBundleConflicts, hasBlockingConflicts, mergeEmployeeLists } from '../dataBundle';
+
+const list = (id: string, employeeIds: string[], extra: Record<string, unknown> = {}) => ({
+  id,
+  name: `List ${id}`,
+  employees: employeeIds.map(employeeId => ({ id: employeeId, name: employeeId })),
+  shifts: [{ id: 'uid_day' }],
+  ...extra
+});
+
+describe('createDataBundle', () => {
+  it('debería versionar el paquete y quitar updatedAt', () => {
+    const bundle = createDataBundle([list('L1', ['A'], { updatedAt: '2026-10-01T00:00:00.000Z' })], new Date('2026-10-19T08:00:00Z'));
+
+    expect(bundle).toMatchObject({ format: 'waok-schedule-data', version: 1, exportedAt: '2026-10-19T08:00:00.000Z' });
+    expect(bundle.lists[0]).not.toHaveProperty('updatedAt');
+  });
+
+  it('debería quitar los enlaces de los empleados con cuentas de usuario', () => {
+    const linked = { ...list('L1', []), employees: [{ id: 'A', name: 'Ana', userId: 7 }] };
+
+    expect(createDataBundle([linked]).lists[0].employees).toEqual([{ id: 'A', name: 'Ana' }]);
+  });
+});
+
+describe('findBundleConflicts', () => {
+  it('debería detectar IDs repetidos en el paquete y los que ya existen', () => {
+    const conflicts = findBundleConflicts(
+      [list('L1', ['A', 'B', 'A']), list('L1', []), list('L2', ['C'])],
+      [list('L2', ['C', 'D'])]
+    );
+
+    expect(conflicts).toEqual({
+      duplicateListIds: ['L1'],
+      duplicateEmployeeIds: [{ listId: 'L1', employeeIds: ['A'] }],
+      existingListIds: ['L2'],
+      existingEmployeeIds: [{ listId: 'L2', employeeIds: ['C'] }]
+    });
+    expect(hasBlockingConflicts(conflicts)).toBe(true);
+    expect(hasBlockingConflicts(findBundleConflicts([list('L2', ['C'])], [list('L2', ['C'])]))).toBe(false);
+  });
+});
+
+describe('mergeEmployeeLists', () => {
+  it('debería actualizar por ID y conservar nombre y orden de la lista existente', () => {
+    const existing = list('L1', ['A', 'B'], { priorities: { uid_day: { Monday: true } } });
+    const incoming = {
+      ...list('L1', ['B', 'C'], { priorities: { uid_night: { Friday: true } } }),
+      name: 'Other name',
+      employees: [{ id: 'B', name: 'Bea' }, { id: 'C', name: 'Carla' }]
+    };
+
+    const merged = mergeEmployeeLists(existing, incoming);
+
+    expect(merged.name).toBe('List L1');
+    expect(merged.employees).toEqual([{ id: 'A', name: 'A' }, { id: 'B', name: 'Bea' }, { id: 'C', name: 'Carla' }]);
+    expect(merged.shifts).toEqual([{ id: 'uid_day' }]);
+    expect(merged.priorities).toEqual({ uid_day: { Monday: true }, uid_night: { Friday: true } });
+  });
+});
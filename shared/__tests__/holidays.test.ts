@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCountryHolidays,
+  getEasterSunday,
+  getHolidayHours,
+  mergeHolidays,
+  parseHolidayCalendar
+} from '../holidays';
+import { ScheduleEmployee } from '../schedule';
+
+describe('holidays', () => {
+  it('debería calcular los festivos nacionales sin conexión, con Navidad y Año Nuevo en el mismo grupo', () => {
+    expect(getEasterSunday(2026)).toBe('2026-04-05');
+    expect(getEasterSunday(2027)).toBe('2027-03-28');
+
+    const us = getCountryHolidays('US', '2026-11-01', '2027-01-31');
+    expect(us.map(h => `${h.date} ${h.name}`)).toEqual([
+      '2026-11-11 Veterans Day',
+      '2026-11-26 Thanksgiving Day',
+      '2026-12-25 Christmas Day',
+      "2027-01-01 New Year's Day",
+      '2027-01-18 Martin Luther King Jr. Day'
+    ]);
+    expect(us.filter(h => h.group === 'Year-end 2026')).toHaveLength(2);
+
+    expect(getCountryHolidays('CA', '2026-05-01', '2026-05-31').map(h => h.date)).toEqual(['2026-05-18']);
+    expect(getCountryHolidays('GB', '2026-04-01', '2026-04-30').map(h => h.name)).toEqual(['Good Friday', 'Easter Monday']);
+    expect(getCountryHolidays('XX', '2026-01-01', '2026-12-31')).toEqual([]);
+  });
+
+  it('debería importar los eventos de un archivo .ics como festivos', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261224',
+      'DTEND;VALUE=DATE:20261226',
+      'SUMMARY:Christmas\\, Eve and Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20270101T000000Z',
+      'SUMMARY:New Year',
+      " 's Day",
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    expect(parseHolidayCalendar(ics)).toEqual([
+      { date: '2026-12-24', name: 'Christmas, Eve and Day' },
+      { date: '2026-12-25', name: 'Christmas, Eve and Day' },
+      { date: '2027-01-01', name: "New Year's Day" }
+    ]);
+    expect(parseHolidayCalendar('not a calendar')).toEqual([]);
+  });
+
+  it('debería reemplazar los festivos de la misma fecha al combinar calendarios', () => {
+    const merged = mergeHolidays(
+      [{ date: '2026-12-25', name: 'Navidad' }, { date: '2026-12-08', name: 'Inmaculada' }],
+      [{ date: '2026-12-25', name: 'Christmas Day', group: 'Year-end 2026' }]
+    );
+    expect(merged).toEqual([
+      { date: '2026-12-08', name: 'Inmaculada' },
+      { date: '2026-12-25', name: 'Christmas Day', group: 'Year-end 2026' }
+    ]);
+  });
+
+  it('debería contar aparte las horas trabajadas en festivos', () => {
+    const shifts = [
+      { id: 'day', startTime: '7:00 AM', endTime: '3:00 PM', lunchBreakDeduction: 30 },
+      { id: 'night', startTime: '11:00 PM', endTime: '7:00 AM' }
+    ];
+    const employee: ScheduleEmployee = {
+      id: 'A',
+      name: 'Ana',
+      manualShifts: { '2026-12-24': 'day', '2026-12-25': 'night', '2026-12-26': 'day' },
+      leave: [{ id: 'l1', startDate: '2027-01-01', endDate: '2027-01-01', leaveType: 'Vacation', hoursPerDay: 8 }]
+    };
+    const holidays = [
+      { date: '2026-12-25', name: 'Christmas Day' },
+      { date: '2026-12-26', name: 'Boxing Day' },
+      { date: '2027-01-01', name: "New Year's Day" }
+    ];
+
+    expect(getHolidayHours(employee, shifts, holidays, '2026-12-01', '2027-01-31')).toBe(15.5);
+    expect(getHolidayHours(employee, shifts, holidays, '2026-12-26', '2026-12-31')).toBe(7.5);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmployeeCalendar, escapeCalendarText, foldCalendarLine } from '../icalendar';
+
+const shifts = [
+  { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day' },
+  { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', name: 'Night' }
+];
+
+const employee = {
+  id: 'A',
+  name: 'Ana',
+  fixedShifts: { Monday: ['uid_day'] },
+  manualShifts: { '2026-11-03': 'uid_night', '2026-11-04': 'day-off' },
+  shiftComments: { '2026-11-03': 'Covering for Luis, bring badge' },
+  leave: [{ id: 'l1', startDate: '2026-11-06', endDate: '2026-11-06', leaveType: 'Vacation', hoursPerDay: 8 }]
+};
+
+const options = { calendarName: 'Ana - Emergency Room', startDate: '2026-11-02', endDate: '2026-11-06', now: new Date('2026-10-19T12:00:00Z') };
+
+// Eventos del calendario como mapas de propiedades
+const parseEvents = (ics: string) => ics
+  .replace(/\r\n /g, '')
+  .split('BEGIN:VEVENT')
+  .slice(1)
+  .map(block => Object.fromEntries(
+    block.split('\r\n').filter(line => line.includes(':')).map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1)])
+  ));
+
+describe('buildEmployeeCalendar', () => {
+  it('debería generar un evento por turno efectivo con fin al día siguiente en turnos nocturnos', () => {
+    const ics = buildEmployeeCalendar(employee, shifts, options);
+    const events = parseEvents(ics);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Ana - Emergency Room');
+    // Lunes (fijo), martes (manual nocturno) y viernes (ausencia); el miércoles es día libre
+    expect(events.map(event => event.UID)).toEqual([
+      'A-2026-11-02@waok-schedule',
+      'A-2026-11-03@waok-schedule',
+      'A-2026-11-06@waok-schedule'
+    ]);
+    expect(events[0]).toMatchObject({ SUMMARY: 'Day', DTSTART: '20261102T070000', DTEND: '20261102T150000' });
+    expect(events[1]).toMatchObject({ SUMMARY: 'Night', DTSTART: '20261103T230000', DTEND: '20261104T070000' });
+    expect(events[1].DESCRIPTION).toBe('11:00 PM - 7:00 AM\\nCovering for Luis\\, bring badge');
+    expect(events[2]).toMatchObject({ SUMMARY: 'Vacation', 'DTSTART;VALUE=DATE': '20261106', 'DTEND;VALUE=DATE': '20261107' });
+  });
+
+  it('debería escapar el texto y plegar las líneas largas a 75 octetos', () => {
+    expect(escapeCalendarText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+
+    const folded = foldCalendarLine(`DESCRIPTION:${'ñ'.repeat(80)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'ñ'.repeat(80)}`);
+  });
+});
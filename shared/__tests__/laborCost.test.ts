@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildLaborCostReport, getEmployeeHourlyRate, LaborCostEmployee, LaborCostShift } from '../laborCost';
+
+const laborBudget = { budget: 2000, defaultHourlyRate: 20, overtimeMultiplier: 1.5, roleRates: { RN: 40 } };
+
+const dayShift: LaborCostShift = {
+  id: 'day',
+  startTime: '7:00 AM',
+  endTime: '7:00 PM',
+  lunchBreakDeduction: 0,
+  overtimeEntries: [
+    { date: '2026-11-03', quantity: 2, isActive: true },
+    { date: '2026-11-04', quantity: 1, isActive: false }
+  ]
+};
+
+// 2026-11-02 es lunes
+describe('laborCost', () => {
+  it('debería usar la tarifa del empleado, la de su rol o la general', () => {
+    expect(getEmployeeHourlyRate({ role: 'RN', hourlyRate: 35 }, laborBudget)).toBe(35);
+    expect(getEmployeeHourlyRate({ role: 'RN' }, laborBudget)).toBe(40);
+    expect(getEmployeeHourlyRate({ role: 'CNA' }, laborBudget)).toBe(20);
+  });
+
+  it('debería sumar la prima de horas extra y las plazas de horas extra abiertas', () => {
+    // 4 turnos de 12h: 48h, 8 de ellas extra el jueves
+    const employees: LaborCostEmployee[] = [
+      {
+        id: 'A',
+        name: 'Ana',
+        role: 'RN',
+        fixedShifts: { Monday: ['day'], Tuesday: ['day'], Wednesday: ['day'], Thursday: ['day'] }
+      },
+      {
+        id: 'L',
+        name: 'Luis',
+        leave: [{ id: 'l1', startDate: '2026-11-02', endDate: '2026-11-02', leaveType: 'Paid Vacation', hoursPerDay: 8 }]
+      }
+    ];
+
+    const report = buildLaborCostReport({
+      employees,
+      shifts: [dayShift],
+      startDate: '2026-11-02',
+      endDate: '2026-11-08',
+      laborBudget,
+      payrollSettings: { overtimeThreshold: 40 }
+    });
+
+    expect(report.byEmployee[0]).toMatchObject({ hours: 48, overtimeHours: 8, overtimePremium: 160, cost: 2080 });
+    expect(report.byEmployee[1]).toMatchObject({ hours: 8, cost: 160 });
+    // Jueves: 4h normales y 8h extra
+    expect(report.byDay[3]).toMatchObject({ date: '2026-11-05', overtimeHours: 8, cost: 640 });
+    // Solo la entrada activa: 2 plazas de 12h a 20 x 1.5
+    expect(report.byDay[1]).toMatchObject({ openOvertimeSlots: 2, openOvertimeCost: 720 });
+    expect(report.byShift[0]).toMatchObject({ hours: 48, cost: 2080, openOvertimeSlots: 2, openOvertimeCost: 720 });
+    expect(report.totalCost).toBe(2960);
+    expect(report.remaining).toBe(-960);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildPayrollSummary, getNightHours, getPayPeriods, getWeekendHours } from '../payroll';
+import { ScheduleEmployee, ScheduleShift } from '../schedule';
+
+const dayShift: ScheduleShift = { id: 'day', startTime: '8:00 AM', endTime: '6:00 PM', lunchBreakDeduction: 0 };
+const nightShift: ScheduleShift = { id: 'night', startTime: '10:00 PM', endTime: '8:00 AM', lunchBreakDeduction: 60 };
+
+// 2026-11-02 es lunes
+describe('payroll', () => {
+  it('debería dividir el horario en periodos de pago desde la fecha de inicio', () => {
+    expect(getPayPeriods('2026-11-02', '2026-11-20', 7)).toEqual([
+      { startDate: '2026-11-02', endDate: '2026-11-08' },
+      { startDate: '2026-11-09', endDate: '2026-11-15' },
+      { startDate: '2026-11-16', endDate: '2026-11-20' }
+    ]);
+  });
+
+  it('debería medir las horas nocturnas y de fin de semana por la hora del reloj', () => {
+    // Viernes 22:00 a sábado 08:00: 8h de noche (tope de 9h pagadas) y 8h en sábado
+    expect(getNightHours(nightShift, '2026-11-06', '22:00', '06:00')).toBe(8);
+    expect(getWeekendHours(nightShift, '2026-11-06')).toBe(8);
+    // Domingo 22:00 a lunes 08:00: solo 2h caen en domingo
+    expect(getWeekendHours(nightShift, '2026-11-08')).toBe(2);
+    expect(getNightHours(dayShift, '2026-11-02', '22:00', '06:00')).toBe(0);
+  });
+
+  it('debería pasar a horas extra lo que supera el umbral semanal', () => {
+    // Lunes a sábado con turnos de 10h: 60h en la semana, 20h extra
+    const employee: ScheduleEmployee = {
+      id: 'A',
+      name: 'Ana',
+      fixedShifts: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+        .reduce((days, day) => ({ ...days, [day]: ['day'] }), {})
+    };
+
+    const [first, second] = buildPayrollSummary({
+      employees: [employee],
+      shifts: [dayShift],
+      startDate: '2026-11-02',
+      endDate: '2026-11-15',
+      settings: { payPeriodDays: 7, overtimeThreshold: 40 }
+    });
+
+    expect(first).toMatchObject({ periodStart: '2026-11-02', regularHours: 40, overtimeHours: 20, weekendHours: 10, totalPaidHours: 60 });
+    expect(second).toMatchObject({ periodStart: '2026-11-09', regularHours: 40, overtimeHours: 20 });
+
+    // Con umbral quincenal de 80h la segunda semana es la que genera las horas extra
+    const [biweekly] = buildPayrollSummary({
+      employees: [employee],
+      shifts: [dayShift],
+      startDate: '2026-11-02',
+      endDate: '2026-11-15',
+      settings: { payPeriodDays: 14, overtimeBasis: 'biweekly', overtimeThreshold: 80 }
+    });
+    expect(biweekly).toMatchObject({ regularHours: 80, overtimeHours: 40 });
+  });
+
+  it('debería separar las ausencias pagadas y sin sueldo y marcar las horas en festivo', () => {
+    const employee: ScheduleEmployee = {
+      id: 'A',
+      name: 'Ana',
+      manualShifts: { '2026-11-02': 'day', '2026-11-03': 'day' },
+      leave: [
+        { id: 'l1', startDate: '2026-11-04', endDate: '2026-11-05', leaveType: 'Paid Vacation', hoursPerDay: 8 },
+        { id: 'l2', startDate: '2026-11-06', endDate: '2026-11-06', leaveType: 'Unpaid Leave', hoursPerDay: 8 },
+        { id: 'l3', startDate: '2026-11-07', endDate: '2026-11-07', leaveType: 'Paid Vacation', hoursPerDay: 8, status: 'pending' }
+      ]
+    };
+
+    const [summary] = buildPayrollSummary({
+      employees: [employee],
+      shifts: [dayShift],
+      startDate: '2026-11-02',
+      endDate: '2026-11-08',
+      settings: { payPeriodDays: 7 },
+      holidays: [{ date: '2026-11-03', name: 'Election Day' }]
+    });
+
+    expect(summary).toMatchObject({
+      regularHours: 20,
+      overtimeHours: 0,
+      holidayHours: 10,
+      paidLeaveHours: 16,
+      unpaidLeaveDays: 1,
+      unpaidLeaveHours: 8,
+      totalPaidHours: 36
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPublishedSchedule,
+  buildScheduleSnapshot,
+  diffScheduleSnapshots,
+  diffWithPreviousPublications,
+  mergePublishedShifts,
+  type PublishedPeriod
+} from '../publishing';
+import { ScheduleEmployee, ScheduleShift } from '../schedule';
+
+const shifts: ScheduleShift[] = [
+  { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day' },
+  { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' }
+];
+
+// 2026-11-02 es lunes
+const ana: ScheduleEmployee = {
+  id: 'A',
+  name: 'Ana',
+  fixedShifts: { Monday: ['uid_day'] },
+  manualShifts: { '2026-11-03': 'uid_night', '2026-11-04': 'day-off', '2026-12-01': 'uid_day' },
+  leave: [
+    { id: 'lv1', startDate: '2026-10-30', endDate: '2026-11-05', leaveType: 'Vacation', hoursPerDay: 8, status: 'approved' },
+    { id: 'lv2', startDate: '2026-11-06', endDate: '2026-11-06', leaveType: 'Sick', hoursPerDay: 8, status: 'cancelled' }
+  ]
+};
+
+const publish = (employees: ScheduleEmployee[], startDate: string, endDate: string): PublishedPeriod => ({
+  startDate,
+  endDate,
+  snapshot: buildScheduleSnapshot({ employees, shifts }, startDate, endDate)
+});
+
+describe('buildScheduleSnapshot', () => {
+  it('debería resolver los turnos del periodo y recortar las ausencias aprobadas', () => {
+    const snapshot = buildScheduleSnapshot({ employees: [{ ...ana, leave: [] }], shifts }, '2026-11-02', '2026-11-04');
+    expect(snapshot.employees[0].assignments).toEqual({
+      '2026-11-02': 'uid_day',
+      '2026-11-03': 'uid_night',
+      '2026-11-04': 'day-off'
+    });
+
+    const withLeave = buildScheduleSnapshot({ employees: [ana], shifts }, '2026-11-02', '2026-11-08');
+    expect(withLeave.employees[0].leave).toEqual([{ ...ana.leave![0], startDate: '2026-11-02' }]);
+    expect(withLeave.shifts[0]).toEqual({ id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', lunchBreakDeduction: 0, name: 'Day' });
+  });
+});
+
+describe('applyPublishedSchedule', () => {
+  it('debería mostrar solo lo publicado, con la publicación más reciente de cada fecha', () => {
+    const first = publish([{ ...ana, leave: [] }], '2026-11-01', '2026-11-07');
+    const edited = { ...ana, leave: [], manualShifts: { '2026-11-03': 'day-off', '2026-11-20': 'uid_night' } };
+    const second = publish([edited], '2026-11-03', '2026-11-30');
+
+    const employee = applyPublishedSchedule(edited, [first, second]);
+    expect(employee.fixedShifts).toBeUndefined();
+    expect(employee.manualShifts).toEqual({
+      '2026-11-02': 'uid_day',
+      '2026-11-03': 'day-off',
+      '2026-11-09': 'uid_day',
+      '2026-11-16': 'uid_day',
+      '2026-11-20': 'uid_night',
+      '2026-11-23': 'uid_day',
+      '2026-11-30': 'uid_day'
+    });
+    // Sin publicaciones el empleado no ve turnos
+    expect(applyPublishedSchedule(ana, [])).toMatchObject({ manualShifts: {}, leave: [] });
+  });
+
+  it('debería partir las ausencias que una publicación posterior cubre en parte', () => {
+    const first = publish([ana], '2026-11-01', '2026-11-07');
+    const second = publish([{ ...ana, leave: [] }], '2026-11-03', '2026-11-03');
+
+    expect(applyPublishedSchedule(ana, [first, second]).leave?.map(l => [l.startDate, l.endDate])).toEqual([
+      ['2026-11-01', '2026-11-02'],
+      ['2026-11-04', '2026-11-05']
+    ]);
+  });
+});
+
+describe('diffScheduleSnapshots', () => {
+  it('debería listar las celdas y los turnos que cambiaron desde la publicación', () => {
+    const published = publish([{ ...ana, leave: [] }], '2026-11-02', '2026-11-04');
+    const draftShifts = [{ ...shifts[0], endTime: '4:00 PM' }, shifts[1]];
+    const draft = buildScheduleSnapshot({
+      employees: [{ ...ana, leave: [], manualShifts: { '2026-11-03': 'uid_day', '2026-11-04': 'day-off' } }, { id: 'B', name: 'Luis' }],
+      shifts: draftShifts
+    }, '2026-11-02', '2026-11-04');
+
+    const diff = diffScheduleSnapshots(published, draft);
+    expect(diff.cells).toEqual([
+      {
+        employeeId: 'A',
+        employeeName: 'Ana',
+        date: '2026-11-03',
+        published: { type: 'shift', shiftId: 'uid_night' },
+        draft: { type: 'shift', shiftId: 'uid_day' }
+      }
+    ]);
+    expect(diff.shifts.map(change => [change.shiftId, change.published?.endTime, change.draft?.endTime]))
+      .toEqual([['uid_day', '3:00 PM', '4:00 PM']]);
+    expect(mergePublishedShifts(draftShifts, [published])[0].endTime).toBe('3:00 PM');
+  });
+});
+
+describe('diffWithPreviousPublications', () => {
+  it('debería comparar solo las fechas que ya estaban publicadas', () => {
+    const first = publish([{ ...ana, leave: [] }], '2026-11-02', '2026-11-03');
+    const edited = { ...ana, leave: [], manualShifts: { '2026-11-02': 'day-off', '2026-11-04': 'uid_day' } };
+    const second = publish([edited], '2026-11-02', '2026-11-04');
+
+    expect(diffWithPreviousPublications([first], second)).toEqual([
+      { employeeId: 'A', employeeName: 'Ana', date: '2026-11-02', published: { type: 'shift', shiftId: 'uid_day' }, draft: { type: 'day-off' } },
+      { employeeId: 'A', employeeName: 'Ana', date: '2026-11-03', published: { type: 'shift', shiftId: 'uid_night' }, draft: null }
+    ]);
+    expect(diffWithPreviousPublications([], first)).toEqual([]);
+  });
+});
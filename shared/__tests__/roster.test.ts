@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildRoster, getContrastTextColor, normalizeHexColor } from '../roster';
+
+const list = {
+  name: 'Emergency Room',
+  shifts: [
+    { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM', name: 'Day', color: '#fde68a' },
+    { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM', color: '#1e3a8a' }
+  ],
+  // Domingo primero: 2 de día y 1 de noche entre semana
+  shiftData: [{ counts: [1, 2, 2, 2, 2, 2, 1] }, { counts: [1, 1, 1, 1, 1, 1, 1] }],
+  employees: [
+    {
+      id: 'A',
+      name: 'Ana',
+      fixedShifts: { Monday: ['uid_day'] },
+      manualShifts: { '2026-11-03': 'uid_night', '2026-11-04': 'day-off' }
+    },
+    {
+      id: 'L',
+      name: 'Luis',
+      manualShifts: { '2026-11-02': 'uid_day' },
+      leave: [{ id: 'l1', startDate: '2026-11-05', endDate: '2026-11-10', leaveType: 'Vacation', hoursPerDay: 8 }]
+    }
+  ]
+};
+
+describe('buildRoster', () => {
+  it('debería paginar por semanas de 7 días desde el inicio del periodo', () => {
+    const roster = buildRoster(list, '2026-11-01', '2026-11-10');
+
+    expect(roster.weeks.map(week => week.dates.length)).toEqual([7, 3]);
+    expect(roster.weeks[1].dates[0]).toBe('2026-11-08');
+    // Todos los empleados aparecen en cada semana
+    expect(roster.weeks.map(week => week.rows.map(row => row.name))).toEqual([['Ana', 'Luis'], ['Ana', 'Luis']]);
+  });
+
+  it('debería mostrar la asignación efectiva con nombre y color del turno', () => {
+    const [ana, luis] = buildRoster(list, '2026-11-02', '2026-11-05').weeks[0].rows;
+
+    expect(ana.cells.map(cell => cell.kind)).toEqual(['shift', 'shift', 'day-off', 'empty']);
+    expect(ana.cells[0]).toMatchObject({ label: 'Day', color: '#FDE68A' });
+    // Sin nombre se usa el horario
+    expect(ana.cells[1]).toMatchObject({ label: '11:00 PM - 7:00 AM', color: '#1E3A8A' });
+    expect(luis.cells[3]).toMatchObject({ kind: 'leave', label: 'Vacation', hoursPerDay: 8 });
+  });
+
+  it('debería calcular los totales de personal y la leyenda', () => {
+    const roster = buildRoster(list, '2026-11-02', '2026-11-05');
+    const [day, night] = roster.weeks[0].totals;
+
+    expect(day).toMatchObject({ label: 'Day', scheduled: [2, 0, 0, 0], ideal: [2, 2, 2, 2] });
+    expect(night).toMatchObject({ scheduled: [0, 1, 0, 0], ideal: [1, 1, 1, 1] });
+    expect(roster.legend.map(entry => entry.timeRange)).toEqual(['7:00 AM - 3:00 PM', '11:00 PM - 7:00 AM']);
+    expect(roster.leaveTypes).toEqual(['Vacation']);
+  });
+
+  it('debería tomar el personal ideal de las fechas especiales', () => {
+    const holidayList = { ...list, shiftData: [{ ...list.shiftData[0], dateCounts: { '2026-11-03': 4 } }, list.shiftData[1]] };
+    const [day] = buildRoster(holidayList, '2026-11-02', '2026-11-05').weeks[0].totals;
+
+    expect(day.ideal).toEqual([2, 4, 2, 2]);
+  });
+});
+
+describe('colores del roster', () => {
+  it('debería normalizar los colores y elegir un texto legible', () => {
+    expect(normalizeHexColor('#abc')).toBe('#AABBCC');
+    expect(normalizeHexColor('red')).toBeUndefined();
+    expect(getContrastTextColor('#1E3A8A')).toBe('#FFFFFF');
+    expect(getContrastTextColor('#FDE68A')).toBe('#000000');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ROTATION_TEMPLATES,
+  buildRotationFromTemplate,
+  describeRotation,
+  getRotationCycleDay,
+  resizeRotation
+} from '../rotation';
+import { getRecurringShift, resolveAssignment, ScheduleEmployee } from '../schedule';
+
+const template = (id: string) => ROTATION_TEMPLATES.find(t => t.id === id)!;
+
+describe('rotation', () => {
+  it('debería repetir el patrón de la plantilla desde la fecha de inicio', () => {
+    const rotation = buildRotationFromTemplate(template('4-on-4-off'), 'uid_night', '2026-11-02');
+    const employee: ScheduleEmployee = { id: 'A', name: 'Ana', rotation };
+
+    expect(['2026-11-02', '2026-11-05', '2026-11-06', '2026-11-09', '2026-11-10']
+      .map(date => getRecurringShift(employee, date)))
+      .toEqual(['uid_night', 'uid_night', 'day-off', 'day-off', 'uid_night']);
+    expect(getRotationCycleDay(rotation, '2026-11-10')).toBe(1);
+    expect(describeRotation(rotation)).toBe('4-on/4-off (8-day cycle from 2026-11-02)');
+  });
+
+  it('debería seguir el ciclo de dos semanas del patrón Panama 2-2-3', () => {
+    const rotation = buildRotationFromTemplate(template('panama-2-2-3'), 'uid_day', '2026-11-02');
+    const worked = Array.from({ length: 28 }, (_, i) => `2026-11-${String(i + 2).padStart(2, '0')}`)
+      .filter(date => getRecurringShift({ rotation }, date) === 'uid_day');
+
+    expect(worked).toHaveLength(14);
+    expect(worked.slice(0, 7)).toEqual(['2026-11-02', '2026-11-03', '2026-11-06', '2026-11-07', '2026-11-08', '2026-11-11', '2026-11-12']);
+    expect(getRecurringShift({ rotation }, '2026-11-16')).toBe('uid_day');
+  });
+
+  it('debería usar los turnos fijos antes del inicio y dejar que los manuales y las ausencias tengan prioridad', () => {
+    const employee: ScheduleEmployee = {
+      id: 'A',
+      name: 'Ana',
+      fixedShifts: { Sunday: ['uid_day'], Monday: ['uid_day'] },
+      rotation: { templateId: 'custom', anchorDate: '2026-11-02', days: ['uid_night', ''] },
+      manualShifts: { '2026-11-04': 'day-off' }
+    };
+
+    expect(resolveAssignment(employee, '2026-11-01')).toMatchObject({ source: 'fixed', shiftId: 'uid_day' });
+    expect(resolveAssignment(employee, '2026-11-02')).toMatchObject({ source: 'fixed', shiftId: 'uid_night' });
+    // Día vacío de la rotación: el turno fijo del lunes ya no se aplica
+    expect(resolveAssignment(employee, '2026-11-09').source).toBe('none');
+    expect(resolveAssignment(employee, '2026-11-04')).toMatchObject({ source: 'manual', isDayOff: true });
+  });
+
+  it('debería conservar los días al cambiar la duración del ciclo', () => {
+    const rotation = buildRotationFromTemplate(template('3-on-3-off'), 'uid_day', '2026-11-02');
+    const resized = resizeRotation(rotation, 8);
+
+    expect(resized.templateId).toBe('custom');
+    expect(resized.days).toEqual(['uid_day', 'uid_day', 'uid_day', 'day-off', 'day-off', 'day-off', '', '']);
+    expect(resizeRotation(rotation, 0).days).toHaveLength(1);
+  });
+});
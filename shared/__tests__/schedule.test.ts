@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  getDateRange,
+  getDayOfWeek,
+  getRestHoursBetween,
+  getShiftDataTarget,
+  getShiftHours,
+  getShiftInterval,
+  isShiftBlockedOnDate,
+  parseTimeToMinutes,
+  resolveAssignment,
+  ScheduleEmployee,
+  ScheduleShift
+} from '../schedule';
+
+const dayShift: ScheduleShift = { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' };
+const nightShift: ScheduleShift = { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' };
+
+describe('schedule', () => {
+  describe('fechas', () => {
+    it('debería generar el rango de fechas incluyendo ambos extremos', () => {
+      expect(getDateRange('2026-11-01', '2026-11-03')).toEqual(['2026-11-01', '2026-11-02', '2026-11-03']);
+    });
+
+    it('debería retornar un rango vacío si las fechas están invertidas o no son válidas', () => {
+      expect(getDateRange('2026-11-03', '2026-11-01')).toEqual([]);
+      expect(getDateRange('', '2026-11-01')).toEqual([]);
+    });
+
+    it('debería sumar días cruzando meses', () => {
+      expect(addDays('2026-11-30', 1)).toBe('2026-12-01');
+      expect(addDays('2026-11-01', -1)).toBe('2026-10-31');
+    });
+
+    it('debería obtener el día de la semana en UTC', () => {
+      expect(getDayOfWeek('2026-11-01')).toBe('Sunday');
+      expect(getDayOfWeek('2026-11-03')).toBe('Tuesday');
+    });
+  });
+
+  describe('parseTimeToMinutes', () => {
+    it('debería interpretar formato de 12 horas', () => {
+      expect(parseTimeToMinutes('7:00 AM')).toBe(420);
+      expect(parseTimeToMinutes('12:00 AM')).toBe(0);
+      expect(parseTimeToMinutes('12:30 PM')).toBe(750);
+      expect(parseTimeToMinutes('11:00 PM')).toBe(1380);
+    });
+
+    it('debería interpretar formato de 24 horas', () => {
+      expect(parseTimeToMinutes('19:45')).toBe(1185);
+    });
+
+    it('debería retornar null para horas no válidas', () => {
+      expect(parseTimeToMinutes('')).toBeNull();
+      expect(parseTimeToMinutes('25:00')).toBeNull();
+      expect(parseTimeToMinutes('13:00 PM')).toBeNull();
+    });
+  });
+
+  describe('turnos', () => {
+    it('debería terminar al día siguiente los turnos nocturnos', () => {
+      const interval = getShiftInterval(nightShift, '2026-11-01');
+      expect(interval).not.toBeNull();
+      expect(new Date(interval!.end).toISOString()).toBe('2026-11-02T07:00:00.000Z');
+    });
+
+    it('debería descontar el almuerzo de las horas del turno', () => {
+      expect(getShiftHours(dayShift)).toBe(8);
+      expect(getShiftHours({ ...dayShift, lunchBreakDeduction: 30 })).toBe(7.5);
+      expect(getShiftHours(nightShift)).toBe(8);
+    });
+
+    it('debería calcular el descanso tras un turno nocturno', () => {
+      expect(getRestHoursBetween(nightShift, '2026-11-01', dayShift, '2026-11-02')).toBe(0);
+      expect(getRestHoursBetween(dayShift, '2026-11-01', nightShift, '2026-11-01')).toBe(8);
+      expect(getRestHoursBetween(dayShift, '2026-11-01', dayShift, '2026-11-02')).toBe(16);
+    });
+  });
+
+  describe('getShiftDataTarget', () => {
+    // Domingo primero; 2026-11-03 es martes
+    const row = { counts: [1, 2, 2, 2, 2, 2, 1], dateCounts: { '2026-11-03': 5, '2026-11-04': 0 } };
+
+    it('debería usar el personal de la fecha cuando tiene uno, aunque sea 0', () => {
+      expect(getShiftDataTarget(row, '2026-11-03')).toBe(5);
+      expect(getShiftDataTarget(row, '2026-11-04')).toBe(0);
+    });
+
+    it('debería usar el del día de la semana en las demás fechas', () => {
+      expect(getShiftDataTarget(row, '2026-11-01')).toBe(1);
+      expect(getShiftDataTarget(row, '2026-11-10')).toBe(2);
+      expect(getShiftDataTarget(undefined, '2026-11-10')).toBe(0);
+    });
+  });
+
+  describe('resolveAssignment', () => {
+    const employee: ScheduleEmployee = {
+      id: 'E1',
+      name: 'Ana',
+      leave: [{ id: 'l1', startDate: '2026-11-05', endDate: '2026-11-06', leaveType: 'Sick Leave', hoursPerDay: 8 }],
+      fixedShifts: { Monday: ['uid_day'], Tuesday: ['day-off'] },
+      manualShifts: { '2026-11-02': 'uid_night', '2026-11-04': 'day-off' }
+    };
+
+    it('debería dar prioridad al permiso', () => {
+      expect(resolveAssignment(employee, '2026-11-05').source).toBe('leave');
+    });
+
+    it('debería dar prioridad al turno manual sobre el fijo', () => {
+      expect(resolveAssignment(employee, '2026-11-02')).toMatchObject({ source: 'manual', shiftId: 'uid_night' });
+    });
+
+    it('debería usar el turno fijo cuando no hay manual', () => {
+      expect(resolveAssignment(employee, '2026-11-09')).toMatchObject({ source: 'fixed', shiftId: 'uid_day' });
+      expect(resolveAssignment(employee, '2026-11-03')).toMatchObject({ source: 'fixed', shiftId: null, isDayOff: true });
+    });
+
+    it('debería reconocer días libres manuales y celdas vacías', () => {
+      expect(resolveAssignment(employee, '2026-11-04')).toMatchObject({ isDayOff: true, shiftId: null });
+      expect(resolveAssignment(employee, '2026-11-07').source).toBe('none');
+    });
+
+    it('debería ignorar los permisos que no están aprobados', () => {
+      const withRequests: ScheduleEmployee = {
+        ...employee,
+        leave: [
+          { id: 'l2', startDate: '2026-11-09', endDate: '2026-11-09', leaveType: 'Vacation', hoursPerDay: 8, status: 'pending' },
+          { id: 'l3', startDate: '2026-11-16', endDate: '2026-11-16', leaveType: 'Vacation', hoursPerDay: 8, status: 'cancelled' },
+          { id: 'l4', startDate: '2026-11-23', endDate: '2026-11-23', leaveType: 'Vacation', hoursPerDay: 8, status: 'approved' }
+        ]
+      };
+      expect(resolveAssignment(withRequests, '2026-11-09').source).toBe('fixed');
+      expect(resolveAssignment(withRequests, '2026-11-16').source).toBe('fixed');
+      expect(resolveAssignment(withRequests, '2026-11-23').source).toBe('leave');
+    });
+  });
+
+  describe('isShiftBlockedOnDate', () => {
+    it('debería respetar bloqueos por día y bloqueos totales', () => {
+      const employee: ScheduleEmployee = {
+        id: 'E1',
+        name: 'Ana',
+        blockedShifts: {
+          uid_day: { blockedDays: ['monday'], isActive: true },
+          uid_night: { blockedDays: ['all'], isActive: false }
+        }
+      };
+      expect(isShiftBlockedOnDate(employee, 'uid_day', '2026-11-02')).toBe(true);
+      expect(isShiftBlockedOnDate(employee, 'uid_day', '2026-11-03')).toBe(false);
+      expect(isShiftBlockedOnDate(employee, 'uid_night', '2026-11-02')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { planShiftSwap } from '../shiftSwap';
+import { ScheduleEmployee, ScheduleRuleLimits, ScheduleShift } from '../schedule';
+
+const dayShift: ScheduleShift = { id: 'uid_day', startTime: '7:00 AM', endTime: '3:00 PM' };
+const nightShift: ScheduleShift = { id: 'uid_night', startTime: '11:00 PM', endTime: '7:00 AM' };
+const shifts = [dayShift, nightShift];
+
+const noRules: ScheduleRuleLimits = { startDate: '', endDate: '', maxConsecutiveShifts: '', minRestHoursBetweenShifts: '' };
+
+const ana: ScheduleEmployee = { id: 'A', name: 'Ana', manualShifts: { '2026-11-03': 'uid_day' } };
+const luis: ScheduleEmployee = { id: 'L', name: 'Luis', manualShifts: { '2026-11-03': 'uid_night' } };
+
+describe('planShiftSwap', () => {
+  it('debería intercambiar los turnos del mismo día', () => {
+    const plan = planShiftSwap(ana, luis, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, noRules);
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.employee.manualShifts?.['2026-11-03']).toBe('uid_night');
+    expect(plan.counterpart.manualShifts?.['2026-11-03']).toBe('uid_day');
+    expect(plan.changes).toEqual([
+      { employeeId: 'A', date: '2026-11-03', before: 'uid_day', after: 'uid_night' },
+      { employeeId: 'L', date: '2026-11-03', before: 'uid_night', after: 'uid_day' }
+    ]);
+    // Los empleados originales no se modifican
+    expect(ana.manualShifts?.['2026-11-03']).toBe('uid_day');
+  });
+
+  it('debería cubrir el día del otro cuando las fechas son distintas', () => {
+    const employee = { ...ana, manualShifts: { '2026-11-03': 'uid_day', '2026-11-05': 'day-off' } };
+    const counterpart = { ...luis, manualShifts: { '2026-11-03': 'day-off', '2026-11-05': 'uid_day' } };
+
+    const plan = planShiftSwap(employee, counterpart, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-05' }, shifts, noRules);
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.employee.manualShifts).toEqual({ '2026-11-03': 'day-off', '2026-11-05': 'uid_day' });
+    expect(plan.counterpart.manualShifts).toEqual({ '2026-11-03': 'uid_day', '2026-11-05': 'day-off' });
+  });
+
+  it('debería rechazar turnos bloqueados, permisos y celdas fijadas', () => {
+    const blocked = { ...luis, blockedShifts: { uid_day: { blockedDays: ['tuesday'], isActive: true } } };
+    expect(planShiftSwap(ana, blocked, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, noRules).errors)
+      .toEqual(['Luis has 7:00 AM - 3:00 PM blocked on 2026-11-03']);
+
+    const onLeave = { ...luis, leave: [{ id: 'l1', startDate: '2026-11-03', endDate: '2026-11-03', leaveType: 'Sick Leave', hoursPerDay: 8 }] };
+    expect(planShiftSwap(ana, onLeave, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, noRules).errors)
+      .toContain('Luis is on leave on 2026-11-03');
+
+    const locked = { ...ana, lockedShifts: { '2026-11-03': 'uid_day' } };
+    expect(planShiftSwap(locked, luis, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, noRules).errors)
+      .toEqual(["Ana's shift on 2026-11-03 is locked at the employee's request"]);
+  });
+
+  it('debería validar el descanso mínimo y los turnos consecutivos', () => {
+    const rules = { ...noRules, minRestHoursBetweenShifts: '8', maxConsecutiveShifts: '2' };
+    // Ana trabaja de noche el día 2: el turno de día del 3 empieza justo al salir
+    const employee = { ...ana, manualShifts: { '2026-11-02': 'uid_night', '2026-11-03': 'day-off' } };
+    const counterpart = { ...luis, manualShifts: { '2026-11-03': 'uid_day' } };
+
+    const rest = planShiftSwap(employee, counterpart, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, rules);
+    expect(rest.errors).toEqual(['Ana would not get 8 hours of rest around 2026-11-03']);
+
+    const busy = { ...ana, manualShifts: { '2026-11-01': 'uid_day', '2026-11-02': 'uid_day', '2026-11-03': 'day-off' } };
+    const streak = planShiftSwap(busy, counterpart, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, rules);
+    expect(streak.errors).toEqual(['Ana would exceed 2 consecutive shifts on 2026-11-03']);
+  });
+
+  it('debería usar el máximo de turnos consecutivos propio del empleado', () => {
+    const rules = { ...noRules, maxConsecutiveShifts: '5' };
+    const busy = { ...ana, maxConsecutiveShifts: 2, manualShifts: { '2026-11-01': 'uid_day', '2026-11-02': 'uid_day', '2026-11-03': 'day-off' } };
+    const counterpart = { ...luis, manualShifts: { '2026-11-03': 'uid_day' } };
+
+    const streak = planShiftSwap(busy, counterpart, { employeeId: 'A', date: '2026-11-03', counterpartEmployeeId: 'L', counterpartDate: '2026-11-03' }, shifts, rules);
+    expect(streak.errors).toEqual(['Ana would exceed 2 consecutive shifts on 2026-11-03']);
+  });
+});
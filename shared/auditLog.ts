@@ -0,0 +1,166 @@
+// Registro de auditoría de los cambios del horario. El servidor compara la lista antes y
+// después de cada escritura y guarda un evento por cada valor que cambió, con quién y cuándo.
+
+// Campos del empleado que se auditan; el resto (contacto, notas, preferencias) no
+export const AUDITED_EMPLOYEE_FIELDS = ['manualShifts', 'lockedShifts', 'leave', 'fixedShifts', 'rotation', 'blockedShifts'] as const;
+
+// Campos de los eventos: los del empleado más el alta/baja del empleado, las
+// definiciones de turnos y las reglas de la lista
+export const auditFields = ['employee', ...AUDITED_EMPLOYEE_FIELDS, 'shift', 'rules'] as const;
+export type AuditField = typeof auditFields[number];
+
+// Cómo se hizo el cambio (guardado de la lista, rutas de empleados/turnos, aprobaciones, borrado de la lista...)
+export const auditSources = ['list', 'employee', 'shift', 'leave-request', 'shift-swap', 'data-import', 'list-delete'] as const;
+export type AuditSource = typeof auditSources[number];
+
+interface AuditedEmployee {
+  id: string;
+  name: string;
+  [field: string]: unknown;
+}
+
+export interface AuditedList {
+  employees: AuditedEmployee[];
+  shifts: { id: string; [field: string]: unknown }[];
+  rules: object;
+}
+
+export interface AuditChange {
+  field: AuditField;
+  employeeId: string | null;
+  // Día afectado; las ausencias guardan su rango completo en date/endDate
+  date: string | null;
+  endDate: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null ||
+  (Array.isArray(value) ? value.length === 0 : typeof value === 'object' && Object.keys(value as object).length === 0);
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const keysOf = (a: Record<string, unknown>, b: Record<string, unknown>): string[] =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+
+// Nombre y campos auditados no vacíos: lo que se guarda al dar de alta o de baja a un empleado
+const employeeSnapshot = (employee: AuditedEmployee) => {
+  const snapshot: Record<string, unknown> = { name: employee.name };
+  AUDITED_EMPLOYEE_FIELDS.forEach(field => {
+    if (!isEmpty(employee[field])) snapshot[field] = employee[field];
+  });
+  return snapshot;
+};
+
+const change = (
+  field: AuditField,
+  employeeId: string | null,
+  before: unknown,
+  after: unknown,
+  date: string | null = null,
+  endDate: string | null = null
+): AuditChange => ({ field, employeeId, date, endDate, before: before ?? null, after: after ?? null });
+
+// Una celda por evento: manualShifts y lockedShifts van por fecha
+const diffDateMap = (field: AuditField, employeeId: string, before: unknown, after: unknown): AuditChange[] => {
+  const beforeMap = asRecord(before);
+  const afterMap = asRecord(after);
+  return keysOf(beforeMap, afterMap)
+    .filter(date => !isEqual(beforeMap[date], afterMap[date]))
+    .map(date => change(field, employeeId, beforeMap[date], afterMap[date], date));
+};
+
+// Una ausencia por evento, emparejadas por ID, con su rango de fechas
+const diffLeave = (employeeId: string, before: unknown, after: unknown): AuditChange[] => {
+  type Leave = { id?: string; startDate?: string; endDate?: string };
+  const beforeLeave = (Array.isArray(before) ? before : []) as Leave[];
+  const afterLeave = (Array.isArray(after) ? after : []) as Leave[];
+  const keyOf = (entry: Leave, index: number) => entry.id ?? `#${index}`;
+  const beforeByKey = new Map(beforeLeave.map((entry, index) => [keyOf(entry, index), entry]));
+  const afterByKey = new Map(afterLeave.map((entry, index) => [keyOf(entry, index), entry]));
+
+  return Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()]))
+    .filter(key => !isEqual(beforeByKey.get(key), afterByKey.get(key)))
+    .map(key => {
+      const entry = (afterByKey.get(key) ?? beforeByKey.get(key))!;
+      return change('leave', employeeId, beforeByKey.get(key), afterByKey.get(key), entry.startDate ?? null, entry.endDate ?? null);
+    });
+};
+
+// Turnos fijos y bloqueos: solo las claves (día de la semana o turno) que cambiaron
+const diffKeyedObject = (
+  field: AuditField,
+  employeeId: string | null,
+  before: unknown,
+  after: unknown
+): AuditChange[] => {
+  const beforeMap = asRecord(before);
+  const afterMap = asRecord(after);
+  const changedKeys = keysOf(beforeMap, afterMap).filter(key => !isEqual(beforeMap[key], afterMap[key]));
+  if (changedKeys.length === 0) return [];
+
+  const pick = (map: Record<string, unknown>) =>
+    Object.fromEntries(changedKeys.filter(key => key in map).map(key => [key, map[key]]));
+  return [change(field, employeeId, pick(beforeMap), pick(afterMap))];
+};
+
+// Lo que queda de una lista borrada: todo lo que tenía se audita como eliminado
+const EMPTY_LIST: AuditedList = { employees: [], shifts: [], rules: {} };
+
+const diffEmployee = (before: AuditedEmployee, after: AuditedEmployee): AuditChange[] => [
+  ...diffDateMap('manualShifts', after.id, before.manualShifts, after.manualShifts),
+  ...diffDateMap('lockedShifts', after.id, before.lockedShifts, after.lockedShifts),
+  ...diffLeave(after.id, before.leave, after.leave),
+  ...diffKeyedObject('fixedShifts', after.id, before.fixedShifts, after.fixedShifts),
+  // La rotación se guarda entera: el patrón solo tiene sentido junto a su anchorDate
+  ...(isEqual(before.rotation, after.rotation) ? [] : [change('rotation', after.id, before.rotation, after.rotation)]),
+  ...diffKeyedObject('blockedShifts', after.id, before.blockedShifts, after.blockedShifts)
+];
+
+/**
+ * Compara dos versiones de una lista y devuelve los cambios que hay que auditar
+ * @param before - Lista antes del cambio (null si se acaba de crear)
+ * @param afterList - Lista después del cambio (null si se acaba de borrar)
+ * @returns Un cambio por celda, ausencia, empleado añadido/eliminado, turno o grupo de reglas
+ */
+export const diffListForAudit = (before: AuditedList | null, afterList: AuditedList | null): AuditChange[] => {
+  const after = afterList ?? EMPTY_LIST;
+  const changes: AuditChange[] = [];
+  const beforeEmployees = new Map((before?.employees ?? []).map(employee => [employee.id, employee]));
+  const afterIds = new Set(after.employees.map(employee => employee.id));
+
+  after.employees.forEach(employee => {
+    const previous = beforeEmployees.get(employee.id);
+    if (!previous) {
+      changes.push(change('employee', employee.id, null, employeeSnapshot(employee)));
+    } else {
+      changes.push(...diffEmployee(previous, employee));
+    }
+  });
+  beforeEmployees.forEach(employee => {
+    if (!afterIds.has(employee.id)) {
+      changes.push(change('employee', employee.id, employeeSnapshot(employee), null));
+    }
+  });
+
+  const beforeShifts = new Map((before?.shifts ?? []).map(shift => [shift.id, shift]));
+  const afterShifts = new Map(after.shifts.map(shift => [shift.id, shift]));
+  Array.from(new Set([...beforeShifts.keys(), ...afterShifts.keys()]))
+    .filter(id => !isEqual(beforeShifts.get(id), afterShifts.get(id)))
+    .forEach(id => changes.push(change('shift', null, beforeShifts.get(id), afterShifts.get(id))));
+
+  changes.push(...diffKeyedObject('rules', null, before?.rules, after.rules));
+  return changes;
+};
+
+/**
+ * Indica si un evento afecta a una fecha: la celda de ese día o una ausencia que la incluye
+ */
+export const auditEventCoversDate = (event: Pick<AuditChange, 'date' | 'endDate'>, date: string): boolean => {
+  if (!event.date) return false;
+  return event.date <= date && date <= (event.endDate ?? event.date);
+};
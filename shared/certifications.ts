@@ -0,0 +1,95 @@
+// Caducidad de las certificaciones de los empleados (BLS, ACLS...). Un turno puede exigir
+// certificaciones (requiredCertifications) y nadie puede trabajarlo si en esa fecha le falta
+// alguna o ya ha caducado. Se comparte entre el cliente y el servidor (intercambios de turnos).
+
+import { ScheduleEmployee, ScheduleShift, diffInDays } from './schedule';
+import type { EmployeeCertification } from './schema';
+
+export type { EmployeeCertification };
+
+// Ventanas del panel de caducidades, en días
+export const CERTIFICATION_EXPIRY_WINDOWS = [30, 60, 90];
+
+export interface CertifiedEmployee extends ScheduleEmployee {
+  certifications?: EmployeeCertification[];
+}
+
+export interface CertificationShift extends ScheduleShift {
+  requiredCertifications?: string[];
+}
+
+// Certificación exigida por el turno que el empleado no tiene o que ha caducado
+export interface MissingCertification {
+  name: string;
+  expiredOn?: string; // Ausente si el empleado nunca la ha tenido
+}
+
+export interface ExpiringCertification {
+  employeeId: string;
+  employeeName: string;
+  name: string;
+  expiresOn: string;
+  daysLeft: number; // Negativo si ya ha caducado
+}
+
+/**
+ * Una certificación sin fecha de caducidad no caduca; con fecha, sirve hasta ese día incluido
+ */
+export const isCertificationValid = (certification: EmployeeCertification, dateString: string): boolean => {
+  return !certification.expiresOn || dateString <= certification.expiresOn;
+};
+
+/**
+ * Certificaciones exigidas por el turno que el empleado no tiene vigentes en la fecha
+ * @returns Lista vacía si el turno no exige nada o el empleado las tiene todas
+ */
+export const getMissingCertifications = (
+  employee: CertifiedEmployee,
+  shift: CertificationShift | undefined,
+  dateString: string
+): MissingCertification[] => {
+  const missing: MissingCertification[] = [];
+  (shift?.requiredCertifications || []).forEach(name => {
+    const certification = employee.certifications?.find(c => c.name === name);
+    if (!certification) {
+      missing.push({ name });
+    } else if (!isCertificationValid(certification, dateString)) {
+      missing.push({ name, expiredOn: certification.expiresOn });
+    }
+  });
+  return missing;
+};
+
+/**
+ * Texto de las certificaciones que faltan (ej. "BLS expired on 2026-10-01, ACLS missing")
+ */
+export const describeMissingCertifications = (missing: MissingCertification[]): string => {
+  return missing
+    .map(m => (m.expiredOn ? `${m.name} expired on ${m.expiredOn}` : `${m.name} missing`))
+    .join(', ');
+};
+
+/**
+ * Certificaciones que caducan en los próximos días, incluidas las que ya han caducado
+ * @param today - Fecha de referencia YYYY-MM-DD
+ * @param withinDays - Días hacia delante (ver CERTIFICATION_EXPIRY_WINDOWS)
+ * @returns Ordenadas por fecha de caducidad
+ */
+export const getExpiringCertifications = (
+  employees: CertifiedEmployee[],
+  today: string,
+  withinDays: number
+): ExpiringCertification[] => {
+  return employees
+    .flatMap(employee => (employee.certifications || []).map(certification => ({ employee, certification })))
+    .filter(({ certification }) => !!certification.expiresOn)
+    .map(({ employee, certification }) => ({
+      employeeId: employee.id,
+      employeeName: employee.name,
+      name: certification.name,
+      expiresOn: certification.expiresOn!,
+      daysLeft: diffInDays(today, certification.expiresOn!)
+    }))
+    .filter(item => item.daysLeft <= withinDays)
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn) || a.employeeName.localeCompare(b.employeeName));
+};
@@ -0,0 +1,114 @@
+// Paquete JSON versionado para exportar e importar listas de empleados (Export/Import Data).
+// El servidor valida el paquete con dataBundleSchema (shared/schema.ts); aquí solo está la
+// lógica pura, sin dependencias de la base de datos, para poder usarla también en el cliente.
+
+export const DATA_BUNDLE_FORMAT = 'waok-schedule-data';
+export const DATA_BUNDLE_VERSION = 1;
+
+export type DataBundleImportMode = 'merge' | 'replace';
+
+// Estructura mínima de una lista; EmployeeList (cliente) y EmployeeListRecord (servidor) son compatibles
+interface BundleList {
+  id: string;
+  name: string;
+  employees: { id: string }[];
+  shifts: { id: string }[];
+  priorities?: Record<string, Record<string, boolean>>;
+}
+
+export interface DataBundle<L extends BundleList = BundleList> {
+  format: typeof DATA_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  lists: L[];
+}
+
+export interface DataBundleConflicts {
+  // Errores del propio paquete: impiden importarlo
+  duplicateListIds: string[];
+  duplicateEmployeeIds: { listId: string; employeeIds: string[] }[];
+  // Coincidencias con las listas existentes: se resuelven con merge o replace
+  existingListIds: string[];
+  existingEmployeeIds: { listId: string; employeeIds: string[] }[];
+}
+
+const findDuplicates = (ids: string[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  ids.forEach(id => (seen.has(id) ? duplicates.add(id) : seen.add(id)));
+  return Array.from(duplicates);
+};
+
+/**
+ * Crea el paquete de exportación (sin updatedAt, que lo asigna el servidor, ni los enlaces
+ * de los empleados con cuentas de usuario (userId), que solo valen en esta instalación)
+ * @param lists - Listas a exportar
+ * @param exportedAt - Fecha de exportación
+ */
+export const createDataBundle = <L extends BundleList>(lists: L[], exportedAt: Date = new Date()): DataBundle<L> => ({
+  format: DATA_BUNDLE_FORMAT,
+  version: DATA_BUNDLE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  lists: lists.map(list => {
+    const { updatedAt, ...rest } = list as L & { updatedAt?: string };
+    const employees = rest.employees.map(employee => {
+      const { userId, ...unlinked } = employee as typeof employee & { userId?: number };
+      return unlinked;
+    });
+    return { ...rest, employees } as L;
+  })
+});
+
+/**
+ * Busca IDs repetidos dentro del paquete y listas o empleados que ya existen
+ * @param bundleLists - Listas del paquete
+ * @param existingLists - Listas guardadas actualmente
+ */
+export const findBundleConflicts = (bundleLists: BundleList[], existingLists: BundleList[]): DataBundleConflicts => {
+  const existingById = new Map(existingLists.map(list => [list.id, list]));
+
+  const duplicateEmployeeIds = bundleLists
+    .map(list => ({ listId: list.id, employeeIds: findDuplicates(list.employees.map(e => e.id)) }))
+    .filter(entry => entry.employeeIds.length > 0);
+
+  const existingEmployeeIds = bundleLists
+    .map(list => {
+      const existing = existingById.get(list.id);
+      const existingIds = new Set(existing?.employees.map(e => e.id) || []);
+      return { listId: list.id, employeeIds: list.employees.map(e => e.id).filter(id => existingIds.has(id)) };
+    })
+    .filter(entry => entry.employeeIds.length > 0);
+
+  return {
+    duplicateListIds: findDuplicates(bundleLists.map(list => list.id)),
+    duplicateEmployeeIds,
+    existingListIds: bundleLists.map(list => list.id).filter(id => existingById.has(id)),
+    existingEmployeeIds
+  };
+};
+
+/**
+ * Indica si el paquete tiene errores propios que impiden importarlo
+ */
+export const hasBlockingConflicts = (conflicts: DataBundleConflicts): boolean => {
+  return conflicts.duplicateListIds.length > 0 || conflicts.duplicateEmployeeIds.length > 0;
+};
+
+const upsertAllById = <T extends { id: string }>(items: T[], incoming: T[]): T[] => {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const updated = items.map(item => incomingById.get(item.id) || item);
+  const existingIds = new Set(items.map(item => item.id));
+  return [...updated, ...incoming.filter(item => !existingIds.has(item.id))];
+};
+
+/**
+ * Combina una lista importada con la existente (modo merge): empleados y turnos se
+ * insertan o reemplazan por ID y las prioridades se suman. El nombre, las reglas y el
+ * personal ideal (shiftData) se conservan de la lista existente.
+ */
+export const mergeEmployeeLists = <L extends BundleList>(existing: L, incoming: L): L => ({
+  ...existing,
+  employees: upsertAllById(existing.employees, incoming.employees),
+  shifts: upsertAllById(existing.shifts, incoming.shifts),
+  priorities: { ...existing.priorities, ...incoming.priorities }
+});
@@ -0,0 +1,255 @@
+// Calendario de festivos de cada lista. Se puede importar de un archivo .ics o de las
+// tablas de festivos nacionales incluidas aquí, que se calculan sin conexión para cualquier año.
+// Los festivos de un mismo grupo (ej. Navidad y Año Nuevo) se reparten: cada empleado
+// debería trabajar como mucho uno de ellos.
+
+import {
+  ScheduleEmployee,
+  ScheduleShift,
+  addDays,
+  getDateRange,
+  getShiftHours,
+  parseDateString,
+  resolveAssignment,
+  toDateString
+} from './schedule';
+import { unescapeCalendarText, unfoldCalendarLines } from './icalendar';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  group?: string; // Festivos que se rotan entre sí
+}
+
+export interface HolidayCountry {
+  code: string;
+  name: string;
+}
+
+// Un evento de varios días del .ics se importa como un festivo por día, hasta este límite
+const MAX_IMPORTED_EVENT_DAYS = 31;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const makeDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * Domingo de Pascua (calendario gregoriano, algoritmo anónimo de Meeus/Jones/Butcher)
+ */
+export const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return makeDate(year, month, day);
+};
+
+// Último día de la semana indicado en una fecha o antes
+const weekdayOnOrBefore = (dateString: string, weekday: number): string => {
+  return addDays(dateString, -((parseDateString(dateString).getUTCDay() - weekday + 7) % 7));
+};
+
+/**
+ * N-ésimo día de la semana de un mes (n = -1 para el último)
+ * @param weekday - 0 domingo ... 6 sábado
+ */
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return makeDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  return weekdayOnOrBefore(toDateString(new Date(Date.UTC(year, month, 0))), weekday);
+};
+
+// Navidad y el Año Nuevo siguiente forman el grupo de fin de año
+const yearEndGroup = (seasonYear: number) => `Year-end ${seasonYear}`;
+const newYearsDay = (year: number): Holiday => ({ date: makeDate(year, 1, 1), name: "New Year's Day", group: yearEndGroup(year - 1) });
+const christmasDay = (year: number): Holiday => ({ date: makeDate(year, 12, 25), name: 'Christmas Day', group: yearEndGroup(year) });
+
+// Festivos nacionales por país; los regionales y los traslados por fin de semana no se incluyen
+const COUNTRY_HOLIDAYS: { [code: string]: { name: string; build: (year: number) => Holiday[] } } = {
+  US: {
+    name: 'United States (federal)',
+    build: year => [
+      newYearsDay(year),
+      { date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' },
+      { date: nthWeekday(year, 2, 1, 3), name: "Presidents' Day" },
+      { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+      { date: makeDate(year, 6, 19), name: 'Juneteenth' },
+      { date: makeDate(year, 7, 4), name: 'Independence Day' },
+      { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+      { date: nthWeekday(year, 10, 1, 2), name: 'Columbus Day' },
+      { date: makeDate(year, 11, 11), name: 'Veterans Day' },
+      { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+      christmasDay(year)
+    ]
+  },
+  CA: {
+    name: 'Canada (federal)',
+    build: year => [
+      newYearsDay(year),
+      { date: addDays(getEasterSunday(year), -2), name: 'Good Friday' },
+      // Último lunes antes del 25 de mayo
+      { date: weekdayOnOrBefore(makeDate(year, 5, 24), 1), name: 'Victoria Day' },
+      { date: makeDate(year, 7, 1), name: 'Canada Day' },
+      { date: nthWeekday(year, 9, 1, 1), name: 'Labour Day' },
+      { date: makeDate(year, 9, 30), name: 'National Day for Truth and Reconciliation' },
+      { date: nthWeekday(year, 10, 1, 2), name: 'Thanksgiving' },
+      { date: makeDate(year, 11, 11), name: 'Remembrance Day' },
+      christmasDay(year),
+      { date: makeDate(year, 12, 26), name: 'Boxing Day' }
+    ]
+  },
+  GB: {
+    name: 'United Kingdom (England and Wales)',
+    build: year => [
+      newYearsDay(year),
+      { date: addDays(getEasterSunday(year), -2), name: 'Good Friday' },
+      { date: addDays(getEasterSunday(year), 1), name: 'Easter Monday' },
+      { date: nthWeekday(year, 5, 1, 1), name: 'Early May Bank Holiday' },
+      { date: nthWeekday(year, 5, 1, -1), name: 'Spring Bank Holiday' },
+      { date: nthWeekday(year, 8, 1, -1), name: 'Summer Bank Holiday' },
+      christmasDay(year),
+      { date: makeDate(year, 12, 26), name: 'Boxing Day' }
+    ]
+  },
+  ES: {
+    name: 'Spain (national)',
+    build: year => [
+      newYearsDay(year),
+      { date: makeDate(year, 1, 6), name: 'Epiphany' },
+      { date: addDays(getEasterSunday(year), -2), name: 'Good Friday' },
+      { date: makeDate(year, 5, 1), name: 'Labour Day' },
+      { date: makeDate(year, 8, 15), name: 'Assumption Day' },
+      { date: makeDate(year, 10, 12), name: 'National Day of Spain' },
+      { date: makeDate(year, 11, 1), name: "All Saints' Day" },
+      { date: makeDate(year, 12, 6), name: 'Constitution Day' },
+      { date: makeDate(year, 12, 8), name: 'Immaculate Conception' },
+      christmasDay(year)
+    ]
+  },
+  MX: {
+    name: 'Mexico (federal)',
+    build: year => [
+      newYearsDay(year),
+      { date: nthWeekday(year, 2, 1, 1), name: 'Constitution Day' },
+      { date: nthWeekday(year, 3, 1, 3), name: "Benito Juárez's Birthday" },
+      { date: makeDate(year, 5, 1), name: 'Labour Day' },
+      { date: makeDate(year, 9, 16), name: 'Independence Day' },
+      { date: nthWeekday(year, 11, 1, 3), name: 'Revolution Day' },
+      christmasDay(year)
+    ]
+  }
+};
+
+export const HOLIDAY_COUNTRIES: HolidayCountry[] = Object.entries(COUNTRY_HOLIDAYS)
+  .map(([code, country]) => ({ code, name: country.name }));
+
+/**
+ * Festivos nacionales de un país entre dos fechas (ambas incluidas)
+ * @param countryCode - Código del país (ver HOLIDAY_COUNTRIES)
+ * @returns Festivos ordenados por fecha (vacío si el país no está en la tabla)
+ */
+export const getCountryHolidays = (countryCode: string, startDate: string, endDate: string): Holiday[] => {
+  const country = COUNTRY_HOLIDAYS[countryCode];
+  if (!country || !startDate || !endDate || startDate > endDate) return [];
+
+  const holidays: Holiday[] = [];
+  for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+    holidays.push(...country.build(year).filter(holiday => holiday.date >= startDate && holiday.date <= endDate));
+  }
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Fecha de DTSTART/DTEND ("DTSTART;VALUE=DATE:20261225" o "DTSTART:20261225T000000Z")
+const parseEventDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Lee los festivos de un archivo iCalendar (.ics): un festivo por día de cada VEVENT,
+ * con SUMMARY como nombre. Las reglas de repetición (RRULE) no se expanden.
+ * @param ics - Contenido del archivo
+ * @returns Festivos ordenados por fecha, sin fechas repetidas
+ */
+export const parseHolidayCalendar = (ics: string): Holiday[] => {
+  const holidays: Holiday[] = [];
+  let event: { start?: string | null; end?: string | null; name?: string } | null = null;
+
+  unfoldCalendarLines(ics).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      event = {};
+    } else if (event && property === 'DTSTART') {
+      event.start = parseEventDate(value);
+    } else if (event && property === 'DTEND') {
+      event.end = parseEventDate(value);
+    } else if (event && property === 'SUMMARY') {
+      event.name = unescapeCalendarText(value);
+    } else if (event && property === 'END' && value.toUpperCase() === 'VEVENT') {
+      const { start, end, name } = event;
+      if (start) {
+        // DTEND no se incluye: un festivo de un día termina al día siguiente
+        const last = end && end > start ? addDays(end, -1) : start;
+        getDateRange(start, last).slice(0, MAX_IMPORTED_EVENT_DAYS).forEach(date => {
+          holidays.push({ date, name: name || 'Holiday' });
+        });
+      }
+      event = null;
+    }
+  });
+
+  return mergeHolidays([], holidays);
+};
+
+/**
+ * Añade festivos al calendario; si una fecha ya tenía festivo, el nuevo lo reemplaza
+ * @returns Calendario ordenado por fecha con un festivo por fecha
+ */
+export const mergeHolidays = (existing: Holiday[], incoming: Holiday[]): Holiday[] => {
+  const byDate = new Map(existing.map(holiday => [holiday.date, holiday]));
+  incoming.forEach(holiday => byDate.set(holiday.date, holiday));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Festivo de una fecha, si lo hay
+ */
+export const findHoliday = (holidays: Holiday[] | undefined, dateString: string): Holiday | undefined => {
+  return holidays?.find(holiday => holiday.date === dateString);
+};
+
+/**
+ * Horas trabajadas en festivos por un empleado en un periodo. Cada turno cuenta en la fecha
+ * en que empieza; las ausencias no cuentan como horas trabajadas en festivo.
+ */
+export const getHolidayHours = (
+  employee: ScheduleEmployee,
+  shifts: ScheduleShift[],
+  holidays: Holiday[] | undefined,
+  startDate: string,
+  endDate: string
+): number => {
+  return (holidays || [])
+    .filter(holiday => holiday.date >= startDate && holiday.date <= endDate)
+    .reduce((total, holiday) => {
+      const shiftId = resolveAssignment(employee, holiday.date).shiftId;
+      const shift = shiftId ? shifts.find(s => s.id === shiftId) : undefined;
+      return total + (shift ? getShiftHours(shift) : 0);
+    }, 0);
+};
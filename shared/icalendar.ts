@@ -0,0 +1,199 @@
+// Calendario iCalendar (RFC 5545) con el horario efectivo de un empleado, para
+// descargarlo como .ics o suscribirse desde el calendario del teléfono.
+// Las horas se escriben como hora local "flotante" (sin zona): el turno de las
+// 7:00 AM aparece a las 7:00 en el calendario del empleado, esté donde esté.
+
+import {
+  ScheduleEmployee,
+  ScheduleShift,
+  addDays,
+  getDateRange,
+  getShiftInterval,
+  resolveAssignment
+} from './schedule';
+import { getShiftLabel } from './roster';
+
+export const ICALENDAR_MIME_TYPE = 'text/calendar;charset=utf-8';
+
+// Dominio de los UID: identifica los eventos de esta aplicación en el calendario
+const UID_DOMAIN = 'waok-schedule';
+
+// Ventana de la suscripción: el calendario del teléfono recibe desde hace 30 días hasta dentro de 180
+export const CALENDAR_FEED_PAST_DAYS = 30;
+export const CALENDAR_FEED_FUTURE_DAYS = 180;
+
+// Longitud máxima de una línea en octetos antes de plegarla (RFC 5545, 3.1)
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEmployee extends ScheduleEmployee {
+  // Comentarios de la celda del horario, por fecha (YYYY-MM-DD)
+  shiftComments?: { [date: string]: string };
+}
+
+export interface EmployeeCalendarOptions {
+  calendarName: string;
+  startDate: string;
+  endDate: string;
+  // Momento de generación (DTSTAMP)
+  now: Date;
+}
+
+/**
+ * Periodo que cubre la suscripción al calendario alrededor de una fecha
+ * @param today - Fecha actual (YYYY-MM-DD)
+ */
+export const getCalendarFeedPeriod = (today: string): { startDate: string; endDate: string } => ({
+  startDate: addDays(today, -CALENDAR_FEED_PAST_DAYS),
+  endDate: addDays(today, CALENDAR_FEED_FUTURE_DAYS)
+});
+
+/**
+ * Escapa un texto para una propiedad TEXT (barra invertida, coma, punto y coma y saltos de línea)
+ */
+export const escapeCalendarText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Pliega una línea en trozos de 75 octetos como máximo; las continuaciones empiezan con un espacio.
+ * No corta caracteres UTF-8 de varios bytes.
+ */
+export const foldCalendarLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  Array.from(line).forEach(char => {
+    const octets = encoder.encode(char).length;
+    // La primera línea admite 75 octetos; las siguientes 74 más el espacio inicial
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  });
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Inverso de escapeCalendarText
+ */
+export const unescapeCalendarText = (text: string): string => {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+/**
+ * Despliega las líneas plegadas de un archivo .ics (las que empiezan con espacio o tabulador
+ * continúan la anterior) y separa las líneas
+ */
+export const unfoldCalendarLines = (ics: string): string[] => {
+  return ics
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Fecha y hora local flotante (YYYYMMDDTHHMMSS) a partir de milisegundos "UTC" del horario
+const formatLocalDateTime = (ms: number): string => {
+  const date = new Date(ms);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+};
+
+const formatUtcDateTime = (date: Date): string => `${formatLocalDateTime(date.getTime())}Z`;
+
+const formatDate = (dateString: string): string => dateString.replace(/-/g, '');
+
+const buildDescription = (lines: (string | undefined)[]): string => {
+  return lines.filter((line): line is string => !!line && line.trim() !== '').join('\n');
+};
+
+/**
+ * Eventos de un día: el turno efectivo (con fin al día siguiente si es nocturno) o
+ * la ausencia aprobada como evento de día completo. Los días libres no generan evento.
+ */
+const buildDayEvent = (
+  employee: CalendarEmployee,
+  date: string,
+  shifts: ScheduleShift[],
+  stamp: string
+): string[] => {
+  const assignment = resolveAssignment(employee, date);
+  const comment = employee.shiftComments?.[date];
+  const uid = `UID:${employee.id}-${date}@${UID_DOMAIN}`;
+
+  if (assignment.source === 'leave' && assignment.leave) {
+    const { leaveType, hoursPerDay } = assignment.leave;
+    return [
+      'BEGIN:VEVENT',
+      uid,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(date, 1))}`,
+      `SUMMARY:${escapeCalendarText(leaveType || 'Leave')}`,
+      `DESCRIPTION:${escapeCalendarText(buildDescription([hoursPerDay ? `${hoursPerDay} hours` : undefined, comment]))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  }
+
+  if (!assignment.shiftId) return [];
+  const shift = shifts.find(s => s.id === assignment.shiftId);
+  const interval = shift && getShiftInterval(shift, date);
+  if (!shift || !interval) return [];
+
+  return [
+    'BEGIN:VEVENT',
+    uid,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatLocalDateTime(interval.start)}`,
+    `DTEND:${formatLocalDateTime(interval.end)}`,
+    `SUMMARY:${escapeCalendarText(getShiftLabel(shift))}`,
+    `DESCRIPTION:${escapeCalendarText(buildDescription([`${shift.startTime} - ${shift.endTime}`, comment]))}`,
+    'END:VEVENT'
+  ];
+};
+
+/**
+ * Genera el calendario iCalendar de un empleado con un evento por cada turno trabajado
+ * o ausencia aprobada del periodo (permiso aprobado > manual > fijo, igual que la tabla).
+ * @param employee - Empleado con sus turnos, ausencias y comentarios
+ * @param shifts - Turnos de la lista
+ * @param options - Nombre del calendario, periodo (YYYY-MM-DD, incluido) y hora de generación
+ * @returns Texto .ics con fin de línea CRLF
+ */
+export const buildEmployeeCalendar = (
+  employee: CalendarEmployee,
+  shifts: ScheduleShift[],
+  options: EmployeeCalendarOptions
+): string => {
+  const stamp = formatUtcDateTime(options.now);
+  const events = getDateRange(options.startDate, options.endDate)
+    .flatMap(date => buildDayEvent(employee, date, shifts, stamp));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WAOK Schedule//Employee Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeCalendarText(options.calendarName)}`,
+    ...events,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldCalendarLine).join('\r\n') + '\r\n';
+};
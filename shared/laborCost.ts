@@ -0,0 +1,164 @@
+// Coste de personal del periodo del horario comparado con el presupuesto de la lista.
+// La tarifa por hora sale del empleado o, si no tiene, de su rol o de la tarifa general.
+// Las horas extra (ver shared/payroll.ts) se pagan con el multiplicador del presupuesto y las
+// plazas de horas extra abiertas de los turnos (overtimeEntries) se suman como coste previsto.
+
+import { ScheduleEmployee, ScheduleShift, getDateRange, getShiftHours } from './schedule';
+import { PayrollSettings, getPayrollDays } from './payroll';
+import type { LaborBudget } from './schema';
+
+export type { LaborBudget };
+
+export const DEFAULT_LABOR_BUDGET: LaborBudget = {
+  budget: 0,
+  defaultHourlyRate: 0,
+  overtimeMultiplier: 1.5,
+  roleRates: {}
+};
+
+export interface LaborCostEmployee extends ScheduleEmployee {
+  role?: string;
+  hourlyRate?: number;
+}
+
+export interface LaborCostShift extends ScheduleShift {
+  overtimeEntries?: { date: string; quantity: number; isActive: boolean }[];
+}
+
+export interface LaborCostLine {
+  hours: number; // Horas pagadas (trabajadas y, en días y empleados, ausencias pagadas)
+  overtimeHours: number;
+  overtimePremium: number; // Lo que se paga de más por las horas extra
+  cost: number; // Incluye la prima de horas extra
+}
+
+export interface DayLaborCost extends LaborCostLine {
+  date: string;
+  openOvertimeSlots: number;
+  openOvertimeCost: number;
+}
+
+export interface ShiftLaborCost extends LaborCostLine {
+  shiftId: string;
+  openOvertimeSlots: number;
+  openOvertimeCost: number;
+}
+
+export interface EmployeeLaborCost extends LaborCostLine {
+  employeeId: string;
+  employeeName: string;
+  hourlyRate: number;
+}
+
+export interface LaborCostReport {
+  byDay: DayLaborCost[];
+  byShift: ShiftLaborCost[];
+  byEmployee: EmployeeLaborCost[];
+  scheduledCost: number; // Coste de los turnos asignados y ausencias pagadas
+  openOvertimeCost: number; // Coste previsto de las plazas de horas extra abiertas
+  totalCost: number;
+  budget: number;
+  remaining: number; // Presupuesto menos coste total (negativo si se supera)
+}
+
+export interface LaborCostOptions {
+  employees: LaborCostEmployee[];
+  shifts: LaborCostShift[];
+  startDate: string;
+  endDate: string;
+  laborBudget?: Partial<LaborBudget>;
+  // Umbral y base de las horas extra; por defecto los de la nómina
+  payrollSettings?: Partial<PayrollSettings>;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const emptyLine = (): LaborCostLine => ({ hours: 0, overtimeHours: 0, overtimePremium: 0, cost: 0 });
+
+const addToLine = (line: LaborCostLine, hours: number, overtimeHours: number, rate: number, multiplier: number) => {
+  const premium = overtimeHours * rate * (multiplier - 1);
+  line.hours += hours;
+  line.overtimeHours += overtimeHours;
+  line.overtimePremium += premium;
+  line.cost += hours * rate + premium;
+};
+
+const roundLine = <T extends LaborCostLine>(line: T): T => ({
+  ...line,
+  hours: roundMoney(line.hours),
+  overtimeHours: roundMoney(line.overtimeHours),
+  overtimePremium: roundMoney(line.overtimePremium),
+  cost: roundMoney(line.cost)
+});
+
+/**
+ * Tarifa por hora de un empleado: la suya, la de su rol o la tarifa general de la lista
+ */
+export const getEmployeeHourlyRate = (employee: Pick<LaborCostEmployee, 'role' | 'hourlyRate'>, laborBudget: LaborBudget): number => {
+  if (typeof employee.hourlyRate === 'number') return employee.hourlyRate;
+  const roleRate = employee.role ? laborBudget.roleRates[employee.role] : undefined;
+  return roleRate ?? laborBudget.defaultHourlyRate;
+};
+
+/**
+ * Calcula el coste de personal del periodo por día, por turno y por empleado.
+ * Las plazas de horas extra abiertas se valoran a la tarifa general con el multiplicador
+ * de horas extra, porque todavía no se sabe quién las cubrirá.
+ */
+export const buildLaborCostReport = ({
+  employees,
+  shifts,
+  startDate,
+  endDate,
+  laborBudget: partialBudget,
+  payrollSettings
+}: LaborCostOptions): LaborCostReport => {
+  const laborBudget: LaborBudget = { ...DEFAULT_LABOR_BUDGET, ...partialBudget };
+  const multiplier = laborBudget.overtimeMultiplier;
+  const dates = getDateRange(startDate, endDate);
+
+  const byDay: DayLaborCost[] = dates.map(date => ({ ...emptyLine(), date, openOvertimeSlots: 0, openOvertimeCost: 0 }));
+  const byShift: ShiftLaborCost[] = shifts.map(shift => ({ ...emptyLine(), shiftId: shift.id, openOvertimeSlots: 0, openOvertimeCost: 0 }));
+
+  const byEmployee: EmployeeLaborCost[] = employees.map(employee => {
+    const rate = getEmployeeHourlyRate(employee, laborBudget);
+    const line: EmployeeLaborCost = { ...emptyLine(), employeeId: employee.id, employeeName: employee.name, hourlyRate: rate };
+
+    getPayrollDays(employee, shifts, startDate, endDate, payrollSettings).forEach((day, index) => {
+      const paidHours = day.workedHours + day.paidLeaveHours;
+      addToLine(line, paidHours, day.overtimeHours, rate, multiplier);
+      addToLine(byDay[index], paidHours, day.overtimeHours, rate, multiplier);
+
+      const shiftLine = byShift.find(s => s.shiftId === day.shiftId);
+      if (shiftLine) addToLine(shiftLine, day.workedHours, day.overtimeHours, rate, multiplier);
+    });
+    return line;
+  });
+
+  shifts.forEach((shift, shiftIndex) => {
+    const slotCost = getShiftHours(shift) * laborBudget.defaultHourlyRate * multiplier;
+    shift.overtimeEntries?.forEach(entry => {
+      const dayIndex = dates.indexOf(entry.date);
+      if (!entry.isActive || entry.quantity <= 0 || dayIndex < 0) return;
+      [byShift[shiftIndex], byDay[dayIndex]].forEach(line => {
+        line.openOvertimeSlots += entry.quantity;
+        line.openOvertimeCost += entry.quantity * slotCost;
+      });
+    });
+  });
+
+  const scheduledCost = roundMoney(byEmployee.reduce((total, line) => total + line.cost, 0));
+  const openOvertimeCost = roundMoney(byShift.reduce((total, line) => total + line.openOvertimeCost, 0));
+  const totalCost = roundMoney(scheduledCost + openOvertimeCost);
+
+  return {
+    byDay: byDay.map(line => ({ ...roundLine(line), openOvertimeCost: roundMoney(line.openOvertimeCost) })),
+    byShift: byShift.map(line => ({ ...roundLine(line), openOvertimeCost: roundMoney(line.openOvertimeCost) })),
+    byEmployee: byEmployee.map(roundLine),
+    scheduledCost,
+    openOvertimeCost,
+    totalCost,
+    budget: laborBudget.budget,
+    remaining: roundMoney(laborBudget.budget - totalCost)
+  };
+};
@@ -0,0 +1,269 @@
+// Resumen de nómina por periodo de pago: horas normales, horas extra sobre un umbral semanal
+// o quincenal, horas nocturnas y de fin de semana (para los pluses) y horas de ausencia.
+// Las horas se calculan igual que en la tabla de horarios: cada turno cuenta en la fecha en
+// que empieza y el almuerzo se descuenta de las horas pagadas.
+
+import {
+  ScheduleEmployee,
+  ScheduleShift,
+  addDays,
+  getDateRange,
+  getShiftHours,
+  getShiftInterval,
+  parseDateString,
+  parseTimeToMinutes,
+  resolveAssignment
+} from './schedule';
+import { Holiday, findHoliday } from './holidays';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export type OvertimeBasis = 'weekly' | 'biweekly';
+
+export interface PayrollSettings {
+  payPeriodDays: number; // 7 (semanal) o 14 (quincenal), contados desde el inicio del horario
+  overtimeBasis: OvertimeBasis;
+  overtimeThreshold: number; // Horas trabajadas por semana o quincena antes de las horas extra
+  nightStart: string; // Inicio de la franja nocturna (ej. "22:00")
+  nightEnd: string; // Fin de la franja nocturna; si es menor que el inicio, termina al día siguiente
+  unpaidLeaveTypes: string[]; // Tipos de ausencia sin sueldo; el resto se pagan
+}
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  payPeriodDays: 14,
+  overtimeBasis: 'weekly',
+  overtimeThreshold: 40,
+  nightStart: '22:00',
+  nightEnd: '06:00',
+  unpaidLeaveTypes: ['Unpaid Leave']
+};
+
+export interface PayPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface PayrollSummary {
+  employeeId: string;
+  employeeName: string;
+  periodStart: string;
+  periodEnd: string;
+  regularHours: number;
+  overtimeHours: number;
+  nightHours: number; // Parte de las horas trabajadas dentro de la franja nocturna
+  weekendHours: number; // Parte de las horas trabajadas en sábado o domingo
+  holidayHours: number; // Horas de turnos que empiezan en un festivo
+  paidLeaveHours: number;
+  unpaidLeaveDays: number;
+  unpaidLeaveHours: number;
+  totalPaidHours: number; // Normales + extra + ausencias pagadas
+}
+
+export interface PayrollOptions {
+  employees: ScheduleEmployee[];
+  shifts: ScheduleShift[];
+  startDate: string;
+  endDate: string;
+  settings?: Partial<PayrollSettings>;
+  holidays?: Holiday[];
+}
+
+// Horas de un empleado en un día del horario, con las horas extra ya repartidas
+export interface PayrollDay {
+  date: string;
+  shiftId: string | null; // Turno trabajado (null si no trabaja o está de ausencia)
+  workedHours: number;
+  overtimeHours: number; // Parte de workedHours que supera el umbral
+  nightHours: number;
+  weekendHours: number;
+  holidayHours: number;
+  paidLeaveHours: number;
+  unpaidLeaveHours: number;
+  isUnpaidLeave: boolean;
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+// Horas en que se solapan dos intervalos en milisegundos
+const overlapHours = (a: { start: number; end: number }, b: { start: number; end: number }): number => {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start)) / MS_PER_HOUR;
+};
+
+/**
+ * Divide el horario en periodos de pago consecutivos desde startDate; el último puede ser más corto
+ * @param payPeriodDays - Días de cada periodo (7 o 14)
+ */
+export const getPayPeriods = (startDate: string, endDate: string, payPeriodDays: number): PayPeriod[] => {
+  const days = Math.max(1, Math.floor(payPeriodDays) || 1);
+  const periods: PayPeriod[] = [];
+  if (!startDate || !endDate || startDate > endDate) return periods;
+
+  for (let periodStart = startDate; periodStart <= endDate; periodStart = addDays(periodStart, days)) {
+    const periodEnd = addDays(periodStart, days - 1);
+    periods.push({ startDate: periodStart, endDate: periodEnd < endDate ? periodEnd : endDate });
+  }
+  return periods;
+};
+
+/**
+ * Horas de un turno dentro de la franja nocturna, sin pasar de las horas pagadas del turno
+ */
+export const getNightHours = (shift: ScheduleShift, dateString: string, nightStart: string, nightEnd: string): number => {
+  const interval = getShiftInterval(shift, dateString);
+  const nightStartMinutes = parseTimeToMinutes(nightStart);
+  const nightEndMinutes = parseTimeToMinutes(nightEnd);
+  if (!interval || nightStartMinutes === null || nightEndMinutes === null || nightStartMinutes === nightEndMinutes) return 0;
+
+  // La franja de la noche anterior puede cubrir la madrugada del turno y la del día siguiente su final
+  const hours = [-1, 0, 1].reduce((total, offset) => {
+    const night = getShiftInterval({ id: 'night', startTime: nightStart, endTime: nightEnd }, addDays(dateString, offset));
+    return total + (night ? overlapHours(interval, night) : 0);
+  }, 0);
+  return Math.min(hours, getShiftHours(shift));
+};
+
+/**
+ * Horas de un turno que caen en sábado o domingo (por la hora del reloj), sin pasar de las horas pagadas
+ */
+export const getWeekendHours = (shift: ScheduleShift, dateString: string): number => {
+  const interval = getShiftInterval(shift, dateString);
+  if (!interval) return 0;
+
+  const hours = [0, 1].reduce((total, offset) => {
+    const day = addDays(dateString, offset);
+    const weekday = parseDateString(day).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) return total;
+    const dayStart = parseDateString(day).getTime();
+    return total + overlapHours(interval, { start: dayStart, end: dayStart + 24 * MS_PER_HOUR });
+  }, 0);
+  return Math.min(hours, getShiftHours(shift));
+};
+
+const getDayHours = (
+  employee: ScheduleEmployee,
+  shifts: ScheduleShift[],
+  dateString: string,
+  settings: PayrollSettings,
+  holidays: Holiday[] | undefined
+): PayrollDay => {
+  const day: PayrollDay = {
+    date: dateString,
+    shiftId: null,
+    workedHours: 0,
+    overtimeHours: 0,
+    nightHours: 0,
+    weekendHours: 0,
+    holidayHours: 0,
+    paidLeaveHours: 0,
+    unpaidLeaveHours: 0,
+    isUnpaidLeave: false
+  };
+  const assignment = resolveAssignment(employee, dateString);
+
+  if (assignment.source === 'leave' && assignment.leave) {
+    if (settings.unpaidLeaveTypes.includes(assignment.leave.leaveType)) {
+      day.isUnpaidLeave = true;
+      day.unpaidLeaveHours = assignment.leave.hoursPerDay || 0;
+    } else {
+      day.paidLeaveHours = assignment.leave.hoursPerDay || 0;
+    }
+    return day;
+  }
+
+  const shift = assignment.shiftId ? shifts.find(s => s.id === assignment.shiftId) : undefined;
+  if (!shift) return day;
+
+  day.shiftId = shift.id;
+  day.workedHours = getShiftHours(shift);
+  day.nightHours = getNightHours(shift, dateString, settings.nightStart, settings.nightEnd);
+  day.weekendHours = getWeekendHours(shift, dateString);
+  day.holidayHours = findHoliday(holidays, dateString) ? day.workedHours : 0;
+  return day;
+};
+
+/**
+ * Horas de un empleado en cada día del horario.
+ * Las horas extra se cuentan en orden: cuando las horas trabajadas de la semana (o quincena,
+ * según overtimeBasis, contadas desde startDate) pasan del umbral, el resto son horas extra
+ * del día en que se trabajaron. Las ausencias pagadas no cuentan para el umbral.
+ */
+export const getPayrollDays = (
+  employee: ScheduleEmployee,
+  shifts: ScheduleShift[],
+  startDate: string,
+  endDate: string,
+  partialSettings?: Partial<PayrollSettings>,
+  holidays?: Holiday[]
+): PayrollDay[] => {
+  const settings: PayrollSettings = { ...DEFAULT_PAYROLL_SETTINGS, ...partialSettings };
+  const overtimeBlockDays = settings.overtimeBasis === 'biweekly' ? 14 : 7;
+
+  let blockWorked = 0;
+  return getDateRange(startDate, endDate).map((date, index) => {
+    if (index % overtimeBlockDays === 0) blockWorked = 0;
+    const day = getDayHours(employee, shifts, date, settings, holidays);
+    day.overtimeHours = Math.min(day.workedHours, Math.max(0, blockWorked + day.workedHours - settings.overtimeThreshold));
+    blockWorked += day.workedHours;
+    return day;
+  });
+};
+
+/**
+ * Calcula el resumen de nómina de cada empleado en cada periodo de pago. Las horas extra
+ * (ver getPayrollDays) se asignan al periodo de pago del día en que se trabajaron.
+ * @returns Una fila por empleado y periodo, en el orden de employees
+ */
+export const buildPayrollSummary = ({
+  employees,
+  shifts,
+  startDate,
+  endDate,
+  settings: partialSettings,
+  holidays
+}: PayrollOptions): PayrollSummary[] => {
+  const settings: PayrollSettings = { ...DEFAULT_PAYROLL_SETTINGS, ...partialSettings };
+  const periodDays = Math.max(1, Math.floor(settings.payPeriodDays) || 1);
+  const periods = getPayPeriods(startDate, endDate, periodDays);
+
+  return employees.flatMap(employee => {
+    const rows: PayrollSummary[] = periods.map(period => ({
+      employeeId: employee.id,
+      employeeName: employee.name,
+      periodStart: period.startDate,
+      periodEnd: period.endDate,
+      regularHours: 0,
+      overtimeHours: 0,
+      nightHours: 0,
+      weekendHours: 0,
+      holidayHours: 0,
+      paidLeaveHours: 0,
+      unpaidLeaveDays: 0,
+      unpaidLeaveHours: 0,
+      totalPaidHours: 0
+    }));
+
+    getPayrollDays(employee, shifts, startDate, endDate, settings, holidays).forEach((day, index) => {
+      const row = rows[Math.floor(index / periodDays)];
+      row.regularHours += day.workedHours - day.overtimeHours;
+      row.overtimeHours += day.overtimeHours;
+      row.nightHours += day.nightHours;
+      row.weekendHours += day.weekendHours;
+      row.holidayHours += day.holidayHours;
+      row.paidLeaveHours += day.paidLeaveHours;
+      row.unpaidLeaveHours += day.unpaidLeaveHours;
+      if (day.isUnpaidLeave) row.unpaidLeaveDays++;
+    });
+
+    return rows.map(row => ({
+      ...row,
+      regularHours: round(row.regularHours),
+      overtimeHours: round(row.overtimeHours),
+      nightHours: round(row.nightHours),
+      weekendHours: round(row.weekendHours),
+      holidayHours: round(row.holidayHours),
+      paidLeaveHours: round(row.paidLeaveHours),
+      unpaidLeaveHours: round(row.unpaidLeaveHours),
+      totalPaidHours: round(row.regularHours + row.overtimeHours + row.paidLeaveHours)
+    }));
+  });
+};
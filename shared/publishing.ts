@@ -0,0 +1,276 @@
+// Publicación del horario. Publicar un periodo guarda una copia inmutable de lo que se
+// ve en cada celda; la lista sigue siendo el borrador editable. Los empleados solo ven
+// lo publicado: para cada fecha, la publicación más reciente que la incluye.
+
+import {
+  DAY_OFF,
+  ScheduleEmployee,
+  ScheduleLeave,
+  ScheduleShift,
+  addDays,
+  getDateRange,
+  isApprovedLeave,
+  resolveAssignment
+} from './schedule';
+
+// Empleado tal como quedó publicado: turnos ya resueltos (manual o fijo) y ausencias
+// aprobadas recortadas al periodo
+export interface PublishedEmployee {
+  id: string;
+  name: string;
+  assignments: { [date: string]: string }; // shiftId o 'day-off'
+  leave: ScheduleLeave[];
+  shiftComments: { [date: string]: string };
+}
+
+export interface ScheduleSnapshot {
+  shifts: ScheduleShift[];
+  employees: PublishedEmployee[];
+}
+
+export interface PublishedPeriod {
+  startDate: string;
+  endDate: string;
+  snapshot: ScheduleSnapshot;
+}
+
+// Lo que se ve en una celda; null si no hay nada asignado
+export type PublishedCell =
+  | { type: 'shift'; shiftId: string }
+  | { type: 'day-off' }
+  | { type: 'leave'; leaveType: string }
+  | null;
+
+export interface ScheduleCellChange {
+  employeeId: string;
+  employeeName: string;
+  date: string;
+  published: PublishedCell;
+  draft: PublishedCell;
+}
+
+export interface ScheduleShiftChange {
+  shiftId: string;
+  published: ScheduleShift | null;
+  draft: ScheduleShift | null;
+}
+
+export interface ScheduleDiff {
+  cells: ScheduleCellChange[];
+  shifts: ScheduleShiftChange[];
+}
+
+type SnapshotSource = {
+  employees: (ScheduleEmployee & { shiftComments?: { [key: string]: string } })[];
+  shifts: ScheduleShift[];
+};
+
+// Campos de ScheduleShift que se publican y se comparan
+const toPublishedShift = (shift: ScheduleShift): ScheduleShift => ({
+  id: shift.id,
+  startTime: shift.startTime,
+  endTime: shift.endTime,
+  lunchBreakDeduction: shift.lunchBreakDeduction ?? 0,
+  ...(shift.name ? { name: shift.name } : {})
+});
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const clipLeave = (leave: ScheduleLeave, startDate: string, endDate: string): ScheduleLeave | null => {
+  const clipped = {
+    ...leave,
+    startDate: leave.startDate > startDate ? leave.startDate : startDate,
+    endDate: leave.endDate < endDate ? leave.endDate : endDate
+  };
+  return clipped.startDate <= clipped.endDate ? clipped : null;
+};
+
+// Partes de una ausencia que quedan fuera de un periodo (0, 1 o 2 tramos)
+const removePeriodFromLeave = (leave: ScheduleLeave, startDate: string, endDate: string): ScheduleLeave[] => {
+  if (leave.endDate < startDate || leave.startDate > endDate) return [leave];
+  const pieces: ScheduleLeave[] = [];
+  if (leave.startDate < startDate) pieces.push({ ...leave, endDate: addDays(startDate, -1) });
+  if (leave.endDate > endDate) pieces.push({ ...leave, id: `${leave.id}-after-${endDate}`, startDate: addDays(endDate, 1) });
+  return pieces;
+};
+
+const pickDates = <T>(map: { [date: string]: T } | undefined, dates: string[]): { [date: string]: T } => {
+  const picked: { [date: string]: T } = {};
+  dates.forEach(date => {
+    if (map?.[date] !== undefined) picked[date] = map[date];
+  });
+  return picked;
+};
+
+/**
+ * Copia publicable del horario de una lista en un periodo
+ * @param list - Empleados y turnos del borrador
+ * @param startDate - Primer día del periodo (YYYY-MM-DD)
+ * @param endDate - Último día del periodo
+ */
+export const buildScheduleSnapshot = (list: SnapshotSource, startDate: string, endDate: string): ScheduleSnapshot => {
+  const dates = getDateRange(startDate, endDate);
+
+  return {
+    shifts: list.shifts.map(toPublishedShift),
+    employees: list.employees.map(employee => {
+      const assignments: { [date: string]: string } = {};
+      dates.forEach(date => {
+        const assignment = resolveAssignment(employee, date);
+        if (assignment.shiftId) assignments[date] = assignment.shiftId;
+        else if (assignment.isDayOff) assignments[date] = DAY_OFF;
+      });
+
+      return {
+        id: employee.id,
+        name: employee.name,
+        assignments,
+        leave: (employee.leave || [])
+          .filter(isApprovedLeave)
+          .map(leave => clipLeave(leave, startDate, endDate))
+          .filter((leave): leave is ScheduleLeave => leave !== null),
+        shiftComments: pickDates(employee.shiftComments, dates)
+      };
+    })
+  };
+};
+
+/**
+ * Sustituye el horario de un empleado por el publicado. Los campos del borrador que
+ * generan turnos (manuales, fijos, rotaciones, fijados y ausencias) se reemplazan por lo publicado.
+ * @param employee - Empleado del borrador
+ * @param publications - Publicaciones de la lista, de la más antigua a la más reciente
+ */
+export const applyPublishedSchedule = <T extends ScheduleEmployee & { shiftComments?: { [key: string]: string } }>(
+  employee: T,
+  publications: PublishedPeriod[]
+): T => {
+  const { fixedShifts, rotation, lockedShifts, autoDaysOff, ...rest } = employee;
+  let manualShifts: { [date: string]: string } = {};
+  let shiftComments: { [date: string]: string } = {};
+  let leave: ScheduleLeave[] = [];
+
+  publications.forEach(({ startDate, endDate, snapshot }) => {
+    // Una publicación posterior sustituye todo su periodo, aunque el empleado no aparezca
+    const outside = (date: string) => date < startDate || date > endDate;
+    manualShifts = Object.fromEntries(Object.entries(manualShifts).filter(([date]) => outside(date)));
+    shiftComments = Object.fromEntries(Object.entries(shiftComments).filter(([date]) => outside(date)));
+    leave = leave.flatMap(entry => removePeriodFromLeave(entry, startDate, endDate));
+
+    const published = snapshot.employees.find(e => e.id === employee.id);
+    if (published) {
+      Object.assign(manualShifts, published.assignments);
+      Object.assign(shiftComments, published.shiftComments);
+      leave.push(...published.leave);
+    }
+  });
+
+  return { ...rest, manualShifts, shiftComments, leave } as T;
+};
+
+/**
+ * Definiciones de turnos que ven los empleados: las publicadas más recientes y,
+ * detrás, los turnos del borrador que nunca se publicaron
+ */
+export const mergePublishedShifts = <T extends ScheduleShift>(shifts: T[], publications: PublishedPeriod[]): T[] => {
+  const published = new Map<string, ScheduleShift>();
+  publications.forEach(({ snapshot }) => snapshot.shifts.forEach(shift => published.set(shift.id, shift)));
+
+  return [
+    ...Array.from(published.values()).map(shift => ({ ...shifts.find(s => s.id === shift.id), ...shift }) as T),
+    ...shifts.filter(shift => !published.has(shift.id))
+  ];
+};
+
+/**
+ * Lo que se ve en la celda de un empleado publicado en una fecha
+ */
+export const getPublishedCell = (employee: PublishedEmployee | undefined, date: string): PublishedCell => {
+  if (!employee) return null;
+  const leave = employee.leave.find(l => l.startDate <= date && l.endDate >= date);
+  if (leave) return { type: 'leave', leaveType: leave.leaveType };
+  const value = employee.assignments[date];
+  if (!value) return null;
+  return value === DAY_OFF ? { type: 'day-off' } : { type: 'shift', shiftId: value };
+};
+
+/**
+ * Compara el borrador con una publicación del mismo periodo
+ * @param published - Publicación guardada
+ * @param draft - Copia del borrador hecha con buildScheduleSnapshot para el mismo periodo
+ * @returns Celdas y definiciones de turnos que cambiaron desde la publicación
+ */
+export const diffScheduleSnapshots = (published: PublishedPeriod, draft: ScheduleSnapshot): ScheduleDiff => {
+  const publishedById = new Map(published.snapshot.employees.map(employee => [employee.id, employee]));
+  const draftById = new Map(draft.employees.map(employee => [employee.id, employee]));
+  const employeeIds = Array.from(new Set([...publishedById.keys(), ...draftById.keys()]));
+  const dates = getDateRange(published.startDate, published.endDate);
+
+  const cells: ScheduleCellChange[] = [];
+  employeeIds.forEach(employeeId => {
+    const before = publishedById.get(employeeId);
+    const after = draftById.get(employeeId);
+    dates.forEach(date => {
+      const publishedCell = getPublishedCell(before, date);
+      const draftCell = getPublishedCell(after, date);
+      if (!isEqual(publishedCell, draftCell)) {
+        cells.push({
+          employeeId,
+          employeeName: (after ?? before)!.name,
+          date,
+          published: publishedCell,
+          draft: draftCell
+        });
+      }
+    });
+  });
+
+  const publishedShifts = new Map(published.snapshot.shifts.map(shift => [shift.id, shift]));
+  const draftShifts = new Map(draft.shifts.map(shift => [shift.id, toPublishedShift(shift)]));
+  const shifts = Array.from(new Set([...publishedShifts.keys(), ...draftShifts.keys()]))
+    .filter(shiftId => !isEqual(publishedShifts.get(shiftId), draftShifts.get(shiftId)))
+    .map(shiftId => ({
+      shiftId,
+      published: publishedShifts.get(shiftId) ?? null,
+      draft: draftShifts.get(shiftId) ?? null
+    }));
+
+  return { cells, shifts };
+};
+
+/**
+ * Cambios que una publicación nueva hace sobre lo que los empleados ya tenían publicado.
+ * Solo cuentan las fechas publicadas antes: publicar un periodo por primera vez no cambia nada.
+ * @param previous - Publicaciones anteriores, de la más antigua a la más reciente
+ * @param latest - Publicación nueva
+ */
+export const diffWithPreviousPublications = (previous: PublishedPeriod[], latest: PublishedPeriod): ScheduleCellChange[] => {
+  const dates = getDateRange(latest.startDate, latest.endDate)
+    .filter(date => previous.some(publication => publication.startDate <= date && date <= publication.endDate));
+  if (dates.length === 0) return [];
+
+  const names = new Map<string, string>();
+  [...previous, latest].forEach(({ snapshot }) => snapshot.employees.forEach(employee => names.set(employee.id, employee.name)));
+
+  const changes: ScheduleCellChange[] = [];
+  names.forEach((name, employeeId) => {
+    const before = applyPublishedSchedule<ScheduleEmployee>({ id: employeeId, name }, previous);
+    const beforeEmployee: PublishedEmployee = {
+      id: employeeId,
+      name,
+      assignments: before.manualShifts || {},
+      leave: before.leave || [],
+      shiftComments: {}
+    };
+    const after = latest.snapshot.employees.find(employee => employee.id === employeeId);
+
+    dates.forEach(date => {
+      const published = getPublishedCell(beforeEmployee, date);
+      const draft = getPublishedCell(after, date);
+      if (!isEqual(published, draft)) {
+        changes.push({ employeeId, employeeName: name, date, published, draft });
+      }
+    });
+  });
+  return changes;
+};
@@ -0,0 +1,184 @@
+// Modelo del roster imprimible (Print Schedule): el cliente lo pinta como HTML para
+// imprimir y el servidor lo convierte en PDF, así las dos salidas muestran lo mismo.
+
+import {
+  ScheduleEmployee,
+  ScheduleShift,
+  ScheduleStaffing,
+  getDateRange,
+  getShiftDataTarget,
+  resolveAssignment
+} from './schedule';
+
+// Una página por semana de 7 días contados desde el inicio del periodo
+export const ROSTER_DAYS_PER_WEEK = 7;
+
+export interface RosterShift extends ScheduleShift {
+  color?: string; // Hex (#RRGGBB) definido en ShiftRow.color
+}
+
+export interface RosterList {
+  name: string;
+  employees: ScheduleEmployee[];
+  shifts: RosterShift[];
+  // Personal ideal alineado por posición con los turnos (por día de la semana y por fecha)
+  shiftData?: ScheduleStaffing[];
+}
+
+export type RosterCellKind = 'shift' | 'day-off' | 'leave' | 'empty';
+
+export interface RosterCell {
+  date: string;
+  kind: RosterCellKind;
+  label: string;
+  shiftId?: string;
+  color?: string;
+  hoursPerDay?: number;
+}
+
+export interface RosterRow {
+  employeeId: string;
+  name: string;
+  cells: RosterCell[];
+}
+
+// Fila de totales de personal: programados frente a ideal por fecha
+export interface RosterTotal {
+  shiftId: string;
+  label: string;
+  color?: string;
+  scheduled: number[];
+  ideal: number[];
+}
+
+export interface RosterWeek {
+  dates: string[];
+  rows: RosterRow[];
+  totals: RosterTotal[];
+}
+
+export interface RosterLegendEntry {
+  shiftId: string;
+  label: string;
+  timeRange: string;
+  color?: string;
+}
+
+export interface Roster {
+  title: string;
+  startDate: string;
+  endDate: string;
+  weeks: RosterWeek[];
+  legend: RosterLegendEntry[];
+  leaveTypes: string[];
+}
+
+/**
+ * Nombre visible de un turno: su nombre personalizado o el horario
+ */
+export const getShiftLabel = (shift: ScheduleShift): string => {
+  return shift.name?.trim() || `${shift.startTime} - ${shift.endTime}`;
+};
+
+/**
+ * Normaliza un color hex (#RGB o #RRGGBB) a #RRGGBB en mayúsculas
+ * @returns El color normalizado o undefined si no es un hex válido
+ */
+export const normalizeHexColor = (color: string | undefined): string | undefined => {
+  const match = color?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const hex = match[1].length === 3
+    ? match[1].split('').map(char => char + char).join('')
+    : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+/**
+ * Color de texto legible (negro o blanco) sobre un fondo hex
+ */
+export const getContrastTextColor = (background: string | undefined): string => {
+  const hex = normalizeHexColor(background);
+  if (!hex) return '#000000';
+  const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+  // Luminancia percibida (ITU-R BT.601)
+  return (r * 299 + g * 587 + b * 114) / 1000 >= 150 ? '#000000' : '#FFFFFF';
+};
+
+/**
+ * Celda de un empleado en una fecha con su asignación efectiva (permiso aprobado > manual > fijo)
+ */
+export const buildRosterCell = (employee: ScheduleEmployee, date: string, shifts: RosterShift[]): RosterCell => {
+  const assignment = resolveAssignment(employee, date);
+
+  if (assignment.source === 'leave' && assignment.leave) {
+    return { date, kind: 'leave', label: assignment.leave.leaveType || 'Leave', hoursPerDay: assignment.leave.hoursPerDay };
+  }
+  if (assignment.isDayOff) {
+    return { date, kind: 'day-off', label: 'Off' };
+  }
+  if (assignment.shiftId) {
+    const shift = shifts.find(s => s.id === assignment.shiftId);
+    return {
+      date,
+      kind: 'shift',
+      label: shift ? getShiftLabel(shift) : assignment.shiftId,
+      shiftId: assignment.shiftId,
+      color: normalizeHexColor(shift?.color)
+    };
+  }
+  return { date, kind: 'empty', label: '' };
+};
+
+/**
+ * Construye el roster imprimible de una lista, una semana por página.
+ * Cada celda muestra la asignación efectiva (permiso aprobado > manual > fijo) y cada
+ * semana incluye los totales de personal programado frente al ideal de cada turno.
+ * @param list - Lista con empleados, turnos y personal ideal
+ * @param startDate - Inicio del periodo (YYYY-MM-DD)
+ * @param endDate - Fin del periodo (YYYY-MM-DD), incluido
+ */
+export const buildRoster = (list: RosterList, startDate: string, endDate: string): Roster => {
+  const dates = getDateRange(startDate, endDate);
+  const weeks: RosterWeek[] = [];
+
+  for (let index = 0; index < dates.length; index += ROSTER_DAYS_PER_WEEK) {
+    const weekDates = dates.slice(index, index + ROSTER_DAYS_PER_WEEK);
+    const rows = list.employees.map(employee => ({
+      employeeId: employee.id,
+      name: employee.name,
+      cells: weekDates.map(date => buildRosterCell(employee, date, list.shifts))
+    }));
+
+    const totals = list.shifts.map((shift, shiftIndex) => ({
+      shiftId: shift.id,
+      label: getShiftLabel(shift),
+      color: normalizeHexColor(shift.color),
+      scheduled: weekDates.map((_, dateIndex) =>
+        rows.filter(row => row.cells[dateIndex].shiftId === shift.id).length
+      ),
+      ideal: weekDates.map(date => getShiftDataTarget(list.shiftData?.[shiftIndex], date))
+    }));
+
+    weeks.push({ dates: weekDates, rows, totals });
+  }
+
+  const leaveTypes = Array.from(new Set(
+    weeks.flatMap(week => week.rows.flatMap(row =>
+      row.cells.filter(cell => cell.kind === 'leave').map(cell => cell.label)
+    ))
+  )).sort();
+
+  return {
+    title: list.name,
+    startDate,
+    endDate,
+    weeks,
+    legend: list.shifts.map(shift => ({
+      shiftId: shift.id,
+      label: getShiftLabel(shift),
+      timeRange: `${shift.startTime} - ${shift.endTime}`,
+      color: normalizeHexColor(shift.color)
+    })),
+    leaveTypes
+  };
+};
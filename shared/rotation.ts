@@ -0,0 +1,101 @@
+// Plantillas de rotación de varias semanas. Una plantilla solo dice qué días del ciclo se
+// trabajan; al asignarla a un empleado se elige el turno y la fecha del día 1 (anchorDate)
+// y se guarda una copia en employee.rotation, que luego se puede editar día a día.
+
+import { DAY_OFF, ScheduleRotation, diffInDays } from './schedule';
+
+export const CUSTOM_ROTATION_ID = 'custom';
+
+// Límite del ciclo: 8 semanas
+export const MAX_ROTATION_CYCLE_DAYS = 56;
+
+export interface RotationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  pattern: boolean[]; // true = día de trabajo
+}
+
+// Convierte "1100111" en el patrón de días de trabajo
+const toPattern = (days: string): boolean[] => days.split('').map(day => day === '1');
+
+export const ROTATION_TEMPLATES: RotationTemplate[] = [
+  {
+    id: '4-on-4-off',
+    name: '4-on/4-off',
+    description: '4 working days followed by 4 days off (8-day cycle)',
+    pattern: toPattern('11110000')
+  },
+  {
+    id: '3-on-3-off',
+    name: '3-on/3-off',
+    description: '3 working days followed by 3 days off (6-day cycle)',
+    pattern: toPattern('111000')
+  },
+  {
+    id: 'panama-2-2-3',
+    name: 'Panama 2-2-3',
+    description: '2 on, 2 off, 3 on, 2 off, 2 on, 3 off (2-week cycle, every other weekend off)',
+    pattern: toPattern('11001110011000')
+  },
+  {
+    id: '7-on-7-off',
+    name: '7-on/7-off',
+    description: 'One week on, one week off (2-week cycle)',
+    pattern: toPattern('11111110000000')
+  },
+  {
+    id: 'dupont',
+    name: 'DuPont',
+    description: '4 on, 3 off, 3 on, 1 off, 3 on, 3 off, 4 on, 7 off (4-week cycle)',
+    pattern: toPattern('1111000111011100011110000000')
+  }
+];
+
+/**
+ * Nombre de la plantilla de una rotación ('Custom rotation' si se editó a mano)
+ */
+export const getRotationTemplateName = (templateId: string): string =>
+  ROTATION_TEMPLATES.find(template => template.id === templateId)?.name ?? 'Custom rotation';
+
+/**
+ * Resumen de una rotación: "4-on/4-off (8-day cycle from 2026-11-02)"
+ */
+export const describeRotation = (rotation: ScheduleRotation): string =>
+  `${getRotationTemplateName(rotation.templateId)} (${rotation.days.length}-day cycle from ${rotation.anchorDate})`;
+
+/**
+ * Crea la rotación de un empleado a partir de una plantilla
+ * @param template - Plantilla elegida
+ * @param shiftId - Turno de los días de trabajo
+ * @param anchorDate - Fecha del día 1 del ciclo (YYYY-MM-DD)
+ */
+export const buildRotationFromTemplate = (
+  template: RotationTemplate,
+  shiftId: string,
+  anchorDate: string
+): ScheduleRotation => ({
+  templateId: template.id,
+  anchorDate,
+  days: template.pattern.map(isWorkDay => (isWorkDay ? shiftId : DAY_OFF))
+});
+
+/**
+ * Cambia la duración del ciclo conservando los días que ya tenía (los nuevos quedan vacíos)
+ */
+export const resizeRotation = (rotation: ScheduleRotation, cycleLength: number): ScheduleRotation => {
+  const length = Math.max(1, Math.min(MAX_ROTATION_CYCLE_DAYS, Math.floor(cycleLength) || 1));
+  return {
+    ...rotation,
+    templateId: CUSTOM_ROTATION_ID,
+    days: Array.from({ length }, (_, index) => rotation.days[index] ?? '')
+  };
+};
+
+/**
+ * Día del ciclo (empezando en 1) que corresponde a una fecha, o null antes de anchorDate
+ */
+export const getRotationCycleDay = (rotation: ScheduleRotation, dateString: string): number | null => {
+  if (rotation.days.length === 0 || dateString < rotation.anchorDate) return null;
+  return (diffInDays(rotation.anchorDate, dateString) % rotation.days.length) + 1;
+};
@@ -0,0 +1,438 @@
+// Utilidades de dominio para horarios, compartidas entre el cliente y el servidor.
+// Todas las fechas se manejan como cadenas YYYY-MM-DD interpretadas en UTC,
+// igual que en la tabla Employee Schedule Provisional.
+
+import type { LeaveStatus } from './schema';
+
+export const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DAY_OFF = 'day-off';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Estructuras mínimas que necesitan las utilidades; los tipos completos del
+// cliente (types/common.ts) son compatibles con ellas.
+export interface ScheduleLeave {
+  id: string;
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+  hoursPerDay: number;
+  // Las ausencias guardadas antes del flujo de aprobación no tienen estado y cuentan como aprobadas
+  status?: LeaveStatus;
+}
+
+export interface ScheduleShift {
+  id: string;
+  startTime: string;
+  endTime: string;
+  lunchBreakDeduction?: number;
+  name?: string;
+}
+
+// Rotación de varias semanas (ver shared/rotation.ts): el día 1 del ciclo cae en anchorDate
+// y el patrón se repite cada days.length días
+export interface ScheduleRotation {
+  templateId: string; // Plantilla de la que salió el patrón ('custom' si se editó a mano)
+  anchorDate: string;
+  days: string[]; // Uno por día del ciclo: shiftId, 'day-off' o '' (sin asignación)
+}
+
+export interface ScheduleEmployee {
+  id: string;
+  name: string;
+  leave?: ScheduleLeave[];
+  fixedShifts?: { [day: string]: string[] };
+  rotation?: ScheduleRotation;
+  manualShifts?: { [date: string]: string };
+  lockedShifts?: { [date: string]: string };
+  maxConsecutiveShifts?: number; // Máximo propio; sustituye al de las reglas de la lista
+  autoDaysOff?: string[];
+  blockedShifts?: {
+    [shiftId: string]: {
+      blockedDays: string[];
+      isActive: boolean;
+    }
+  };
+}
+
+// Personal ideal de un turno (fila de shiftData): por día de la semana, domingo primero,
+// y por fecha para festivos y eventos especiales
+export interface ScheduleStaffing {
+  counts?: number[];
+  dateCounts?: { [date: string]: number };
+}
+
+export type AssignmentSource = 'leave' | 'manual' | 'fixed' | 'none';
+
+export interface ResolvedAssignment {
+  source: AssignmentSource;
+  shiftId: string | null; // null cuando no se trabaja ese día
+  isDayOff: boolean;
+  leave?: ScheduleLeave;
+}
+
+/**
+ * Convierte un Date a cadena YYYY-MM-DD (UTC)
+ * @param date - Fecha a convertir
+ * @returns Cadena con formato YYYY-MM-DD
+ */
+export const toDateString = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Convierte una cadena YYYY-MM-DD a Date a medianoche UTC
+ * @param dateString - Fecha en formato YYYY-MM-DD
+ * @returns Date en UTC (inválido si la cadena no es una fecha)
+ */
+export const parseDateString = (dateString: string): Date => {
+  return new Date(dateString + 'T00:00:00Z');
+};
+
+/**
+ * Suma (o resta) días a una fecha YYYY-MM-DD
+ * @param dateString - Fecha base
+ * @param days - Número de días a sumar, puede ser negativo
+ * @returns Nueva fecha en formato YYYY-MM-DD
+ */
+export const addDays = (dateString: string, days: number): string => {
+  const date = parseDateString(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+};
+
+/**
+ * Diferencia en días entre dos fechas YYYY-MM-DD
+ * @returns Días desde `from` hasta `to` (negativo si `to` es anterior)
+ */
+export const diffInDays = (from: string, to: string): number => {
+  return Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / MS_PER_DAY);
+};
+
+/**
+ * Genera todas las fechas entre dos fechas, ambas incluidas
+ * @param startDate - Fecha inicial YYYY-MM-DD
+ * @param endDate - Fecha final YYYY-MM-DD
+ * @returns Array de fechas YYYY-MM-DD (vacío si el rango es inválido)
+ */
+export const getDateRange = (startDate: string, endDate: string): string[] => {
+  const start = parseDateString(startDate);
+  const end = parseDateString(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return [];
+
+  const dates: string[] = [];
+  for (let d = new Date(start); d.getTime() <= end.getTime(); d.setUTCDate(d.getUTCDate() + 1)) {
+    dates.push(toDateString(d));
+  }
+  return dates;
+};
+
+/**
+ * Obtiene el nombre del día de la semana en inglés (ej. "Monday")
+ * @param dateString - Fecha YYYY-MM-DD
+ */
+export const getDayOfWeek = (dateString: string): string => {
+  return DAYS_OF_WEEK[parseDateString(dateString).getUTCDay()];
+};
+
+/**
+ * Indica si una fecha cae en sábado o domingo
+ */
+export const isWeekend = (dateString: string): boolean => {
+  const day = parseDateString(dateString).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+/**
+ * Convierte una hora en formato "7:00 AM" o "19:00" a minutos desde medianoche
+ * @param time - Hora en formato 12h (con AM/PM) o 24h
+ * @returns Minutos desde medianoche o null si el formato no es válido
+ */
+export const parseTimeToMinutes = (time: string | undefined): number | null => {
+  if (!time) return null;
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const period = match[3]?.toUpperCase();
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Calcula el intervalo absoluto de un turno trabajado en una fecha.
+ * Los turnos cuya hora de fin es menor o igual a la de inicio (ej. 11:00 PM - 7:00 AM)
+ * terminan al día siguiente.
+ * @returns Inicio y fin en milisegundos UTC, o null si las horas no son válidas
+ */
+export const getShiftInterval = (shift: ScheduleShift, dateString: string): { start: number; end: number } | null => {
+  const startMinutes = parseTimeToMinutes(shift.startTime);
+  const endMinutes = parseTimeToMinutes(shift.endTime);
+  if (startMinutes === null || endMinutes === null) return null;
+
+  const dayStart = parseDateString(dateString).getTime();
+  const start = dayStart + startMinutes * 60000;
+  let end = dayStart + endMinutes * 60000;
+  if (end <= start) {
+    end += MS_PER_DAY;
+  }
+  return { start, end };
+};
+
+/**
+ * Horas pagadas de un turno, descontando el almuerzo (en minutos)
+ * @param shift - Turno a medir
+ * @returns Horas del turno, nunca negativas
+ */
+export const getShiftHours = (shift: ScheduleShift): number => {
+  const interval = getShiftInterval(shift, '2000-01-01');
+  if (!interval) return 0;
+  const minutes = (interval.end - interval.start) / 60000 - (shift.lunchBreakDeduction || 0);
+  return Math.max(0, minutes / 60);
+};
+
+/**
+ * Personal ideal de una fila de shiftData en una fecha: el valor de esa fecha si tiene uno
+ * (dateCounts) o, si no, el del día de la semana
+ * @param row - Fila de shiftData del turno
+ * @param dateString - Fecha YYYY-MM-DD
+ */
+export const getShiftDataTarget = (row: ScheduleStaffing | undefined, dateString: string): number => {
+  const override = row?.dateCounts?.[dateString];
+  if (override !== undefined) return override;
+  return row?.counts?.[parseDateString(dateString).getUTCDay()] || 0;
+};
+
+/**
+ * Horas de descanso entre el fin de un turno y el inicio del siguiente
+ * @returns Horas de descanso (negativas si los turnos se solapan) o null si algún turno no es válido
+ */
+export const getRestHoursBetween = (
+  previousShift: ScheduleShift,
+  previousDate: string,
+  nextShift: ScheduleShift,
+  nextDate: string
+): number | null => {
+  const previous = getShiftInterval(previousShift, previousDate);
+  const next = getShiftInterval(nextShift, nextDate);
+  if (!previous || !next) return null;
+  return (next.start - previous.end) / 3600000;
+};
+
+/**
+ * Indica si un permiso está aprobado; solo los aprobados bloquean días del horario
+ */
+export const isApprovedLeave = (leave: { status?: LeaveStatus }): boolean => {
+  return !leave.status || leave.status === 'approved';
+};
+
+/**
+ * Busca el permiso (leave) aprobado que cubre una fecha
+ * @returns El permiso encontrado o undefined
+ */
+export const findLeaveForDate = (employee: ScheduleEmployee, dateString: string): ScheduleLeave | undefined => {
+  return employee.leave?.find(l => isApprovedLeave(l) && l.startDate <= dateString && l.endDate >= dateString);
+};
+
+/**
+ * Indica si un turno está bloqueado para el empleado en una fecha
+ * (blockedDays usa días en minúscula, ej. 'monday', o 'all')
+ */
+export const isShiftBlockedOnDate = (employee: ScheduleEmployee, shiftId: string, dateString: string): boolean => {
+  const blocked = employee.blockedShifts?.[shiftId];
+  if (!blocked || !blocked.isActive) return false;
+  const day = getDayOfWeek(dateString).toLowerCase();
+  return blocked.blockedDays.includes('all') || blocked.blockedDays.includes(day);
+};
+
+/**
+ * Valor de la rotación en una fecha; null antes de anchorDate o si el día del ciclo está vacío
+ */
+export const getRotationShift = (rotation: ScheduleRotation | undefined, dateString: string): string | null => {
+  if (!rotation || rotation.days.length === 0 || !rotation.anchorDate || dateString < rotation.anchorDate) return null;
+  const index = diffInDays(rotation.anchorDate, dateString) % rotation.days.length;
+  return rotation.days[index] || null;
+};
+
+/**
+ * Turno recurrente de un empleado en una fecha: el de su rotación si la tiene y ya empezó;
+ * si no, el turno fijo de ese día de la semana
+ * @returns ID del turno, 'day-off' o null si no tiene nada asignado
+ */
+export const getRecurringShift = (employee: Pick<ScheduleEmployee, 'fixedShifts' | 'rotation'>, dateString: string): string | null => {
+  if (employee.rotation && dateString >= employee.rotation.anchorDate) {
+    return getRotationShift(employee.rotation, dateString);
+  }
+  return employee.fixedShifts?.[getDayOfWeek(dateString)]?.[0] || null;
+};
+
+/**
+ * Resuelve la asignación efectiva de un empleado en una fecha.
+ * Prioridad: permiso, luego turno manual y por último el turno recurrente (rotación o
+ * turno fijo del día de la semana).
+ * @returns Origen de la asignación y el turno trabajado (null si no trabaja)
+ */
+export const resolveAssignment = (employee: ScheduleEmployee, dateString: string): ResolvedAssignment => {
+  const leave = findLeaveForDate(employee, dateString);
+  if (leave) {
+    return { source: 'leave', shiftId: null, isDayOff: false, leave };
+  }
+
+  const manualShift = employee.manualShifts?.[dateString];
+  if (manualShift) {
+    return manualShift === DAY_OFF
+      ? { source: 'manual', shiftId: null, isDayOff: true }
+      : { source: 'manual', shiftId: manualShift, isDayOff: false };
+  }
+
+  const fixedShift = getRecurringShift(employee, dateString);
+  if (fixedShift) {
+    return fixedShift === DAY_OFF
+      ? { source: 'fixed', shiftId: null, isDayOff: true }
+      : { source: 'fixed', shiftId: fixedShift, isDayOff: false };
+  }
+
+  return { source: 'none', shiftId: null, isDayOff: false };
+};
+
+/**
+ * Atajo para obtener solo el ID del turno trabajado en una fecha
+ * @returns ID del turno o null si el empleado no trabaja ese día
+ */
+export const getEffectiveShiftId = (employee: ScheduleEmployee, dateString: string): string | null => {
+  return resolveAssignment(employee, dateString).shiftId;
+};
+
+/**
+ * Convierte un valor numérico de las reglas (guardado como texto) a número
+ * @returns El número, o el valor por defecto si está vacío o no es válido
+ */
+export const parseRuleNumber = (value: string | undefined, fallback: number = 0): number => {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+// Campos de las reglas de la lista (guardados como texto) que usan las validaciones
+export interface ScheduleRuleLimits {
+  startDate: string;
+  endDate: string;
+  maxConsecutiveShifts: string;
+  minRestHoursBetweenShifts: string;
+}
+
+/**
+ * Indica si una fecha está dentro del rango de las reglas (si el rango está definido)
+ */
+const isWithinRange = (rules: ScheduleRuleLimits, dateString: string): boolean => {
+  if (rules.startDate && dateString < rules.startDate) return false;
+  if (rules.endDate && dateString > rules.endDate) return false;
+  return true;
+};
+
+/**
+ * Cuenta los días trabajados consecutivos que terminan en una fecha,
+ * considerando turnos manuales y fijos. Los permisos y días libres cortan la racha.
+ * @param employee - Empleado a revisar
+ * @param dateString - Última fecha de la racha (YYYY-MM-DD)
+ * @param rules - Reglas; la cuenta no sale del rango startDate..endDate
+ * @returns Número de días trabajados seguidos (0 si ese día no trabaja)
+ */
+export const countConsecutiveWorkedDays = (
+  employee: ScheduleEmployee,
+  dateString: string,
+  rules: ScheduleRuleLimits
+): number => {
+  let count = 0;
+  let current = dateString;
+  while (isWithinRange(rules, current) && resolveAssignment(employee, current).shiftId) {
+    count++;
+    current = addDays(current, -1);
+  }
+  return count;
+};
+
+/**
+ * Máximo de turnos consecutivos de un empleado: el suyo si lo tiene o, si no, el de las reglas
+ * @returns 0 si no hay máximo
+ */
+export const getMaxConsecutiveShifts = (
+  employee: Pick<ScheduleEmployee, 'maxConsecutiveShifts'>,
+  rules: Pick<ScheduleRuleLimits, 'maxConsecutiveShifts'>
+): number => {
+  return employee.maxConsecutiveShifts || parseRuleNumber(rules.maxConsecutiveShifts);
+};
+
+/**
+ * Indica si el día trabajado supera el máximo de turnos consecutivos del empleado
+ * (getMaxConsecutiveShifts).
+ * Solo se marcan los días que quedan por encima del máximo dentro de la racha.
+ * @returns true si la regla se incumple en esa fecha
+ */
+export const exceedsMaxConsecutiveShifts = (
+  employee: ScheduleEmployee,
+  dateString: string,
+  rules: ScheduleRuleLimits
+): boolean => {
+  const maxConsecutive = getMaxConsecutiveShifts(employee, rules);
+  if (maxConsecutive <= 0) return false;
+  return countConsecutiveWorkedDays(employee, dateString, rules) > maxConsecutive;
+};
+
+/**
+ * Calcula el menor descanso entre el turno de una fecha y los turnos de los días vecinos.
+ * Tiene en cuenta turnos nocturnos que terminan al día siguiente (ej. 11:00 PM - 7:00 AM).
+ * @param shiftId - Turno trabajado en la fecha
+ * @returns Horas de descanso mínimas, o null si no hay turnos vecinos con los que comparar
+ */
+export const getMinRestHoursAround = (
+  employee: ScheduleEmployee,
+  dateString: string,
+  shiftId: string,
+  shifts: ScheduleShift[]
+): number | null => {
+  const shift = shifts.find(s => s.id === shiftId);
+  if (!shift) return null;
+
+  const previousDate = addDays(dateString, -1);
+  const nextDate = addDays(dateString, 1);
+  const previousShift = shifts.find(s => s.id === resolveAssignment(employee, previousDate).shiftId);
+  const nextShift = shifts.find(s => s.id === resolveAssignment(employee, nextDate).shiftId);
+
+  const rests: number[] = [];
+  if (previousShift) {
+    const rest = getRestHoursBetween(previousShift, previousDate, shift, dateString);
+    if (rest !== null) rests.push(rest);
+  }
+  if (nextShift) {
+    const rest = getRestHoursBetween(shift, dateString, nextShift, nextDate);
+    if (rest !== null) rests.push(rest);
+  }
+  return rests.length > 0 ? Math.min(...rests) : null;
+};
+
+/**
+ * Indica si el turno de una fecha deja menos descanso que minRestHoursBetweenShifts
+ * respecto al turno anterior o al siguiente.
+ * @returns true si la regla se incumple en esa fecha
+ */
+export const violatesMinRestTime = (
+  employee: ScheduleEmployee,
+  dateString: string,
+  shiftId: string,
+  rules: ScheduleRuleLimits,
+  shifts: ScheduleShift[]
+): boolean => {
+  const minRest = parseRuleNumber(rules.minRestHoursBetweenShifts);
+  if (minRest <= 0 || !shiftId) return false;
+  const rest = getMinRestHoursAround(employee, dateString, shiftId, shifts);
+  return rest !== null && rest < minRest;
+};
@@ -1,16 +1,406 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey, real } from "drizzle-orm/pg-core";
 import { z } from "zod";
+import { DATA_BUNDLE_FORMAT, DATA_BUNDLE_VERSION } from "./dataBundle";
+import { auditFields, auditSources } from "./auditLog";
+import type { ScheduleSnapshot } from "./publishing";
+
+// Roles: el supervisor gestiona todo, el scheduler edita las listas que tiene asignadas
+// y el empleado solo consulta su propio horario
+export const userRoles = ["supervisor", "scheduler", "employee"] as const;
+export type UserRole = typeof userRoles[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("employee"),
 });
 
 export const insertUserSchema = z.object({
   username: z.string().min(1, "Username is required").min(3, "Username must be at least 3 characters long"),
   password: z.string().min(1, "Password is required").min(6, "Password must be at least 6 characters long"),
+  role: z.enum(userRoles).default("employee"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const assignListsSchema = z.object({
+  listIds: z.array(z.string().min(1)),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// --- Listas de empleados ---
+// Cada lista guarda sus reglas y configuración en la propia fila;
+// empleados y turnos viven en tablas hijas ordenadas por `position`.
+
+export const employeeLists = pgTable("employee_lists", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  rules: jsonb("rules").notNull(),
+  priorities: jsonb("priorities").notNull().default({}),
+  shiftData: jsonb("shift_data").notNull().default([]),
+  // Calendario de festivos (ver shared/holidays.ts)
+  holidays: jsonb("holidays").notNull().default([]),
+  // Tarifas y presupuesto de personal (ver shared/laborCost.ts)
+  laborBudget: jsonb("labor_budget").notNull().default({}),
+  specialRules: jsonb("special_rules"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const listEmployees = pgTable("list_employees", {
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  id: text("id").notNull(),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  email: text("email").notNull().default(""),
+  // Resto del empleado (preferencias, notas, permisos, turnos fijos/manuales, etc.)
+  data: jsonb("data").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.listId, table.id] }),
+}));
+
+export const listShifts = pgTable("list_shifts", {
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  id: text("id").notNull(),
+  position: integer("position").notNull(),
+  name: text("name"),
+  color: text("color"),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  duration: text("duration").notNull().default(""),
+  lunchBreakDeduction: integer("lunch_break_deduction").notNull().default(0),
+  isOvertimeActive: boolean("is_overtime_active").notNull().default(false),
+  overtimeEntries: jsonb("overtime_entries").notNull().default([]),
+  // Campos de compatibilidad del cliente (start, end, nurseCounts, shiftComments...)
+  data: jsonb("data").notNull().default({}),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.listId, table.id] }),
+}));
+
+// Listas que puede editar cada usuario con rol scheduler
+export const listAssignments = pgTable("list_assignments", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.listId] }),
+}));
+
+// Ciclo de vida de una ausencia: pending → approved | rejected, y cualquiera
+// de las dos primeras puede acabar en cancelled
+export const leaveStatuses = ["pending", "approved", "rejected", "cancelled"] as const;
+export type LeaveStatus = typeof leaveStatuses[number];
+
+// Solicitudes de ausencia; al aprobarlas un supervisor pasan a employee.leave
+export const leaveRequests = pgTable("leave_requests", {
+  id: serial("id").primaryKey(),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  employeeId: text("employee_id").notNull(),
+  requestedBy: integer("requested_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  leaveType: text("leave_type").notNull(),
+  hoursPerDay: real("hours_per_day").notNull().default(0),
+  reason: text("reason"),
+  status: text("status", { enum: leaveStatuses }).notNull().default("pending"),
+  decidedBy: integer("decided_by").references(() => users.id, { onDelete: "set null" }),
+  decisionReason: text("decision_reason"),
+  decidedAt: timestamp("decided_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Registro de auditoría de los intercambios de turnos (quién cambió qué celdas)
+export const shiftSwaps = pgTable("shift_swaps", {
+  id: serial("id").primaryKey(),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  employeeId: text("employee_id").notNull(),
+  date: text("date").notNull(),
+  counterpartEmployeeId: text("counterpart_employee_id").notNull(),
+  counterpartDate: text("counterpart_date").notNull(),
+  // [{ employeeId, date, before, after }] con los valores de manualShifts
+  changes: jsonb("changes").notNull(),
+  swappedBy: integer("swapped_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Enlaces de suscripción al calendario (.ics) de un empleado; el token es la única credencial
+export const calendarFeeds = pgTable("calendar_feeds", {
+  token: text("token").primaryKey(),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  employeeId: text("employee_id").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Versiones publicadas del horario (ver shared/publishing.ts); nunca se modifican
+export const schedulePublications = pgTable("schedule_publications", {
+  id: serial("id").primaryKey(),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  // Número de versión dentro de la lista: 1, 2, 3...
+  version: integer("version").notNull(),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  // ScheduleSnapshot con los turnos y ausencias de cada empleado en el periodo
+  snapshot: jsonb("snapshot").notNull(),
+  publishedBy: integer("published_by").references(() => users.id, { onDelete: "set null" }),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+});
+
+// Avisos a los empleados: cambios en su horario publicado, intercambios y decisiones de ausencias
+export const notificationTypes = [
+  "assignment-added",
+  "assignment-removed",
+  "assignment-changed",
+  "swap-approved",
+  "leave-decided",
+] as const;
+export type NotificationType = typeof notificationTypes[number];
+
+// sent/failed: resultado del envío por email; skipped si el empleado no tiene email o no hay transporte
+export const notificationEmailStatuses = ["sent", "failed", "skipped"] as const;
+
+// Bandeja de entrada de cada empleado de una lista; cada aviso se envía también por email
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  listId: text("list_id").notNull().references(() => employeeLists.id, { onDelete: "cascade" }),
+  employeeId: text("employee_id").notNull(),
+  type: text("type", { enum: notificationTypes }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  // Dirección a la que se envió (el email del empleado en ese momento)
+  email: text("email"),
+  emailStatus: text("email_status", { enum: notificationEmailStatuses }).notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Registro de auditoría de los cambios del horario (ver shared/auditLog.ts). Solo se añaden
+// filas: no tiene clave foránea a la lista para conservarse aunque la lista se borre.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  listId: text("list_id").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  // Nombre del usuario en el momento del cambio
+  username: text("username").notNull(),
+  source: text("source", { enum: auditSources }).notNull(),
+  field: text("field", { enum: auditFields }).notNull(),
+  employeeId: text("employee_id"),
+  date: text("date"),
+  endDate: text("end_date"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const rulesSchema = z.object({
+  startDate: z.string().default(""),
+  endDate: z.string().default(""),
+  maxConsecutiveShifts: z.string().default(""),
+  minDaysOffAfterMax: z.string().default(""),
+  minWeekendsOffPerMonth: z.string().default(""),
+  minRestHoursBetweenShifts: z.string().default(""),
+  writtenRule1: z.string().default(""),
+  writtenRule2: z.string().default(""),
+  minHoursPerWeek: z.string().default(""),
+  minHoursPerTwoWeeks: z.string().default(""),
+  maxHolidaysWorked: z.string().default(""),
+});
+
+export const shiftSchema = z.object({
+  id: z.string().min(1, "Shift ID is required"),
+  startTime: z.string().min(1, "Start time is required"),
+  endTime: z.string().min(1, "End time is required"),
+  duration: z.string().default(""),
+  lunchBreakDeduction: z.number().default(0),
+  isOvertimeActive: z.boolean().default(false),
+  overtimeEntries: z.array(z.object({
+    date: z.string(),
+    quantity: z.number(),
+    isActive: z.boolean(),
+  })).default([]),
+  name: z.string().optional(),
+  color: z.string().optional(),
+  // Certificaciones que hay que tener vigentes para trabajar el turno (ej. BLS)
+  requiredCertifications: z.array(z.string().min(1).max(100)).optional(),
+}).passthrough();
+
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must use the YYYY-MM-DD format");
+
+export const holidaySchema = z.object({
+  date: dateStringSchema,
+  name: z.string().min(1, "Holiday name is required").max(100, "Holiday name too long"),
+  // Festivos que se rotan entre sí (ej. Navidad y Año Nuevo)
+  group: z.string().max(100).optional(),
+});
+
+export const laborBudgetSchema = z.object({
+  // Presupuesto de personal del periodo del horario
+  budget: z.number().min(0).default(0),
+  // Tarifa por hora de los empleados sin tarifa propia ni de su rol
+  defaultHourlyRate: z.number().min(0).default(0),
+  overtimeMultiplier: z.number().min(1).max(5).default(1.5),
+  roleRates: z.record(z.string().min(1).max(100), z.number().min(0)).default({}),
+});
+
+// Certificación o habilidad del empleado (ej. BLS, ACLS); sin expiresOn no caduca
+export const certificationSchema = z.object({
+  name: z.string().min(1, "Certification name is required").max(100, "Certification name too long"),
+  expiresOn: dateStringSchema.optional(),
+});
+
+// Solo se validan los campos de identidad, coste y cualificación; el resto del empleado se conserva tal cual
+export const employeeSchema = z.object({
+  id: z.string().min(1, "Employee ID is required"),
+  name: z.string().min(1, "Employee name is required"),
+  email: z.string().default(""),
+  // Cuenta de usuario del propio empleado (rol employee)
+  userId: z.number().int().positive().optional(),
+  role: z.string().max(100).optional(),
+  hourlyRate: z.number().min(0).optional(),
+  certifications: z.array(certificationSchema).optional(),
+}).passthrough();
+
+export const insertEmployeeListSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  name: z.string().min(1, "List name is required").max(100, "List name too long"),
+  employees: z.array(employeeSchema).default([]),
+  shifts: z.array(shiftSchema).default([]),
+  rules: rulesSchema.default({}),
+  priorities: z.record(z.record(z.boolean())).default({}),
+  shiftData: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    timeRange: z.string(),
+    counts: z.array(z.number()),
+    // Personal ideal de fechas concretas (festivos, eventos) que sustituye al del día de la semana
+    dateCounts: z.record(dateStringSchema, z.number().int().min(0)).optional(),
+    // Mínimo de cada rol por día de la semana (domingo primero)
+    roleCounts: z.record(z.string().min(1).max(100), z.array(z.number().int().min(0)).length(7)).optional(),
+    idealNumber: z.number(),
+  }).passthrough()).default([]),
+  holidays: z.array(holidaySchema).default([]),
+  laborBudget: laborBudgetSchema.default({}),
+  specialRules: z.record(z.any()).optional(),
+});
+
+export const updateEmployeeListSchema = insertEmployeeListSchema.omit({ id: true }).partial();
+
+// Migración única de los datos guardados en localStorage (clave `employeeLists`)
+export const importEmployeeListsSchema = z.object({
+  lists: z.array(insertEmployeeListSchema.extend({ id: z.string().min(1).max(100) })),
+});
+
+// Paquete versionado de Export/Import Data (ver shared/dataBundle.ts)
+export const dataBundleSchema = z.object({
+  format: z.literal(DATA_BUNDLE_FORMAT, { errorMap: () => ({ message: "Not a WAOK-Schedule data file" }) }),
+  version: z.number().int().refine(version => version === DATA_BUNDLE_VERSION, {
+    message: `Unsupported data file version (expected ${DATA_BUNDLE_VERSION})`,
+  }),
+  exportedAt: z.string(),
+  lists: z.array(insertEmployeeListSchema.extend({ id: z.string().min(1).max(100) })),
+});
+
+export const previewDataBundleSchema = z.object({
+  bundle: dataBundleSchema,
+});
+
+// merge combina con las listas existentes del mismo ID; replace las sustituye
+export const importDataBundleSchema = previewDataBundleSchema.extend({
+  mode: z.enum(["merge", "replace"]),
+});
+
+export const insertLeaveRequestSchema = z.object({
+  employeeId: z.string().min(1, "Employee ID is required"),
+  startDate: dateStringSchema,
+  endDate: dateStringSchema,
+  leaveType: z.string().min(1, "Leave type is required").max(100),
+  hoursPerDay: z.number().min(0).max(24),
+  reason: z.string().max(500).optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+// Motivo opcional al aprobar o rechazar una solicitud
+export const leaveDecisionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const insertShiftSwapSchema = z.object({
+  employeeId: z.string().min(1, "Employee ID is required"),
+  date: dateStringSchema,
+  counterpartEmployeeId: z.string().min(1, "Counterpart employee ID is required"),
+  counterpartDate: dateStringSchema,
+}).refine(data => data.employeeId !== data.counterpartEmployeeId, {
+  message: "Choose a different employee to swap with",
+  path: ["counterpartEmployeeId"],
+});
+
+// Periodo de las salidas del horario (roster imprimible, exportaciones); máximo un año
+export const MAX_SCHEDULE_PERIOD_DAYS = 366;
+
+export const schedulePeriodSchema = z.object({
+  startDate: dateStringSchema,
+  endDate: dateStringSchema,
+}).refine(data => data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+}).refine(data => (Date.parse(data.endDate) - Date.parse(data.startDate)) / 86400000 < MAX_SCHEDULE_PERIOD_DAYS, {
+  message: `The period cannot be longer than ${MAX_SCHEDULE_PERIOD_DAYS} days`,
+  path: ["endDate"],
+});
+
+// Filtros del visor de auditoría; date incluye las ausencias cuyo rango contiene el día
+export const auditEventFiltersSchema = z.object({
+  employeeId: z.string().min(1).optional(),
+  date: dateStringSchema.optional(),
+  field: z.enum(auditFields).optional(),
+});
+
+export const shiftPreferencesSchema = z.object({
+  shiftPreferences: z.array(z.number().int().min(1).max(3).nullable()),
+});
+
+// username null desvincula la cuenta
+export const linkEmployeeAccountSchema = z.object({
+  username: z.string().min(1).nullable(),
+});
+
+export type InsertEmployeeList = z.infer<typeof insertEmployeeListSchema>;
+export type UpdateEmployeeList = z.infer<typeof updateEmployeeListSchema>;
+export type StoredEmployee = z.infer<typeof employeeSchema>;
+export type LaborBudget = z.infer<typeof laborBudgetSchema>;
+export type EmployeeCertification = z.infer<typeof certificationSchema>;
+export type StoredShift = z.infer<typeof shiftSchema>;
+export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+export type LeaveRequestChanges = Partial<Pick<LeaveRequest, "status" | "decidedBy" | "decisionReason" | "decidedAt" | "cancelledAt">>;
+export type InsertShiftSwap = z.infer<typeof insertShiftSwapSchema>;
+export type ShiftSwap = typeof shiftSwaps.$inferSelect;
+export type NewShiftSwapRecord = Omit<typeof shiftSwaps.$inferInsert, "id" | "listId" | "createdAt">;
+export type SchedulePeriod = z.infer<typeof schedulePeriodSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type NewCalendarFeed = Omit<typeof calendarFeeds.$inferInsert, "createdAt">;
+export type SchedulePublication = Omit<typeof schedulePublications.$inferSelect, "snapshot"> & {
+  snapshot: ScheduleSnapshot;
+};
+export type NewSchedulePublication = Pick<SchedulePublication, "startDate" | "endDate" | "snapshot" | "publishedBy">;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = Omit<typeof notifications.$inferInsert, "id" | "readAt" | "createdAt">;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = Omit<typeof auditEvents.$inferInsert, "id" | "createdAt">;
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+export type EmployeeListRecord = Omit<InsertEmployeeList, "id"> & {
+  id: string;
+  updatedAt: string;
+};
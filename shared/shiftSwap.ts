@@ -0,0 +1,157 @@
+// Intercambio de turnos entre dos empleados. Se comparte entre el cliente (vista previa
+// en el modal) y el servidor, que vuelve a validar antes de guardar.
+
+import {
+  DAY_OFF,
+  ScheduleEmployee,
+  ScheduleRuleLimits,
+  ScheduleShift,
+  addDays,
+  exceedsMaxConsecutiveShifts,
+  getMaxConsecutiveShifts,
+  isShiftBlockedOnDate,
+  parseRuleNumber,
+  resolveAssignment,
+  violatesMinRestTime
+} from './schedule';
+import { CertificationShift, describeMissingCertifications, getMissingCertifications } from './certifications';
+
+export interface ShiftSwapRequest {
+  employeeId: string;
+  date: string;
+  counterpartEmployeeId: string;
+  counterpartDate: string;
+}
+
+// Celda modificada por el intercambio: turno, 'day-off' o null si estaba vacía
+export interface ShiftSwapChange {
+  employeeId: string;
+  date: string;
+  before: string | null;
+  after: string;
+}
+
+export interface ShiftSwapPlan<T extends ScheduleEmployee> {
+  employee: T;
+  counterpart: T;
+  changes: ShiftSwapChange[];
+  errors: string[];
+}
+
+/**
+ * Valor efectivo de una celda: el turno trabajado, 'day-off' o null si no hay nada asignado
+ */
+const getCellValue = (employee: ScheduleEmployee, dateString: string): string | null => {
+  const assignment = resolveAssignment(employee, dateString);
+  if (assignment.shiftId) return assignment.shiftId;
+  return assignment.isDayOff ? DAY_OFF : null;
+};
+
+const describeShift = (shifts: ScheduleShift[], value: string | null): string => {
+  if (!value || value === DAY_OFF) return 'a day off';
+  const shift = shifts.find(s => s.id === value);
+  if (!shift) return value;
+  return shift.name || `${shift.startTime} - ${shift.endTime}`;
+};
+
+/**
+ * Días trabajados consecutivos que superan el máximo, desde la fecha hasta donde
+ * un turno nuevo puede alargar la racha
+ */
+const getConsecutiveViolations = (employee: ScheduleEmployee, dateString: string, rules: ScheduleRuleLimits): string[] => {
+  const maxConsecutive = getMaxConsecutiveShifts(employee, rules);
+  if (maxConsecutive <= 0) return [];
+  return Array.from({ length: maxConsecutive + 1 }, (_, offset) => addDays(dateString, offset))
+    .filter(date => exceedsMaxConsecutiveShifts(employee, date, rules));
+};
+
+/**
+ * Prepara el intercambio de turnos entre dos empleados.
+ * En cada fecha afectada (la del empleado y la de su contraparte) ambos intercambian
+ * su asignación efectiva, que pasa a guardarse en manualShifts. Así un mismo día se
+ * intercambian los turnos, y con dos fechas distintas cada uno cubre el día del otro.
+ * Se valida contra los turnos bloqueados, los permisos aprobados, las celdas fijadas
+ * (lockedShifts), las certificaciones que exige el turno, el descanso mínimo y el máximo
+ * de turnos consecutivos.
+ * @returns Empleados actualizados, celdas modificadas y errores (vacío si se puede aplicar)
+ */
+export const planShiftSwap = <T extends ScheduleEmployee>(
+  employee: T,
+  counterpart: T,
+  request: ShiftSwapRequest,
+  shifts: CertificationShift[],
+  rules: ScheduleRuleLimits
+): ShiftSwapPlan<T> => {
+  const errors: string[] = [];
+  const dates = Array.from(new Set([request.date, request.counterpartDate])).sort();
+
+  if (employee.id === counterpart.id) {
+    errors.push('Choose a different employee to swap with');
+  }
+
+  const updatedEmployee: T = { ...employee, manualShifts: { ...employee.manualShifts } };
+  const updatedCounterpart: T = { ...counterpart, manualShifts: { ...counterpart.manualShifts } };
+  const changes: ShiftSwapChange[] = [];
+
+  dates.forEach(date => {
+    [employee, counterpart].forEach(current => {
+      if (resolveAssignment(current, date).source === 'leave') {
+        errors.push(`${current.name} is on leave on ${date}`);
+      }
+      if (current.lockedShifts?.[date]) {
+        errors.push(`${current.name}'s shift on ${date} is locked at the employee's request`);
+      }
+    });
+
+    const employeeValue = getCellValue(employee, date);
+    const counterpartValue = getCellValue(counterpart, date);
+    if (employeeValue === counterpartValue) return;
+
+    const employeeAfter = counterpartValue || DAY_OFF;
+    const counterpartAfter = employeeValue || DAY_OFF;
+    updatedEmployee.manualShifts![date] = employeeAfter;
+    updatedCounterpart.manualShifts![date] = counterpartAfter;
+    changes.push(
+      { employeeId: employee.id, date, before: employeeValue, after: employeeAfter },
+      { employeeId: counterpart.id, date, before: counterpartValue, after: counterpartAfter }
+    );
+  });
+
+  if (changes.length === 0) {
+    errors.push('Both employees already have the same assignment on the selected dates');
+  }
+
+  changes.forEach(change => {
+    if (change.after === DAY_OFF) return;
+    const updated = change.employeeId === employee.id ? updatedEmployee : updatedCounterpart;
+    const label = describeShift(shifts, change.after);
+
+    if (isShiftBlockedOnDate(updated, change.after, change.date)) {
+      errors.push(`${updated.name} has ${label} blocked on ${change.date}`);
+    }
+    const missing = getMissingCertifications(updated, shifts.find(s => s.id === change.after), change.date);
+    if (missing.length > 0) {
+      errors.push(`${updated.name} cannot work ${label} on ${change.date}: ${describeMissingCertifications(missing)}`);
+    }
+    if (violatesMinRestTime(updated, change.date, change.after, rules, shifts)) {
+      errors.push(`${updated.name} would not get ${parseRuleNumber(rules.minRestHoursBetweenShifts)} hours of rest around ${change.date}`);
+    }
+  });
+
+  // Solo cuentan las rachas que el intercambio crea, no las que ya existían
+  [[employee, updatedEmployee], [counterpart, updatedCounterpart]].forEach(([before, after]) => {
+    const previous = new Set(dates.flatMap(date => getConsecutiveViolations(before, date, rules)));
+    const introduced = Array.from(new Set(dates.flatMap(date => getConsecutiveViolations(after, date, rules))))
+      .filter(date => !previous.has(date));
+    if (introduced.length > 0) {
+      errors.push(`${after.name} would exceed ${getMaxConsecutiveShifts(after, rules)} consecutive shifts on ${introduced.sort()[0]}`);
+    }
+  });
+
+  return {
+    employee: updatedEmployee,
+    counterpart: updatedCounterpart,
+    changes,
+    errors: Array.from(new Set(errors))
+  };
+};
@@ -16,6 +16,11 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./test-setup.ts'],
+    // Primer supervisor que crea el servidor en las pruebas (ver server/bootstrap.ts)
+    env: {
+      INITIAL_SUPERVISOR_USERNAME: 'admin',
+      INITIAL_SUPERVISOR_PASSWORD: 'test-supervisor-password'
+    },
     // Configuración específica para pruebas de integración
     testTimeout: 30000, // 30 segundos para pruebas de API
     hookTimeout: 10000, // 10 segundos para hooks de setup/teardown
@@ -50,6 +55,7 @@ export default defineConfig({
       '.git',
       '.cache',
       'client/src/tests/e2e/**', // Excluir pruebas E2E de Playwright
+      'tests/cross-browser/**', // Excluir pruebas multinavegador de Playwright
     ],
     // Configuración para pruebas de base de datos
     pool: 'threads',